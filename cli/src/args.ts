@@ -0,0 +1,88 @@
+/**
+ * @file args.ts
+ * @description Command-line parsing: the command name, its positional arguments and its options, read
+ * with `util.parseArgs` against the options each command declares. Mistakes raise a `UsageError`, which
+ * the CLI reports with the usage text and exit status 2.
+ */
+
+import { parseArgs } from 'util';
+
+export interface OptionSpec {
+  type: 'string' | 'boolean';
+  short?: string;
+}
+
+export type OptionSpecs = Record<string, OptionSpec>;
+
+export interface CommandArgs {
+  positionals: string[];
+  values: Record<string, string | boolean | undefined>;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Parses the arguments after the command name. Options may come before or after positionals.
+ */
+export function parseCommandArgs(args: string[], specs: OptionSpecs): CommandArgs {
+  try {
+    const { positionals, values } = parseArgs({ args, options: specs, allowPositionals: true, strict: true });
+    return { positionals, values: values as CommandArgs['values'] };
+  } catch (err: any) {
+    throw new UsageError(err?.message || String(err));
+  }
+}
+
+export function stringOption(args: CommandArgs, name: string): string | undefined {
+  const value = args.values[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function integerOption(args: CommandArgs, name: string, min: number = 1): number | undefined {
+  const value = stringOption(args, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value.trim()) || parsed < min) throw new UsageError(`--${name} must be an integer of at least ${min}`);
+  return parsed;
+}
+
+/**
+ * Reads an on/off switch declared as two boolean options, `--<name>` and `--no-<name>`.
+ */
+export function switchOption(args: CommandArgs, name: string): boolean | undefined {
+  const on = args.values[name] === true;
+  const off = args.values[`no-${name}`] === true;
+  if (on && off) throw new UsageError(`--${name} and --no-${name} cannot be used together`);
+  return on ? true : off ? false : undefined;
+}
+
+export function listOption(args: CommandArgs, name: string): string[] | undefined {
+  const value = stringOption(args, name);
+  if (value === undefined) return undefined;
+  const items = value.split(',').map((item) => item.trim()).filter(Boolean);
+  if (items.length === 0) throw new UsageError(`--${name} must not be empty`);
+  return items;
+}
+
+/**
+ * Reads `key=value` pairs, from a comma-separated option (`--labels role=web,site=eu`) or from positionals.
+ */
+export function parsePairs(entries: string[], what: string): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) throw new UsageError(`${what} must be key=value pairs, got "${entry}"`);
+    pairs[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return pairs;
+}
+
+export function labelsOption(args: CommandArgs): Record<string, string> | undefined {
+  const entries = listOption(args, 'labels');
+  return entries && parsePairs(entries, '--labels');
+}
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, PassThrough } from 'stream';
+import { runCli, CliDependencies } from './cli';
+import { HttpClient } from './controlApi';
+
+const NOW = new Date('2025-01-01T12:00:00.000Z');
+
+const STATUS = {
+  isMonitoringActive: true,
+  activeSessionId: '20250101-115900-abcd',
+  registeredContainers: 2,
+  agents: [
+    {
+      name: 'scan1',
+      labels: { role: 'web', site: 'eu' },
+      lastSeen: '2025-01-01T11:59:50.000Z',
+      capturing: true,
+      sessionId: '20250101-115900-abcd',
+      reachable: true,
+      health: 'healthy',
+      quarantined: false,
+      disk: { totalBytes: 10 * 1024 ** 3, availableBytes: 4 * 1024 ** 3 },
+    },
+    { name: 'scan2', labels: { role: 'db' }, lastSeen: '2025-01-01T11:50:00.000Z', capturing: false, reachable: false, health: 'dead', quarantined: true },
+  ],
+  disk: { path: '/data', dataBytes: 2048, totalBytes: 100, availableBytes: 5 * 1024 ** 2 },
+};
+
+const STOP = {
+  message: 'Stop signal sent to all scan dockers.',
+  sessionId: '20250101-115900-abcd',
+  stopReason: 'manual',
+  results: [{ containerName: 'scan1', status: 'success', packetCount: 3, packetsDropped: 0, fileSize: 202, transfer: 'shared' }],
+  incompleteAgents: [],
+  summary: { packetCount: 3, firstPacketTime: 'Jan  1, 2025 12:00:00', lastPacketTime: 'Jan  1, 2025 12:00:01' },
+  alerts: [],
+};
+
+/**
+ * Answers like control: each route maps to a response body, or to an error status and body.
+ */
+function fakeControl(routes: Record<string, { status?: number; data: any; headers?: Record<string, string> }>) {
+  const answer = async (url: string, config: any = {}) => {
+    const { pathname } = new URL(url);
+    const route = routes[pathname];
+    if (!route) throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const data = config.responseType === 'stream' ? Readable.from([Buffer.from(typeof route.data === 'string' ? route.data : JSON.stringify(route.data))]) : route.data;
+    if (route.status && route.status >= 400) throw Object.assign(new Error(`Request failed with status code ${route.status}`), { response: { status: route.status, data } });
+    return { status: route.status ?? 200, data, headers: route.headers ?? {} };
+  };
+  const get = jest.fn((url: string, config?: any) => answer(url, config));
+  const post = jest.fn((url: string, _body: unknown, config?: any) => answer(url, config));
+  return { http: { get, post } as unknown as HttpClient, get, post };
+}
+
+async function run(argv: string[], control: ReturnType<typeof fakeControl>, deps: CliDependencies = {}) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await runCli(argv, {
+    http: control.http,
+    env: { CONTROL_URL: 'http://control.test:3000', CONTROL_TOKEN: 'secret' },
+    out: (text) => out.push(text),
+    err: (text) => err.push(text),
+    isTty: false,
+    sleep: async () => undefined,
+    now: () => NOW,
+    ...deps,
+  });
+  return { code, out: out.join('\n'), err: err.join('\n') };
+}
+
+describe('dumpctl', () => {
+  it('should list the commands', async () => {
+    const { code, out } = await run(['help'], fakeControl({}));
+    expect(code).toBe(0);
+    expect(out).toContain('download');
+    expect((await run(['help', 'start'], fakeControl({}))).out).toContain('--max-packets');
+  });
+
+  it('should reject unknown commands and options with status 2', async () => {
+    expect((await run(['frobnicate'], fakeControl({}))).code).toBe(2);
+    const { code, err } = await run(['start', '--bogus'], fakeControl({}));
+    expect(code).toBe(2);
+    expect(err).toContain('Usage: dumpctl start');
+    expect((await run(['start', '--duration', 'soon'], fakeControl({}))).code).toBe(2);
+    expect((await run(['start', '--promiscuous', '--no-promiscuous'], fakeControl({}))).code).toBe(2);
+  });
+
+  it('should list agents as a table with the token of the environment', async () => {
+    const control = fakeControl({ '/status': { data: STATUS } });
+    const { code, out } = await run(['agents'], control);
+    expect(code).toBe(0);
+    expect(control.get).toHaveBeenCalledWith('http://control.test:3000/status', expect.objectContaining({ headers: { Authorization: 'Bearer secret' } }));
+    const [header, scan1, scan2] = out.split('\n');
+    expect(header).toMatch(/^NAME\s+HEALTH\s+CAPTURING\s+SESSION\s+LABELS\s+LAST SEEN\s+DISK FREE$/);
+    expect(scan1).toMatch(/^scan1\s+healthy\s+yes\s+20250101-115900-abcd\s+role=web,site=eu\s+10s ago\s+4\.0 GiB$/);
+    expect(scan2).toMatch(/^scan2\s+dead \(quarantined\)\s+no\s+-\s+role=db\s+10m ago\s+-$/);
+  });
+
+  it('should filter agents by label and print JSON', async () => {
+    const { out } = await run(['agents', '--labels', 'role=db', '--json'], fakeControl({ '/status': { data: STATUS } }));
+    expect(JSON.parse(out).map((agent: any) => agent.name)).toEqual(['scan2']);
+  });
+
+  it('should start a capture with options and report failed agents', async () => {
+    const control = fakeControl({
+      '/start': {
+        data: {
+          message: 'Start signal sent to all scan dockers.',
+          sessionId: 'new-session',
+          results: [{ containerName: 'scan1', status: 'success' }, { containerName: 'scan3', status: 'failed', error: 'Invalid filter' }],
+        },
+      },
+    });
+    const { code, out } = await run(['start', '-c', 'scan1,scan3', '--labels', 'role=web', '--duration', '30', '--filter', 'port 443', '--no-promiscuous'], control);
+    expect(code).toBe(1);
+    expect(control.post).toHaveBeenCalledWith(
+      'http://control.test:3000/start',
+      { containers: ['scan1', 'scan3'], labels: { role: 'web' }, limits: { durationSeconds: 30 }, capture: { filter: 'port 443', promiscuous: false } },
+      expect.anything()
+    );
+    expect(out).toContain('Started session new-session');
+    expect(out).toMatch(/scan3\s+failed\s+-\s+-\s+-\s+-\s+Invalid filter/);
+  });
+
+  it('should summarize a stop', async () => {
+    const control = fakeControl({ '/stop': { data: STOP } });
+    const { code, out } = await run(['stop', '--containers', 'scan1'], control);
+    expect(code).toBe(0);
+    expect(control.get.mock.calls[0][0]).toBe('http://control.test:3000/stop?containers=scan1');
+    expect(out).toContain('Stopped session 20250101-115900-abcd (manual)');
+    expect(out).toMatch(/scan1\s+success\s+3\s+0\s+202 B\s+shared/);
+    expect(out).toContain('Packets: 3');
+    expect(out).not.toContain('Incomplete agents');
+  });
+
+  it('should set and clear the filter config', async () => {
+    const control = fakeControl({
+      '/config': { data: { message: 'Configuration saved and filtering succeeded', sessionId: 's1', filteredPacketCount: 2 } },
+      '/cleanConf': { data: { message: 'Config and filtered files cleaned.' } },
+    });
+    const set = await run(['config', 'set', 'port=80,443', 'protocol=http'], control);
+    expect(set.code).toBe(0);
+    expect(control.post).toHaveBeenCalledWith('http://control.test:3000/config', { port: '80,443', protocol: 'http' }, expect.anything());
+    expect(set.out).toContain('Session s1: 2 filtered packets');
+    expect((await run(['config', 'clear'], control)).out).toBe('Config and filtered files cleaned.');
+    expect((await run(['config', 'set'], control)).code).toBe(2);
+  });
+
+  it('should print control validation errors with status 1', async () => {
+    const control = fakeControl({
+      '/config': { status: 400, data: { message: 'Invalid configuration data', errors: [{ field: 'port', message: 'Invalid port' }] } },
+    });
+    const { code, err } = await run(['config', 'set', 'port=http'], control);
+    expect(code).toBe(1);
+    expect(err).toBe('Error: Invalid configuration data\n  - port: Invalid port');
+  });
+
+  it('should report an unreachable control', async () => {
+    const { code, err } = await run(['status'], fakeControl({}));
+    expect(code).toBe(1);
+    expect(err).toContain('Cannot reach control at http://control.test:3000');
+  });
+
+  it('should show the status, and watch it until the capture is idle', async () => {
+    const once = await run(['status'], fakeControl({ '/status': { data: STATUS } }));
+    expect(once.out).toContain('Capture: running (session 20250101-115900-abcd)');
+    expect(once.out).toContain('Agents: 2 | dead: scan2 | quarantined: scan2');
+    expect(once.out).toContain('Data: 2.0 KiB in /data, 5.0 MiB free');
+
+    const control = fakeControl({ '/status': { data: STATUS } });
+    const answers = [STATUS, { ...STATUS, isMonitoringActive: false, activeSessionId: null }];
+    control.get.mockImplementation(async () => ({ status: 200, data: answers.shift(), headers: {} }));
+    const watched = await run(['status', '--until-idle', '--json'], control);
+    expect(control.get).toHaveBeenCalledTimes(2);
+    expect(watched.out.split('\n').map((line) => JSON.parse(line).isMonitoringActive)).toEqual([true, false]);
+  });
+
+  it('should list sessions', async () => {
+    const sessions = [
+      { id: 's2', status: 'running', startedAt: '2025-01-01T11:00:00.000Z', containers: ['scan1'] },
+      { id: 's1', status: 'stopped', startedAt: '2025-01-01T10:00:00.000Z', stoppedAt: '2025-01-01T10:05:00.000Z', containers: ['scan1', 'scan2'], packetCount: 9 },
+    ];
+    const { out } = await run(['sessions', '--limit', '1'], fakeControl({ '/sessions': { data: { sessions } } }));
+    expect(out.split('\n')).toHaveLength(2);
+    expect(out).toMatch(/s2\s+running\s+2025-01-01T11:00:00.000Z\s+-\s+scan1/);
+  });
+
+  describe('download', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dumpctl-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should save the latest stopped session under the name control suggests', async () => {
+      const cwd = process.cwd();
+      const control = fakeControl({
+        '/sessions': { data: { sessions: [{ id: 's2', status: 'running' }, { id: 's1', status: 'stopped' }] } },
+        '/sessions/s1/pcap': { data: 'pcap-bytes', headers: { 'content-disposition': 'attachment; filename="s1-merged.pcap"' } },
+      });
+      process.chdir(dir);
+      try {
+        const { code, out } = await run(['download', 'latest'], control);
+        expect(code).toBe(0);
+        expect(out).toContain('s1-merged.pcap (10 B)');
+      } finally {
+        process.chdir(cwd);
+      }
+      expect(fs.readFileSync(path.join(dir, 's1-merged.pcap'), 'utf-8')).toBe('pcap-bytes');
+    });
+
+    it('should download exports to a file or stdout', async () => {
+      const control = fakeControl({ '/sessions/s1/export': { data: 'a,b\n1,2\n' } });
+      const file = path.join(dir, 'out.csv');
+      const { out } = await run(['download', 's1', '--format', 'csv', '--view', 'filtered', '-o', file, '--json'], control);
+      expect(control.get.mock.calls[0][0]).toBe('http://control.test:3000/sessions/s1/export?view=filtered&format=csv');
+      expect(JSON.parse(out)).toEqual({ sessionId: 's1', file, bytes: 8 });
+
+      const stdout = new PassThrough();
+      const chunks: Buffer[] = [];
+      stdout.on('data', (chunk) => chunks.push(chunk));
+      expect((await run(['download', 's1', '--format', 'csv', '-o', '-'], control, { stdout })).code).toBe(0);
+      expect(Buffer.concat(chunks).toString()).toBe('a,b\n1,2\n');
+    });
+
+    it('should read the error of a failed download', async () => {
+      const control = fakeControl({ '/sessions/s9/pcap': { status: 404, data: { message: 'Session not found: s9' } } });
+      const { code, err } = await run(['download', 's9'], control);
+      expect(code).toBe(1);
+      expect(err).toBe('Error: Session not found: s9');
+    });
+  });
+});
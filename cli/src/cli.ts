@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+/**
+ * @file cli.ts
+ * @description `dumpctl`, a command-line client for the control server, so operators no longer drive
+ * captures with curl and read the raw `/stop` JSON.
+ *
+ * @usage
+ * - `dumpctl <command> [options]`; `dumpctl help` lists the commands
+ * - Global options: `--url` (or `CONTROL_URL`, default http://localhost:3000), `--token` (or
+ *   `CONTROL_TOKEN`, an API token of `CONTROL_API_TOKENS`) and `--json`, which prints control's answers
+ *   as JSON for scripts instead of tables
+ * - Exit status: 0 on success, 1 when control refuses a call or an agent fails, 2 on a usage error
+ */
+
+import axios from 'axios';
+import { createControlApi, ControlError, HttpClient } from './controlApi';
+import { OptionSpecs, UsageError, parseCommandArgs } from './args';
+import { COMMANDS, CommandContext } from './commands';
+
+const DEFAULT_URL = 'http://localhost:3000';
+
+const GLOBAL_OPTIONS: OptionSpecs = {
+  url: { type: 'string' },
+  token: { type: 'string' },
+  json: { type: 'boolean' },
+};
+
+export interface CliDependencies {
+  http?: HttpClient;
+  env?: NodeJS.ProcessEnv;
+  out?: (text: string) => void;
+  err?: (text: string) => void;
+  stdout?: CommandContext['stdout'];
+  isTty?: boolean;
+  sleep?: CommandContext['sleep'];
+  now?: CommandContext['now'];
+}
+
+function usage(): string {
+  const commands = Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(10)}${command.description}`);
+  return [
+    'Usage: dumpctl <command> [options] [--url url] [--token token] [--json]',
+    '',
+    'Commands:',
+    ...commands,
+    '',
+    'Run "dumpctl help <command>" for the options of a command.',
+  ].join('\n');
+}
+
+// Control lists validation errors as strings, or as `{ field, message }` for filter configs
+function describeValidationError(entry: any): string {
+  return typeof entry === 'object' && entry !== null && 'field' in entry ? `${entry.field}: ${entry.message}` : String(entry);
+}
+
+/**
+ * Runs one command line (without the node and script arguments) and returns its exit status.
+ */
+export async function runCli(argv: string[], deps: CliDependencies = {}): Promise<number> {
+  const env = deps.env ?? process.env;
+  const out = deps.out ?? ((text: string) => process.stdout.write(`${text}\n`));
+  const err = deps.err ?? ((text: string) => process.stderr.write(`${text}\n`));
+  const [name, ...rest] = argv;
+
+  if (name === undefined || name === 'help' || name === '--help' || name === '-h') {
+    const command = rest[0] && COMMANDS[rest[0]];
+    out(command ? `Usage: dumpctl ${command.usage}\n\n${command.description}` : usage());
+    return 0;
+  }
+  const command = COMMANDS[name];
+  if (!command) {
+    err(`Unknown command: ${name}\n\n${usage()}`);
+    return 2;
+  }
+
+  try {
+    const args = parseCommandArgs(rest, { ...GLOBAL_OPTIONS, ...command.options });
+    const url = (args.values.url as string | undefined) ?? env.CONTROL_URL ?? DEFAULT_URL;
+    const token = (args.values.token as string | undefined) ?? env.CONTROL_TOKEN;
+    const ctx: CommandContext = {
+      api: createControlApi({ url, token, http: deps.http ?? axios }),
+      json: args.values.json === true,
+      out,
+      stdout: deps.stdout ?? process.stdout,
+      isTty: deps.isTty ?? Boolean(process.stdout.isTTY),
+      sleep: deps.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms))),
+      now: deps.now ?? (() => new Date()),
+    };
+    return await command.run(ctx, args);
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      err(`${error.message}\n\nUsage: dumpctl ${command.usage}`);
+      return 2;
+    }
+    if (error instanceof ControlError) {
+      const lines = [`Error: ${error.message}`];
+      for (const entry of error.errors || []) lines.push(`  - ${describeValidationError(entry)}`);
+      if (error.detail) lines.push(error.detail);
+      err(lines.join('\n'));
+      return 1;
+    }
+    err(`Error: ${error?.message || String(error)}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
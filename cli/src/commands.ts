@@ -0,0 +1,342 @@
+/**
+ * @file commands.ts
+ * @description The CLI commands. Each one calls control through `ControlApi`, prints a table or summary
+ * (or control's answer as JSON with `--json`) and returns the exit status.
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ControlApi, ControlStatus, AgentStatus, AgentResult, StartRequest, StopResult } from './controlApi';
+import {
+  CommandArgs,
+  OptionSpecs,
+  UsageError,
+  stringOption,
+  integerOption,
+  listOption,
+  labelsOption,
+  switchOption,
+  parsePairs,
+} from './args';
+import { Cell, renderTable, formatBytes, formatAge, formatLabels } from './format';
+
+export interface CommandContext {
+  api: ControlApi;
+  json: boolean;
+  // Prints one line (or block) of output
+  out: (text: string) => void;
+  // Where `download --output -` writes
+  stdout: Writable;
+  // Whether stdout is a terminal; `status --watch` redraws the screen only then
+  isTty: boolean;
+  sleep: (ms: number) => Promise<void>;
+  now: () => Date;
+}
+
+export interface Command {
+  usage: string;
+  description: string;
+  options: OptionSpecs;
+  run: (ctx: CommandContext, args: CommandArgs) => Promise<number>;
+}
+
+const SELECTOR_OPTIONS: OptionSpecs = {
+  containers: { type: 'string', short: 'c' },
+  labels: { type: 'string', short: 'l' },
+};
+
+const DEFAULT_WATCH_SECONDS = 2;
+const DEFAULT_SESSION_LIMIT = 20;
+const CLEAR_SCREEN = '\x1b[2J\x1b[H';
+
+function printJson(ctx: CommandContext, value: unknown) {
+  ctx.out(JSON.stringify(value, null, 2));
+}
+
+function health(agent: AgentStatus): string {
+  return agent.quarantined ? `${agent.health} (quarantined)` : agent.health;
+}
+
+function agentTable(agents: AgentStatus[], now: Date): string {
+  return renderTable(
+    ['name', 'health', 'capturing', 'session', 'labels', 'last seen', 'disk free'],
+    agents.map((agent) => [
+      agent.name,
+      health(agent),
+      agent.capturing,
+      agent.sessionId,
+      formatLabels(agent.labels),
+      formatAge(agent.lastSeen, now),
+      formatBytes(agent.disk?.availableBytes),
+    ])
+  );
+}
+
+function resultTable(results: AgentResult[]): string {
+  const error = (result: AgentResult) => (typeof result.error === 'string' || result.error === undefined ? result.error : JSON.stringify(result.error));
+  return renderTable(
+    ['container', 'status', 'packets', 'dropped', 'size', 'transfer', 'error'],
+    results.map((result) => [
+      result.containerName,
+      result.status,
+      result.packetCount,
+      result.packetsDropped,
+      formatBytes(result.fileSize),
+      result.transfer,
+      error(result),
+    ])
+  );
+}
+
+function matchesLabels(agent: AgentStatus, labels: Record<string, string>): boolean {
+  return Object.entries(labels).every(([key, value]) => agent.labels?.[key] === value);
+}
+
+const agents: Command = {
+  usage: 'agents [--labels key=value,...]',
+  description: 'List the registered agents and their health',
+  options: { labels: SELECTOR_OPTIONS.labels },
+  async run(ctx, args) {
+    const labels = labelsOption(args) || {};
+    const list = (await ctx.api.status()).agents.filter((agent) => matchesLabels(agent, labels));
+    if (ctx.json) printJson(ctx, list);
+    else ctx.out(list.length > 0 ? agentTable(list, ctx.now()) : 'No agents registered.');
+    return 0;
+  },
+};
+
+const start: Command = {
+  usage:
+    'start [--containers a,b] [--labels key=value,...] [--duration seconds] [--max-packets n] [--max-bytes n] [--filter bpf] [--snaplen n] [--interface name] [--promiscuous|--no-promiscuous]',
+  description: 'Start a capture session on every agent, or on the selected ones',
+  options: {
+    ...SELECTOR_OPTIONS,
+    duration: { type: 'string', short: 'd' },
+    'max-packets': { type: 'string' },
+    'max-bytes': { type: 'string' },
+    filter: { type: 'string', short: 'f' },
+    snaplen: { type: 'string' },
+    interface: { type: 'string', short: 'i' },
+    promiscuous: { type: 'boolean' },
+    'no-promiscuous': { type: 'boolean' },
+  },
+  async run(ctx, args) {
+    const request: StartRequest = {};
+    const containers = listOption(args, 'containers');
+    const labels = labelsOption(args);
+    if (containers) request.containers = containers;
+    if (labels) request.labels = labels;
+    const limits = {
+      durationSeconds: integerOption(args, 'duration'),
+      maxPackets: integerOption(args, 'max-packets'),
+      maxBytes: integerOption(args, 'max-bytes'),
+    };
+    if (Object.values(limits).some((value) => value !== undefined)) request.limits = limits;
+    const capture = {
+      filter: stringOption(args, 'filter'),
+      snaplen: integerOption(args, 'snaplen', 0),
+      interface: stringOption(args, 'interface'),
+      promiscuous: switchOption(args, 'promiscuous'),
+    };
+    if (Object.values(capture).some((value) => value !== undefined)) request.capture = capture;
+
+    const result = await ctx.api.start(request);
+    const failed = result.results.filter((agent) => agent.status !== 'success');
+    if (ctx.json) {
+      printJson(ctx, result);
+    } else {
+      ctx.out(`Started session ${result.sessionId}`);
+      ctx.out(resultTable(result.results));
+    }
+    return failed.length > 0 ? 1 : 0;
+  },
+};
+
+function printStop(ctx: CommandContext, result: StopResult) {
+  ctx.out(`${result.runningAgents ? 'Stopped agents of' : 'Stopped'} session ${result.sessionId}${result.stopReason ? ` (${result.stopReason})` : ''}`);
+  ctx.out(resultTable(result.results));
+  const lines: [string, Cell][] = [
+    ['Still capturing', result.runningAgents?.join(', ')],
+    ['Packets', result.summary?.packetCount],
+    ['First packet', result.summary?.firstPacketTime],
+    ['Last packet', result.summary?.lastPacketTime],
+    ['Filtered packets', result.summary?.filteredPacketCount],
+    ['Incomplete agents', result.incompleteAgents?.length ? result.incompleteAgents.join(', ') : undefined],
+    ['Alerts raised', result.alerts?.length || undefined],
+    ['Filtering failed', result.filterStatus === 'ko' ? result.error : undefined],
+  ];
+  const shown = lines.filter(([, value]) => value !== undefined);
+  if (shown.length > 0) ctx.out(shown.map(([name, value]) => `${name}: ${value}`).join('\n'));
+}
+
+const stop: Command = {
+  usage: 'stop [--containers a,b] [--labels key=value,...]',
+  description: 'Stop the running session (or only the selected agents) and merge the captures',
+  options: SELECTOR_OPTIONS,
+  async run(ctx, args) {
+    const result = await ctx.api.stop({ containers: listOption(args, 'containers'), labels: labelsOption(args) });
+    if (ctx.json) printJson(ctx, result);
+    else printStop(ctx, result);
+    return result.results.some((agent) => agent.status !== 'success') || result.filterStatus === 'ko' ? 1 : 0;
+  },
+};
+
+const config: Command = {
+  usage: 'config set [field=value ...] [--file config.json] | config clear',
+  description: 'Save the display filter config (applied to the latest session), or clear it',
+  options: { file: { type: 'string' } },
+  async run(ctx, args) {
+    const [action, ...pairs] = args.positionals;
+    if (action === 'clear') {
+      if (pairs.length > 0) throw new UsageError('config clear takes no arguments');
+      const result = await ctx.api.cleanConfig();
+      if (ctx.json) printJson(ctx, result);
+      else ctx.out(result.message);
+      return 0;
+    }
+    if (action !== 'set') throw new UsageError('config expects "set" or "clear"');
+    const file = stringOption(args, 'file');
+    let fields: Record<string, string> = {};
+    if (file) {
+      try {
+        fields = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      } catch (err: any) {
+        throw new UsageError(`Cannot read ${file}: ${err?.message || String(err)}`);
+      }
+    }
+    fields = { ...fields, ...parsePairs(pairs, 'Config fields') };
+    if (Object.keys(fields).length === 0) throw new UsageError('config set needs field=value pairs or --file');
+    const result = await ctx.api.setConfig(fields);
+    if (ctx.json) {
+      printJson(ctx, result);
+    } else {
+      ctx.out(result.message);
+      if (result.sessionId) ctx.out(`Session ${result.sessionId}: ${result.filteredPacketCount ?? 0} filtered packets`);
+    }
+    return 0;
+  },
+};
+
+function statusText(status: ControlStatus, now: Date): string {
+  const names = (list: AgentStatus[]) => list.map((agent) => agent.name).join(', ');
+  const stale = status.agents.filter((agent) => agent.health === 'stale');
+  const dead = status.agents.filter((agent) => agent.health === 'dead');
+  const quarantined = status.agents.filter((agent) => agent.quarantined);
+  const lines = [
+    `Capture: ${status.isMonitoringActive ? `running (session ${status.activeSessionId})` : 'idle'}`,
+    `Agents: ${status.agents.length}` +
+      (stale.length ? ` | stale: ${names(stale)}` : '') +
+      (dead.length ? ` | dead: ${names(dead)}` : '') +
+      (quarantined.length ? ` | quarantined: ${names(quarantined)}` : ''),
+    `Data: ${formatBytes(status.disk.dataBytes)} in ${status.disk.path}` +
+      (status.disk.availableBytes !== undefined ? `, ${formatBytes(status.disk.availableBytes)} free` : ''),
+  ];
+  if (status.agents.length > 0) lines.push('', agentTable(status.agents, now));
+  return lines.join('\n');
+}
+
+const status: Command = {
+  usage: 'status [--watch] [--interval seconds] [--count n] [--until-idle]',
+  description: 'Show the capture state and the agents; --watch refreshes it until interrupted',
+  options: {
+    watch: { type: 'boolean', short: 'w' },
+    interval: { type: 'string', short: 'n' },
+    count: { type: 'string' },
+    'until-idle': { type: 'boolean' },
+  },
+  async run(ctx, args) {
+    const intervalMs = (integerOption(args, 'interval') ?? DEFAULT_WATCH_SECONDS) * 1000;
+    const untilIdle = args.values['until-idle'] === true;
+    const watch = args.values.watch === true || untilIdle;
+    const count = integerOption(args, 'count') ?? (watch ? Infinity : 1);
+    for (let round = 1; round <= count; round++) {
+      if (round > 1) await ctx.sleep(intervalMs);
+      let current: ControlStatus;
+      try {
+        current = await ctx.api.status();
+      } catch (err: any) {
+        // A watch outlives a control restart
+        if (!watch) throw err;
+        ctx.out(`Error: ${err?.message || String(err)}`);
+        continue;
+      }
+      if (ctx.json) {
+        // One status per line while watching, so scripts can read them as they come
+        ctx.out(watch ? JSON.stringify(current) : JSON.stringify(current, null, 2));
+      } else {
+        const now = ctx.now();
+        if (watch && ctx.isTty) ctx.out(`${CLEAR_SCREEN}Every ${intervalMs / 1000}s, updated ${now.toISOString()}\n`);
+        ctx.out(statusText(current, now));
+      }
+      if (untilIdle && !current.isMonitoringActive) break;
+    }
+    return 0;
+  },
+};
+
+const sessions: Command = {
+  usage: 'sessions [--limit n]',
+  description: 'List the stored capture sessions, newest first',
+  options: { limit: { type: 'string' } },
+  async run(ctx, args) {
+    const list = (await ctx.api.sessions()).slice(0, integerOption(args, 'limit') ?? DEFAULT_SESSION_LIMIT);
+    if (ctx.json) {
+      printJson(ctx, list);
+      return 0;
+    }
+    ctx.out(
+      list.length === 0
+        ? 'No sessions stored.'
+        : renderTable(
+            ['id', 'status', 'started', 'stopped', 'containers', 'packets', 'filtered'],
+            list.map((session) => [
+              session.id,
+              session.status,
+              session.startedAt,
+              session.stoppedAt,
+              session.containers.join(','),
+              session.packetCount,
+              session.filteredPacketCount,
+            ])
+          )
+    );
+    return 0;
+  },
+};
+
+const download: Command = {
+  usage: 'download <sessionId|latest> [--view merged|filtered|<view>] [--format pcapng|csv|ndjson|har] [--output file|-]',
+  description: 'Download the pcap of a session, or an export of it',
+  options: {
+    view: { type: 'string' },
+    format: { type: 'string' },
+    output: { type: 'string', short: 'o' },
+  },
+  async run(ctx, args) {
+    if (args.positionals.length !== 1) throw new UsageError('download expects one session id, or "latest"');
+    let sessionId = args.positionals[0];
+    if (sessionId === 'latest') {
+      const latest = (await ctx.api.sessions()).find((session) => session.status === 'stopped');
+      if (!latest) throw new Error('No stopped session to download');
+      sessionId = latest.id;
+    }
+    const format = stringOption(args, 'format');
+    const view = stringOption(args, 'view');
+    const { filename, stream } = await ctx.api.download(sessionId, { view, format });
+    const output = stringOption(args, 'output') ?? filename ?? `${sessionId}-${view || 'merged'}.${format || 'pcap'}`;
+    if (output === '-') {
+      await pipeline(stream, ctx.stdout, { end: false });
+      return 0;
+    }
+    const file = path.resolve(output);
+    await pipeline(stream, fs.createWriteStream(file));
+    const bytes = fs.statSync(file).size;
+    if (ctx.json) printJson(ctx, { sessionId, file, bytes });
+    else ctx.out(`Saved ${file} (${formatBytes(bytes)})`);
+    return 0;
+  },
+};
+
+export const COMMANDS: Record<string, Command> = { agents, start, stop, config, status, sessions, download };
@@ -0,0 +1,234 @@
+/**
+ * @file controlApi.ts
+ * @description The control routes the CLI drives: `/status`, `/start`, `/stop`, `/config`, `/cleanConf`,
+ * `/sessions` and the session downloads. Every call carries the API token as a bearer token, and an
+ * error answer becomes a `ControlError` holding control's message and validation errors.
+ */
+
+import { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { Readable } from 'stream';
+
+export type HttpClient = Pick<AxiosInstance, 'get' | 'post'>;
+
+export type AgentLabels = Record<string, string>;
+
+export interface AgentSelector {
+  containers?: string[];
+  labels?: AgentLabels;
+}
+
+export interface CaptureOptions {
+  filter?: string;
+  snaplen?: number;
+  interface?: string;
+  promiscuous?: boolean;
+}
+
+export interface CaptureLimits {
+  durationSeconds?: number;
+  maxPackets?: number;
+  maxBytes?: number;
+}
+
+export interface StartRequest extends AgentSelector {
+  capture?: CaptureOptions;
+  limits?: CaptureLimits;
+}
+
+export interface AgentStatus {
+  name: string;
+  labels: AgentLabels;
+  lastSeen: string;
+  capturing: boolean;
+  sessionId?: string;
+  reachable: boolean;
+  health: 'healthy' | 'stale' | 'dead';
+  quarantined: boolean;
+  disk?: { totalBytes: number; availableBytes: number };
+}
+
+export interface ControlStatus {
+  isMonitoringActive: boolean;
+  activeSessionId: string | null;
+  agents: AgentStatus[];
+  disk: { path: string; dataBytes: number; totalBytes?: number; availableBytes?: number };
+}
+
+export interface AgentResult {
+  containerName: string;
+  status: string;
+  fileSize?: number;
+  packetCount?: number;
+  packetsDropped?: number;
+  transfer?: string;
+  error?: unknown;
+}
+
+export interface StartResult {
+  message: string;
+  sessionId: string;
+  results: AgentResult[];
+}
+
+export interface StopResult {
+  message: string;
+  sessionId: string;
+  stopReason?: string;
+  results: AgentResult[];
+  // A partial stop lists the agents stopped so far and those still capturing
+  stoppedAgents?: string[];
+  runningAgents?: string[];
+  incompleteAgents?: string[];
+  summary?: { packetCount: number; firstPacketTime?: string; lastPacketTime?: string; filteredPacketCount?: number };
+  alerts?: unknown[];
+  filterStatus?: 'ok' | 'ko';
+  error?: string;
+}
+
+export interface ConfigResult {
+  message: string;
+  sessionId?: string;
+  filteredPacketCount?: number;
+}
+
+export interface SessionInfo {
+  id: string;
+  status: 'running' | 'stopped' | 'failed';
+  startedAt: string;
+  stoppedAt?: string;
+  containers: string[];
+  packetCount?: number;
+  filteredPacketCount?: number;
+}
+
+export interface DownloadRequest {
+  // `merged`, `filtered` or a view name
+  view?: string;
+  // An export format (`pcapng`, `csv`, `ndjson`, `har`); the pcap itself when omitted
+  format?: string;
+}
+
+export interface Download {
+  // Name control suggests in Content-Disposition
+  filename?: string;
+  stream: Readable;
+}
+
+/**
+ * An error answer from control, or no answer at all (`status` is then undefined).
+ */
+export class ControlError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly errors?: unknown[],
+    public readonly detail?: string
+  ) {
+    super(message);
+    this.name = 'ControlError';
+  }
+}
+
+export interface ControlApi {
+  status(): Promise<ControlStatus>;
+  start(request: StartRequest): Promise<StartResult>;
+  stop(selector: AgentSelector): Promise<StopResult>;
+  setConfig(config: Record<string, string>): Promise<ConfigResult>;
+  cleanConfig(): Promise<{ message: string }>;
+  sessions(): Promise<SessionInfo[]>;
+  download(sessionId: string, request: DownloadRequest): Promise<Download>;
+}
+
+export interface ControlApiOptions {
+  // Base URL of control, e.g. http://localhost:3000
+  url: string;
+  token?: string;
+  http: HttpClient;
+}
+
+// Calls that only read state; /start, /stop and /config wait for the agents and tshark instead
+const READ_TIMEOUT_MS = 10000;
+
+async function readBody(data: unknown): Promise<any> {
+  if (!(data instanceof Readable)) return data;
+  const chunks: Buffer[] = [];
+  for await (const chunk of data) chunks.push(Buffer.from(chunk));
+  const text = Buffer.concat(chunks).toString('utf-8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function toControlError(err: any, url: string): Promise<ControlError> {
+  if (!err?.response) return new ControlError(`Cannot reach control at ${url}: ${err?.message || String(err)}`);
+  const body = await readBody(err.response.data);
+  const status = err.response.status;
+  if (typeof body !== 'object' || body === null) {
+    return new ControlError(`Control answered ${status}${body ? `: ${body}` : ''}`, status);
+  }
+  const detail = [body.error, body.stderr].filter((part) => typeof part === 'string' && part).join('\n') || undefined;
+  return new ControlError(body.message || `Control answered ${status}`, status, Array.isArray(body.errors) ? body.errors : undefined, detail);
+}
+
+/**
+ * Reads the file name out of a `Content-Disposition: attachment; filename="..."` header.
+ */
+export function attachmentName(header: unknown): string | undefined {
+  if (typeof header !== 'string') return undefined;
+  const match = /filename="?([^";]+)"?/.exec(header);
+  // Keep the name only; control never suggests a directory
+  return match ? match[1].split(/[\\/]/).pop() || undefined : undefined;
+}
+
+export function createControlApi({ url, token, http }: ControlApiOptions): ControlApi {
+  const baseUrl = url.replace(/\/+$/, '');
+  const headers = token ? { Authorization: `Bearer ${token}` } : {};
+
+  async function get<T>(route: string, config: AxiosRequestConfig = {}): Promise<T> {
+    try {
+      return (await http.get(`${baseUrl}${route}`, { ...config, headers })).data;
+    } catch (err) {
+      throw await toControlError(err, baseUrl);
+    }
+  }
+
+  async function post<T>(route: string, body: unknown): Promise<T> {
+    try {
+      return (await http.post(`${baseUrl}${route}`, body, { headers })).data;
+    } catch (err) {
+      throw await toControlError(err, baseUrl);
+    }
+  }
+
+  function selectorQuery(selector: AgentSelector): string {
+    const query = new URLSearchParams();
+    if (selector.containers) query.set('containers', selector.containers.join(','));
+    if (selector.labels) query.set('labels', Object.entries(selector.labels).map(([key, value]) => `${key}=${value}`).join(','));
+    const text = query.toString();
+    return text ? `?${text}` : '';
+  }
+
+  return {
+    status: () => get<ControlStatus>('/status', { timeout: READ_TIMEOUT_MS }),
+    start: (request) => post<StartResult>('/start', request),
+    stop: (selector) => get<StopResult>(`/stop${selectorQuery(selector)}`),
+    setConfig: (config) => post<ConfigResult>('/config', config),
+    cleanConfig: () => get<{ message: string }>('/cleanConf'),
+    sessions: async () => (await get<{ sessions: SessionInfo[] }>('/sessions', { timeout: READ_TIMEOUT_MS })).sessions,
+    async download(sessionId, request) {
+      const query = new URLSearchParams();
+      if (request.view) query.set('view', request.view);
+      if (request.format) query.set('format', request.format);
+      const route = `/sessions/${encodeURIComponent(sessionId)}/${request.format ? 'export' : 'pcap'}`;
+      const text = query.toString();
+      try {
+        const res = await http.get(`${baseUrl}${route}${text ? `?${text}` : ''}`, { headers, responseType: 'stream' });
+        return { filename: attachmentName(res.headers?.['content-disposition']), stream: res.data };
+      } catch (err) {
+        throw await toControlError(err, baseUrl);
+      }
+    },
+  };
+}
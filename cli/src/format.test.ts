@@ -0,0 +1,29 @@
+import { renderTable, formatBytes, formatAge, formatLabels } from './format';
+
+describe('output formatting', () => {
+  it('should align table columns and show empty cells as dashes', () => {
+    expect(renderTable(['name', 'capturing', 'session'], [['scan1', true, 'abc'], ['scan10', false, undefined]])).toBe(
+      ['NAME    CAPTURING  SESSION', 'scan1   yes        abc', 'scan10  no         -'].join('\n')
+    );
+  });
+
+  it('should format byte sizes', () => {
+    expect(formatBytes(undefined)).toBeUndefined();
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KiB');
+    expect(formatBytes(3 * 1024 ** 4)).toBe('3.0 TiB');
+  });
+
+  it('should say how long ago a time was', () => {
+    const now = new Date('2025-01-02T00:00:00.000Z');
+    expect(formatAge('2025-01-01T23:59:15.000Z', now)).toBe('45s ago');
+    expect(formatAge('2025-01-01T22:00:00.000Z', now)).toBe('2h ago');
+    expect(formatAge('2024-12-30T00:00:00.000Z', now)).toBe('3d ago');
+    expect(formatAge('never', now)).toBeUndefined();
+  });
+
+  it('should join labels', () => {
+    expect(formatLabels({ role: 'web', site: 'eu' })).toBe('role=web,site=eu');
+    expect(formatLabels({})).toBeUndefined();
+  });
+});
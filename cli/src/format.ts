@@ -0,0 +1,54 @@
+/**
+ * @file format.ts
+ * @description Human-readable output: aligned tables, byte sizes and relative times. `--json` bypasses
+ * all of it and prints control's answers as they are.
+ */
+
+export type Cell = string | number | boolean | undefined | null;
+
+function cellText(cell: Cell): string {
+  if (cell === undefined || cell === null || cell === '') return '-';
+  if (typeof cell === 'boolean') return cell ? 'yes' : 'no';
+  return String(cell);
+}
+
+/**
+ * Lays rows out under upper-case headers, each column as wide as its widest cell. Empty cells show `-`.
+ */
+export function renderTable(headers: string[], rows: Cell[][]): string {
+  const text = [headers.map((header) => header.toUpperCase()), ...rows.map((row) => row.map(cellText))];
+  const widths = headers.map((_, column) => Math.max(...text.map((row) => (row[column] ?? '').length)));
+  return text
+    .map((row) => row.map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column]))).join('  '))
+    .join('\n');
+}
+
+const UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+
+export function formatBytes(bytes: number | undefined): string | undefined {
+  if (bytes === undefined) return undefined;
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${UNITS[unit]}`;
+}
+
+/**
+ * Says how long ago `iso` was, e.g. `42s ago` or `3h ago`.
+ */
+export function formatAge(iso: string | undefined, now: Date = new Date()): string | undefined {
+  if (!iso || Number.isNaN(Date.parse(iso))) return undefined;
+  const seconds = Math.max(0, Math.round((now.getTime() - Date.parse(iso)) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+export function formatLabels(labels: Record<string, string> | undefined): string | undefined {
+  const pairs = Object.entries(labels || {}).map(([key, value]) => `${key}=${value}`);
+  return pairs.length > 0 ? pairs.join(',') : undefined;
+}
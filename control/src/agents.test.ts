@@ -0,0 +1,134 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadAgents,
+  registerAgent,
+  recordHeartbeat,
+  recordReachability,
+  listAgents,
+  activeAgentNames,
+  pruneAgents,
+  isValidAgentName,
+  parseLabels,
+  validateLabels,
+  selectAgents,
+  filterAgentNames,
+  validateSelector,
+} from './agents';
+
+const t0 = new Date('2025-01-01T00:00:00.000Z');
+const after = (ms: number) => new Date(t0.getTime() + ms);
+
+describe('agent registry', () => {
+  it('should report a freshly registered agent as healthy', () => {
+    expect(registerAgent('scan1', {}, t0)).toBe(true);
+    expect(registerAgent('scan1', {}, t0)).toBe(false);
+    const [agent] = listAgents(t0);
+    expect(agent).toMatchObject({ name: 'scan1', health: 'healthy', quarantined: false, capturing: false });
+  });
+
+  it('should mark silent agents stale, then dead and quarantined', () => {
+    expect(listAgents(after(31000))[0].health).toBe('stale');
+    expect(activeAgentNames(after(31000))).toEqual(['scan1']);
+    const dead = listAgents(after(91000))[0];
+    expect(dead.health).toBe('dead');
+    expect(dead.quarantined).toBe(true);
+    expect(activeAgentNames(after(91000))).toEqual([]);
+  });
+
+  it('should restore an agent on heartbeat and track its capture state', () => {
+    expect(recordHeartbeat('scan1', { capturing: true, sessionId: 's1' }, after(100000))).toBe(true);
+    expect(listAgents(after(100000))[0]).toMatchObject({ health: 'healthy', capturing: true, sessionId: 's1' });
+  });
+
+  it('should keep the disk usage an agent reports, when it is well-formed', () => {
+    const disk = { totalBytes: 1000, availableBytes: 400 };
+    recordHeartbeat('scan1', { capturing: true, sessionId: 's1', disk }, after(100000));
+    expect(listAgents(after(100000))[0].disk).toEqual(disk);
+    recordHeartbeat('scan1', { capturing: true, sessionId: 's1', disk: { totalBytes: '1000', availableBytes: -1 } }, after(100000));
+    expect(listAgents(after(100000))[0].disk).toBeUndefined();
+  });
+
+  it('should ignore heartbeats from unknown agents', () => {
+    expect(recordHeartbeat('ghost', {}, t0)).toBe(false);
+  });
+
+  it('should quarantine agents after repeated unreachable calls', () => {
+    for (let i = 0; i < 3; i++) recordReachability('scan1', false, after(100000));
+    const agent = listAgents(after(100000))[0];
+    expect(agent.reachable).toBe(false);
+    expect(agent.quarantined).toBe(true);
+    recordReachability('scan1', true, after(100000));
+    expect(listAgents(after(100000))[0].quarantined).toBe(false);
+  });
+
+  it('should prune agents silent for longer than the prune threshold', () => {
+    expect(pruneAgents(after(100000 + 60000))).toEqual([]);
+    expect(pruneAgents(after(100000 + 15 * 60 * 1000))).toEqual(['scan1']);
+    expect(listAgents(t0)).toEqual([]);
+  });
+
+  it('should only accept hostname-like agent names', () => {
+    expect(isValidAgentName('scan-1.local')).toBe(true);
+    expect(isValidAgentName('evil.com:80/x?')).toBe(false);
+    expect(isValidAgentName('-leading-dash')).toBe(false);
+  });
+});
+
+describe('agent labels and selection', () => {
+  beforeAll(() => {
+    registerAgent('web1', parseLabels('role=web, env=staging'), t0);
+    registerAgent('web2', parseLabels('role=web,env=prod'), t0);
+    registerAgent('db1', parseLabels('role=db,env=prod'), t0);
+  });
+
+  afterAll(() => {
+    pruneAgents(after(15 * 60 * 1000));
+  });
+
+  it('should parse and validate label lists', () => {
+    expect(parseLabels('role=web, env = staging')).toEqual({ role: 'web', env: 'staging' });
+    expect(validateLabels(parseLabels('role=web,team'))).toEqual(['labels.team must be a value of [A-Za-z0-9_.-]']);
+    expect(validateLabels({ 'bad key': 'x' })).toEqual(['labels: "bad key" is not a valid label name']);
+  });
+
+  it('should select agents by name and by every label', () => {
+    expect(selectAgents({ labels: { role: 'web' } }, t0).names).toEqual(['web1', 'web2']);
+    expect(selectAgents({ labels: { role: 'web', env: 'prod' } }, t0).names).toEqual(['web2']);
+    expect(selectAgents({ containers: ['db1', 'web1'], labels: { env: 'prod' } }, t0).names).toEqual(['db1']);
+    expect(selectAgents({}, t0).names).toEqual(['web1', 'web2', 'db1']);
+  });
+
+  it('should report listed agents that are unknown or quarantined', () => {
+    for (let i = 0; i < 3; i++) recordReachability('db1', false, t0);
+    expect(selectAgents({ containers: ['db1', 'ghost', 'web1'] }, t0)).toEqual({ names: ['web1'], unavailable: ['db1', 'ghost'] });
+    recordReachability('db1', true, t0);
+  });
+
+  it('should narrow a session\'s agents to a selector', () => {
+    expect(filterAgentNames(['web1', 'db1', 'gone'], { labels: { env: 'prod' } })).toEqual(['db1']);
+    expect(filterAgentNames(['web1', 'db1', 'gone'], { containers: ['gone', 'web1'] })).toEqual(['web1', 'gone']);
+  });
+
+  it('should reject malformed selectors', () => {
+    expect(validateSelector({ containers: [] })).toEqual(['containers must not be empty']);
+    expect(validateSelector({ containers: ['ok', 'no/slash'] })).toEqual(['containers must be a list of agent names']);
+  });
+});
+
+// Last: once loaded, the registry keeps writing to the data directory
+describe('persisted registry', () => {
+  it('should write registrations to the data directory', () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agents-'));
+    fs.writeFileSync(path.join(dataDir, 'agents.json'), JSON.stringify([
+      { name: 'saved', labels: { role: 'db' }, registeredAt: t0.toISOString(), lastSeen: t0.toISOString(), capturing: false, reachable: true, consecutiveFailures: 0 },
+    ]));
+    loadAgents(dataDir);
+    expect(listAgents(t0).find((agent) => agent.name === 'saved')?.labels).toEqual({ role: 'db' });
+    registerAgent('fresh', { role: 'web' }, t0);
+    const saved = JSON.parse(fs.readFileSync(path.join(dataDir, 'agents.json'), 'utf-8'));
+    expect(saved.map((agent: any) => agent.name)).toEqual(expect.arrayContaining(['saved', 'fresh']));
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+});
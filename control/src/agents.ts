@@ -0,0 +1,338 @@
+/**
+ * @file agents.ts
+ * @description Registry of scan agents. Agents register on boot and then send periodic heartbeats;
+ * health is derived from the time since an agent was last seen and from failed fan-out calls.
+ * Quarantined agents are skipped by `/start`, and agents that stay silent long enough are pruned.
+ *
+ * Agents report labels such as `role=web` or `env=staging` when they register; `/start` and `/stop`
+ * can target agents by name and by label.
+ *
+ * Heartbeats also report whether an agent's ring buffer (flight recorder) is running; `/ring/snapshot` collects
+ * from the agents that do.
+ *
+ * The registry is kept in `<dataDir>/agents.json` when a data directory is set, so a restarted control
+ * still knows its agents; their capture state is then refreshed from each agent's `/status`.
+ */
+
+import path from 'path';
+import fsSync from 'fs';
+import { DiskUsage, parseDiskUsage } from './diskSpace';
+
+export type AgentHealth = 'healthy' | 'stale' | 'dead';
+
+export type AgentLabels = Record<string, string>;
+
+export interface AgentRecord {
+  name: string;
+  labels: AgentLabels;
+  registeredAt: string;
+  lastSeen: string;
+  capturing: boolean;
+  sessionId?: string;
+  finishedSessionId?: string;
+  reachable: boolean;
+  consecutiveFailures: number;
+  // Usage of the agent's data volume, as of its last heartbeat
+  disk?: DiskUsage;
+  // The agent's ring buffer, while it records
+  ring?: AgentRing;
+}
+
+export interface AgentRing {
+  windowSeconds?: number;
+  maxBytes?: number;
+  startedAt?: string;
+  segments: number;
+  bytes: number;
+  // How far back a snapshot would reach
+  oldestSegmentAt?: string;
+}
+
+export interface AgentStatus extends AgentRecord {
+  health: AgentHealth;
+  quarantined: boolean;
+}
+
+/**
+ * Chooses agents for `/start` and `/stop`: every listed container (when given) that carries every
+ * listed label.
+ */
+export interface AgentSelector {
+  containers?: string[];
+  labels?: AgentLabels;
+}
+
+export interface Heartbeat {
+  capturing?: boolean;
+  sessionId?: string;
+  // Session whose capture ended on the agent because a limit was reached
+  finishedSessionId?: string;
+  disk?: unknown;
+  // `{ running: true, ... }` while the ring buffer records
+  ring?: unknown;
+  // Events the agent logged since its last accepted heartbeat (see logger.ts `eventFromAgent`)
+  events?: unknown[];
+}
+
+function envMs(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Agents heartbeat every 10 s by default; these thresholds allow for a few missed beats
+const STALE_AFTER_MS = envMs('AGENT_STALE_AFTER_MS', 30000);
+const DEAD_AFTER_MS = envMs('AGENT_DEAD_AFTER_MS', 90000);
+const PRUNE_AFTER_MS = envMs('AGENT_PRUNE_AFTER_MS', 15 * 60 * 1000);
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+const AGENT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,62}$/;
+const LABEL_KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_./-]{0,62}$/;
+const LABEL_VALUE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,62}$/;
+const MAX_LABELS = 32;
+
+const agents = new Map<string, AgentRecord>();
+let agentsFile: string | undefined;
+
+// Written on registrations and prunes; heartbeats only refresh the in-memory records
+function persist() {
+  if (!agentsFile) return;
+  fsSync.writeFileSync(agentsFile, JSON.stringify([...agents.values()], null, 2), 'utf-8');
+}
+
+/**
+ * Loads the persisted registry. Call once when the server starts.
+ */
+export function loadAgents(dataDir: string): void {
+  agentsFile = path.join(dataDir, 'agents.json');
+  if (!fsSync.existsSync(agentsFile)) return;
+  for (const agent of JSON.parse(fsSync.readFileSync(agentsFile, 'utf-8')) as AgentRecord[]) {
+    agents.set(agent.name, agent);
+  }
+}
+
+/**
+ * Agent names are used as hostnames in fan-out URLs, so only hostname characters are accepted.
+ */
+export function isValidAgentName(name: string): boolean {
+  return AGENT_NAME_PATTERN.test(name);
+}
+
+/**
+ * Parses `key=value,key=value` as sent by agents (`AGENT_LABELS`) and in `/start?labels=`.
+ * The result still has to pass `validateLabels`.
+ */
+export function parseLabels(text: string): AgentLabels {
+  const labels: AgentLabels = {};
+  for (const entry of text.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    if (separator === -1) labels[entry] = '';
+    else labels[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return labels;
+}
+
+/**
+ * Checks a label set and returns the list of problems found, prefixed with `prefix`.
+ */
+export function validateLabels(labels: unknown, prefix: string = 'labels'): string[] {
+  if (typeof labels !== 'object' || labels === null || Array.isArray(labels)) return [`${prefix} must be an object of key/value strings`];
+  const entries = Object.entries(labels);
+  if (entries.length > MAX_LABELS) return [`${prefix} may have at most ${MAX_LABELS} entries`];
+  const errors: string[] = [];
+  for (const [key, value] of entries) {
+    if (!LABEL_KEY_PATTERN.test(key)) errors.push(`${prefix}: "${key}" is not a valid label name`);
+    else if (typeof value !== 'string' || !LABEL_VALUE_PATTERN.test(value)) errors.push(`${prefix}.${key} must be a value of [A-Za-z0-9_.-]`);
+  }
+  return errors;
+}
+
+/**
+ * Registers an agent, or refreshes it and replaces its labels when it registers again.
+ * Returns true for a new agent.
+ */
+export function registerAgent(name: string, labels: AgentLabels = {}, now: Date = new Date()): boolean {
+  const existing = agents.get(name);
+  if (existing) {
+    existing.labels = labels;
+    existing.lastSeen = now.toISOString();
+    existing.reachable = true;
+    existing.consecutiveFailures = 0;
+    persist();
+    return false;
+  }
+  agents.set(name, {
+    name,
+    labels,
+    registeredAt: now.toISOString(),
+    lastSeen: now.toISOString(),
+    capturing: false,
+    reachable: true,
+    consecutiveFailures: 0,
+  });
+  persist();
+  return true;
+}
+
+/**
+ * Reads the ring state an agent reports; undefined unless its ring is running.
+ */
+function parseAgentRing(value: unknown): AgentRing | undefined {
+  if (typeof value !== 'object' || value === null || (value as Record<string, unknown>).running !== true) return undefined;
+  const { windowSeconds, maxBytes, startedAt, segments, bytes, oldestSegmentAt } = value as Record<string, unknown>;
+  const count = (n: unknown) => (typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : undefined);
+  const time = (t: unknown) => (typeof t === 'string' && !Number.isNaN(Date.parse(t)) ? t : undefined);
+  return {
+    windowSeconds: count(windowSeconds),
+    maxBytes: count(maxBytes),
+    startedAt: time(startedAt),
+    segments: count(segments) ?? 0,
+    bytes: count(bytes) ?? 0,
+    oldestSegmentAt: time(oldestSegmentAt),
+  };
+}
+
+/**
+ * Records whether an agent's ring buffer runs, as answered by its `/ring/start` or `/ring/stop`.
+ */
+export function recordRing(name: string, ring: unknown): void {
+  const agent = agents.get(name);
+  if (agent) agent.ring = parseAgentRing(ring);
+}
+
+/**
+ * Records a heartbeat. Returns false for unknown agents, which are expected to register again.
+ */
+export function recordHeartbeat(name: string, heartbeat: Heartbeat, now: Date = new Date()): boolean {
+  const agent = agents.get(name);
+  if (!agent) return false;
+  agent.lastSeen = now.toISOString();
+  agent.capturing = heartbeat.capturing === true;
+  agent.sessionId = heartbeat.sessionId;
+  agent.finishedSessionId = heartbeat.finishedSessionId;
+  agent.disk = parseDiskUsage(heartbeat.disk);
+  agent.ring = parseAgentRing(heartbeat.ring);
+  agent.reachable = true;
+  agent.consecutiveFailures = 0;
+  return true;
+}
+
+/**
+ * Records whether a call made from control to the agent (start/stop fan-out) got an answer.
+ */
+export function recordReachability(name: string, reachable: boolean, now: Date = new Date()): void {
+  const agent = agents.get(name);
+  if (!agent) return;
+  agent.reachable = reachable;
+  if (reachable) {
+    agent.lastSeen = now.toISOString();
+    agent.consecutiveFailures = 0;
+  } else {
+    agent.consecutiveFailures += 1;
+  }
+}
+
+function healthOf(agent: AgentRecord, now: Date): AgentHealth {
+  const silentFor = now.getTime() - Date.parse(agent.lastSeen);
+  if (silentFor >= DEAD_AFTER_MS) return 'dead';
+  if (silentFor >= STALE_AFTER_MS) return 'stale';
+  return 'healthy';
+}
+
+function statusOf(agent: AgentRecord, now: Date): AgentStatus {
+  const health = healthOf(agent, now);
+  return {
+    ...agent,
+    health,
+    quarantined: health === 'dead' || agent.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES,
+  };
+}
+
+/**
+ * Drops agents that have not been seen for longer than the prune threshold.
+ * Returns the names that were removed.
+ */
+export function pruneAgents(now: Date = new Date()): string[] {
+  const pruned: string[] = [];
+  for (const agent of agents.values()) {
+    if (now.getTime() - Date.parse(agent.lastSeen) >= PRUNE_AFTER_MS) {
+      agents.delete(agent.name);
+      pruned.push(agent.name);
+    }
+  }
+  if (pruned.length > 0) persist();
+  return pruned;
+}
+
+export function listAgents(now: Date = new Date()): AgentStatus[] {
+  return [...agents.values()].map((agent) => statusOf(agent, now));
+}
+
+/**
+ * True when every listed agent has reported that its capture for `sessionId` ended on its own.
+ */
+export function allAgentsFinished(names: string[], sessionId: string): boolean {
+  return names.length > 0 && names.every((name) => agents.get(name)?.finishedSessionId === sessionId);
+}
+
+/**
+ * Names of the agents a new capture should fan out to.
+ */
+export function activeAgentNames(now: Date = new Date()): string[] {
+  return listAgents(now).filter((agent) => !agent.quarantined).map((agent) => agent.name);
+}
+
+function matchesLabels(agent: AgentRecord, labels: AgentLabels = {}): boolean {
+  return Object.entries(labels).every(([key, value]) => agent.labels[key] === value);
+}
+
+/**
+ * Names of the active agents matching `selector`, plus the listed containers that are unknown or
+ * quarantined (which the caller should report rather than silently skip).
+ */
+export function selectAgents(selector: AgentSelector, now: Date = new Date()): { names: string[]; unavailable: string[] } {
+  const active = listAgents(now).filter((agent) => !agent.quarantined);
+  const listed = selector.containers ? new Set(selector.containers) : undefined;
+  const names = active
+    .filter((agent) => (!listed || listed.has(agent.name)) && matchesLabels(agent, selector.labels))
+    .map((agent) => agent.name);
+  const unavailable = selector.containers ? selector.containers.filter((name) => !active.some((agent) => agent.name === name)) : [];
+  return { names, unavailable };
+}
+
+/**
+ * Keeps the names among `names` whose agents match `selector`, e.g. the agents of a running session
+ * that a partial `/stop` targets. Unregistered names only match a selector without labels.
+ */
+export function filterAgentNames(names: string[], selector: AgentSelector): string[] {
+  return names.filter((name) => {
+    if (selector.containers && !selector.containers.includes(name)) return false;
+    const agent = agents.get(name);
+    return agent ? matchesLabels(agent, selector.labels) : Object.keys(selector.labels || {}).length === 0;
+  });
+}
+
+/**
+ * Reads `containers=a,b` and `labels=role=web,env=staging` from a query string.
+ */
+export function selectorFromQuery(query: Record<string, unknown>): AgentSelector {
+  const selector: AgentSelector = {};
+  if (typeof query.containers === 'string') selector.containers = query.containers.split(',').map((name) => name.trim()).filter(Boolean);
+  if (typeof query.labels === 'string') selector.labels = parseLabels(query.labels);
+  return selector;
+}
+
+/**
+ * Checks a selector from a request body or query string and returns the list of problems found.
+ */
+export function validateSelector(selector: AgentSelector): string[] {
+  const errors: string[] = [];
+  if (selector.containers !== undefined) {
+    if (!Array.isArray(selector.containers) || !selector.containers.every((name) => typeof name === 'string' && isValidAgentName(name))) {
+      errors.push('containers must be a list of agent names');
+    } else if (selector.containers.length === 0) {
+      errors.push('containers must not be empty');
+    }
+  }
+  if (selector.labels !== undefined) errors.push(...validateLabels(selector.labels));
+  return errors;
+}
@@ -0,0 +1,201 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AlertRule,
+  AlertRuleInput,
+  validateAlertRule,
+  isLiveRule,
+  evaluateRules,
+  createLiveEvaluator,
+} from './alertRules';
+import { buildPacketIndex } from './packetIndex';
+import { setCommandRunner } from './processRunner';
+
+function rule(name: string, input: Partial<AlertRuleInput> & Pick<AlertRuleInput, 'kind'>): AlertRule {
+  return { name, severity: 'warning', enabled: true, threshold: 0, ...input, createdAt: '', updatedAt: '' };
+}
+
+// A tshark JSON packet with the given layers
+function packet(layers: Record<string, any>) {
+  return { _source: { layers } };
+}
+
+function tcp(src: string, srcport: number, dst: string, dstport: number, stream: number, flags: { syn?: boolean; ack?: boolean }) {
+  return packet({
+    ip: { 'ip.src': src, 'ip.dst': dst },
+    tcp: {
+      'tcp.srcport': String(srcport),
+      'tcp.dstport': String(dstport),
+      'tcp.stream': String(stream),
+      'tcp.flags_tree': { 'tcp.flags.syn': flags.syn ? '1' : '0', 'tcp.flags.ack': flags.ack ? '1' : '0' },
+    },
+  });
+}
+
+function httpResponse(code: number, stream: number) {
+  return packet({
+    ip: { 'ip.src': '10.0.0.10', 'ip.dst': '10.0.0.2' },
+    tcp: { 'tcp.srcport': '80', 'tcp.dstport': '40000', 'tcp.stream': String(stream), 'tcp.flags_tree': { 'tcp.flags.ack': '1' } },
+    http: { 'http.response.code': String(code) },
+  });
+}
+
+describe('validateAlertRule', () => {
+  it('should accept each kind with its defaults', () => {
+    expect(validateAlertRule({ kind: 'synWithoutAck', threshold: 20 })).toEqual({
+      valid: true,
+      input: { kind: 'synWithoutAck', severity: 'warning', enabled: true, threshold: 20 },
+    });
+    expect(validateAlertRule({ kind: 'httpErrorRate', threshold: 0.05, severity: 'critical' })).toEqual({
+      valid: true,
+      input: { kind: 'httpErrorRate', severity: 'critical', enabled: true, threshold: 0.05, minResponses: 20 },
+    });
+    expect(validateAlertRule({ kind: 'unexpectedPort', allowedPorts: '80, 443,8000-8080' })).toMatchObject({
+      valid: true,
+      input: { allowedPorts: '80,443,8000-8080', threshold: 0 },
+    });
+    expect(validateAlertRule({ kind: 'match', config: { payloadContent: 'DROP TABLE' }, threshold: 2, enabled: false })).toMatchObject({
+      valid: true,
+      input: { config: { payloadContent: 'DROP TABLE' }, threshold: 2, enabled: false },
+    });
+  });
+
+  it('should report field-level errors', () => {
+    expect(validateAlertRule({ kind: 'nope' })).toEqual({
+      valid: false,
+      errors: [{ field: 'kind', message: 'Must be one of synWithoutAck, httpErrorRate, unexpectedPort, match' }],
+    });
+    expect(validateAlertRule({ kind: 'synWithoutAck', allowedPorts: '80', color: 'red', severity: 'loud' })).toEqual({
+      valid: false,
+      errors: [
+        { field: 'allowedPorts', message: 'Not used by synWithoutAck rules' },
+        { field: 'color', message: 'Unknown field' },
+        { field: 'severity', message: 'Must be one of info, warning, critical' },
+        { field: 'threshold', message: 'Required: the number of half-open handshakes a source may leave' },
+      ],
+    });
+    expect(validateAlertRule({ kind: 'httpErrorRate', threshold: 5 }).valid).toBe(false);
+    expect(validateAlertRule({ kind: 'unexpectedPort', allowedPorts: '80,70000' })).toEqual({
+      valid: false,
+      errors: [{ field: 'allowedPorts', message: expect.stringContaining('70000') }],
+    });
+    expect(validateAlertRule({ kind: 'match', config: { tcpFlags: 'BOGUS' } })).toMatchObject({
+      valid: false,
+      errors: [{ field: 'config.tcpFlags' }],
+    });
+    expect(validateAlertRule({ kind: 'match', config: {} })).toMatchObject({ valid: false, errors: [{ field: 'config' }] });
+  });
+
+  it('should tell which rules can run on live summaries', () => {
+    expect(isLiveRule(rule('ports', { kind: 'unexpectedPort', allowedPorts: '80' }))).toBe(true);
+    expect(isLiveRule(rule('dns', { kind: 'match', config: { port: '53' } }))).toBe(true);
+    expect(isLiveRule(rule('rst', { kind: 'match', config: { tcpFlags: 'RST' } }))).toBe(false);
+    expect(isLiveRule(rule('syn', { kind: 'synWithoutAck' }))).toBe(false);
+  });
+
+  it('should only let live rules take snapshots', () => {
+    expect(validateAlertRule({ kind: 'unexpectedPort', allowedPorts: '443', snapshot: true })).toMatchObject({
+      valid: true,
+      input: { snapshot: true },
+    });
+    expect(validateAlertRule({ kind: 'match', config: { tcpFlags: 'RST' }, snapshot: true })).toEqual({
+      valid: false,
+      errors: [{ field: 'snapshot', message: 'Only rules evaluated on live packet summaries can take a snapshot' }],
+    });
+    expect(validateAlertRule({ kind: 'synWithoutAck', threshold: 1, snapshot: 'yes' })).toMatchObject({
+      valid: false,
+      errors: [{ field: 'snapshot', message: 'Must be a boolean' }],
+    });
+  });
+});
+
+describe('evaluateRules', () => {
+  let dir: string;
+  let jsonFile: string;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alerts-'));
+    jsonFile = path.join(dir, 'output.json');
+    const packets = [
+      // 10.0.0.2 completes its handshake; 10.0.0.66 leaves three open, one of them retransmitted
+      tcp('10.0.0.2', 40000, '10.0.0.10', 80, 0, { syn: true }),
+      tcp('10.0.0.10', 80, '10.0.0.2', 40000, 0, { syn: true, ack: true }),
+      tcp('10.0.0.2', 40000, '10.0.0.10', 80, 0, { ack: true }),
+      tcp('10.0.0.66', 50000, '10.0.0.10', 22, 1, { syn: true }),
+      tcp('10.0.0.66', 50000, '10.0.0.10', 22, 1, { syn: true }),
+      tcp('10.0.0.66', 50001, '10.0.0.10', 23, 2, { syn: true }),
+      tcp('10.0.0.66', 50002, '10.0.0.10', 6379, 3, { syn: true }),
+      httpResponse(200, 0),
+      httpResponse(502, 0),
+      httpResponse(503, 0),
+      httpResponse(200, 0),
+    ];
+    fs.writeFileSync(jsonFile, JSON.stringify(packets));
+    await buildPacketIndex(jsonFile);
+  });
+
+  afterAll(() => {
+    setCommandRunner();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const evaluate = (rules: AlertRule[]) => evaluateRules(rules, { pcapFile: path.join(dir, 'merged.pcap'), jsonFile, interfaces: ['scan1'] });
+
+  it('should find sources that leave handshakes half-open', async () => {
+    const findings = await evaluate([rule('syn', { kind: 'synWithoutAck', threshold: 2, severity: 'critical' })]);
+    expect(findings).toEqual([{
+      rule: 'syn',
+      kind: 'synWithoutAck',
+      severity: 'critical',
+      subject: '10.0.0.66',
+      value: 3,
+      threshold: 2,
+      message: '10.0.0.66 sent 3 SYNs without completing the handshake (more than 2)',
+    }]);
+    expect(await evaluate([rule('syn', { kind: 'synWithoutAck', threshold: 3 })])).toEqual([]);
+  });
+
+  it('should judge the HTTP 5xx rate once enough responses were seen', async () => {
+    const findings = await evaluate([rule('http', { kind: 'httpErrorRate', threshold: 0.25, minResponses: 4 })]);
+    expect(findings).toMatchObject([{ value: 0.5, message: '2 of 4 HTTP responses were 5xx (50%, above 25%)' }]);
+    expect(await evaluate([rule('http', { kind: 'httpErrorRate', threshold: 0.25, minResponses: 5 })])).toEqual([]);
+    expect(await evaluate([rule('http', { kind: 'httpErrorRate', threshold: 0.5, minResponses: 4 })])).toEqual([]);
+  });
+
+  it('should report traffic on ports outside the allowed ones, by service port', async () => {
+    const findings = await evaluate([rule('ports', { kind: 'unexpectedPort', allowedPorts: '80,443' })]);
+    expect(findings.map((finding) => [finding.subject, finding.value])).toEqual([['tcp/22', 2], ['tcp/23', 1], ['tcp/6379', 1]]);
+    const busy = await evaluate([rule('ports', { kind: 'unexpectedPort', allowedPorts: '80,443', threshold: 1 })]);
+    expect(busy.map((finding) => finding.subject)).toEqual(['tcp/22']);
+  });
+
+  it('should count the packets matching a filter config with tshark', async () => {
+    const run = jest.fn(async () => ({ stdout: '| Interval | Frames | Bytes |\n|  0.000 <>  2.000 |   7 |   420 |\n', stderr: '' }));
+    setCommandRunner(run);
+    const findings = await evaluate([rule('rst', { kind: 'match', config: { tcpFlags: 'RST', container: 'scan1' }, threshold: 5 })]);
+    expect(run).toHaveBeenCalledWith('tshark', [
+      '-r', path.join(dir, 'merged.pcap'), '-q', '-z', 'io,stat,0', '-2', '-R', '(tcp.flags.reset == 1) and (frame.interface_id == 0)',
+    ], {});
+    expect(findings).toMatchObject([{ rule: 'rst', value: 7, message: '7 packets matched (tcp.flags.reset == 1) and (frame.interface_id == 0) (more than 5)' }]);
+  });
+});
+
+describe('createLiveEvaluator', () => {
+  const summary = (sourcePort: number, destinationPort: number, protocols = ['eth', 'ip', 'tcp']) =>
+    ({ containerName: 'scan1', time: 1, length: 60, protocols, source: '10.0.0.2', destination: '10.0.0.10', sourcePort, destinationPort });
+
+  it('should fire each live rule once, when its count first exceeds the threshold', () => {
+    const evaluate = createLiveEvaluator([
+      rule('ports', { kind: 'unexpectedPort', allowedPorts: '80', threshold: 1 }),
+      rule('dns', { kind: 'match', config: { port: '53' } }),
+      rule('syn', { kind: 'synWithoutAck', threshold: 0 }),
+    ]);
+    expect(evaluate(summary(40000, 80))).toEqual([]);
+    expect(evaluate(summary(40000, 6379))).toEqual([]);
+    expect(evaluate(summary(6379, 40000))).toMatchObject([{ rule: 'ports', subject: 'tcp/6379', value: 2 }]);
+    expect(evaluate(summary(6379, 40000))).toEqual([]);
+    // udp/53 is below the port rule's threshold; the DNS rule fires on its first packet
+    expect(evaluate(summary(5353, 53, ['eth', 'ip', 'udp']))).toMatchObject([{ rule: 'dns', value: 1 }]);
+  });
+});
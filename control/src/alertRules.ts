@@ -0,0 +1,448 @@
+/**
+ * @file alertRules.ts
+ * @description Alert rules evaluated on captured traffic. A rule is one of:
+ * - `synWithoutAck`: a source left more than `threshold` TCP handshakes half-open (SYN sent, never ACKed)
+ * - `httpErrorRate`: more than `threshold` (a fraction) of the HTTP responses were 5xx, once `minResponses` were seen
+ * - `unexpectedPort`: more than `threshold` packets (0 by default) on a TCP/UDP port outside `allowedPorts`,
+ *   written like the `port` field of the filter config
+ * - `match`: more than `threshold` packets (0 by default) match `config`, a filter config as in `POST /config`,
+ *   e.g. `{ "tcpFlags": "RST" }` or `{ "payloadContent": "DROP TABLE" }`
+ *
+ * Rules run over every finished session. While a session is running, `unexpectedPort` rules and the `match`
+ * rules the live view can evaluate (see liveFeed.ts) also run on the live packet summaries. Such a rule may
+ * set `snapshot`: it then also watches the traffic the agents' ring buffers record, and a finding there
+ * freezes the rings into a session. Rules are persisted to `<dataDir>/alert-rules.json`.
+ */
+
+import path from 'path';
+import fsSync from 'fs';
+import { CaptureFilterConfig, FieldError, validateFilterConfig, buildWiresharkFilterFromConfig } from './filterConfig';
+import { PacketSummary, compileLiveFilter } from './liveFeed';
+import { indexPathFor, packetCount, readPackets, projectPacket } from './packetIndex';
+import { countMatchingPackets } from './trafficStats';
+
+export type AlertRuleKind = 'synWithoutAck' | 'httpErrorRate' | 'unexpectedPort' | 'match';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertRule {
+  name: string;
+  kind: AlertRuleKind;
+  description?: string;
+  severity: AlertSeverity;
+  enabled: boolean;
+  threshold: number;
+  // httpErrorRate: responses needed before the rate is judged
+  minResponses?: number;
+  // unexpectedPort: ports and ranges traffic may use, e.g. `80,443,8000-8080`
+  allowedPorts?: string;
+  // match: the packets to count
+  config?: CaptureFilterConfig;
+  // Live rules only: a finding on the ring buffer traffic takes a snapshot of the rings
+  snapshot?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'name' | 'createdAt' | 'updatedAt'>;
+
+export type AlertRuleValidation =
+  | { valid: true; input: AlertRuleInput }
+  | { valid: false; errors: FieldError[] };
+
+/**
+ * One thing a rule found in a capture, before it is stored as an alert.
+ */
+export interface AlertFinding {
+  rule: string;
+  kind: AlertRuleKind;
+  severity: AlertSeverity;
+  // What the finding is about, e.g. the source address or `tcp/6379`; rules judging the whole capture have none
+  subject?: string;
+  value: number;
+  threshold: number;
+  message: string;
+}
+
+export interface EvaluatedCapture {
+  pcapFile: string;
+  // tshark JSON of `pcapFile`, indexed
+  jsonFile: string;
+  // Container behind each interface, for `container` in match configs
+  interfaces?: string[];
+}
+
+/**
+ * Evaluates one live packet summary and returns the findings it completes; each rule and subject fires once.
+ */
+export type LiveRuleEvaluator = (summary: PacketSummary) => AlertFinding[];
+
+const NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+export const ALERT_RULE_KINDS: AlertRuleKind[] = ['synWithoutAck', 'httpErrorRate', 'unexpectedPort', 'match'];
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const DEFAULT_MIN_RESPONSES = 20;
+const MAX_DESCRIPTION_LENGTH = 500;
+// Findings kept per rule and capture, largest first; a scan can otherwise produce thousands
+const MAX_FINDINGS_PER_RULE = 20;
+const PAGE_SIZE = 1000;
+
+// Fields each kind accepts besides name, kind, description, severity and enabled
+const KIND_FIELDS: Record<AlertRuleKind, string[]> = {
+  synWithoutAck: ['threshold'],
+  httpErrorRate: ['threshold', 'minResponses'],
+  unexpectedPort: ['threshold', 'allowedPorts'],
+  match: ['threshold', 'config'],
+};
+
+const RULE_FIELDS = [
+  'ip.src',
+  'ip.dst',
+  'ipv6.src',
+  'ipv6.dst',
+  'tcp.srcport',
+  'tcp.dstport',
+  'tcp.stream',
+  'tcp.flags.syn',
+  'tcp.flags.ack',
+  'udp.srcport',
+  'udp.dstport',
+  'http.response.code',
+];
+
+const rules = new Map<string, AlertRule>();
+let rulesFile: string | undefined;
+
+export function isValidRuleName(name: string): boolean {
+  return NAME_PATTERN.test(name);
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Validates a rule body (`{ kind, description, severity, enabled, threshold, ... }`).
+ */
+export function validateAlertRule(raw: unknown): AlertRuleValidation {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { valid: false, errors: [{ field: '', message: 'Rule must be a JSON object' }] };
+  }
+  const body = raw as Record<string, any>;
+  const errors: FieldError[] = [];
+  const kind = body.kind as AlertRuleKind;
+  if (!ALERT_RULE_KINDS.includes(kind)) {
+    return { valid: false, errors: [{ field: 'kind', message: `Must be one of ${ALERT_RULE_KINDS.join(', ')}` }] };
+  }
+  const input: AlertRuleInput = { kind, severity: 'warning', enabled: true, threshold: 0 };
+
+  for (const field of Object.keys(body)) {
+    if (['name', 'kind', 'description', 'severity', 'enabled', 'snapshot'].includes(field) || KIND_FIELDS[kind].includes(field)) continue;
+    const usedBy = ALERT_RULE_KINDS.filter((other) => KIND_FIELDS[other].includes(field));
+    errors.push({ field, message: usedBy.length > 0 ? `Not used by ${kind} rules` : 'Unknown field' });
+  }
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string' || body.description.length > MAX_DESCRIPTION_LENGTH) {
+      errors.push({ field: 'description', message: `Must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` });
+    } else {
+      input.description = body.description;
+    }
+  }
+  if (body.severity !== undefined) {
+    if (!ALERT_SEVERITIES.includes(body.severity)) errors.push({ field: 'severity', message: `Must be one of ${ALERT_SEVERITIES.join(', ')}` });
+    else input.severity = body.severity;
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') errors.push({ field: 'enabled', message: 'Must be a boolean' });
+    else input.enabled = body.enabled;
+  }
+  if (body.snapshot !== undefined) {
+    if (typeof body.snapshot !== 'boolean') errors.push({ field: 'snapshot', message: 'Must be a boolean' });
+    else input.snapshot = body.snapshot;
+  }
+
+  if (kind === 'httpErrorRate') {
+    if (typeof body.threshold !== 'number' || !(body.threshold >= 0 && body.threshold < 1)) {
+      errors.push({ field: 'threshold', message: 'Must be a fraction of responses, at least 0 and below 1' });
+    } else {
+      input.threshold = body.threshold;
+    }
+    if (body.minResponses !== undefined && (!isCount(body.minResponses) || body.minResponses < 1)) {
+      errors.push({ field: 'minResponses', message: 'Must be a positive integer' });
+    } else {
+      input.minResponses = body.minResponses ?? DEFAULT_MIN_RESPONSES;
+    }
+  } else if (kind === 'synWithoutAck' && body.threshold === undefined) {
+    errors.push({ field: 'threshold', message: 'Required: the number of half-open handshakes a source may leave' });
+  } else if (body.threshold !== undefined) {
+    if (!isCount(body.threshold)) errors.push({ field: 'threshold', message: 'Must be a non-negative integer' });
+    else input.threshold = body.threshold;
+  }
+
+  if (kind === 'unexpectedPort') {
+    const validation = typeof body.allowedPorts === 'string' && body.allowedPorts.trim()
+      ? validateFilterConfig({ port: body.allowedPorts })
+      : undefined;
+    if (!validation) {
+      errors.push({ field: 'allowedPorts', message: 'Required: a comma-separated list of ports or ranges' });
+    } else if (!validation.valid) {
+      errors.push(...validation.errors.map((error) => ({ field: 'allowedPorts', message: error.message })));
+    } else {
+      input.allowedPorts = validation.config.port;
+    }
+  }
+
+  if (kind === 'match') {
+    const validation = validateFilterConfig(body.config);
+    if (!validation.valid) {
+      errors.push(...validation.errors.map((error) => ({ field: `config.${error.field}`.replace(/\.$/, ''), message: error.message })));
+    } else if (!buildWiresharkFilterFromConfig(validation.config)) {
+      errors.push({ field: 'config', message: 'Required: a non-empty filter config' });
+    } else {
+      input.config = validation.config;
+    }
+  }
+  if (input.snapshot && errors.length === 0 && !isLiveRule(input)) {
+    errors.push({ field: 'snapshot', message: 'Only rules evaluated on live packet summaries can take a snapshot' });
+  }
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, input };
+}
+
+/**
+ * Whether the rule also runs on the live packet summaries of a running session.
+ */
+export function isLiveRule(rule: AlertRuleInput): boolean {
+  if (rule.kind === 'unexpectedPort') return true;
+  return rule.kind === 'match' && compileLiveFilter(rule.config).ignoredFields.length === 0;
+}
+
+function persist() {
+  if (!rulesFile) return;
+  fsSync.writeFileSync(rulesFile, JSON.stringify([...rules.values()], null, 2), 'utf-8');
+}
+
+/**
+ * Loads the persisted rules. Call once when the server starts.
+ */
+export function loadAlertRules(dataDir: string): void {
+  rulesFile = path.join(dataDir, 'alert-rules.json');
+  if (!fsSync.existsSync(rulesFile)) return;
+  for (const rule of JSON.parse(fsSync.readFileSync(rulesFile, 'utf-8')) as AlertRule[]) {
+    rules.set(rule.name, rule);
+  }
+}
+
+export function listAlertRules(): AlertRule[] {
+  return [...rules.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getAlertRule(name: string): AlertRule | undefined {
+  return rules.get(name);
+}
+
+/**
+ * Creates or replaces a rule. The input must already have passed `validateAlertRule`.
+ */
+export function saveAlertRule(name: string, input: AlertRuleInput): AlertRule {
+  const now = new Date().toISOString();
+  const rule: AlertRule = { name, ...input, createdAt: rules.get(name)?.createdAt ?? now, updatedAt: now };
+  rules.set(name, rule);
+  persist();
+  return rule;
+}
+
+export function removeAlertRule(name: string): boolean {
+  if (!rules.delete(name)) return false;
+  persist();
+  return true;
+}
+
+// tshark repeats a field when a packet carries a layer twice (e.g. tunnels); the outermost value wins
+function first(value: any): string | undefined {
+  if (Array.isArray(value)) return first(value[0]);
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+// tshark writes flags as "1"/"0", older versions as "True"/"False"
+function isSet(value: any): boolean {
+  const flag = first(value)?.toLowerCase();
+  return flag === '1' || flag === 'true';
+}
+
+function increment(map: Map<string, number>, key: string) {
+  map.set(key, (map.get(key) || 0) + 1);
+}
+
+function portMatcher(ports: string): (port: number) => boolean {
+  const ranges = ports.split(',').map((value) => {
+    const [start, end] = value.trim().split('-').map(Number);
+    return [start, end === undefined ? start : end];
+  });
+  return (port) => ranges.some(([start, end]) => port >= start && port <= end);
+}
+
+function finding(rule: AlertRule, fields: Pick<AlertFinding, 'subject' | 'value' | 'message'>): AlertFinding {
+  return { rule: rule.name, kind: rule.kind, severity: rule.severity, threshold: rule.threshold, ...fields };
+}
+
+/**
+ * Turns per-subject counts into findings for the counts above the rule's threshold, largest first.
+ */
+function countFindings(rule: AlertRule, counts: Map<string, number>, describe: (subject: string, count: number) => string): AlertFinding[] {
+  return [...counts.entries()]
+    .filter(([, count]) => count > rule.threshold)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_FINDINGS_PER_RULE)
+    .map(([subject, count]) => finding(rule, { subject, value: count, message: describe(subject, count) }));
+}
+
+interface PacketCheck {
+  observe(fields: Record<string, any>): void;
+  findings(): AlertFinding[];
+}
+
+function synWithoutAckCheck(rule: AlertRule): PacketCheck {
+  // Handshakes by TCP stream: who sent the SYN and whether they went on to ACK
+  const handshakes = new Map<string, { source: string; acknowledged: boolean }>();
+  return {
+    observe(fields) {
+      if (fields['tcp.srcport'] === null) return;
+      const source = first(fields['ip.src']) ?? first(fields['ipv6.src']);
+      const destination = first(fields['ip.dst']) ?? first(fields['ipv6.dst']);
+      if (source === undefined) return;
+      const key = first(fields['tcp.stream'])
+        ?? `${source}:${first(fields['tcp.srcport'])}|${destination}:${first(fields['tcp.dstport'])}`;
+      const syn = isSet(fields['tcp.flags.syn']);
+      const ack = isSet(fields['tcp.flags.ack']);
+      if (syn && !ack) {
+        if (!handshakes.has(key)) handshakes.set(key, { source, acknowledged: false });
+      } else if (ack && !syn) {
+        const handshake = handshakes.get(key);
+        if (handshake?.source === source) handshake.acknowledged = true;
+      }
+    },
+    findings() {
+      const halfOpen = new Map<string, number>();
+      for (const handshake of handshakes.values()) {
+        if (!handshake.acknowledged) increment(halfOpen, handshake.source);
+      }
+      return countFindings(rule, halfOpen, (source, count) =>
+        `${source} sent ${count} SYNs without completing the handshake (more than ${rule.threshold})`);
+    },
+  };
+}
+
+function httpErrorRateCheck(rule: AlertRule): PacketCheck {
+  let responses = 0;
+  let errors = 0;
+  return {
+    observe(fields) {
+      const code = first(fields['http.response.code']);
+      if (code === undefined) return;
+      responses++;
+      if (code.startsWith('5')) errors++;
+    },
+    findings() {
+      const rate = responses > 0 ? errors / responses : 0;
+      if (responses < (rule.minResponses ?? DEFAULT_MIN_RESPONSES) || rate <= rule.threshold) return [];
+      const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+      return [finding(rule, {
+        value: Math.round(rate * 10000) / 10000,
+        message: `${errors} of ${responses} HTTP responses were 5xx (${percent(rate)}, above ${percent(rule.threshold)})`,
+      })];
+    },
+  };
+}
+
+// The lower port of a packet is taken as the service port; the other is usually an ephemeral client port
+function servicePort(transport: string, sourcePort: number, destinationPort: number): string {
+  return `${transport}/${Math.min(sourcePort, destinationPort)}`;
+}
+
+function unexpectedPortCheck(rule: AlertRule): PacketCheck {
+  const allowed = portMatcher(rule.allowedPorts || '');
+  const packets = new Map<string, number>();
+  return {
+    observe(fields) {
+      for (const transport of ['tcp', 'udp']) {
+        if (fields[`${transport}.srcport`] === null) continue;
+        const sourcePort = Number(first(fields[`${transport}.srcport`]));
+        const destinationPort = Number(first(fields[`${transport}.dstport`]));
+        if (!allowed(sourcePort) && !allowed(destinationPort)) {
+          increment(packets, servicePort(transport, sourcePort, destinationPort));
+        }
+        break;
+      }
+    },
+    findings() {
+      return countFindings(rule, packets, (port, count) => `${count} packets on unexpected port ${port}`);
+    },
+  };
+}
+
+function packetCheck(rule: AlertRule): PacketCheck | undefined {
+  if (rule.kind === 'synWithoutAck') return synWithoutAckCheck(rule);
+  if (rule.kind === 'httpErrorRate') return httpErrorRateCheck(rule);
+  if (rule.kind === 'unexpectedPort') return unexpectedPortCheck(rule);
+  return undefined;
+}
+
+/**
+ * Evaluates `rules` over a finished capture: one paged pass over its JSON for the packet rules, and one
+ * tshark count per `match` rule.
+ */
+export async function evaluateRules(rules: AlertRule[], capture: EvaluatedCapture): Promise<AlertFinding[]> {
+  const findings: AlertFinding[] = [];
+  const checks = rules.map(packetCheck).filter((check): check is PacketCheck => check !== undefined);
+  if (checks.length > 0) {
+    const indexFile = indexPathFor(capture.jsonFile);
+    const total = await packetCount(indexFile);
+    for (let offset = 0; offset < total; offset += PAGE_SIZE) {
+      for (const packet of await readPackets(capture.jsonFile, indexFile, offset, PAGE_SIZE)) {
+        const fields = projectPacket(packet, RULE_FIELDS);
+        for (const check of checks) check.observe(fields);
+      }
+    }
+    for (const check of checks) findings.push(...check.findings());
+  }
+  for (const rule of rules.filter((candidate) => candidate.kind === 'match')) {
+    const filter = buildWiresharkFilterFromConfig(rule.config || {}, capture.interfaces);
+    const { packets } = await countMatchingPackets(capture.pcapFile, filter);
+    if (packets > rule.threshold) {
+      findings.push(finding(rule, { value: packets, message: `${packets} packets matched ${filter} (more than ${rule.threshold})` }));
+    }
+  }
+  return findings;
+}
+
+/**
+ * Builds the live evaluator of a session for the rules that can run on packet summaries. Counts start
+ * from zero, so a finding fires when its count first goes above the threshold.
+ */
+export function createLiveEvaluator(rules: AlertRule[]): LiveRuleEvaluator {
+  const counts = new Map<string, number>();
+  const bump = (key: string) => {
+    increment(counts, key);
+    return counts.get(key) as number;
+  };
+  const evaluators = rules.filter(isLiveRule).map((rule): LiveRuleEvaluator => {
+    if (rule.kind === 'unexpectedPort') {
+      const allowed = portMatcher(rule.allowedPorts || '');
+      return (summary) => {
+        const transport = ['tcp', 'udp'].find((protocol) => summary.protocols.includes(protocol));
+        if (!transport || summary.sourcePort === undefined || summary.destinationPort === undefined) return [];
+        if (allowed(summary.sourcePort) || allowed(summary.destinationPort)) return [];
+        const port = servicePort(transport, summary.sourcePort, summary.destinationPort);
+        const count = bump(`${rule.name}|${port}`);
+        if (count !== rule.threshold + 1) return [];
+        return [finding(rule, { subject: port, value: count, message: `${count} packets on unexpected port ${port}` })];
+      };
+    }
+    const filter = compileLiveFilter(rule.config);
+    return (summary) => {
+      if (!filter.matches(summary)) return [];
+      const count = bump(rule.name);
+      if (count !== rule.threshold + 1) return [];
+      return [finding(rule, { value: count, message: `${count} packets matched the rule's filter (more than ${rule.threshold})` })];
+    };
+  });
+  return (summary) => evaluators.flatMap((evaluate) => evaluate(summary));
+}
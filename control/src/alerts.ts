@@ -0,0 +1,125 @@
+/**
+ * @file alerts.ts
+ * @description Alerts raised by the alert rules (see alertRules.ts). The latest alerts are kept in
+ * `<dataDir>/alerts.json`, newest first, and each new alert is POSTed as JSON to `ALERT_WEBHOOK_URL` when set.
+ *
+ * A rule raises at most one alert per session and subject: a finding already raised live is not raised
+ * again when the finished session is evaluated, nor when the session is evaluated a second time.
+ */
+
+import path from 'path';
+import fsSync from 'fs';
+import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { AlertFinding, AlertSeverity } from './alertRules';
+import { HttpClient } from './httpClient';
+import { logEvent } from './logger';
+import { counter } from './metrics';
+
+export type AlertSource = 'live' | 'session';
+
+export interface Alert extends AlertFinding {
+  id: string;
+  sessionId: string;
+  source: AlertSource;
+  createdAt: string;
+  // Outcome of the webhook delivery, when a webhook is configured
+  webhook?: 'sent' | 'failed';
+}
+
+export interface AlertQuery {
+  sessionId?: string;
+  rule?: string;
+  severity?: AlertSeverity;
+  source?: AlertSource;
+  // ISO-8601 lower bound on createdAt
+  from?: string;
+  limit: number;
+}
+
+const MAX_ALERTS = 5000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const alertsRaised = counter('control_alerts_total', 'Alerts raised by the alert rules.');
+
+// Newest first
+let alerts: Alert[] = [];
+let alertsFile: string | undefined;
+let webhookUrl: string | undefined;
+let webhookHttp: HttpClient = axios;
+
+function persist() {
+  if (!alertsFile) return;
+  fsSync.writeFileSync(alertsFile, JSON.stringify(alerts, null, 2), 'utf-8');
+}
+
+/**
+ * Loads the persisted alerts. Call once when the server starts.
+ */
+export function loadAlerts(dataDir: string): void {
+  alertsFile = path.join(dataDir, 'alerts.json');
+  if (!fsSync.existsSync(alertsFile)) return;
+  alerts = JSON.parse(fsSync.readFileSync(alertsFile, 'utf-8'));
+}
+
+/**
+ * Sets where new alerts are POSTed; without a URL, no webhook is called.
+ */
+export function setAlertWebhook(url: string | undefined, http: HttpClient = axios): void {
+  webhookUrl = url || undefined;
+  webhookHttp = http;
+}
+
+async function deliver(alert: Alert): Promise<void> {
+  if (!webhookUrl) return;
+  try {
+    await webhookHttp.post(webhookUrl, alert, { timeout: WEBHOOK_TIMEOUT_MS });
+    alert.webhook = 'sent';
+  } catch (err: any) {
+    alert.webhook = 'failed';
+    logEvent('Alert webhook', `Alert: ${alert.id} | Error: ${err?.message || String(err)}`, false, { sessionId: alert.sessionId });
+  }
+}
+
+function alertKey(alert: { sessionId: string; rule: string; subject?: string }): string {
+  return `${alert.sessionId}|${alert.rule}|${alert.subject ?? ''}`;
+}
+
+/**
+ * Stores the findings of a session that were not raised before, delivers them to the webhook and
+ * returns the new alerts.
+ */
+export async function raiseAlerts(sessionId: string, source: AlertSource, findings: AlertFinding[]): Promise<Alert[]> {
+  const raised = new Set(alerts.filter((alert) => alert.sessionId === sessionId).map(alertKey));
+  const created: Alert[] = [];
+  for (const finding of findings) {
+    const key = alertKey({ sessionId, ...finding });
+    if (raised.has(key)) continue;
+    raised.add(key);
+    created.push({ id: randomBytes(6).toString('hex'), sessionId, source, createdAt: new Date().toISOString(), ...finding });
+  }
+  if (created.length === 0) return [];
+  alerts = [...created.slice().reverse(), ...alerts].slice(0, MAX_ALERTS);
+  for (const alert of created) {
+    alertsRaised.inc({ rule: alert.rule, severity: alert.severity });
+    logEvent('Alert raised', `Rule: ${alert.rule} | ${alert.message}`, true, { sessionId });
+  }
+  await Promise.all(created.map(deliver));
+  persist();
+  return created;
+}
+
+export function queryAlerts(query: AlertQuery): Alert[] {
+  return alerts
+    .filter((alert) =>
+      (query.sessionId === undefined || alert.sessionId === query.sessionId)
+      && (query.rule === undefined || alert.rule === query.rule)
+      && (query.severity === undefined || alert.severity === query.severity)
+      && (query.source === undefined || alert.source === query.source)
+      && (query.from === undefined || alert.createdAt >= query.from))
+    .slice(0, query.limit);
+}
+
+export function getAlert(id: string): Alert | undefined {
+  return alerts.find((alert) => alert.id === id);
+}
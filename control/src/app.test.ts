@@ -1,49 +1,183 @@
 import request from 'supertest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
 import express from 'express';
-import http from 'http';
-import app from './app';
+import { createApp } from './app';
+import { CaptureSession, createSession, loadSession, saveSession } from './sessions';
+import { CommandError, RunOptions, setCommandRunner } from './processRunner';
+import { HttpClient } from './httpClient';
+import { saveControlState } from './controlState';
 
-import axios from 'axios';
-import fs from 'fs/promises';
-import fsSync from 'fs';
-import path from 'path';
-import { exec } from 'child_process';
-
-let server: http.Server;
-
-beforeAll((done) => {
-  // Mock axios.get to always resolve for /start and /stop
-  jest.spyOn(axios, 'get').mockImplementation(async () => ({ data: {} }));
-  // Mock fs and fsSync methods to avoid real file operations
-  jest.spyOn(fs, 'readdir').mockResolvedValue([]);
-  jest.spyOn(fs, 'unlink').mockResolvedValue(undefined as any);
-  jest.spyOn(fs, 'rm').mockResolvedValue(undefined as any);
-  jest.spyOn(fs, 'readFile').mockResolvedValue('[]');
-  jest.spyOn(fs, 'writeFile').mockResolvedValue(undefined as any);
-  jest.spyOn(fsSync, 'existsSync').mockReturnValue(false);
-  jest.spyOn(fsSync, 'mkdirSync').mockImplementation(() => undefined); // Fix: return undefined
-  jest.spyOn(fsSync, 'readFileSync').mockReturnValue('[]');
-  jest.spyOn(fsSync, 'writeFileSync').mockImplementation(() => {});
-  // Mock child_process.exec to always succeed
-  jest.spyOn(require('child_process'), 'exec').mockImplementation(
-    (...args: unknown[]) => {
-      const callback = args[1] as Function;
-      // Simulate async success
-      setImmediate(() => callback && callback(null));
-      return {} as any;
+// Three packets of an HTTP request, as an agent's tcpdump would have written them
+const FIXTURE = path.join(__dirname, 'fixtures', 'scan1.pcap');
+const FIXTURE_BYTES = fs.readFileSync(FIXTURE);
+const FIXTURE_SHA256 = createHash('sha256').update(FIXTURE_BYTES).digest('hex');
+
+function tsharkPacket(number: number, time: string, length: number) {
+  return {
+    _index: 'packets-2025-01-01',
+    _type: 'doc',
+    _score: null,
+    _source: {
+      layers: {
+        frame: { 'frame.interface_id': '0', 'frame.number': String(number), 'frame.time': time, 'frame.len': String(length) },
+        ip: { 'ip.src': '10.0.0.2', 'ip.dst': '10.0.0.10' },
+        tcp: { 'tcp.srcport': '40000', 'tcp.dstport': '80' },
+      },
+    },
+  };
+}
+
+// What `tshark -T json` prints for the fixture
+const FIXTURE_PACKETS = [
+  tsharkPacket(1, 'Jan  1, 2025 12:00:00.000000000 UTC', 54),
+  tsharkPacket(2, 'Jan  1, 2025 12:00:00.001000000 UTC', 54),
+  tsharkPacket(3, 'Jan  1, 2025 12:00:00.002000000 UTC', 94),
+];
+
+interface AgentBehaviour {
+  // Let the stop request time out instead of acknowledging it
+  timeout?: boolean;
+  // Keep the capture on the agent, as when /data is not shared, so control has to pull it
+  remote?: boolean;
+  // Acknowledge with a checksum the capture does not match
+  corrupt?: boolean;
+  // Refuse /start, as an agent rejecting the capture options does
+  refuseStart?: boolean;
+  // Packet summaries the agent's ring buffer streams on /live?ring=true
+  ringPackets?: object[];
+}
+
+/**
+ * Stands in for the agents behind the HTTP client: `/stop` writes the fixture to the agent's dumpfile
+ * on the shared data directory and acknowledges it, `/captures` serves it in ranges and `/status`
+ * reports the session an agent was started for. `/ring/snapshot` freezes a ring buffer the same way.
+ */
+function fakeAgents(dataDir: string) {
+  const behaviours = new Map<string, AgentBehaviour>();
+  const capturing = new Map<string, string>();
+  const rings = new Set<string>();
+  const ring = (windowSeconds: number) => ({ running: true, windowSeconds, segments: 1, bytes: 24, startedAt: new Date().toISOString() });
+  const get = jest.fn(async (url: string, config: any = {}) => {
+    const { hostname, pathname, searchParams } = new URL(url);
+    const behaviour = behaviours.get(hostname) ?? {};
+    if (pathname === '/start' && behaviour.refuseStart) {
+      throw Object.assign(new Error('Request failed with status code 400'), { response: { status: 400, data: 'Invalid capture filter' } });
+    }
+    if (pathname === '/start') capturing.set(hostname, searchParams.get('session')!);
+    if (pathname === '/status') {
+      return { data: { containerName: hostname, labels: 'role=restored', capturing: capturing.has(hostname), sessionId: capturing.get(hostname) } };
+    }
+    if (pathname === '/ring/start') {
+      rings.add(hostname);
+      return { data: ring(Number(searchParams.get('window'))) };
+    }
+    if (pathname === '/ring/stop') {
+      rings.delete(hostname);
+      return { data: { message: 'Ring buffer stopped' } };
+    }
+    if (pathname === '/ring/snapshot') {
+      fs.copyFileSync(FIXTURE, path.join(dataDir, 'sessions', searchParams.get('session')!, `dumpfile_${hostname}.pcap`));
+      return { data: { exitCode: 0, fileSize: FIXTURE_BYTES.length, packetCount: 3, packetsDropped: 0, endedBy: 'snapshot', sha256: FIXTURE_SHA256 } };
+    }
+    if (pathname === '/live' && searchParams.get('ring') === 'true' && behaviour.ringPackets) {
+      return { data: Readable.from(behaviour.ringPackets.map((packet) => `${JSON.stringify(packet)}\n`)) };
+    }
+    if (pathname === '/stop') {
+      capturing.delete(hostname);
+      if (behaviour.timeout) throw Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ECONNABORTED' });
+      if (!behaviour.remote) {
+        fs.copyFileSync(FIXTURE, path.join(dataDir, 'sessions', searchParams.get('session')!, `dumpfile_${hostname}.pcap`));
+      }
+      const sha256 = behaviour.corrupt ? '0'.repeat(64) : FIXTURE_SHA256;
+      return { data: { exitCode: 0, fileSize: FIXTURE_BYTES.length, packetCount: 3, packetsDropped: 0, endedBy: 'stop', sha256 } };
+    }
+    if (pathname.startsWith('/captures/')) {
+      const [, start, end] = /^bytes=(\d+)-(\d+)$/.exec(config.headers.Range)!;
+      return { status: 206, data: Readable.from([FIXTURE_BYTES.subarray(Number(start), Number(end) + 1)]) };
+    }
+    // /start, and /live without any packets to stream
+    return { data: {} };
+  });
+  // The alert webhook
+  const post = jest.fn(async () => ({ data: {} }));
+  const urls = (pattern: RegExp) => get.mock.calls.map(([url]) => url).filter((url) => pattern.test(url));
+  return { http: { get, post } as unknown as HttpClient, get, post, behaviours, urls };
+}
+
+/**
+ * Stands in for mergecap and tshark: outputs are written where the real tools would write them, and
+ * each file's packets are tracked so `tshark -T json` prints what was merged or filtered into it.
+ * Display filters are recorded but not applied; a filter containing `bogus` fails like tshark does, and
+ * `-z io,stat,0` counts every packet of the file as matching.
+ */
+function fakeWireshark() {
+  const packets = new Map<string, any[]>();
+  const packetsOf = (file: string) => packets.get(file) ?? FIXTURE_PACKETS;
+  const argAfter = (args: string[], flag: string) => args[args.indexOf(flag) + 1];
+  const run = jest.fn(async (command: string, args: string[], options: RunOptions = {}) => {
+    if (command === 'mergecap') {
+      const output = argAfter(args, '-w');
+      const inputs = args.slice(args.indexOf('-w') + 2);
+      fs.writeFileSync(output, Buffer.concat(inputs.map((file) => fs.readFileSync(file))));
+      packets.set(output, inputs.flatMap((file, index) => packetsOf(file).map((packet) => {
+        const layers = { ...packet._source.layers, frame: { ...packet._source.layers.frame, 'frame.interface_id': String(index) } };
+        return { ...packet, _source: { layers } };
+      })));
+    } else if (args.includes('io,stat,0')) {
+      const count = packetsOf(argAfter(args, '-r')).length;
+      return { stdout: `|  0.000 <>  0.002 | ${count} | ${count * 60} |\n`, stderr: '' };
+    } else if (args.includes('-Y')) {
+      if (argAfter(args, '-Y').includes('bogus')) {
+        throw new CommandError('tshark', 4, 'tshark: "bogus" is neither a field nor a protocol name.');
+      }
+      fs.copyFileSync(argAfter(args, '-r'), argAfter(args, '-w'));
+      packets.set(argAfter(args, '-w'), packetsOf(argAfter(args, '-r')));
+    } else if (argAfter(args, '-T') === 'json') {
+      fs.writeFileSync(options.stdoutFile!, JSON.stringify(packetsOf(argAfter(args, '-r')), null, 2));
     }
-  );
-  server = app.listen(4000, done);
+    return { stdout: '', stderr: '' };
+  });
+  const filterRuns = () =>
+    run.mock.calls.filter(([, args]) => args.includes('-Y')).map(([, args]) => [argAfter(args, '-Y'), argAfter(args, '-w')]);
+  return { run, filterRuns };
+}
+
+let dataDir: string;
+let agents: ReturnType<typeof fakeAgents>;
+let wireshark: ReturnType<typeof fakeWireshark>;
+let app: express.Express;
+
+beforeAll(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'control-'));
+  agents = fakeAgents(dataDir);
+  wireshark = fakeWireshark();
+  process.env.ALERT_WEBHOOK_URL = 'http://hooks.example/alerts';
+  ({ app } = createApp({ dataDir, http: agents.http, runCommand: wireshark.run }));
 });
 
-afterAll((done) => {
-  jest.restoreAllMocks();
-  server.close(done);
+afterAll(() => {
+  setCommandRunner();
+  delete process.env.ALERT_WEBHOOK_URL;
+  fs.rmSync(dataDir, { recursive: true, force: true });
 });
 
+/**
+ * Stores a finished session on disk, with the fixture as its merged capture unless `merged` is false.
+ */
+function storedSession(fields: Partial<CaptureSession> = {}, merged: boolean = true): CaptureSession {
+  const session: CaptureSession = { ...createSession(dataDir, ['scan1']), status: 'stopped', interfaces: ['scan1'], ...fields };
+  saveSession(session);
+  if (merged) fs.copyFileSync(FIXTURE, path.join(session.dir, 'merged.pcap'));
+  return session;
+}
+
 describe('GET /test', () => {
   it('should return server is running message', async () => {
-    const res = await request(server).get('/test');
+    const res = await request(app).get('/test');
     expect(res.statusCode).toBe(200);
     expect(res.text).toBe('Server is running and reachable.');
   });
@@ -51,55 +185,809 @@ describe('GET /test', () => {
 
 describe('GET /server-name/:containerName', () => {
   it('should register a new container name', async () => {
-    const res = await request(server).get('/server-name/testcontainer');
+    const res = await request(app).get('/server-name/testcontainer');
     expect(res.statusCode).toBe(200);
     expect(res.text).toContain('Container name received: testcontainer');
   });
+
+  it('should reject names that are not valid hostnames', async () => {
+    const res = await request(app).get('/server-name/evil.com%3A80%2Fx');
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('should record the labels an agent reports', async () => {
+    const res = await request(app).get('/server-name/labelled?labels=role%3Ddb%2Csite%3Da');
+    expect(res.statusCode).toBe(200);
+    const status = await request(app).get('/status');
+    expect(status.body.agents.find((a: any) => a.name === 'labelled').labels).toEqual({ role: 'db', site: 'a' });
+  });
+
+  it('should reject invalid labels', async () => {
+    const res = await request(app).get('/server-name/labelled2?labels=role%3Dno%20spaces');
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+describe('POST /heartbeat/:containerName', () => {
+  it('should ask unknown agents to register again', async () => {
+    const res = await request(app).post('/heartbeat/unknown').send({ capturing: false });
+    expect(res.statusCode).toBe(404);
+    expect(res.body).toEqual({ registered: false });
+  });
+
+  it('should record heartbeats from registered agents', async () => {
+    await request(app).get('/server-name/testcontainer');
+    const disk = { totalBytes: 1000, availableBytes: 600 };
+    const res = await request(app).post('/heartbeat/testcontainer').send({ capturing: true, sessionId: 'abc', disk });
+    expect(res.statusCode).toBe(200);
+    const status = await request(app).get('/status');
+    const agent = status.body.agents.find((a: any) => a.name === 'testcontainer');
+    expect(agent).toMatchObject({ capturing: true, sessionId: 'abc', health: 'healthy', disk });
+    expect(status.body.deadAgents).toEqual([]);
+    expect(status.body.disk).toMatchObject({ path: dataDir, totalBytes: expect.any(Number), availableBytes: expect.any(Number) });
+    expect(status.body.retention).toEqual({});
+  });
+});
+
+describe('GET /events', () => {
+  it('should reject invalid dates, outcomes and limits', async () => {
+    const res = await request(app).get('/events?from=yesterday&success=maybe&limit=0');
+    expect(res.statusCode).toBe(400);
+    expect(res.body.errors).toHaveLength(3);
+  });
+
+  it('should return an empty list when nothing matches', async () => {
+    const res = await request(app).get('/events?type=Filtering&success=false');
+    expect(res.statusCode).toBe(200);
+    expect(res.body.events).toEqual([]);
+  });
+
+  it('should return the events logged to the data directory', async () => {
+    const res = await request(app).get('/events?container=labelled');
+    expect(res.statusCode).toBe(200);
+    expect(res.body.events.length).toBeGreaterThan(0);
+    expect(res.body.events.every((event: any) => event.containerName === 'labelled')).toBe(true);
+  });
+});
+
+describe('GET /metrics', () => {
+  it('should expose agent, capture and data directory metrics', async () => {
+    const res = await request(app).get('/metrics');
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toContain('version=0.0.4');
+    expect(res.text).toContain('# TYPE control_agents_registered gauge');
+    expect(res.text).toMatch(/^control_agents\{health="healthy"\} \d+$/m);
+    // The event log already lives in the data directory
+    expect(res.text).toMatch(/^control_data_bytes [1-9]\d*$/m);
+    expect(res.text).toMatch(/^control_data_available_bytes [1-9]\d*$/m);
+  });
 });
 
 describe('GET /start', () => {
   it('should send start signal to all scan dockers', async () => {
     // Register a container first
-    await request(server).get('/server-name/testcontainer2');
-    const res = await request(server).get('/start');
+    await request(app).get('/server-name/testcontainer2');
+    const res = await request(app).get('/start');
     expect(res.statusCode).toBe(200);
     expect(res.body).toHaveProperty('message');
-    expect(res.body).toHaveProperty('results');
-    expect(Array.isArray(res.body.results)).toBe(true);
+    expect(res.body.results.map((r: any) => r.containerName)).toEqual(['testcontainer', 'labelled', 'testcontainer2']);
+    expect(res.body).toHaveProperty('sessionId');
+    expect(agents.urls(/:3000\/start\?/)).toContain(`http://testcontainer2:3000/start?session=${res.body.sessionId}`);
+    expect(fs.existsSync(path.join(dataDir, 'sessions', res.body.sessionId, 'session.json'))).toBe(true);
+  });
+
+  it('should reject invalid capture options', async () => {
+    const res = await request(app)
+      .post('/start')
+      .send({ capture: { snaplen: -1 }, perContainer: { testcontainer: { promiscuous: 'yes', filter: '-w/etc/x' } } });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.errors).toEqual([
+      'capture.snaplen must be an integer between 0 and 262144',
+      'perContainer.testcontainer.filter must not start with "-"',
+      'perContainer.testcontainer.promiscuous must be a boolean',
+    ]);
+  });
+
+  it('should reject invalid limits from the query string', async () => {
+    const res = await request(app).get('/start?duration=soon');
+    expect(res.statusCode).toBe(400);
+    expect(res.body.errors).toEqual(['limits.durationSeconds must be a positive integer']);
+  });
+
+  it('should refuse to start a second session while one is running', async () => {
+    const res = await request(app).get('/start');
+    expect(res.statusCode).toBe(409);
+    expect(res.body).toHaveProperty('sessionId');
   });
 });
 
 describe('GET /stop', () => {
-  it('should send stop signal and return pcap data', async () => {
-    // Register a container first
-    await request(server).get('/server-name/testcontainer3');
-    // Mock fsSync.existsSync to simulate merged.pcap and output.json exist
-    (fsSync.existsSync as jest.Mock).mockImplementation((filePath: string) => {
-      if (filePath.endsWith('merged.pcap') || filePath.endsWith('output.json')) return true;
-      return false;
+  afterEach(() => {
+    agents.behaviours.clear();
+  });
+
+  it('should send stop signal and return a capture summary', async () => {
+    const res = await request(app).get('/stop');
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toHaveProperty('message');
+    expect(res.body).not.toHaveProperty('pcapData');
+    expect(res.body.incompleteAgents).toEqual([]);
+    expect(res.body.results.every((r: any) => r.status === 'success' && r.transfer === 'shared')).toBe(true);
+    expect(res.body.summary).toMatchObject({ packetCount: 9, firstPacketTime: 'Jan  1, 2025 12:00:00.000000000 UTC' });
+    expect(res.body.summary.artifacts.map((a: any) => a.name)).toEqual(expect.arrayContaining(['merged.pcap', 'output.json']));
+
+    const merge = wireshark.run.mock.calls.find(([command]) => command === 'mergecap')!;
+    expect(merge[1].slice(0, 5)).toEqual(['-F', 'pcapng', '-I', 'none', '-w']);
+    const session = (await request(app).get(`/sessions/${res.body.sessionId}`)).body;
+    expect(session).toMatchObject({ status: 'stopped', packetCount: 9, interfaces: ['testcontainer', 'labelled', 'testcontainer2'] });
+
+    const packets = await request(app).get(`/sessions/${res.body.sessionId}/packets?limit=9&fields=frame.number`);
+    expect(packets.body.total).toBe(9);
+    // Converting to JSON is logged apart from filtering
+    const conversions = (await request(app).get('/events?type=JSON%20conversion&limit=1')).body.events;
+    expect(conversions).toMatchObject([{ event: 'JSON conversion', success: true, command: expect.stringContaining('-T json') }]);
+    expect(packets.body.packets.map((p: any) => p.containerName)).toEqual([
+      ...Array(3).fill('testcontainer'),
+      ...Array(3).fill('labelled'),
+      ...Array(3).fill('testcontainer2'),
+    ]);
+  });
+
+  it('should list agents that did not acknowledge the stop', async () => {
+    const start = await request(app).get('/start');
+    expect(start.statusCode).toBe(200);
+    agents.behaviours.set('testcontainer2', { timeout: true });
+    const res = await request(app).get('/stop');
+    expect(res.statusCode).toBe(200);
+    expect(res.body.incompleteAgents).toEqual(['testcontainer2']);
+    expect(res.body.summary.packetCount).toBe(6);
+    const timedOut = res.body.results.find((r: any) => r.containerName === 'testcontainer2');
+    expect(timedOut.status).toBe('timeout');
+    const acked = res.body.results.find((r: any) => r.containerName === 'testcontainer');
+    expect(acked).toMatchObject({ status: 'success', exitCode: 0, fileSize: FIXTURE_BYTES.length, transfer: 'shared' });
+    expect(agents.get).toHaveBeenCalledWith(
+      `http://testcontainer:3000/stop?session=${start.body.sessionId}`,
+      expect.objectContaining({ timeout: expect.any(Number) })
+    );
+  });
+
+  it('should pull captures that are not on the shared volume and leave out the ones that fail', async () => {
+    const start = await request(app).get('/start');
+    expect(start.statusCode).toBe(200);
+    agents.behaviours.set('testcontainer', { remote: true });
+    agents.behaviours.set('testcontainer2', { remote: true, corrupt: true });
+    const res = await request(app).get('/stop');
+    expect(res.statusCode).toBe(200);
+    expect(res.body.incompleteAgents).toEqual(['testcontainer2']);
+    const failed = res.body.results.find((r: any) => r.containerName === 'testcontainer2');
+    expect(failed).toMatchObject({ status: 'success', transfer: 'failed', error: expect.stringContaining('Checksum mismatch') });
+    const pulled = res.body.results.find((r: any) => r.containerName === 'testcontainer');
+    expect(pulled).toMatchObject({ status: 'success', transfer: 'pulled' });
+    const pulledFile = path.join(dataDir, 'sessions', start.body.sessionId, 'dumpfile_testcontainer.pcap');
+    expect(fs.readFileSync(pulledFile).equals(FIXTURE_BYTES)).toBe(true);
+    expect(agents.get).toHaveBeenCalledWith(
+      `http://testcontainer:3000/captures/${start.body.sessionId}`,
+      expect.objectContaining({ headers: expect.objectContaining({ Range: `bytes=0-${FIXTURE_BYTES.length - 1}` }) })
+    );
+  });
+});
+
+describe('agent selection', () => {
+  const stopCalls = () => agents.urls(/:3000\/stop\?/);
+
+  it('should start only the listed containers', async () => {
+    const start = await request(app).get('/start?containers=testcontainer');
+    expect(start.statusCode).toBe(200);
+    expect(start.body.results.map((r: any) => r.containerName)).toEqual(['testcontainer']);
+    const stop = await request(app).get('/stop');
+    expect(stop.body.results.map((r: any) => r.containerName)).toEqual(['testcontainer']);
+  });
+
+  it('should start the agents carrying every listed label', async () => {
+    const start = await request(app).post('/start').send({ labels: { role: 'db' } });
+    expect(start.statusCode).toBe(200);
+    expect(start.body.results.map((r: any) => r.containerName)).toEqual(['labelled']);
+    await request(app).get('/stop');
+  });
+
+  it('should fail the session when no agent starts capturing', async () => {
+    agents.behaviours.set('testcontainer', { refuseStart: true });
+    const res = await request(app).post('/start').send({ containers: ['testcontainer'] });
+    agents.behaviours.clear();
+    expect(res.statusCode).toBe(502);
+    expect(res.body).toMatchObject({
+      message: 'No scan docker started capturing.',
+      results: [{ containerName: 'testcontainer', status: 'failed', error: 'Invalid capture filter' }],
     });
-    (fs.readFile as jest.Mock).mockResolvedValue('[{"_index":0}]');
-    const res = await request(server).get('/stop');
-    expect([200, 500]).toContain(res.statusCode);
-    if (res.statusCode === 200) {
-      expect(res.body).toHaveProperty('message');
-      expect(res.body).toHaveProperty('results');
-      expect(res.body).toHaveProperty('pcapData');
-    } else if (res.statusCode === 500) {
-      expect(res.text).toBeDefined();
-      // Print the error for debugging
-      console.error('Error from /stop:', res.text);
-    }
-  }, 10000); // Increase timeout to 10s
+    expect((await request(app).get(`/sessions/${res.body.sessionId}`)).body).toMatchObject({ status: 'failed', error: 'No agent started capturing.' });
+    expect((await request(app).get('/status')).body.isMonitoringActive).toBe(false);
+  });
+
+  it('should reject unknown containers and empty selections', async () => {
+    const unknown = await request(app).post('/start').send({ containers: ['testcontainer', 'nope'] });
+    expect(unknown.statusCode).toBe(400);
+    expect(unknown.body.message).toBe('Unknown or quarantined agents: nope');
+    const none = await request(app).get('/start?labels=role%3Dcache');
+    expect(none.statusCode).toBe(400);
+    expect(none.body.message).toBe('No container names available to start.');
+  });
+
+  it('should stop some agents and merge them in when the session stops', async () => {
+    const start = await request(app).post('/start').send({ containers: ['testcontainer', 'testcontainer2'] });
+    expect(start.statusCode).toBe(200);
+    agents.get.mockClear();
+    const partial = await request(app).get('/stop?containers=testcontainer2');
+    expect(partial.statusCode).toBe(200);
+    expect(partial.body).toMatchObject({ stoppedAgents: ['testcontainer2'], runningAgents: ['testcontainer'] });
+    expect(stopCalls()).toEqual([`http://testcontainer2:3000/stop?session=${start.body.sessionId}`]);
+
+    const unmatched = await request(app).get('/stop?containers=testcontainer2');
+    expect(unmatched.statusCode).toBe(400);
+
+    const res = await request(app).get('/stop');
+    expect(res.statusCode).toBe(200);
+    expect(stopCalls()).toHaveLength(2);
+    expect(stopCalls()[1]).toContain('http://testcontainer:3000/stop');
+    expect(res.body.results.map((r: any) => r.containerName).sort()).toEqual(['testcontainer', 'testcontainer2']);
+    expect(res.body.summary.packetCount).toBe(6);
+  });
 });
 
+describe('POST /config', () => {
+  const configFile = () => path.join(dataDir, 'config.json');
+
+  it('should reject an invalid config before saving it', async () => {
+    const res = await request(app).post('/config').send({ ip: 'not-an-ip', payloadContent: 'ok' });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.errors).toEqual([{ field: 'ip', message: '"not-an-ip" is not a valid IP address or CIDR block' }]);
+    expect(fs.existsSync(configFile())).toBe(false);
+  });
+
+  it('should save a valid config when there is nothing to filter yet', async () => {
+    storedSession({ startedAt: '2100-01-01T00:00:00.000Z' }, false);
+    const res = await request(app).post('/config').send({ port: '80' });
+    expect(res.statusCode).toBe(200);
+    expect(res.body.message).toBe('Configuration saved successfully (no merged.pcap to filter yet)');
+    expect(JSON.parse(fs.readFileSync(configFile(), 'utf-8'))).toEqual({ port: '80' });
+  });
+
+  it('should filter the latest stopped session', async () => {
+    const session = storedSession({ startedAt: '2100-01-02T00:00:00.000Z' });
+    const res = await request(app).post('/config').send({ port: '80' });
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ sessionId: session.id, filteredPacketCount: 3 });
+    expect(wireshark.filterRuns().pop()).toEqual(['((tcp.port == 80 or udp.port == 80))', path.join(session.dir, 'filtered.pcap')]);
+    expect(fs.existsSync(path.join(session.dir, 'filtered.json'))).toBe(true);
+  });
+
+  it('should keep describing older filtered views with the config that made them', async () => {
+    const older = storedSession({ startedAt: '2100-01-03T00:00:00.000Z' });
+    await request(app).post('/config').send({ port: '80' });
+    const newer = storedSession({ startedAt: '2100-01-04T00:00:00.000Z' });
+    await request(app).post('/config').send({ port: '53' });
+    expect(loadSession(dataDir, newer.id)).toMatchObject({ filterConfig: { port: '53' } });
+    const stats = await request(app).get(`/sessions/${older.id}/stats?view=filtered`);
+    expect(stats.statusCode).toBe(200);
+    expect(stats.body).toMatchObject({ filter: { port: '80' }, displayFilter: '((tcp.port == 80 or udp.port == 80))' });
+  });
+});
 
 describe('GET /cleanConf', () => {
   it('should clean config and filtered files', async () => {
-    // Mock fsSync.existsSync to simulate files exist
-    (fsSync.existsSync as jest.Mock).mockReturnValue(true);
-    const res = await request(server).get('/cleanConf');
+    const res = await request(app).get('/cleanConf');
     expect(res.statusCode).toBe(200);
     expect(res.body).toHaveProperty('message');
+    expect(fs.existsSync(path.join(dataDir, 'config.json'))).toBe(false);
+    const sessions = fs.readdirSync(path.join(dataDir, 'sessions'));
+    expect(sessions.some((id) => fs.existsSync(path.join(dataDir, 'sessions', id, 'filtered.pcap')))).toBe(false);
+    expect(sessions.some((id) => loadSession(dataDir, id)?.filterConfig)).toBe(false);
+  });
+});
+
+describe('/schedules', () => {
+  it('should reject schedules without a duration or with both interval and cron', async () => {
+    const res = await request(app).post('/schedules').send({ everySeconds: 3600, cron: '0 * * * *' });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.errors).toContain('Exactly one of everySeconds or cron is required');
+    expect(res.body.errors).toContain('request.limits.durationSeconds is required so scheduled captures stop on their own');
   });
-});
\ No newline at end of file
+
+  it('should reject a duration longer than the interval', async () => {
+    const res = await request(app)
+      .post('/schedules')
+      .send({ everySeconds: 60, request: { limits: { durationSeconds: 120 } } });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('should create, list and delete a cron schedule', async () => {
+    const created = await request(app)
+      .post('/schedules')
+      .send({ name: 'hourly', cron: '0 * * * *', request: { limits: { durationSeconds: 120 } } });
+    expect(created.statusCode).toBe(201);
+    expect(created.body).toMatchObject({ name: 'hourly', enabled: true });
+    expect(created.body.nextRunAt).toMatch(/T\d{2}:00:00\.000Z$/);
+
+    const list = await request(app).get('/schedules');
+    expect(list.body.schedules.map((s: any) => s.id)).toContain(created.body.id);
+
+    const deleted = await request(app).delete(`/schedules/${created.body.id}`);
+    expect(deleted.statusCode).toBe(200);
+    const missing = await request(app).get(`/schedules/${created.body.id}`);
+    expect(missing.statusCode).toBe(404);
+  });
+});
+
+describe('/filters', () => {
+  it('should create, read, replace and delete a preset', async () => {
+    const created = await request(app).post('/filters').send({ name: 'dns-errors', config: { port: '53' }, displayFilter: 'dns.flags.rcode != 0' });
+    expect(created.statusCode).toBe(201);
+    const duplicate = await request(app).post('/filters').send({ name: 'dns-errors', displayFilter: 'dns' });
+    expect(duplicate.statusCode).toBe(409);
+
+    const read = await request(app).get('/filters/dns-errors');
+    expect(read.body.filter).toBe('((tcp.port == 53 or udp.port == 53)) and (dns.flags.rcode != 0)');
+
+    const replaced = await request(app).put('/filters/dns-errors').send({ displayFilter: 'dns.flags.rcode == 3' });
+    expect(replaced.statusCode).toBe(200);
+    expect(replaced.body.config).toBeUndefined();
+    const list = await request(app).get('/filters');
+    expect(list.body.filters.map((preset: any) => preset.name)).toEqual(['dns-errors']);
+
+    expect((await request(app).delete('/filters/dns-errors')).statusCode).toBe(200);
+    expect((await request(app).get('/filters/dns-errors')).statusCode).toBe(404);
+  });
+
+  it('should reject reserved names and invalid fields', async () => {
+    const reserved = await request(app).put('/filters/merged').send({ displayFilter: 'tcp' });
+    expect(reserved.statusCode).toBe(400);
+    const invalid = await request(app).post('/filters').send({ name: 'bad', config: { port: '70000' } });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.body.errors[0].field).toBe('config.port');
+  });
+});
+
+describe('/alerts', () => {
+  afterAll(async () => {
+    await request(app).delete('/alerts/rules/web-only');
+  });
+
+  it('should validate alert rules', async () => {
+    const invalid = await request(app).put('/alerts/rules/ports').send({ kind: 'unexpectedPort', allowedPorts: '70000' });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.body.errors[0].field).toBe('allowedPorts');
+    const reserved = await request(app).post('/alerts/rules').send({ name: '../x', kind: 'synWithoutAck', threshold: 1 });
+    expect(reserved.statusCode).toBe(400);
+  });
+
+  it('should raise alerts when a session stops and deliver them to the webhook', async () => {
+    const created = await request(app).put('/alerts/rules/web-only').send({ kind: 'unexpectedPort', allowedPorts: '443', severity: 'critical' });
+    expect(created.statusCode).toBe(201);
+    expect(created.body).toMatchObject({ name: 'web-only', live: true });
+
+    const start = await request(app).post('/start').send({ containers: ['testcontainer'] });
+    expect(start.statusCode).toBe(200);
+    agents.post.mockClear();
+    const stop = await request(app).get('/stop');
+    expect(stop.statusCode).toBe(200);
+    expect(stop.body.alerts).toMatchObject([{ rule: 'web-only', subject: 'tcp/80', value: 3, severity: 'critical', source: 'session', webhook: 'sent' }]);
+    expect(agents.post).toHaveBeenCalledWith('http://hooks.example/alerts', expect.objectContaining({ rule: 'web-only' }), expect.anything());
+
+    const listed = await request(app).get(`/alerts?session=${start.body.sessionId}`);
+    expect(listed.body.alerts.map((alert: any) => alert.id)).toEqual([stop.body.alerts[0].id]);
+    expect((await request(app).get(`/alerts/${stop.body.alerts[0].id}`)).body.message).toBe('3 packets on unexpected port tcp/80');
+
+    // Evaluating the session again raises nothing new
+    const again = await request(app).post(`/sessions/${start.body.sessionId}/alerts`).send({ rules: ['web-only'] });
+    expect(again.statusCode).toBe(200);
+    expect(again.body).toEqual({ sessionId: start.body.sessionId, rules: ['web-only'], alerts: [] });
+  });
+
+  it('should reject unknown rules and sessions without a capture', async () => {
+    const unknown = await request(app).post(`/sessions/${storedSession().id}/alerts`).send({ rules: ['nope'] });
+    expect(unknown.statusCode).toBe(400);
+    const notMerged = await request(app).post(`/sessions/${storedSession({}, false).id}/alerts`).send({});
+    expect(notMerged.statusCode).toBe(409);
+    const query = await request(app).get('/alerts?severity=loud&limit=0');
+    expect(query.statusCode).toBe(400);
+    expect(query.body.errors).toHaveLength(2);
+  });
+});
+
+describe('/ring', () => {
+  const ringCalls = (operation: string) => agents.urls(new RegExp(`:3000/ring/${operation}`));
+
+  afterAll(async () => {
+    agents.behaviours.clear();
+    await request(app).delete('/alerts/rules/ring-ports');
+    await request(app).post('/ring/stop').send({});
+  });
+
+  it('should refuse snapshots while no agent records a ring buffer', async () => {
+    const res = await request(app).post('/ring/snapshot').send({});
+    expect(res.statusCode).toBe(409);
+    expect(res.body.message).toBe('No selected agent is recording a ring buffer.');
+    const invalid = await request(app).post('/ring/start').send({ windowSeconds: 0, capture: { snaplen: -1 } });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.body.errors).toEqual([
+      'windowSeconds must be a positive integer',
+      'capture.snaplen must be an integer between 0 and 262144',
+    ]);
+  });
+
+  it('should start the ring buffers and freeze them into a session', async () => {
+    agents.get.mockClear();
+    const start = await request(app).post('/ring/start').send({ containers: ['testcontainer', 'testcontainer2'], windowSeconds: 300, capture: { filter: 'tcp' } });
+    expect(start.statusCode).toBe(200);
+    expect(start.body.results.map((r: any) => r.status)).toEqual(['success', 'success']);
+    expect(ringCalls('start')).toContain('http://testcontainer:3000/ring/start?filter=tcp&window=300');
+    const status = await request(app).get('/status');
+    const agent = status.body.agents.find((a: any) => a.name === 'testcontainer');
+    expect(agent.ring).toMatchObject({ windowSeconds: 300, segments: 1, bytes: 24 });
+
+    const snapshot = await request(app).post('/ring/snapshot').send({ containers: ['testcontainer2'] });
+    expect(snapshot.statusCode).toBe(200);
+    expect(snapshot.body).toMatchObject({ stopReason: 'snapshot', trigger: { source: 'manual' }, incompleteAgents: [] });
+    expect(snapshot.body.results).toMatchObject([{ containerName: 'testcontainer2', status: 'success', packetCount: 3 }]);
+    expect(ringCalls('snapshot')).toEqual([`http://testcontainer2:3000/ring/snapshot?session=${snapshot.body.sessionId}`]);
+    const session = (await request(app).get(`/sessions/${snapshot.body.sessionId}`)).body;
+    expect(session).toMatchObject({ status: 'stopped', stopReason: 'snapshot', packetCount: 3, trigger: { source: 'manual' } });
+    // The snapshot is not a capture: a session can still start alongside the rings
+    expect((await request(app).get('/status')).body.isMonitoringActive).toBe(false);
+  });
+
+  it('should take a snapshot when a snapshot rule matches the ring traffic', async () => {
+    const created = await request(app).put('/alerts/rules/ring-ports').send({ kind: 'unexpectedPort', allowedPorts: '80,443', snapshot: true });
+    expect(created.statusCode).toBe(201);
+    const before = new Set((await request(app).get('/sessions')).body.sessions.map((s: any) => s.id));
+    const packet = { time: 1, length: 60, protocols: ['eth', 'ip', 'tcp'], source: '10.0.0.66', destination: '10.0.0.10', sourcePort: 50000, destinationPort: 6379 };
+    agents.behaviours.set('testcontainer', { ringPackets: [packet] });
+    // The heartbeat reports the running ring, so control follows its traffic again
+    await request(app).post('/heartbeat/testcontainer').send({ capturing: false, ring: { running: true, windowSeconds: 300, segments: 2, bytes: 48 } });
+
+    let triggered: any;
+    for (let attempt = 0; attempt < 50 && !triggered; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const { sessions } = (await request(app).get('/sessions')).body;
+      triggered = sessions.find((s: any) => !before.has(s.id) && s.status === 'stopped');
+    }
+    expect(triggered).toMatchObject({ stopReason: 'snapshot', trigger: { source: 'rule', rule: 'ring-ports' } });
+    expect(triggered.trigger.alertIds).toHaveLength(1);
+    const alerts = await request(app).get(`/alerts?session=${triggered.id}`);
+    expect(alerts.body.alerts).toMatchObject([{ rule: 'ring-ports', subject: 'tcp/6379', source: 'live' }]);
+  });
+
+  it('should stop the ring buffers', async () => {
+    agents.get.mockClear();
+    const stop = await request(app).post('/ring/stop').send({ containers: ['testcontainer2'] });
+    expect(stop.statusCode).toBe(200);
+    expect(ringCalls('stop')).toEqual(['http://testcontainer2:3000/ring/stop']);
+    const agent = (await request(app).get('/status')).body.agents.find((a: any) => a.name === 'testcontainer2');
+    expect(agent.ring).toBeUndefined();
+    const again = await request(app).post('/ring/stop').send({ containers: ['testcontainer2'] });
+    expect(again.statusCode).toBe(409);
+  });
+});
+
+describe('GET /sessions', () => {
+  it('should list stored sessions, newest first', async () => {
+    const res = await request(app).get('/sessions');
+    expect(res.statusCode).toBe(200);
+    expect(res.body.sessions.length).toBe(fs.readdirSync(path.join(dataDir, 'sessions')).length);
+    expect(res.body.sessions[0].startedAt).toBe('2100-01-04T00:00:00.000Z');
+  });
+
+  it('should return 404 for an unknown session', async () => {
+    const res = await request(app).get('/sessions/unknown-session');
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('should return session details with artifacts', async () => {
+    const session = storedSession();
+    const res = await request(app).get(`/sessions/${session.id}`);
+    expect(res.statusCode).toBe(200);
+    expect(res.body.id).toBe(session.id);
+    expect(res.body.artifacts).toEqual([{ name: 'merged.pcap', size: FIXTURE_BYTES.length }]);
+  });
+
+  it('should reject session ids that are not plain names', async () => {
+    const res = await request(app).get('/sessions/..%2F..%2Fetc');
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('/sessions/:id/views', () => {
+  let session: CaptureSession;
+
+  beforeAll(async () => {
+    session = storedSession();
+    await request(app).put('/filters/web').send({ config: { port: '80' } });
+    await request(app).put('/filters/dns').send({ displayFilter: 'dns' });
+  });
+
+  afterAll(async () => {
+    await request(app).delete('/filters/web');
+    await request(app).delete('/filters/dns');
+  });
+
+  it('should only apply known presets', async () => {
+    const res = await request(app).post(`/sessions/${session.id}/views`).send({ presets: ['missing'] });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toContain('missing');
+  });
+
+  it('should filter each preset into its own view directory', async () => {
+    wireshark.run.mockClear();
+    const res = await request(app).post(`/sessions/${session.id}/views`).send({ presets: ['web', 'dns'] });
+    expect(wireshark.filterRuns()).toEqual([
+      ['((tcp.port == 80 or udp.port == 80))', path.join(session.dir, 'views', 'web', 'filtered.pcap')],
+      ['dns', path.join(session.dir, 'views', 'dns', 'filtered.pcap')],
+    ]);
+    expect(res.statusCode).toBe(200);
+    expect(res.body.views.map((view: any) => [view.name, view.status, view.packetCount])).toEqual([['web', 'ok', 3], ['dns', 'ok', 3]]);
+    expect(fs.existsSync(path.join(session.dir, 'views', 'web', 'view.json'))).toBe(true);
+
+    const packets = await request(app).get(`/sessions/${session.id}/packets?view=web&fields=ip.src`);
+    expect(packets.statusCode).toBe(200);
+    expect(packets.body.packets[0]).toEqual({ containerName: 'scan1', 'ip.src': '10.0.0.2' });
+  });
+
+  it('should report presets tshark rejects without keeping their view', async () => {
+    await request(app).put('/filters/broken').send({ displayFilter: 'bogus' });
+    const res = await request(app).post(`/sessions/${session.id}/views`).send({ presets: ['broken'] });
+    await request(app).delete('/filters/broken');
+    expect(res.statusCode).toBe(422);
+    expect(res.body.views[0]).toMatchObject({ name: 'broken', status: 'ko', stderr: expect.stringContaining('bogus') });
+    expect(fs.existsSync(path.join(session.dir, 'views', 'broken'))).toBe(false);
+  });
+
+  it('should return 404 for a view that was never created', async () => {
+    const res = await request(app).get(`/sessions/${storedSession().id}/packets?view=web`);
+    expect(res.statusCode).toBe(404);
+    expect(res.body.message).toBe('View not found: web');
+  });
+});
+
+describe('GET /sessions/:id/packets', () => {
+  it('should return 404 for an unknown session', async () => {
+    const res = await request(app).get('/sessions/unknown/packets');
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('should reject out-of-range pagination', async () => {
+    const res = await request(app).get(`/sessions/${storedSession().id}/packets?limit=5000`);
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+describe('GET /sessions/:id/export', () => {
+  it('should reject unknown formats', async () => {
+    const res = await request(app).get(`/sessions/${storedSession().id}/export?format=xml`);
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('should reject field names that are not Wireshark fields', async () => {
+    const res = await request(app).get(`/sessions/${storedSession().id}/export?format=csv&fields=ip.src,-Y`);
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toContain('-Y');
+  });
+
+  it('should return 404 when the capture has not been produced', async () => {
+    const res = await request(app).get(`/sessions/${storedSession({}, false).id}/export?format=csv`);
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('GET /sessions/:id/stats', () => {
+  it('should return 404 for an unknown session', async () => {
+    const res = await request(app).get('/sessions/unknown/stats');
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('should reject invalid top and bucket values', async () => {
+    const session = storedSession();
+    const res = await request(app).get(`/sessions/${session.id}/stats?top=0`);
+    expect(res.statusCode).toBe(400);
+    const bucket = await request(app).get(`/sessions/${session.id}/stats?bucket=-5`);
+    expect(bucket.statusCode).toBe(400);
+  });
+});
+
+describe('GET /compare', () => {
+  /**
+   * Stores a session of two replicas whose packets are already converted: the fixture's three packets
+   * from scan1 and, on the second interface, the first `scan2Packets` of them again from scan2.
+   */
+  function twoReplicaSession(scan2Packets: number): CaptureSession {
+    const session = storedSession({ containers: ['scan1', 'scan2'], interfaces: ['scan1', 'scan2'] });
+    const scan2 = FIXTURE_PACKETS.slice(0, scan2Packets).map((packet) => {
+      const layers = { ...packet._source.layers, frame: { ...packet._source.layers.frame, 'frame.interface_id': '1' } };
+      return { _source: { layers } };
+    });
+    fs.writeFileSync(path.join(session.dir, 'output.json'), JSON.stringify([...FIXTURE_PACKETS, ...scan2], null, 2));
+    return session;
+  }
+
+  it('should reject missing or invalid references', async () => {
+    const res = await request(app).get('/compare?a=../x&top=0');
+    expect(res.statusCode).toBe(400);
+    expect(res.body.errors).toHaveLength(3);
+  });
+
+  it('should return 404 for unknown sessions, containers and views', async () => {
+    const session = twoReplicaSession(1);
+    expect((await request(app).get(`/compare?a=${session.id}&b=unknown`)).statusCode).toBe(404);
+    const container = await request(app).get(`/compare?a=${session.id}:scan1&b=${session.id}:scan9`);
+    expect(container.statusCode).toBe(404);
+    expect(container.body.message).toBe(`No capture of scan9 in session ${session.id}`);
+    expect((await request(app).get(`/compare?a=${session.id}&b=${session.id}&view=nope`)).statusCode).toBe(404);
+  });
+
+  it('should compare two containers of one session', async () => {
+    const session = twoReplicaSession(1);
+    const res = await request(app).get(`/compare?a=${session.id}:scan1&b=${session.id}:scan2`);
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      view: 'merged',
+      a: { sessionId: session.id, containerName: 'scan1', packets: 3, bytes: 202 },
+      b: { sessionId: session.id, containerName: 'scan2', packets: 1, bytes: 54 },
+      packets: { a: 3, b: 1, delta: -2 },
+      bytes: { a: 202, b: 54, delta: -148 },
+    });
+    expect(res.body.ports.changed.map((entry: any) => entry.key).sort()).toEqual(['tcp/40000', 'tcp/80']);
+  });
+
+  it('should compare two sessions', async () => {
+    const before = twoReplicaSession(1);
+    const after = twoReplicaSession(3);
+    const res = await request(app).get(`/compare?a=${before.id}&b=${after.id}`);
+    expect(res.statusCode).toBe(200);
+    expect(res.body.packets).toEqual({ a: 4, b: 6, delta: 2 });
+    expect(res.body.endpoints.changed.map((entry: any) => entry.key).sort()).toEqual(['10.0.0.10', '10.0.0.2']);
+  });
+
+  it('should refuse containers of sessions whose packets are not tagged', async () => {
+    const session = storedSession({ containers: ['scan1', 'scan2'], interfaces: undefined });
+    fs.writeFileSync(path.join(session.dir, 'output.json'), JSON.stringify(FIXTURE_PACKETS, null, 2));
+    const res = await request(app).get(`/compare?a=${session.id}:scan1&b=${session.id}:scan2`);
+    expect(res.statusCode).toBe(409);
+  });
+});
+
+describe('DELETE /sessions/:id', () => {
+  it('should delete a stopped session', async () => {
+    const session = storedSession();
+    const res = await request(app).delete(`/sessions/${session.id}`);
+    expect(res.statusCode).toBe(200);
+    expect(fs.existsSync(session.dir)).toBe(false);
+  });
+
+  it('should refuse to delete a session while it is being merged', async () => {
+    const start = await request(app).post('/start').send({ containers: ['testcontainer'] });
+    expect(start.statusCode).toBe(200);
+    // Hold mergecap until the delete has been answered
+    let release!: () => void;
+    const merging = new Promise<void>((resolve) => (release = resolve));
+    let merged = false;
+    const run = wireshark.run.getMockImplementation()!;
+    wireshark.run.mockImplementation(async (command, args, options) => {
+      if (command === 'mergecap') {
+        merged = true;
+        await merging;
+      }
+      return run(command, args, options);
+    });
+    try {
+      const stopping = request(app).get('/stop').then((res) => res);
+      for (let attempt = 0; attempt < 50 && !merged; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      const refused = await request(app).delete(`/sessions/${start.body.sessionId}`);
+      release();
+      expect(refused.statusCode).toBe(409);
+      expect((await stopping).statusCode).toBe(200);
+    } finally {
+      release();
+      wireshark.run.mockImplementation(run);
+    }
+    expect(fs.existsSync(path.join(dataDir, 'sessions', start.body.sessionId, 'merged.pcap'))).toBe(true);
+  });
+});
+
+// Last, as these apps move the event log to their own data directory
+describe('retention', () => {
+  let retentionDir: string;
+  let retentionApp: express.Express;
+
+  beforeAll(() => {
+    retentionDir = fs.mkdtempSync(path.join(os.tmpdir(), 'control-retention-'));
+    const retentionAgents = fakeAgents(retentionDir);
+    ({ app: retentionApp } = createApp({ dataDir: retentionDir, http: retentionAgents.http, runCommand: wireshark.run, retention: { maxSessions: 2 } }));
+  });
+
+  afterAll(() => {
+    fs.rmSync(retentionDir, { recursive: true, force: true });
+  });
+
+  function sessionIn(dir: string, startedAt: string): CaptureSession {
+    const session: CaptureSession = { ...createSession(dir, ['scan1']), status: 'stopped', startedAt };
+    saveSession(session);
+    return session;
+  }
+
+  it('should keep every session without a policy', async () => {
+    const res = await request(app).post('/retention/run');
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ policy: {}, pruned: [] });
+  });
+
+  it('should prune the oldest sessions on demand and after each stop', async () => {
+    const oldest = sessionIn(retentionDir, '2020-01-01T00:00:00.000Z');
+    const older = sessionIn(retentionDir, '2020-01-02T00:00:00.000Z');
+    const newer = sessionIn(retentionDir, '2020-01-03T00:00:00.000Z');
+    const run = await request(retentionApp).post('/retention/run');
+    expect(run.statusCode).toBe(200);
+    expect(run.body).toMatchObject({ policy: { maxSessions: 2 }, pruned: [{ id: oldest.id, reason: 'count' }], keptSessions: 2 });
+
+    const start = await request(retentionApp).post('/start').send({ containers: ['testcontainer'] });
+    expect(start.statusCode).toBe(200);
+    const stop = await request(retentionApp).get('/stop');
+    expect(stop.statusCode).toBe(200);
+    expect(stop.body.prunedSessions).toEqual([{ id: older.id, reason: 'count', bytes: expect.any(Number) }]);
+    const remaining = (await request(retentionApp).get('/sessions')).body.sessions.map((session: any) => session.id);
+    expect(remaining).toEqual([start.body.sessionId, newer.id]);
+  });
+});
+
+describe('restart', () => {
+  let restartDir: string;
+  let restartAgents: ReturnType<typeof fakeAgents>;
+  const restartedApp = () => createApp({ dataDir: restartDir, http: restartAgents.http, runCommand: wireshark.run });
+
+  beforeAll(() => {
+    restartDir = fs.mkdtempSync(path.join(os.tmpdir(), 'control-restart-'));
+    restartAgents = fakeAgents(restartDir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(restartDir, { recursive: true, force: true });
+  });
+
+  it('should resume a session the agents are still capturing and stop it', async () => {
+    const before = restartedApp();
+    const start = await request(before.app).post('/start').send({ containers: ['testcontainer'] });
+    expect(start.statusCode).toBe(200);
+
+    const after = restartedApp();
+    expect((await request(after.app).get('/status')).body.isMonitoringActive).toBe(false);
+    const result = await after.reconcile();
+    expect(result).toEqual({
+      agents: expect.arrayContaining([{ containerName: 'testcontainer', status: 'capturing', sessionId: start.body.sessionId }]),
+      resumedSessionId: start.body.sessionId,
+      failedSessionIds: [],
+    });
+    const status = await request(after.app).get('/status');
+    expect(status.body).toMatchObject({ isMonitoringActive: true, activeSessionId: start.body.sessionId });
+
+    const stop = await request(after.app).get('/stop');
+    expect(stop.statusCode).toBe(200);
+    expect(stop.body).toMatchObject({ sessionId: start.body.sessionId, incompleteAgents: [], summary: { packetCount: 3 } });
+    const saved = JSON.parse(fs.readFileSync(path.join(restartDir, 'control-state.json'), 'utf-8'));
+    expect(saved.activeSessionId).toBeUndefined();
+  });
+
+  it('should fail sessions no agent captures any more and register agents it did not know', async () => {
+    const lost: CaptureSession = { ...createSession(restartDir, ['ghostagent']), status: 'running' };
+    saveSession(lost);
+    saveControlState(restartDir, { activeSessionId: lost.id, earlyAcks: [] });
+
+    const after = restartedApp();
+    const result = await after.reconcile();
+    expect(result.resumedSessionId).toBeUndefined();
+    expect(result.failedSessionIds).toEqual([lost.id]);
+    expect(result.agents).toContainEqual({ containerName: 'ghostagent', status: 'idle' });
+    const session = (await request(after.app).get(`/sessions/${lost.id}`)).body;
+    expect(session).toMatchObject({ status: 'failed', error: expect.stringContaining('Control restarted') });
+    const agents = (await request(after.app).get('/status')).body.agents;
+    expect(agents.find((agent: any) => agent.name === 'ghostagent').labels).toEqual({ role: 'restored' });
+  });
+});
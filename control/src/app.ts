@@ -9,51 +9,240 @@
  * 
  * @usage
  * - Start the server: `node app.js`
+ * - Tests build the app with `createApp`, passing a temporary data directory, a fake HTTP client for the agents
+ *   and a fake runner for mergecap/tshark
+ * - On boot, control reloads its agent registry and capture state from the data directory and asks each agent
+ *   for its `/status`, so a session that was running when control restarted can still be stopped and merged
  * - Endpoints:
- *   - GET /server-name/:containerName: Registers a container name
- *   - GET /start: Sends a start signal to all registered containers
- *   - GET /stop: Sends a stop signal to all registered containers
+ *   - GET /server-name/:containerName?labels=: Registers a container name with optional `key=value,...` labels
+ *   - POST /heartbeat/:containerName: Agent heartbeat (`{ capturing, sessionId, events }`); 404 asks the agent to re-register
+ *   - GET /start: Creates a capture session and sends a start signal to all registered containers
+ *   - GET /start?duration=&maxPackets=&maxBytes=: Optional limits; the session stops on its own when reached
+ *   - GET /start?containers=&labels=: Starts only the listed agents and/or those carrying every listed label
+ *   - POST /start: Same as GET /start, with `{ capture, perContainer, limits, containers, labels }`
+ *   - GET /stop: Stops the running session once every agent acknowledges, collects their captures (shared volume
+ *     or pulled from the agents), merges them with one interface per container, converts them and returns a summary
+ *   - GET /stop?containers=&labels=: Stops only the matching agents; the session ends when the last one stops
+ *   - POST /ring/start: Starts the agents' ring buffers (flight recorders) with `{ windowSeconds, maxBytes, capture,
+ *     containers, labels }`; control follows their traffic for the alert rules that set `snapshot`
+ *   - POST /ring/snapshot: Freezes the rings of the recording agents (`{ containers, labels }` to narrow them) into
+ *     a new session and merges it like a stopped one; a snapshot rule's live findings do the same on their own
+ *   - POST /ring/stop: Stops the ring buffers and discards what they recorded
+ *   - GET /events?from=&to=&type=&success=&session=&container=&source=&limit=: Queries the structured event log
+ *   - GET /metrics: Prometheus metrics (agents, fan-out latency, mergecap/tshark runs, size and free space of /data)
+ *   - GET /live: Server-Sent Events feed of packet summaries from the running session, filtered by config.json
+ *   - GET/POST /schedules, GET/DELETE /schedules/:id: Recurring captures (interval or cron)
+ *   - GET/POST /filters, GET/PUT/DELETE /filters/:name: Named filter presets (config fields and/or a raw display filter)
+ *   - GET/POST /alerts/rules, GET/PUT/DELETE /alerts/rules/:name: Alert rules evaluated on every finished session
+ *     (and live where possible, which lets a rule trigger ring snapshots)
+ *   - GET /alerts?session=&rule=&severity=&source=&from=&limit=, GET /alerts/:id: Raised alerts, newest first
+ *   - GET /sessions: Lists stored capture sessions
+ *   - GET /sessions/:id: Session details, artifacts and views
+ *   - GET/POST /sessions/:id/views, DELETE /sessions/:id/views/:name: Applies filter presets to a session as named views
+ *   - POST /sessions/:id/alerts: Evaluates the alert rules (or `{ rules }`) over a stored session again
+ *   - DELETE /sessions/:id: Deletes a stopped session and its artifacts
+ *   - POST /retention/run: Applies the retention policy now (it also runs after each stop and periodically)
+ *   - GET /sessions/:id/pcap?view=: Downloads the merged, filtered or a named view's pcap of a session
+ *   - GET /sessions/:id/packets?offset=&limit=&fields=&view=: Pages through the packets of a view (merged by default)
+ *   - GET /sessions/:id/export?format=pcapng|csv|ndjson|har&view=&fields=: Downloads the capture in another format
+ *   - GET /sessions/:id/stats?view=&top=&bucket=: Protocol hierarchy, top talkers, conversations, throughput and HTTP summary
+ *   - GET /compare?a=&b=&view=&top=: Diffs two captures, each a session (`<id>`) or one container of it (`<id>:<container>`)
  * 
+ * Access: agent routes (/server-name, /heartbeat) require an agent signature; the others a viewer or
+ * operator API token (see auth.ts). /test stays open for health checks.
+ *
  * @note Ensure the control server is accessible by all scan dockers for proper communication.
  */
 
 import express, { Request, Response } from 'express';
 import axios from 'axios';
-import { exec } from 'child_process';
 import path from 'path';
+import os from 'os';
 import fs from 'fs/promises';
 import cors from 'cors';
 import bodyParser from 'body-parser';
 import fsSync from 'fs';
-import pathSync from 'path';
-
-const app = express();
-app.use(express.json());
-app.use(cors());
-app.use(bodyParser.json());
+import {
+  CaptureSession,
+  SessionTrigger,
+  StopReason,
+  createSession,
+  saveSession,
+  loadSession,
+  listSessions,
+  latestStoppedSession,
+  listArtifacts,
+  deleteSession,
+  SessionView,
+  viewDir,
+  saveView,
+  loadView,
+  listViews,
+  deleteView,
+} from './sessions';
+import {
+  CaptureOptions,
+  StartRequest,
+  validateStartRequest,
+  captureOptionsFor,
+  toAgentQuery,
+  limitsFromQuery,
+  RingRequest,
+  validateRingRequest,
+  toRingQuery,
+} from './captureOptions';
+import { CaptureFilterConfig, validateFilterConfig, buildWiresharkFilterFromConfig } from './filterConfig';
+import { logEvent, recordEvent, eventFromAgent, queryEvents, setEventLogDir } from './logger';
+import { requireRole, requireAgentSignature, agentRequestHeaders, warnIfAuthDisabled } from './auth';
+import {
+  AgentSelector,
+  Heartbeat,
+  loadAgents,
+  isValidAgentName,
+  registerAgent,
+  recordHeartbeat,
+  recordReachability,
+  recordRing,
+  pruneAgents,
+  listAgents,
+  allAgentsFinished,
+  parseLabels,
+  validateLabels,
+  selectAgents,
+  filterAgentNames,
+  selectorFromQuery,
+  validateSelector,
+} from './agents';
+import {
+  startScheduler,
+  validateSchedule,
+  listSchedules,
+  getSchedule,
+  addSchedule,
+  removeSchedule,
+} from './schedules';
+import { mergePcaps, pcapToJson, filterPcapAndJson, exportPcapng, exportCsv } from './pcapPipeline';
+import { CommandError, CommandRunner, setCommandRunner } from './processRunner';
+import { collectCapture } from './captureTransfer';
+import { StopAck, loadControlState, saveControlState } from './controlState';
+import { HttpClient } from './httpClient';
+import {
+  isValidPresetName,
+  validateFilterPreset,
+  presetDisplayFilter,
+  loadFilterPresets,
+  listFilterPresets,
+  getFilterPreset,
+  saveFilterPreset,
+  removeFilterPreset,
+} from './filterPresets';
+import {
+  indexPathFor,
+  buildPacketIndex,
+  packetCount,
+  readPackets,
+  projectPacket,
+  summarizeCapture,
+} from './packetIndex';
+import { counter, gauge, histogram, setCollector, renderMetrics, METRICS_CONTENT_TYPE } from './metrics';
+import {
+  PacketSummary,
+  setLiveFilter,
+  addLiveClient,
+  startLiveFeed,
+  stopLiveFeed,
+  followRing,
+  unfollowRing,
+  isFollowingRing,
+} from './liveFeed';
+import { computeTrafficStats, countPacketsPerContainer } from './trafficStats';
+import { CaptureRef, CaptureSource, parseCaptureRef, compareCaptures } from './captureDiff';
+import {
+  ALERT_SEVERITIES,
+  isValidRuleName,
+  validateAlertRule,
+  isLiveRule,
+  loadAlertRules,
+  listAlertRules,
+  getAlertRule,
+  saveAlertRule,
+  removeAlertRule,
+  evaluateRules,
+  createLiveEvaluator,
+  AlertRule,
+  AlertFinding,
+  AlertSeverity,
+  LiveRuleEvaluator,
+} from './alertRules';
+import { Alert, AlertSource, loadAlerts, setAlertWebhook, raiseAlerts, queryAlerts, getAlert } from './alerts';
+import { RetentionPolicy, RetentionResult, PrunedSession, retentionPolicyFromEnv, applyRetention } from './retention';
+import { DiskUsage, readDiskUsage, directorySize } from './diskSpace';
+import {
+  EXPORT_FORMATS,
+  DEFAULT_CSV_FIELDS,
+  isExportFormat,
+  isValidFieldName,
+  writeNdjson,
+  buildHar,
+} from './exporters';
 
 const port = 3000;
-const containerNames: string[] = [];
-// Add monitoring state tracking
-let isMonitoringActive = false;
-const pcapDir = '/data';
-const logFilePath = path.join(pcapDir, 'control.log');
+const DEFAULT_DATA_DIR = '/data';
 
-/**
- * Logs an event to the control log file.
- * @param event - The event description.
- * @param details - Additional details about the event.
- * @param success - Whether the event was successful.
- */
-function logEvent(event: string, details?: string, success?: boolean) {
-  const timestamp = new Date().toISOString();
-  let msg = `[${timestamp}] ${event}`;
-  if (details) msg += ` | Details: ${details}`;
-  if (success !== undefined) msg += ` | Success: ${success}`;
-  msg += '\n';
-  fsSync.appendFileSync(logFilePath, msg, 'utf-8');
+// How long control waits for an agent to acknowledge /stop (agents allow tcpdump 15 s to exit)
+const stopAckTimeoutMs = Number(process.env.STOP_ACK_TIMEOUT_MS) || 30000;
+// After a rule took a ring snapshot, the ring traffic is not evaluated again for this long
+const ringSnapshotCooldownMs = Number(process.env.RING_SNAPSHOT_COOLDOWN_MS) || 5 * 60 * 1000;
+// How long control waits for an agent's /status while reconciling after a restart
+const AGENT_STATUS_TIMEOUT_MS = 5000;
+
+interface HttpOutcome {
+  statusCode: number;
+  body: any;
+}
+
+// What reconciliation found out about an agent after a restart
+interface AgentReconciliation {
+  containerName: string;
+  status: 'capturing' | 'finished' | 'idle' | 'unreachable';
+  sessionId?: string;
+  error?: string;
+}
+
+export interface ReconcileResult {
+  agents: AgentReconciliation[];
+  // Session that was running before the restart and is still followed
+  resumedSessionId?: string;
+  // Sessions left running by the previous process that no agent was capturing any more
+  failedSessionIds: string[];
 }
 
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const MAX_VIEWS_PER_REQUEST = 20;
+const PRESET_NAME_ERROR = { field: 'name', message: 'Must be 1-64 characters of [A-Za-z0-9_-], other than merged or filtered' };
+const MAX_STATS_TOP = 100;
+const DEFAULT_EVENT_LIMIT = 100;
+const MAX_EVENT_LIMIT = 1000;
+const MAX_EVENTS_PER_HEARTBEAT = 500;
+const RULE_NAME_ERROR = { field: 'name', message: 'Must be 1-64 characters of [A-Za-z0-9_-]' };
+const DEFAULT_ALERT_LIMIT = 100;
+const MAX_ALERT_LIMIT = 1000;
+
+// --- Metrics ---
+
+const fanoutDuration = histogram('control_fanout_duration_seconds', 'Time until every agent answered a start or stop fan-out.');
+const agentCallFailures = counter('control_agent_call_failures_total', 'Start and stop calls an agent did not acknowledge.');
+const agentsRegistered = gauge('control_agents_registered', 'Agents known to control.');
+const agentsByHealth = gauge('control_agents', 'Registered agents by health.');
+const agentsQuarantined = gauge('control_agents_quarantined', 'Agents skipped by new captures.');
+const captureActive = gauge('control_capture_active', '1 while a capture session is running.');
+const dataBytes = gauge('control_data_bytes', 'Size of the files under the data directory.');
+const dataAvailableBytes = gauge('control_data_available_bytes', 'Free space on the volume holding the data directory.');
+
+// Walking /data on every scrape would be costly with many sessions, so its size is cached
+const DATA_SIZE_CACHE_MS = 60000;
+
 // --- Utility Functions ---
 
 function ensureDirSync(dir: string) {
@@ -62,333 +251,1655 @@ function ensureDirSync(dir: string) {
   }
 }
 
-function getLatestConfig(): any | undefined {
-  const configFilePath = path.join(pcapDir, 'config.json');
-  if (!fsSync.existsSync(configFilePath)) return undefined;
-  return JSON.parse(fsSync.readFileSync(configFilePath, 'utf-8'));
+interface ResolvedView {
+  name: string;
+  jsonFile: string;
+  pcapFile: string;
+  config?: CaptureFilterConfig;
+  // Display filter that produced the view from the merged capture; undefined for `merged`
+  displayFilter?: string;
+  // The same filter rebuilt for a capture with other interfaces, e.g. a single container's file
+  filterFor?: (interfaces: string[]) => string;
+}
+
+/**
+ * Names the container a packet of `session` was captured on, from its capture interface. Sessions
+ * merged before packets were tagged have no interface list and are returned as they are.
+ */
+function tagPacket(session: CaptureSession, packet: Record<string, any>, rawPacket: any): Record<string, any> {
+  if (!session.interfaces) return packet;
+  const interfaceId = projectPacket(rawPacket, ['frame.interface_id'])['frame.interface_id'];
+  const containerName = session.interfaces[Number(interfaceId ?? 0)];
+  return containerName ? { containerName, ...packet } : packet;
+}
+
+function pruneDeadAgents() {
+  for (const name of pruneAgents()) {
+    unfollowRing(name);
+    logEvent('Agent pruned', undefined, true, { containerName: name });
+  }
 }
 
-async function clearOldPcaps(dir: string) {
-  const files = await fs.readdir(dir);
-  for (const file of files) {
-    if (file.endsWith('.pcap')) {
-      await fs.unlink(path.join(dir, file));
+export interface AppDependencies {
+  // Root of sessions, config.json, presets, schedules and the event log
+  dataDir?: string;
+  // Client for the calls to the agents
+  http?: HttpClient;
+  // Runs mergecap, tshark and editcap; replaces the runner for the whole process (see processRunner.ts)
+  runCommand?: CommandRunner;
+  // Bounds on the stored sessions; read from the RETENTION_* environment when omitted
+  retention?: RetentionPolicy;
+}
+
+export interface ControlApp {
+  app: express.Express;
+  // Starts a capture session, as `/start` does; used by the scheduler
+  startSession(startRequest: StartRequest, scheduleId?: string): Promise<HttpOutcome>;
+  // Deletes the sessions the retention policy no longer keeps
+  pruneSessions(): Promise<RetentionResult>;
+  retention: RetentionPolicy;
+  // Restores the capture state saved by a previous process and checks it against the agents
+  reconcile(): Promise<ReconcileResult>;
+}
+
+/**
+ * Builds control's Express app. Each app has its own capture state; the agent registry, presets and
+ * schedules are shared modules.
+ */
+export function createApp(deps: AppDependencies = {}): ControlApp {
+  const pcapDir = deps.dataDir ?? DEFAULT_DATA_DIR;
+  const http = deps.http ?? axios;
+  const retention = deps.retention ?? retentionPolicyFromEnv(process.env);
+  setCommandRunner(deps.runCommand);
+  setEventLogDir(process.env.EVENT_LOG_DIR || pcapDir);
+  setAlertWebhook(process.env.ALERT_WEBHOOK_URL, http);
+
+  const app = express();
+  // The raw body is kept for verifying agent signatures
+  app.use(express.json({ verify: (req: Request, res, buf) => { req.rawBody = buf; } }));
+  // Browser access is limited to the origins in CORS_ORIGINS (comma-separated); none by default
+  const corsOrigins = (process.env.CORS_ORIGINS || '').split(',').map((origin) => origin.trim()).filter(Boolean);
+  app.use(cors({ origin: corsOrigins.length > 0 ? corsOrigins : false }));
+  app.use(bodyParser.json());
+
+  // Session currently capturing, if any
+  let activeSession: CaptureSession | null = null;
+  // Stops the active session when its duration limit elapses
+  let sessionTimer: NodeJS.Timeout | null = null;
+  let stopInProgress = false;
+  // Acknowledgements of the agents a partial /stop already stopped, merged in when the session stops
+  let earlyAcks: StopAck[] = [];
+  // Session being merged after its stop; retention leaves it alone like the active one
+  let mergingSessionId: string | undefined;
+  // Session a ring snapshot is being collected into; one snapshot at a time
+  let snapshotSessionId: string | undefined;
+  // Snapshot rules over the ring traffic; built on first use and again after each snapshot or rule change
+  let evaluateRing: LiveRuleEvaluator | undefined;
+  let ringCooldownUntil = 0;
+
+  let dataSize: number | undefined;
+  let dataSizeCheckedAt = 0;
+
+  /**
+   * Size of the files under the data directory, measured at most once a minute.
+   */
+  async function dataDirectorySize(): Promise<number | undefined> {
+    if (Date.now() - dataSizeCheckedAt >= DATA_SIZE_CACHE_MS) {
+      dataSizeCheckedAt = Date.now();
+      try {
+        dataSize = await directorySize(pcapDir);
+      } catch (err: any) {
+        if (err?.code === 'ENOENT') dataSize = 0;
+        else logEvent('Metrics', `Failed to measure ${pcapDir}: ${err?.message || String(err)}`, false);
+      }
+    }
+    return dataSize;
+  }
+
+  async function dataVolumeUsage(): Promise<DiskUsage | undefined> {
+    try {
+      return await readDiskUsage(pcapDir);
+    } catch {
+      return undefined;
+    }
+  }
+
+  setCollector('control', async () => {
+    const agents = listAgents();
+    agentsRegistered.set(agents.length);
+    for (const health of ['healthy', 'stale', 'dead']) {
+      agentsByHealth.set(agents.filter((agent) => agent.health === health).length, { health });
+    }
+    agentsQuarantined.set(agents.filter((agent) => agent.quarantined).length);
+    captureActive.set(activeSession ? 1 : 0);
+    const size = await dataDirectorySize();
+    if (size !== undefined) dataBytes.set(size);
+    const volume = await dataVolumeUsage();
+    if (volume) dataAvailableBytes.set(volume.availableBytes);
+  });
+
+  /**
+   * Deletes the sessions the retention policy no longer keeps, sparing the session being captured
+   * and the ones being merged.
+   */
+  function pruneSessions(): Promise<RetentionResult> {
+    const protectedIds = [activeSession?.id, mergingSessionId, snapshotSessionId].filter((id): id is string => id !== undefined);
+    return applyRetention(pcapDir, retention, protectedIds);
+  }
+
+  /**
+   * Applies the retention policy after a session stopped. Failures are logged and never fail the stop.
+   */
+  async function pruneAfterStop(session: CaptureSession): Promise<PrunedSession[]> {
+    if (Object.keys(retention).length === 0) return [];
+    try {
+      const result = await pruneSessions();
+      dataSizeCheckedAt = 0;
+      return result.pruned;
+    } catch (err: any) {
+      logEvent('Retention', `Error: ${err?.message || String(err)}`, false, { sessionId: session.id });
+      return [];
     }
   }
-  // Also delete output.json if it exists
-  const outputJsonPath = path.join(dir, 'output.json');
-  if (fsSync.existsSync(outputJsonPath)) {
-    await fs.unlink(outputJsonPath);
+
+  /**
+   * Reads the saved filter config. A config.json that no longer validates is ignored (and logged)
+   * rather than handed to tshark.
+   */
+  function getLatestConfig(): CaptureFilterConfig | undefined {
+    const configFilePath = path.join(pcapDir, 'config.json');
+    if (!fsSync.existsSync(configFilePath)) return undefined;
+    const validation = validateFilterConfig(JSON.parse(fsSync.readFileSync(configFilePath, 'utf-8')));
+    if (!validation.valid) {
+      logEvent('Filtering', `Ignoring invalid ${configFilePath}: ${JSON.stringify(validation.errors)}`, false);
+      return undefined;
+    }
+    return validation.config;
   }
-  // Also delete filtered.pcap and filtered.json if they exist
-  const filteredPcapPath = path.join(dir, 'filtered.pcap');
-  if (fsSync.existsSync(filteredPcapPath)) {
-    await fs.unlink(filteredPcapPath);
+
+  function saveConfig(config: CaptureFilterConfig) {
+    ensureDirSync(pcapDir);
+     const configFilePath = path.join(pcapDir, 'config.json');
+    fsSync.writeFileSync(configFilePath, JSON.stringify(config, null, 2), 'utf-8');
+    return configFilePath;
   }
-  const filteredJsonPath = path.join(dir, 'filtered.json');
-  if (fsSync.existsSync(filteredJsonPath)) {
-    await fs.unlink(filteredJsonPath);
+
+  /**
+   * Saves the config and display filter that wrote a session's filtered.pcap, so its filtered view
+   * keeps describing those packets after config.json changes.
+   */
+  function recordFilteredView(session: CaptureSession, config: CaptureFilterConfig, displayFilter: string, packetCount?: number): void {
+    session.filteredPacketCount = packetCount;
+    session.filterConfig = config;
+    session.filteredDisplayFilter = displayFilter;
+    saveSession(session);
   }
-  logEvent('Monitoring started', 'Cleared old pcap files, output.json, filtered.pcap, and filtered.json', true);
-}
 
-async function mergePcaps(dir: string, mergedPcapFile: string) {
-  await fs.rm(mergedPcapFile, { force: true });
-  const pcapFiles = (await fs.readdir(dir))
-    .filter((file:any) => file.endsWith('.pcap'))
-    .map((file:any) => path.join(dir, file));
-  if (pcapFiles.length === 0) {
-    logEvent('Monitoring stopped', 'No .pcap files found to merge', false);
-    throw new Error('No .pcap files found to merge.');
-  }
-  const mergecapCommand = `mergecap -w ${mergedPcapFile} ${pcapFiles.join(' ')}`;
-  await new Promise((resolve, reject) => {
-    exec(mergecapCommand, (error:any) => {
-      logEvent('Monitoring stopped', `Command: ${mergecapCommand}`, !error);
-      if (error) return reject(error);
-      resolve(null);
-    });
+  /**
+   * Maps a `view` query value to its files: `merged` (the default), `filtered` (config.json as it was when the session was filtered)
+   * or the name of a preset applied with `POST /sessions/:id/views`. Undefined for an unknown view.
+   */
+  function resolveView(session: CaptureSession, value: unknown): ResolvedView | undefined {
+    if (value === undefined || value === 'merged') {
+      return { name: 'merged', jsonFile: path.join(session.dir, 'output.json'), pcapFile: path.join(session.dir, 'merged.pcap') };
+    }
+    if (value === 'filtered') {
+      const config = session.filterConfig;
+      return {
+        name: 'filtered',
+        jsonFile: path.join(session.dir, 'filtered.json'),
+        pcapFile: path.join(session.dir, 'filtered.pcap'),
+        config,
+        displayFilter: session.filteredDisplayFilter,
+        filterFor: config ? (interfaces) => buildWiresharkFilterFromConfig(config, interfaces) : undefined,
+      };
+    }
+    if (typeof value !== 'string' || !isValidPresetName(value)) return undefined;
+    const view = loadView(session, value);
+    if (!view) return undefined;
+    const dir = viewDir(session, view.name);
+    return {
+      name: view.name,
+      jsonFile: path.join(dir, 'filtered.json'),
+      pcapFile: path.join(dir, 'filtered.pcap'),
+      config: view.config,
+      displayFilter: view.filter,
+      filterFor: (interfaces) => presetDisplayFilter(view, interfaces),
+    };
+  }
+
+  /**
+   * Applies a filter preset to a stopped session as the view of the same name, replacing an earlier one.
+   * The view keeps a snapshot of the preset, so editing the preset later does not change it.
+   */
+  async function applyPreset(session: CaptureSession, mergedPcapFile: string, name: string) {
+    const preset = getFilterPreset(name)!;
+    const filter = presetDisplayFilter(preset, session.interfaces);
+    const dir = viewDir(session, name);
+    await deleteView(session, name);
+    ensureDirSync(dir);
+    const result = await filterPcapAndJson(mergedPcapFile, filter, dir);
+    if (result.status === 'ko') {
+      await deleteView(session, name);
+      logEvent('Filtering', `View: ${name} | Error: ${result.errorMsg}`, false, { sessionId: session.id });
+      return { name, status: result.status, filter, error: result.errorMsg, stderr: result.stderr };
+    }
+    const view: SessionView = {
+      name,
+      config: preset.config,
+      displayFilter: preset.displayFilter,
+      filter,
+      packetCount: result.packetCount,
+      createdAt: new Date().toISOString(),
+    };
+    saveView(session, view);
+    logEvent('Filtering', `View: ${name} | Packets: ${result.packetCount}`, true, { sessionId: session.id });
+    return { ...view, status: result.status, packetsUrl: `/sessions/${session.id}/packets?view=${name}` };
+  }
+
+  function capturedTraffic(session: CaptureSession) {
+    return {
+      pcapFile: path.join(session.dir, 'merged.pcap'),
+      jsonFile: path.join(session.dir, 'output.json'),
+      interfaces: session.interfaces,
+    };
+  }
+
+  /**
+   * Evaluates the enabled alert rules over a finished session and raises the new alerts. A failing
+   * evaluation is logged and raises nothing, so it never fails the stop it runs in.
+   */
+  async function evaluateSessionAlerts(session: CaptureSession): Promise<Alert[]> {
+    const rules = listAlertRules().filter((rule) => rule.enabled);
+    if (rules.length === 0) return [];
+    try {
+      return await raiseAlerts(session.id, 'session', await evaluateRules(rules, capturedTraffic(session)));
+    } catch (err: any) {
+      logEvent('Alert evaluation', `Error: ${err?.message || String(err)}`, false, { sessionId: session.id });
+      return [];
+    }
+  }
+
+  // --- API Endpoints ---
+
+  app.get('/server-name/:containerName', requireAgentSignature, (req: Request, res: Response): void => {
+    const { containerName } = req.params;
+    if (!isValidAgentName(containerName)) {
+      res.status(400).send(`Invalid container name: ${containerName}`);
+      return;
+    }
+    const labels = typeof req.query.labels === 'string' ? parseLabels(req.query.labels) : {};
+    const labelErrors = validateLabels(labels);
+    if (labelErrors.length > 0) {
+      res.status(400).send(`Invalid labels: ${labelErrors.join('; ')}`);
+      return;
+    }
+    const labelText = Object.entries(labels).map(([key, value]) => `${key}=${value}`).join(',');
+    if (registerAgent(containerName, labels)) {
+      console.log(`Container name added: ${containerName}`);
+      logEvent('Agent registered', labelText ? `Labels: ${labelText}` : undefined, true, { containerName });
+    } else {
+      console.log(`Container name already exists: ${containerName}`);
+    }
+    res.send(`Container name received: ${containerName}`);
   });
-}
 
-async function pcapToJson(pcapFile: string, jsonFile: string) {
-  const tsharkCmd = `tshark -r ${pcapFile} -T json > ${jsonFile}`;
-  await new Promise((resolve, reject) => {
-    exec(tsharkCmd, (error) => {
-      logEvent('Filtering', `Command: ${tsharkCmd}`, !error && fsSync.existsSync(jsonFile));
-      if (error) return reject(error);
-      resolve(null);
-    });
+  app.post('/heartbeat/:containerName', requireAgentSignature, (req: Request, res: Response): void => {
+    const { containerName } = req.params;
+    const heartbeat: Heartbeat = req.body || {};
+    if (!recordHeartbeat(containerName, heartbeat)) {
+      // Unknown agent (e.g. control restarted): tell it to register again
+      res.status(404).json({ registered: false });
+      return;
+    }
+    syncRingFeed(containerName);
+    if (Array.isArray(heartbeat.events)) {
+      for (const raw of heartbeat.events.slice(0, MAX_EVENTS_PER_HEARTBEAT)) {
+        const entry = eventFromAgent(containerName, raw);
+        if (entry) recordEvent(entry);
+      }
+    }
+    // Every agent hit its packet/size/duration limit: finish the session without waiting for /stop
+    if (activeSession && allAgentsFinished(runningAgents(activeSession), activeSession.id)) {
+      autoStop(activeSession, 'limits');
+    }
+    res.json({ registered: true });
   });
-}
 
-async function filterPcapAndJson(
-  mergedPcapFile: string,
-  filterString: string,
-  outputDir: string
-): Promise<{ status: 'ok' | 'ko', filteredJsonData?: any, errorMsg?: string }> {
-  const filteredPcapFile = path.join(outputDir, 'filtered.pcap');
-  const filteredJsonFile = path.join(outputDir, 'filtered.json');
-  try {
-    const filterCmd = filterString
-      ? `tshark -r ${mergedPcapFile} -Y "${filterString}" -w ${filteredPcapFile}`
-      : `cp ${mergedPcapFile} ${filteredPcapFile}`;
-    await new Promise((resolve, reject) => {
-      exec(filterCmd, (error:any) => {
-        logEvent('Filtering', `Command: ${filterCmd}`, !error && fsSync.existsSync(filteredPcapFile));
-        if (error) return reject(error);
-        resolve(null);
+  /**
+   * Agents of `session` that have not been stopped by a partial `/stop` yet.
+   */
+  function runningAgents(session: CaptureSession): string[] {
+    return session.containers.filter((name) => !session.stoppedAgents?.includes(name));
+  }
+
+  function persistState() {
+    saveControlState(pcapDir, { activeSessionId: activeSession?.id, earlyAcks });
+  }
+
+  /**
+   * Follows the live feed of `containers` for the running `session`, with the live alert rules, and arms
+   * the timer of its duration limit, counted from when the session started.
+   */
+  function followSession(session: CaptureSession, containers: string[]) {
+    setLiveFilter(getLatestConfig());
+    const evaluateLive = createLiveEvaluator(listAlertRules().filter((rule) => rule.enabled));
+    startLiveFeed(session.id, containers, http, (summary) => {
+      const findings = evaluateLive(summary);
+      if (findings.length > 0) raiseAlerts(session.id, 'live', findings).catch((err) => {
+        logEvent('Alert evaluation', `Error: ${err?.message || String(err)}`, false, { sessionId: session.id });
       });
     });
-    await pcapToJson(filteredPcapFile, filteredJsonFile);
-    if (fsSync.existsSync(filteredJsonFile)) {
-      const filteredJsonData = JSON.parse(fsSync.readFileSync(filteredJsonFile, 'utf-8'));
-      logEvent('Filtering', `Output: ${filteredJsonFile}`, true);
-      return { status: 'ok', filteredJsonData };
-    } else {
-      logEvent('Filtering', `Output: ${filteredJsonFile}`, false);
-      return { status: 'ko', errorMsg: 'Filtered JSON file not found after filtering.' };
+    if (session.limits?.durationSeconds) {
+      const remainingMs = Date.parse(session.startedAt) + session.limits.durationSeconds * 1000 - Date.now();
+      sessionTimer = setTimeout(() => {
+        autoStop(session, 'duration');
+      }, Math.max(remainingMs, 0));
+      sessionTimer.unref();
     }
-  } catch (err: any) {
-    logEvent('Filtering', `Error: ${err?.message || String(err)}`, false);
-    return { status: 'ko', errorMsg: 'Filtering failed: ' + (err?.message || String(err)) };
   }
-}
 
-function saveConfig(config: any) {
-  ensureDirSync(pcapDir);
-   const configFilePath = path.join(pcapDir, 'config.json');
-  fsSync.writeFileSync(configFilePath, JSON.stringify(config, null, 2), 'utf-8');
-  return configFilePath;
-}
+  /**
+   * Creates a session and fans the start signal out to the selected active agents (all by default).
+   */
+  async function startSession(startRequest: StartRequest, scheduleId?: string): Promise<HttpOutcome> {
+    pruneDeadAgents();
+    const validationErrors = validateStartRequest(startRequest);
+    if (validationErrors.length > 0) {
+      return { statusCode: 400, body: { message: 'Invalid capture options', errors: validationErrors } };
+    }
+    const selection = selectAgents(startRequest || {});
+    if (selection.unavailable.length > 0) {
+      return { statusCode: 400, body: { message: `Unknown or quarantined agents: ${selection.unavailable.join(', ')}` } };
+    }
+    const containerNames = selection.names;
+    if (containerNames.length === 0) {
+      return { statusCode: 400, body: { message: 'No container names available to start.' } };
+    }
+    if (activeSession) {
+      return { statusCode: 409, body: { message: 'A capture session is already running.', sessionId: activeSession.id } };
+    }
+    const captureOptions: Record<string, CaptureOptions> = {};
+    for (const containerName of containerNames) {
+      captureOptions[containerName] = captureOptionsFor(startRequest, containerName);
+    }
+    const limits = startRequest.limits;
+    const session = createSession(pcapDir, containerNames, captureOptions, limits, scheduleId);
+    activeSession = session;
+    earlyAcks = [];
+    persistState();
+    logEvent('Monitoring started', scheduleId ? `Schedule: ${scheduleId}` : undefined, true, { sessionId: session.id });
+    const fanoutStartedAt = Date.now();
+    const results = await Promise.all(
+      session.containers.map(async (containerName) => {
+        const query = toAgentQuery(captureOptions[containerName], limits);
+        query.set('session', session.id);
+        const cmd = `http://${containerName}:3000/start?${query}`;
+        try {
+          await http.get(cmd, { headers: agentRequestHeaders('GET', cmd) });
+          recordReachability(containerName, true);
+          logEvent('Monitoring started', undefined, true, { sessionId: session.id, containerName, command: cmd });
+          return { containerName, status: 'success' };
+        } catch (error: any) {
+          // The agent answers 400 with the reason when it rejects the capture options
+          recordReachability(containerName, Boolean(error?.response));
+          const reason = error?.response?.data || error?.message;
+          logEvent('Monitoring started', `Error: ${reason}`, false, { sessionId: session.id, containerName, command: cmd });
+          agentCallFailures.inc({ operation: 'start', container: containerName });
+          return { containerName, status: 'failed', error: reason };
+        }
+      })
+    );
+    fanoutDuration.observe((Date.now() - fanoutStartedAt) / 1000, { operation: 'start' });
+    if (!results.some((result) => result.status === 'success')) {
+      // Nothing is capturing: keep the failed session for the record, but do not block the next start
+      if (activeSession === session) {
+        activeSession = null;
+        earlyAcks = [];
+        persistState();
+      }
+      session.status = 'failed';
+      session.stoppedAt = new Date().toISOString();
+      session.error = 'No agent started capturing.';
+      saveSession(session);
+      logEvent('Monitoring started', `Error: ${session.error}`, false, { sessionId: session.id });
+      return { statusCode: 502, body: { message: 'No scan docker started capturing.', sessionId: session.id, results } };
+    }
+    followSession(session, results.filter((result) => result.status === 'success').map((result) => result.containerName));
+    return {
+      statusCode: 200,
+      body: { message: 'Start signal sent to all scan dockers.', sessionId: session.id, limits, results }
+    };
+  }
 
-/**
- * Converts a config object to a Wireshark display filter string.
- * Supports multiple comma-separated values for each field.
- */
-function buildWiresharkFilterFromConfig(config: any): string {
-  const filters: string[] = [];
+  /**
+   * Brings an acknowledged agent's capture file into the session directory, from the shared volume or
+   * by pulling it from the agent. Agents that do not report a file size are assumed to share `/data`.
+   */
+  async function collectAgentCapture(session: CaptureSession, ack: StopAck) {
+    if (ack.status !== 'success' || !ack.fileSize) return;
+    const url = `http://${ack.containerName}:3000/captures/${session.id}`;
+    const startedAt = Date.now();
+    const fields = { sessionId: session.id, containerName: ack.containerName, command: `GET ${url}` };
+    try {
+      ack.transfer = await collectCapture({
+        url,
+        target: path.join(session.dir, `dumpfile_${ack.containerName}.pcap`),
+        size: ack.fileSize,
+        sha256: ack.sha256,
+      }, { http });
+      logEvent('Capture transfer', `Mode: ${ack.transfer} | Bytes: ${ack.fileSize}`, true, { ...fields, durationMs: Date.now() - startedAt });
+    } catch (err: any) {
+      ack.transfer = 'failed';
+      ack.error = err?.message || String(err);
+      logEvent('Capture transfer', `Error: ${ack.error}`, false, { ...fields, durationMs: Date.now() - startedAt });
+    }
+  }
 
-  // Helper to handle multiple values per field
-  function multiFilter(field: string, cb: (val: string) => string): string | undefined {
-    if (!config[field]) return undefined;
-    const values = config[field].split(',').map((v: string) => v.trim()).filter(Boolean);
-    if (values.length === 0) return undefined;
-    return values.map(cb).join(' or ');
+  /**
+   * Sends the stop signal for `session` to `containerNames`, or has them freeze their ring buffer into it
+   * (`snapshot`), and collects the captures of the agents that acknowledged it.
+   */
+  async function stopAgents(session: CaptureSession, containerNames: string[], operation: 'stop' | 'snapshot' = 'stop'): Promise<StopAck[]> {
+    // Each agent answers only after tcpdump has exited, so its reply is the acknowledgement
+    const fanoutStartedAt = Date.now();
+    const event = operation === 'snapshot' ? 'Ring snapshot' : 'Monitoring stopped';
+    const results: StopAck[] = await Promise.all(
+      containerNames.map(async (containerName): Promise<StopAck> => {
+        const cmd = `http://${containerName}:3000/${operation === 'snapshot' ? 'ring/snapshot' : 'stop'}?session=${session.id}`;
+        const requestedAt = Date.now();
+        try {
+          const response = await http.get(cmd, { timeout: stopAckTimeoutMs, headers: agentRequestHeaders('GET', cmd) });
+          recordReachability(containerName, true);
+          logEvent(event, undefined, true, { sessionId: session.id, containerName, command: cmd, durationMs: Date.now() - requestedAt });
+          const ack = response.data || {};
+          return {
+            containerName,
+            status: 'success',
+            exitCode: ack.exitCode,
+            fileSize: ack.fileSize,
+            packetCount: ack.packetCount,
+            packetsDropped: ack.packetsDropped,
+            endedBy: ack.endedBy,
+            sha256: ack.sha256
+          };
+        } catch (error: any) {
+          recordReachability(containerName, Boolean(error?.response));
+          const timedOut = error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT';
+          const reason = error?.response?.data || error?.message;
+          logEvent(event, `Error: ${reason}`, false, { sessionId: session.id, containerName, command: cmd, durationMs: Date.now() - requestedAt });
+          agentCallFailures.inc({ operation, container: containerName });
+          return { containerName, status: timedOut ? 'timeout' : 'failed', error: reason };
+        }
+      })
+    );
+    fanoutDuration.observe((Date.now() - fanoutStartedAt) / 1000, { operation });
+    await Promise.all(results.map((ack) => collectAgentCapture(session, ack)));
+    return results;
   }
 
-  // IP address (src or dst)
-  const ipFilter = multiFilter('ip', (ip) => `ip.addr == ${ip}`);
-  if (ipFilter) filters.push(`(${ipFilter})`);
+  /**
+   * Stops some of the agents of the running session and keeps their acknowledgements for the final
+   * stop; the other agents keep capturing.
+   */
+  async function stopSomeAgents(session: CaptureSession, containerNames: string[]): Promise<HttpOutcome> {
+    stopInProgress = true;
+    try {
+      const results = await stopAgents(session, containerNames);
+      earlyAcks.push(...results);
+      session.stoppedAgents = [...(session.stoppedAgents || []), ...containerNames];
+      saveSession(session);
+      persistState();
+      logEvent('Monitoring stopped', `Agents: ${containerNames.join(', ')}`, true, { sessionId: session.id });
+      return {
+        statusCode: 200,
+        body: {
+          message: 'Stop signal sent to the selected scan dockers.',
+          sessionId: session.id,
+          results,
+          stoppedAgents: session.stoppedAgents,
+          runningAgents: runningAgents(session),
+        }
+      };
+    } finally {
+      stopInProgress = false;
+    }
+  }
 
-  // Port (tcp or udp)
-  const portFilter = multiFilter('port', (port) => `(tcp.port == ${port} or udp.port == ${port})`);
-  if (portFilter) filters.push(`(${portFilter})`);
+  /**
+   * Stops `session` on every agent still capturing, then merges, converts and filters its captures.
+   */
+  async function stopSession(session: CaptureSession, reason: StopReason): Promise<HttpOutcome> {
+    if (sessionTimer) clearTimeout(sessionTimer);
+    sessionTimer = null;
+    stopInProgress = true;
+    mergingSessionId = session.id;
+    stopLiveFeed();
+    try {
+      const results = [...earlyAcks, ...(await stopAgents(session, runningAgents(session)))];
+      earlyAcks = [];
+      activeSession = null;
+      persistState();
+      return await finishSession(session, results, reason, 'Stop signal sent to all scan dockers.');
+    } finally {
+      stopInProgress = false;
+      mergingSessionId = undefined;
+    }
+  }
 
-  // Protocol (tcp, udp, icmp, etc.)
-  const protocolFilter = multiFilter('protocol', (proto) => proto.toLowerCase());
-  if (protocolFilter) filters.push(`(${protocolFilter})`);
+  /**
+   * Merges, converts and filters the captures the agents acknowledged for `session`, evaluates the alert
+   * rules and applies retention; the end of a stop and of a ring snapshot.
+   */
+  async function finishSession(session: CaptureSession, results: StopAck[], reason: StopReason, message: string): Promise<HttpOutcome> {
+    const event = reason === 'snapshot' ? 'Ring snapshot' : 'Monitoring stopped';
+    const collected = (result: StopAck) => result.status === 'success' && result.transfer !== 'failed';
+    const acknowledged = results.filter(collected).map((result) => result.containerName);
+    const incompleteAgents = results.filter((result) => !collected(result)).map((result) => result.containerName);
+    session.stoppedAt = new Date().toISOString();
+    session.stopReason = reason;
+    session.incompleteAgents = incompleteAgents;
+    const mergedPcapFile = path.join(session.dir, 'merged.pcap');
+    const jsonOutputFile = path.join(session.dir, 'output.json');
+    try {
+      session.interfaces = await mergePcaps(session.dir, mergedPcapFile, acknowledged);
+      session.packetCount = await pcapToJson(mergedPcapFile, jsonOutputFile);
+      session.status = 'stopped';
+      saveSession(session);
+      const config = getLatestConfig();
+      let filterStatus: 'ok' | 'ko' | undefined = undefined;
+      let errorMsg: string | undefined = undefined;
+      let stderr: string | undefined = undefined;
+      if (config) {
+        const filterString = buildWiresharkFilterFromConfig(config, session.interfaces);
+        const filterResult = await filterPcapAndJson(mergedPcapFile, filterString, session.dir);
+        filterStatus = filterResult.status;
+        errorMsg = filterResult.errorMsg;
+        stderr = filterResult.stderr;
+        recordFilteredView(session, config, filterString, filterResult.packetCount);
+      }
+      const summary = {
+        ...(await summarizeCapture(jsonOutputFile)),
+        filteredPacketCount: session.filteredPacketCount,
+        artifacts: await listArtifacts(session),
+      };
+      const alerts = await evaluateSessionAlerts(session);
+      logEvent(event, `Output: ${jsonOutputFile}`, true, { sessionId: session.id });
+      const prunedSessions = await pruneAfterStop(session);
+      return {
+        statusCode: 200,
+        body: {
+          message,
+          sessionId: session.id,
+          stopReason: reason,
+          trigger: session.trigger,
+          results,
+          incompleteAgents,
+          summary,
+          packetsUrl: `/sessions/${session.id}/packets`,
+          alerts,
+          prunedSessions,
+          filterStatus,
+          error: filterStatus === 'ko' ? errorMsg : undefined,
+          stderr: filterStatus === 'ko' ? stderr : undefined
+        }
+      };
+    } catch (error: any) {
+      session.status = 'failed';
+      session.error = error.message || 'Failed to process pcap files.';
+      saveSession(session);
+      logEvent(event, `Error: ${error.message || 'Failed to process pcap files.'}`, false, { sessionId: session.id });
+      return {
+        statusCode: 500,
+        body: {
+          message: 'Failed to process pcap files.',
+          sessionId: session.id,
+          results,
+          incompleteAgents,
+          error: error.message,
+          stderr: error instanceof CommandError ? error.stderr : undefined
+        }
+      };
+    }
+  }
 
-  // Source IP
-  const srcIpFilter = multiFilter('sourceIp', (ip) => `ip.src == ${ip}`);
-  if (srcIpFilter) filters.push(`(${srcIpFilter})`);
+  /**
+   * Stops a session without a caller waiting on the result (duration elapsed, limits reached).
+   */
+  function autoStop(session: CaptureSession, reason: StopReason) {
+    if (activeSession !== session || stopInProgress) return;
+    logEvent('Monitoring stopped', `Reason: ${reason}`, true, { sessionId: session.id });
+    stopSession(session, reason).catch((err) => {
+      logEvent('Monitoring stopped', `Error: ${err?.message || String(err)}`, false, { sessionId: session.id });
+    });
+  }
 
-  // Destination IP
-  const dstIpFilter = multiFilter('destinationIp', (ip) => `ip.dst == ${ip}`);
-  if (dstIpFilter) filters.push(`(${dstIpFilter})`);
+  /**
+   * Evaluates the snapshot rules on a packet an agent's ring buffer recorded. Findings freeze the rings
+   * into a session; the ring traffic is then ignored until the cooldown is over.
+   */
+  function observeRing(summary: PacketSummary) {
+    if (snapshotSessionId || Date.now() < ringCooldownUntil) return;
+    if (!evaluateRing) evaluateRing = createLiveEvaluator(listAlertRules().filter((rule) => rule.enabled && rule.snapshot));
+    const findings = evaluateRing(summary);
+    if (findings.length === 0) return;
+    ringCooldownUntil = Date.now() + ringSnapshotCooldownMs;
+    const rule = findings[0].rule;
+    snapshotRings({}, { source: 'rule', rule }, findings)
+      .then((outcome) => {
+        if (outcome.statusCode !== 200) logEvent('Ring snapshot', `Rule: ${rule} | Error: ${outcome.body.message}`, false);
+      })
+      .catch((err) => {
+        logEvent('Ring snapshot', `Rule: ${rule} | Error: ${err?.message || String(err)}`, false);
+      })
+      .finally(() => {
+        // Each rule and subject fires once per evaluator, so the next incident needs a fresh one
+        evaluateRing = undefined;
+      });
+  }
 
-  // Source Port
-  const srcPortFilter = multiFilter('sourcePort', (port) => `(tcp.srcport == ${port} or udp.srcport == ${port})`);
-  if (srcPortFilter) filters.push(`(${srcPortFilter})`);
+  /**
+   * Follows the ring traffic of an agent while it reports a running ring buffer, and stops following it after.
+   */
+  function syncRingFeed(containerName: string) {
+    const recording = listAgents().some((agent) => agent.name === containerName && agent.ring !== undefined);
+    if (recording && !isFollowingRing(containerName)) followRing(containerName, http, observeRing);
+    else if (!recording && isFollowingRing(containerName)) unfollowRing(containerName);
+  }
 
-  // Destination Port
-  const dstPortFilter = multiFilter('destinationPort', (port) => `(tcp.dstport == ${port} or udp.dstport == ${port})`);
-  if (dstPortFilter) filters.push(`(${dstPortFilter})`);
+  /**
+   * Sends `/ring/start` (with `query`) or `/ring/stop` to `containerNames` and records whose rings run.
+   */
+  async function ringFanout(containerNames: string[], operation: 'start' | 'stop', query: URLSearchParams = new URLSearchParams()) {
+    const event = operation === 'start' ? 'Ring buffer started' : 'Ring buffer stopped';
+    const fanoutStartedAt = Date.now();
+    const results = await Promise.all(
+      containerNames.map(async (containerName) => {
+        const cmd = `http://${containerName}:3000/ring/${operation}${query.toString() ? `?${query}` : ''}`;
+        try {
+          const response = await http.get(cmd, { headers: agentRequestHeaders('GET', cmd) });
+          recordReachability(containerName, true);
+          recordRing(containerName, operation === 'start' ? response.data : undefined);
+          syncRingFeed(containerName);
+          logEvent(event, undefined, true, { containerName, command: cmd });
+          return { containerName, status: 'success', ring: operation === 'start' ? response.data : undefined };
+        } catch (error: any) {
+          recordReachability(containerName, Boolean(error?.response));
+          const reason = error?.response?.data || error?.message;
+          logEvent(event, `Error: ${reason}`, false, { containerName, command: cmd });
+          agentCallFailures.inc({ operation: `ring_${operation}`, container: containerName });
+          return { containerName, status: 'failed', error: reason };
+        }
+      })
+    );
+    fanoutDuration.observe((Date.now() - fanoutStartedAt) / 1000, { operation: `ring_${operation}` });
+    return results;
+  }
 
-  // Packet size min/max
-  if (config.packetSizeMin) {
-    filters.push(`frame.len >= ${config.packetSizeMin}`);
+  /**
+   * Agents whose ring buffer records, among those matching `selector`.
+   */
+  function recordingAgents(selector: AgentSelector): string[] {
+    const recording = listAgents().filter((agent) => agent.ring && agent.health !== 'dead').map((agent) => agent.name);
+    return filterAgentNames(recording, selector);
   }
-  if (config.packetSizeMax) {
-    filters.push(`frame.len <= ${config.packetSizeMax}`);
+
+  /**
+   * Freezes the ring buffers of the recording agents matching `selector` into a new session, then merges
+   * it like a stopped one. The findings that triggered the snapshot are raised as alerts of that session.
+   */
+  async function snapshotRings(selector: AgentSelector, trigger: SessionTrigger, findings: AlertFinding[] = []): Promise<HttpOutcome> {
+    if (snapshotSessionId) {
+      return { statusCode: 409, body: { message: 'A ring snapshot is already being collected.', sessionId: snapshotSessionId } };
+    }
+    const targets = recordingAgents(selector);
+    if (targets.length === 0) {
+      return { statusCode: 409, body: { message: 'No selected agent is recording a ring buffer.' } };
+    }
+    const session = createSession(pcapDir, targets);
+    snapshotSessionId = session.id;
+    try {
+      if (findings.length > 0) {
+        const alerts = await raiseAlerts(session.id, 'live', findings).catch((err) => {
+          logEvent('Alert evaluation', `Error: ${err?.message || String(err)}`, false, { sessionId: session.id });
+          return [];
+        });
+        trigger.alertIds = alerts.map((alert) => alert.id);
+      }
+      session.trigger = trigger;
+      saveSession(session);
+      logEvent('Ring snapshot', trigger.rule ? `Rule: ${trigger.rule}` : 'Manual trigger', true, { sessionId: session.id });
+      const results = await stopAgents(session, targets, 'snapshot');
+      return await finishSession(session, results, 'snapshot', 'Ring snapshot collected from the scan dockers.');
+    } finally {
+      snapshotSessionId = undefined;
+    }
   }
 
-  // Time range
-  if (config.timeRange) {
-    const [start, end] = config.timeRange.split('/');
-    if (start) filters.push(`frame.time >= "${start}"`);
-    if (end) filters.push(`frame.time <= "${end}"`);
+  /**
+   * Asks an agent for its actual capture state and records it like a heartbeat. An agent control no
+   * longer knows (its registry was lost) is registered again with the labels it reports.
+   */
+  async function queryAgentStatus(containerName: string): Promise<AgentReconciliation> {
+    const url = `http://${containerName}:3000/status`;
+    try {
+      const response = await http.get(url, { timeout: AGENT_STATUS_TIMEOUT_MS, headers: agentRequestHeaders('GET', url) });
+      const report = response.data || {};
+      const labels = typeof report.labels === 'string' ? parseLabels(report.labels) : {};
+      if (!listAgents().some((agent) => agent.name === containerName)) {
+        registerAgent(containerName, validateLabels(labels).length === 0 ? labels : {});
+      }
+      recordHeartbeat(containerName, report);
+      syncRingFeed(containerName);
+      if (report.capturing === true) return { containerName, status: 'capturing', sessionId: report.sessionId };
+      if (report.finishedSessionId) return { containerName, status: 'finished', sessionId: report.finishedSessionId };
+      return { containerName, status: 'idle' };
+    } catch (error: any) {
+      recordReachability(containerName, Boolean(error?.response));
+      return { containerName, status: 'unreachable', error: error?.response?.data || error?.message };
+    }
   }
 
-  // TCP Flags
-  const tcpFlagsFilter = multiFilter('tcpFlags', (flag) => `tcp.flags.${flag.toLowerCase()} == 1`);
-  if (tcpFlagsFilter) filters.push(`(${tcpFlagsFilter})`);
+  /**
+   * Restores the session the previous process was capturing and checks it against the agents. A session
+   * is resumed while an agent still captures it, has finished it or already acknowledged a partial stop;
+   * sessions left running that no agent knows about any more are marked failed.
+   */
+  async function reconcile(): Promise<ReconcileResult> {
+    const state = loadControlState(pcapDir);
+    const saved = state.activeSessionId ? loadSession(pcapDir, state.activeSessionId) : undefined;
+    const names = new Set([...listAgents().map((agent) => agent.name), ...(saved?.containers || [])]);
+    const agentStates = await Promise.all([...names].map(queryAgentStatus));
 
-  // Payload content
-  const payloadContentFilter = multiFilter('payloadContent', (content) => `frame contains "${content}"`);
-  if (payloadContentFilter) filters.push(`(${payloadContentFilter})`);
+    // Without saved state (e.g. it was lost), a session an agent is still capturing is picked up
+    const capturedId = agentStates.find((agent) => agent.status === 'capturing')?.sessionId;
+    const candidate = saved ?? (capturedId ? loadSession(pcapDir, capturedId) : undefined);
+    const savedAcks = saved && candidate?.id === saved.id ? state.earlyAcks : [];
+    const stillKnown = (session: CaptureSession) =>
+      savedAcks.length > 0 || agentStates.some((agent) => agent.sessionId === session.id && agent.status !== 'unreachable');
+    if (candidate && candidate.status === 'running' && !activeSession && stillKnown(candidate)) {
+      activeSession = candidate;
+      earlyAcks = savedAcks;
+      const capturing = agentStates
+        .filter((agent) => agent.status === 'capturing' && agent.sessionId === candidate.id)
+        .map((agent) => agent.containerName);
+      const summary = agentStates.map((agent) => `${agent.containerName}: ${agent.status}`).join(', ');
+      logEvent('Session resumed', summary, true, { sessionId: candidate.id });
+      followSession(candidate, capturing);
+      if (allAgentsFinished(runningAgents(candidate), candidate.id)) autoStop(candidate, 'limits');
+    }
 
-  // MAC address
-  const macFilter = multiFilter('macAddress', (mac) => `eth.addr == ${mac}`);
-  if (macFilter) filters.push(`(${macFilter})`);
+    const failedSessionIds: string[] = [];
+    for (const session of await listSessions(pcapDir)) {
+      if (session.status !== 'running' || session.id === activeSession?.id) continue;
+      session.status = 'failed';
+      session.error = 'Control restarted while the session was running, and no agent was still capturing it.';
+      saveSession(session);
+      failedSessionIds.push(session.id);
+      logEvent('Session abandoned', session.error, false, { sessionId: session.id });
+    }
+    persistState();
+    return { agents: agentStates, resumedSessionId: activeSession?.id, failedSessionIds };
+  }
 
-  return filters.join(' and ');
-}
+  async function startCapture(req: Request, res: Response): Promise<void> {
+    const startRequest: StartRequest = req.method === 'POST' && req.body
+      ? req.body
+      : { limits: limitsFromQuery(req.query), ...selectorFromQuery(req.query) };
+    const outcome = await startSession(startRequest);
+    res.status(outcome.statusCode).json(outcome.body);
+  }
 
-// --- API Endpoints ---
+  app.get('/start', requireRole('operator'), startCapture);
+  app.post('/start', requireRole('operator'), startCapture);
 
-app.get('/server-name/:containerName', (req: Request, res: Response): void => {
-  const { containerName } = req.params;
-  if (!containerNames.includes(containerName)) {
-    containerNames.push(containerName);
-    console.log(`Container name added: ${containerName}`);
-  } else {
-    console.log(`Container name already exists: ${containerName}`);
-  }
-  res.send(`Container name received: ${containerName}`);
-});
+  app.get('/stop', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    if (!activeSession) {
+      res.status(409).json({ message: 'No capture session is running.' });
+      return;
+    }
+    if (stopInProgress) {
+      res.status(409).json({ message: 'The capture session is already being stopped.', sessionId: activeSession.id });
+      return;
+    }
+    // containers= / labels= stop only the matching agents, unless that leaves none running
+    const selector = selectorFromQuery(req.query);
+    if (selector.containers || selector.labels) {
+      const errors = validateSelector(selector);
+      if (errors.length > 0) {
+        res.status(400).json({ message: 'Invalid agent selection', errors });
+        return;
+      }
+      const running = runningAgents(activeSession);
+      const targets = filterAgentNames(running, selector);
+      if (targets.length === 0) {
+        res.status(400).json({ message: 'No running agents match the selection.', runningAgents: running });
+        return;
+      }
+      if (targets.length < running.length) {
+        const outcome = await stopSomeAgents(activeSession, targets);
+        res.status(outcome.statusCode).json(outcome.body);
+        return;
+      }
+    }
+    const outcome = await stopSession(activeSession, 'manual');
+    res.status(outcome.statusCode).json(outcome.body);
+  });
 
-app.get('/start', async (req: Request, res: Response): Promise<void> => {
-  if (containerNames.length === 0) {
-    res.status(400).send('No container names available to start.');
-    return;
-  }
-  await clearOldPcaps(pcapDir);
-  isMonitoringActive = true;
-  const results = await Promise.all(
-    containerNames.map(async (containerName) => {
-      try {
-        const cmd = `http://${containerName}:3000/start`;
-        await axios.get(cmd);
-        logEvent('Monitoring started', `Command: ${cmd}`, true);
-        return { containerName, status: 'success' };
-      } catch (error) {
-        logEvent('Monitoring started', `Command: http://${containerName}:3000/start`, false);
-        return { containerName, status: 'failed' };
+  app.post('/ring/start', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    const ringRequest: RingRequest = req.body || {};
+    const errors = validateRingRequest(ringRequest);
+    if (errors.length > 0) {
+      res.status(400).json({ message: 'Invalid ring buffer options', errors });
+      return;
+    }
+    pruneDeadAgents();
+    const selection = selectAgents(ringRequest);
+    if (selection.unavailable.length > 0) {
+      res.status(400).json({ message: `Unknown or quarantined agents: ${selection.unavailable.join(', ')}` });
+      return;
+    }
+    if (selection.names.length === 0) {
+      res.status(400).json({ message: 'No container names available to start.' });
+      return;
+    }
+    const results = await ringFanout(selection.names, 'start', toRingQuery(ringRequest));
+    res.json({ message: 'Ring buffer start signal sent to the scan dockers.', results });
+  });
+
+  app.post('/ring/stop', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    const selector: AgentSelector = req.body || {};
+    const errors = validateSelector(selector);
+    if (errors.length > 0) {
+      res.status(400).json({ message: 'Invalid agent selection', errors });
+      return;
+    }
+    const targets = recordingAgents(selector);
+    if (targets.length === 0) {
+      res.status(409).json({ message: 'No selected agent is recording a ring buffer.' });
+      return;
+    }
+    const results = await ringFanout(targets, 'stop');
+    res.json({ message: 'Ring buffer stop signal sent to the scan dockers.', results });
+  });
+
+  app.post('/ring/snapshot', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    const selector: AgentSelector = req.body || {};
+    const errors = validateSelector(selector);
+    if (errors.length > 0) {
+      res.status(400).json({ message: 'Invalid agent selection', errors });
+      return;
+    }
+    const outcome = await snapshotRings({ containers: selector.containers, labels: selector.labels }, { source: 'manual' });
+    res.status(outcome.statusCode).json(outcome.body);
+  });
+
+  app.get('/schedules', requireRole('viewer'), (req: Request, res: Response): void => {
+    res.json({ schedules: listSchedules() });
+  });
+
+  app.post('/schedules', requireRole('operator'), (req: Request, res: Response): void => {
+    const errors = validateSchedule(req.body);
+    if (errors.length > 0) {
+      res.status(400).json({ message: 'Invalid schedule', errors });
+      return;
+    }
+    const schedule = addSchedule(req.body);
+    logEvent('Schedule created', `Schedule: ${schedule.id} | ${schedule.cron ? `Cron: ${schedule.cron}` : `Every: ${schedule.everySeconds} s`}`, true);
+    res.status(201).json(schedule);
+  });
+
+  app.get('/schedules/:id', requireRole('viewer'), (req: Request, res: Response): void => {
+    const schedule = getSchedule(req.params.id);
+    if (!schedule) {
+      res.status(404).json({ message: `Schedule not found: ${req.params.id}` });
+      return;
+    }
+    res.json(schedule);
+  });
+
+  app.delete('/schedules/:id', requireRole('operator'), (req: Request, res: Response): void => {
+    if (!removeSchedule(req.params.id)) {
+      res.status(404).json({ message: `Schedule not found: ${req.params.id}` });
+      return;
+    }
+    logEvent('Schedule deleted', `Schedule: ${req.params.id}`, true);
+    res.json({ message: `Schedule deleted: ${req.params.id}` });
+  });
+
+  app.post('/config', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    const validation = validateFilterConfig(req.body);
+    if (!validation.valid) {
+      res.status(400).json({ message: 'Invalid configuration data', errors: validation.errors });
+      return;
+    }
+    const config = validation.config;
+    try {
+      saveConfig(config);
+      setLiveFilter(config);
+      const session = await latestStoppedSession(pcapDir);
+      const mergedPcapFile = session ? path.join(session.dir, 'merged.pcap') : undefined;
+
+      let filterStatus: 'ok' | 'ko' | undefined = undefined;
+      let errorMsg: string | undefined = undefined;
+      let stderr: string | undefined = undefined;
+      if (session && mergedPcapFile && fsSync.existsSync(mergedPcapFile)) {
+        const filterString = buildWiresharkFilterFromConfig(config, session.interfaces);
+        const filterResult = await filterPcapAndJson(mergedPcapFile, filterString, session.dir);
+        filterStatus = filterResult.status;
+        errorMsg = filterResult.errorMsg;
+        stderr = filterResult.stderr;
+        recordFilteredView(session, config, filterString, filterResult.packetCount);
       }
-    })
-  );
-  res.json({ message: 'Start signal sent to all scan dockers.', results });
-});
+      if (filterStatus === 'ok' && session) {
+        logEvent('Filtering', `Output: filtered.json`, true, { sessionId: session.id });
+        res.status(200).json({
+          message: 'Configuration saved and filtering succeeded',
+          sessionId: session.id,
+          filteredPacketCount: session.filteredPacketCount,
+          packetsUrl: `/sessions/${session.id}/packets?view=filtered`
+        });
+      } else if (filterStatus === 'ko') {
+        logEvent('Filtering', `Output: filtered.json`, false, { sessionId: session?.id });
+        res.status(422).json({ message: 'Configuration saved but filtering failed', error: errorMsg, stderr });
+      } else {
+        res.status(200).json({ message: 'Configuration saved successfully (no merged.pcap to filter yet)' });
+      }
+    } catch (error: any) {
+      logEvent('Filtering', `Error: ${error?.message || 'Failed to save configuration'}`, false);
+      res.status(500).json({ message: 'Failed to save configuration' });
+    }
+  });
 
-app.get('/stop', async (req: Request, res: Response): Promise<void> => {
-  if (containerNames.length === 0) {
-    res.status(400).send('No container names available to stop.');
-    return;
-  }
-  const results = await Promise.all(
-    containerNames.map(async (containerName) => {
-      try {
-        const cmd = `http://${containerName}:3000/stop`;
-        await axios.get(cmd);
-        logEvent('Monitoring stopped', `Command: ${cmd}`, true);
-        return { containerName, status: 'success' };
-      } catch (error) {
-        logEvent('Monitoring stopped', `Command: http://${containerName}:3000/stop`, false);
-        return { containerName, status: 'failed' };
+  app.get('/cleanConf', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Remove config.json and the filtered views derived from it in every session
+      const filesToRemove = [path.join(pcapDir, 'config.json')];
+      for (const session of await listSessions(pcapDir)) {
+        if (session.filterConfig || session.filteredDisplayFilter !== undefined) {
+          delete session.filterConfig;
+          delete session.filteredDisplayFilter;
+          delete session.filteredPacketCount;
+          saveSession(session);
+        }
+        filesToRemove.push(
+          path.join(session.dir, 'filtered.pcap'),
+          path.join(session.dir, 'filtered.json'),
+          path.join(session.dir, 'filtered.idx')
+        );
       }
-    })
-  );
-  await new Promise((resolve) => setTimeout(resolve, 5000));
-  isMonitoringActive = false;
-  const mergedPcapFile = path.join(pcapDir, 'merged.pcap');
-  const jsonOutputFile = path.join(pcapDir, 'output.json');
-  try {
-    await mergePcaps(pcapDir, mergedPcapFile);
-    await pcapToJson(mergedPcapFile, jsonOutputFile);
-    const config = getLatestConfig();
-    let filterStatus: 'ok' | 'ko' | undefined = undefined;
-    let filteredJsonData: any = undefined;
-    let errorMsg: string | undefined = undefined;
-    const jsonData = await fs.readFile(jsonOutputFile, 'utf-8');
-    if (config) {
-      const filterString = buildWiresharkFilterFromConfig(config);
-      const filterResult = await filterPcapAndJson(mergedPcapFile, filterString, pcapDir);
-      filterStatus = filterResult.status;
-      filteredJsonData = filterResult.filteredJsonData;
-      errorMsg = filterResult.errorMsg;
-    }
-    logEvent('Monitoring stopped', `Output: ${jsonOutputFile}`, true);
+      for (const filePath of filesToRemove) {
+        if (fsSync.existsSync(filePath)) {
+          await fs.unlink(filePath);
+        }
+      }
+      setLiveFilter(undefined);
+      res.status(200).json({ message: 'Config and filtered files cleaned.' });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to clean files', error: err?.message || String(err) });
+    }
+  });
+
+  app.get('/filters', requireRole('viewer'), (req: Request, res: Response): void => {
+    res.json({ filters: listFilterPresets() });
+  });
+
+  app.post('/filters', requireRole('operator'), (req: Request, res: Response): void => {
+    const name = req.body?.name;
+    if (typeof name !== 'string' || !isValidPresetName(name)) {
+      res.status(400).json({ message: 'Invalid preset', errors: [PRESET_NAME_ERROR] });
+      return;
+    }
+    if (getFilterPreset(name)) {
+      res.status(409).json({ message: `Filter preset already exists: ${name}` });
+      return;
+    }
+    const validation = validateFilterPreset(req.body);
+    if (!validation.valid) {
+      res.status(400).json({ message: 'Invalid preset', errors: validation.errors });
+      return;
+    }
+    const preset = saveFilterPreset(name, validation.input);
+    logEvent('Filter preset saved', `Preset: ${name} | Filter: ${presetDisplayFilter(preset)}`, true);
+    res.status(201).json(preset);
+  });
+
+  app.get('/filters/:name', requireRole('viewer'), (req: Request, res: Response): void => {
+    const preset = getFilterPreset(req.params.name);
+    if (!preset) {
+      res.status(404).json({ message: `Filter preset not found: ${req.params.name}` });
+      return;
+    }
+    res.json({ ...preset, filter: presetDisplayFilter(preset) });
+  });
+
+  app.put('/filters/:name', requireRole('operator'), (req: Request, res: Response): void => {
+    const { name } = req.params;
+    if (!isValidPresetName(name)) {
+      res.status(400).json({ message: 'Invalid preset', errors: [PRESET_NAME_ERROR] });
+      return;
+    }
+    const validation = validateFilterPreset(req.body);
+    if (!validation.valid) {
+      res.status(400).json({ message: 'Invalid preset', errors: validation.errors });
+      return;
+    }
+    const existed = getFilterPreset(name) !== undefined;
+    const preset = saveFilterPreset(name, validation.input);
+    logEvent('Filter preset saved', `Preset: ${name} | Filter: ${presetDisplayFilter(preset)}`, true);
+    res.status(existed ? 200 : 201).json(preset);
+  });
+
+  app.delete('/filters/:name', requireRole('operator'), (req: Request, res: Response): void => {
+    if (!removeFilterPreset(req.params.name)) {
+      res.status(404).json({ message: `Filter preset not found: ${req.params.name}` });
+      return;
+    }
+    logEvent('Filter preset deleted', `Preset: ${req.params.name}`, true);
+    res.json({ message: `Filter preset deleted: ${req.params.name}` });
+  });
+
+  app.get('/alerts/rules', requireRole('viewer'), (req: Request, res: Response): void => {
+    res.json({ rules: listAlertRules().map((rule) => ({ ...rule, live: isLiveRule(rule) })) });
+  });
+
+  app.post('/alerts/rules', requireRole('operator'), (req: Request, res: Response): void => {
+    const name = req.body?.name;
+    if (typeof name !== 'string' || !isValidRuleName(name)) {
+      res.status(400).json({ message: 'Invalid alert rule', errors: [RULE_NAME_ERROR] });
+      return;
+    }
+    if (getAlertRule(name)) {
+      res.status(409).json({ message: `Alert rule already exists: ${name}` });
+      return;
+    }
+    const validation = validateAlertRule(req.body);
+    if (!validation.valid) {
+      res.status(400).json({ message: 'Invalid alert rule', errors: validation.errors });
+      return;
+    }
+    const rule = saveAlertRule(name, validation.input);
+    evaluateRing = undefined;
+    logEvent('Alert rule saved', `Rule: ${name} | Kind: ${rule.kind}`, true);
+    res.status(201).json({ ...rule, live: isLiveRule(rule) });
+  });
+
+  app.get('/alerts/rules/:name', requireRole('viewer'), (req: Request, res: Response): void => {
+    const rule = getAlertRule(req.params.name);
+    if (!rule) {
+      res.status(404).json({ message: `Alert rule not found: ${req.params.name}` });
+      return;
+    }
+    res.json({ ...rule, live: isLiveRule(rule) });
+  });
+
+  app.put('/alerts/rules/:name', requireRole('operator'), (req: Request, res: Response): void => {
+    const { name } = req.params;
+    if (!isValidRuleName(name)) {
+      res.status(400).json({ message: 'Invalid alert rule', errors: [RULE_NAME_ERROR] });
+      return;
+    }
+    const validation = validateAlertRule(req.body);
+    if (!validation.valid) {
+      res.status(400).json({ message: 'Invalid alert rule', errors: validation.errors });
+      return;
+    }
+    const existed = getAlertRule(name) !== undefined;
+    const rule = saveAlertRule(name, validation.input);
+    evaluateRing = undefined;
+    logEvent('Alert rule saved', `Rule: ${name} | Kind: ${rule.kind}`, true);
+    res.status(existed ? 200 : 201).json({ ...rule, live: isLiveRule(rule) });
+  });
+
+  app.delete('/alerts/rules/:name', requireRole('operator'), (req: Request, res: Response): void => {
+    if (!removeAlertRule(req.params.name)) {
+      res.status(404).json({ message: `Alert rule not found: ${req.params.name}` });
+      return;
+    }
+    evaluateRing = undefined;
+    logEvent('Alert rule deleted', `Rule: ${req.params.name}`, true);
+    res.json({ message: `Alert rule deleted: ${req.params.name}` });
+  });
+
+  app.get('/alerts', requireRole('viewer'), (req: Request, res: Response): void => {
+    const { session, rule, severity, source, from } = req.query;
+    const limit = req.query.limit === undefined ? DEFAULT_ALERT_LIMIT : Number(req.query.limit);
+    const errors: string[] = [];
+    if (from !== undefined && (typeof from !== 'string' || Number.isNaN(Date.parse(from)))) errors.push('from must be an ISO-8601 date');
+    if (severity !== undefined && !ALERT_SEVERITIES.includes(severity as AlertSeverity)) {
+      errors.push(`severity must be one of ${ALERT_SEVERITIES.join(', ')}`);
+    }
+    if (source !== undefined && source !== 'live' && source !== 'session') errors.push('source must be "live" or "session"');
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ALERT_LIMIT) errors.push(`limit must be between 1 and ${MAX_ALERT_LIMIT}`);
+    if (errors.length > 0) {
+      res.status(400).json({ message: 'Invalid alert query', errors });
+      return;
+    }
     res.json({
-      message: 'Stop signal sent to all scan dockers.',
-      results,
-      pcapData: filteredJsonData || JSON.parse(jsonData),
-      filterStatus,
-      error: filterStatus === 'ko' ? errorMsg : undefined
+      alerts: queryAlerts({
+        sessionId: typeof session === 'string' ? session : undefined,
+        rule: typeof rule === 'string' ? rule : undefined,
+        severity: severity as AlertSeverity | undefined,
+        source: source as AlertSource | undefined,
+        from: typeof from === 'string' ? new Date(from).toISOString() : undefined,
+        limit,
+      }),
     });
-  } catch (error: any) {
-    logEvent('Monitoring stopped', `Error: ${error.message || 'Failed to process pcap files.'}`, false);
-    res.status(500).send(error.message || 'Failed to process pcap files.');
-  }
-});
-
-app.post('/config', async (req: Request, res: Response): Promise<void> => {
-  const config = req.body;
-  if (!config) {
-    res.status(400).json({ message: 'Invalid configuration data' });
-    return;
-  }
-  try {
-    saveConfig(config);
-    const mergedPcapFile = path.join(pcapDir, 'merged.pcap');
-    const jsonOutputFile = path.join(pcapDir, 'output.json');
-
-    let filteredJsonData: any = undefined;
-    let filterStatus: 'ok' | 'ko' = 'ko';
-    let errorMsg: string | undefined = undefined;
-    if (fsSync.existsSync(mergedPcapFile)) {
-      const filterString = buildWiresharkFilterFromConfig(config);
-      const filterResult = await filterPcapAndJson(mergedPcapFile, filterString, pcapDir);
-      filterStatus = filterResult.status;
-      filteredJsonData = filterResult.filteredJsonData;
-      errorMsg = filterResult.errorMsg;
-    }
-    if (filterStatus === 'ok' && filteredJsonData) {
-      logEvent('Filtering', `Output: filtered.json`, true);
-      res.status(200).json({ message: 'Configuration saved and filtering succeeded', pcapData: filteredJsonData });
-    } else if (filterStatus === 'ko') {
-      logEvent('Filtering', `Output: filtered.json`, false);
-      res.status(422).json({ message: 'Configuration saved but filtering failed', error: errorMsg });
-    } else {
-      res.status(200).json({ message: 'Configuration saved successfully (no merged.pcap to filter yet)' });
-    }
-  } catch (error: any) {
-    logEvent('Filtering', `Error: ${error?.message || 'Failed to save configuration'}`, false);
-    res.status(500).json({ message: 'Failed to save configuration' });
-  }
-});
-
-app.get('/cleanConf', async (req: Request, res: Response): Promise<void> => {
-  try {
-    // Remove config.json and filtered files
-    const filesToRemove = ['config.json', 'filtered.pcap', 'filtered.json'];
-    for (const file of filesToRemove) {
-      const filePath = path.join(pcapDir, file);
-      if (fsSync.existsSync(filePath)) {
-        await fs.unlink(filePath);
+  });
+
+  app.get('/alerts/:id', requireRole('viewer'), (req: Request, res: Response): void => {
+    const alert = getAlert(req.params.id);
+    if (!alert) {
+      res.status(404).json({ message: `Alert not found: ${req.params.id}` });
+      return;
+    }
+    res.json(alert);
+  });
+
+  app.get('/sessions', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json({ sessions: await listSessions(pcapDir) });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to list sessions', error: err?.message || String(err) });
+    }
+  });
+
+  app.get('/sessions/:id', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session) {
+      res.status(404).json({ message: `Session not found: ${req.params.id}` });
+      return;
+    }
+    try {
+      res.json({ ...session, artifacts: await listArtifacts(session), views: await listViews(session) });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to read session', error: err?.message || String(err) });
+    }
+  });
+
+  app.delete('/sessions/:id', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session) {
+      res.status(404).json({ message: `Session not found: ${req.params.id}` });
+      return;
+    }
+    if (activeSession?.id === session.id) {
+      res.status(409).json({ message: 'Cannot delete a running session; stop it first.' });
+      return;
+    }
+    if (mergingSessionId === session.id || snapshotSessionId === session.id) {
+      res.status(409).json({ message: 'Cannot delete a session while its captures are being merged.' });
+      return;
+    }
+    try {
+      await deleteSession(session);
+      logEvent('Session deleted', undefined, true, { sessionId: session.id });
+      res.json({ message: `Session deleted: ${session.id}` });
+    } catch (err: any) {
+      logEvent('Session deleted', `Error: ${err?.message || String(err)}`, false, { sessionId: session.id });
+      res.status(500).json({ message: 'Failed to delete session', error: err?.message || String(err) });
+    }
+  });
+
+  app.post('/retention/run', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await pruneSessions();
+      dataSizeCheckedAt = 0;
+      res.status(result.errors.length > 0 ? 500 : 200).json({ policy: retention, ...result });
+    } catch (err: any) {
+      logEvent('Retention', `Error: ${err?.message || String(err)}`, false);
+      res.status(500).json({ message: 'Failed to apply the retention policy', error: err?.message || String(err) });
+    }
+  });
+
+  app.get('/sessions/:id/views', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session) {
+      res.status(404).json({ message: `Session not found: ${req.params.id}` });
+      return;
+    }
+    try {
+      res.json({ sessionId: session.id, views: await listViews(session) });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to list views', error: err?.message || String(err) });
+    }
+  });
+
+  app.post('/sessions/:id/views', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session) {
+      res.status(404).json({ message: `Session not found: ${req.params.id}` });
+      return;
+    }
+    const names = req.body?.presets;
+    if (!Array.isArray(names) || names.length === 0 || names.length > MAX_VIEWS_PER_REQUEST || !names.every((name) => typeof name === 'string')) {
+      res.status(400).json({ message: `presets must be a list of 1 to ${MAX_VIEWS_PER_REQUEST} preset names` });
+      return;
+    }
+    const unknown = names.filter((name) => !getFilterPreset(name));
+    if (unknown.length > 0) {
+      res.status(400).json({ message: `Unknown filter presets: ${unknown.join(', ')}` });
+      return;
+    }
+    const mergedPcapFile = path.join(session.dir, 'merged.pcap');
+    if (session.status === 'running' || !fsSync.existsSync(mergedPcapFile)) {
+      res.status(409).json({ message: `Session ${session.id} has no merged capture to filter yet` });
+      return;
+    }
+    try {
+      const views = [];
+      // One tshark run at a time: each preset reads the whole merged capture
+      for (const name of new Set<string>(names)) {
+        views.push(await applyPreset(session, mergedPcapFile, name));
+      }
+      const failed = views.some((view) => view.status === 'ko');
+      res.status(failed ? 422 : 200).json({
+        message: failed ? 'Some presets could not be applied' : 'Views created',
+        sessionId: session.id,
+        views
+      });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to create views', error: err?.message || String(err) });
+    }
+  });
+
+  app.delete('/sessions/:id/views/:name', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session || !isValidPresetName(req.params.name) || !loadView(session, req.params.name)) {
+      res.status(404).json({ message: `View not found: ${req.params.name}` });
+      return;
+    }
+    try {
+      await deleteView(session, req.params.name);
+      logEvent('View deleted', `View: ${req.params.name}`, true, { sessionId: session.id });
+      res.json({ message: `View deleted: ${req.params.name}` });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to delete view', error: err?.message || String(err) });
+    }
+  });
+
+  app.post('/sessions/:id/alerts', requireRole('operator'), async (req: Request, res: Response): Promise<void> => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session) {
+      res.status(404).json({ message: `Session not found: ${req.params.id}` });
+      return;
+    }
+    // Without a list, the enabled rules run; listed rules run whether enabled or not
+    const names = req.body?.rules;
+    if (names !== undefined && (!Array.isArray(names) || names.some((name) => typeof name !== 'string'))) {
+      res.status(400).json({ message: 'rules must be a list of alert rule names' });
+      return;
+    }
+    const unknown = (names || []).filter((name: string) => !getAlertRule(name));
+    if (unknown.length > 0) {
+      res.status(400).json({ message: `Unknown alert rules: ${unknown.join(', ')}` });
+      return;
+    }
+    const traffic = capturedTraffic(session);
+    if (session.status === 'running' || !fsSync.existsSync(traffic.pcapFile) || !fsSync.existsSync(traffic.jsonFile)) {
+      res.status(409).json({ message: `Session ${session.id} has no merged capture to evaluate yet` });
+      return;
+    }
+    const rules = names ? names.map((name: string) => getAlertRule(name) as AlertRule) : listAlertRules().filter((rule) => rule.enabled);
+    try {
+      const alerts = await raiseAlerts(session.id, 'session', await evaluateRules(rules, traffic));
+      res.json({ sessionId: session.id, rules: rules.map((rule: AlertRule) => rule.name), alerts });
+    } catch (err: any) {
+      logEvent('Alert evaluation', `Error: ${err?.message || String(err)}`, false, { sessionId: session.id });
+      res.status(500).json({ message: 'Failed to evaluate alert rules', error: err?.message || String(err) });
+    }
+  });
+
+  app.get('/sessions/:id/pcap', requireRole('viewer'), (req: Request, res: Response): void => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session) {
+      res.status(404).json({ message: `Session not found: ${req.params.id}` });
+      return;
+    }
+    // `?filtered=true` predates named views and is kept as an alias of `?view=filtered`
+    const resolved = resolveView(session, req.query.filtered === 'true' ? 'filtered' : req.query.view);
+    if (!resolved) {
+      res.status(404).json({ message: `View not found: ${req.query.view}` });
+      return;
+    }
+    if (!fsSync.existsSync(resolved.pcapFile)) {
+      res.status(404).json({ message: `No ${resolved.name} pcap available for session ${session.id}` });
+      return;
+    }
+    res.download(resolved.pcapFile, `${session.id}-${resolved.name}.pcap`);
+  });
+
+  app.get('/sessions/:id/packets', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session) {
+      res.status(404).json({ message: `Session not found: ${req.params.id}` });
+      return;
+    }
+    const resolved = resolveView(session, req.query.view);
+    if (!resolved) {
+      res.status(404).json({ message: `View not found: ${req.query.view}` });
+      return;
+    }
+    const view = resolved.name;
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      res.status(400).json({ message: `offset must be >= 0 and limit between 1 and ${MAX_PAGE_SIZE}` });
+      return;
+    }
+    const fields = typeof req.query.fields === 'string'
+      ? req.query.fields.split(',').map((f) => f.trim()).filter(Boolean)
+      : [];
+    const { jsonFile } = resolved;
+    if (!fsSync.existsSync(jsonFile)) {
+      res.status(404).json({ message: `No ${view} packets available for session ${session.id}` });
+      return;
+    }
+    try {
+      const indexFile = indexPathFor(jsonFile);
+      // Sessions captured before indexing existed get their index built on first access
+      if (!fsSync.existsSync(indexFile)) await buildPacketIndex(jsonFile, indexFile);
+      const total = await packetCount(indexFile);
+      const packets = await readPackets(jsonFile, indexFile, offset, limit);
+      res.json({
+        sessionId: session.id,
+        view,
+        total,
+        offset,
+        limit,
+        packets: packets.map((packet) => tagPacket(session, fields.length > 0 ? projectPacket(packet, fields) : packet, packet))
+      });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to read packets', error: err?.message || String(err) });
+    }
+  });
+
+  app.get('/sessions/:id/export', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session) {
+      res.status(404).json({ message: `Session not found: ${req.params.id}` });
+      return;
+    }
+    const format = req.query.format;
+    if (!isExportFormat(format)) {
+      res.status(400).json({ message: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+      return;
+    }
+    const resolved = resolveView(session, req.query.view);
+    if (!resolved) {
+      res.status(404).json({ message: `View not found: ${req.query.view}` });
+      return;
+    }
+    const view = resolved.name;
+    const fields = typeof req.query.fields === 'string'
+      ? req.query.fields.split(',').map((f) => f.trim()).filter(Boolean)
+      : [];
+    const invalidFields = fields.filter((field) => !isValidFieldName(field));
+    if (invalidFields.length > 0) {
+      res.status(400).json({ message: `Invalid field names: ${invalidFields.join(', ')}` });
+      return;
+    }
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    const downloadName = `${session.id}-${view}.${extension}`;
+    const { jsonFile, pcapFile, displayFilter, filterFor } = resolved;
+    // pcapng is rebuilt from the agents' own files; filtered views apply their display filter again
+    const source = format === 'pcapng' ? session.dir : format === 'csv' ? pcapFile : jsonFile;
+    if (!fsSync.existsSync(source) || (format === 'pcapng' && view !== 'merged' && !displayFilter)) {
+      res.status(404).json({ message: `No ${view} capture available for session ${session.id}` });
+      return;
+    }
+
+    let tempDir: string | undefined;
+    const cleanUp = () => {
+      if (tempDir) fs.rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+    };
+    try {
+      if (format === 'ndjson' || format === 'har') {
+        const indexFile = indexPathFor(jsonFile);
+        if (!fsSync.existsSync(indexFile)) await buildPacketIndex(jsonFile, indexFile);
+        res.attachment(downloadName);
+        res.setHeader('Content-Type', contentType);
+        if (format === 'har') {
+          res.send(JSON.stringify(await buildHar(jsonFile, indexFile), null, 2));
+        } else {
+          await writeNdjson(jsonFile, indexFile, res, fields);
+          res.end();
+        }
+        logEvent('Export', `Format: ${format} | View: ${view}`, true, { sessionId: session.id });
+        return;
+      }
+      // pcapng and CSV are rendered by Wireshark tools into a temporary file, then downloaded
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'export-'));
+      const outputFile = path.join(tempDir, downloadName);
+      if (format === 'pcapng') {
+        const containers = session.containers.filter((name) => !session.incompleteAgents?.includes(name));
+        await exportPcapng(session.dir, containers, outputFile, filterFor ?? displayFilter);
+      } else {
+        await exportCsv(pcapFile, fields.length > 0 ? fields : DEFAULT_CSV_FIELDS, outputFile);
+      }
+      res.setHeader('Content-Type', contentType);
+      res.download(outputFile, downloadName, cleanUp);
+      logEvent('Export', `Format: ${format} | View: ${view}`, true, { sessionId: session.id });
+    } catch (err: any) {
+      cleanUp();
+      logEvent('Export', `Format: ${format} | Error: ${err?.message || String(err)}`, false, { sessionId: session.id });
+      if (res.headersSent) {
+        res.destroy(err);
+        return;
       }
+      res.status(500).json({
+        message: 'Failed to export session',
+        error: err?.message || String(err),
+        stderr: err instanceof CommandError ? err.stderr : undefined
+      });
+    }
+  });
+
+  app.get('/sessions/:id/stats', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    const session = loadSession(pcapDir, req.params.id);
+    if (!session) {
+      res.status(404).json({ message: `Session not found: ${req.params.id}` });
+      return;
+    }
+    const resolved = resolveView(session, req.query.view);
+    if (!resolved) {
+      res.status(404).json({ message: `View not found: ${req.query.view}` });
+      return;
+    }
+    const view = resolved.name;
+    const top = req.query.top === undefined ? undefined : Number(req.query.top);
+    const bucketSeconds = req.query.bucket === undefined ? undefined : Number(req.query.bucket);
+    if (top !== undefined && (!Number.isInteger(top) || top < 1 || top > MAX_STATS_TOP)) {
+      res.status(400).json({ message: `top must be an integer between 1 and ${MAX_STATS_TOP}` });
+      return;
     }
-    res.status(200).json({ message: 'Config and filtered files cleaned.' });
-  } catch (err: any) {
-    res.status(500).json({ message: 'Failed to clean files', error: err?.message || String(err) });
+    if (bucketSeconds !== undefined && (!Number.isInteger(bucketSeconds) || bucketSeconds < 1)) {
+      res.status(400).json({ message: 'bucket must be a positive number of seconds' });
+      return;
+    }
+    const { jsonFile, config, displayFilter, filterFor } = resolved;
+    if (!fsSync.existsSync(jsonFile)) {
+      res.status(404).json({ message: `No ${view} packets available for session ${session.id}` });
+      return;
+    }
+    try {
+      const indexFile = indexPathFor(jsonFile);
+      if (!fsSync.existsSync(indexFile)) await buildPacketIndex(jsonFile, indexFile);
+      const stats = await computeTrafficStats(jsonFile, indexFile, { top, bucketSeconds });
+      // Filtered views apply the display filter that produced them to each container's file
+      const containers = session.containers.filter((name) => !session.incompleteAgents?.includes(name));
+      // Each container's own file has a single interface
+      const perContainer = await countPacketsPerContainer(session.dir, containers, filterFor ? (name) => filterFor([name]) : displayFilter);
+      res.json({ sessionId: session.id, view, filter: config, displayFilter, ...stats, perContainer });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to compute statistics', error: err?.message || String(err) });
+    }
+  });
+
+  /**
+   * Finds the packets one side of a comparison is read from: the view of its session and, for a
+   * container, that container's interface in it. Returns the status and message to answer otherwise.
+   */
+  function captureSource(ref: CaptureRef, viewValue: unknown): CaptureSource | { status: number; message: string } {
+    const session = loadSession(pcapDir, ref.sessionId);
+    if (!session) return { status: 404, message: `Session not found: ${ref.sessionId}` };
+    const resolved = resolveView(session, viewValue);
+    if (!resolved) return { status: 404, message: `View not found: ${viewValue}` };
+    if (!fsSync.existsSync(resolved.jsonFile)) {
+      return { status: 404, message: `No ${resolved.name} packets available for session ${session.id}` };
+    }
+    const source: CaptureSource = { jsonFile: resolved.jsonFile, indexFile: indexPathFor(resolved.jsonFile) };
+    if (ref.containerName === undefined) return source;
+    if (!session.interfaces) {
+      // Packets of sessions merged before they were tagged can only be told apart with a single agent
+      if (session.containers.length === 1 && session.containers[0] === ref.containerName) return source;
+      return { status: 409, message: `Session ${session.id} does not tell its containers apart; compare whole sessions instead` };
+    }
+    const interfaceId = session.interfaces.indexOf(ref.containerName);
+    if (interfaceId === -1) return { status: 404, message: `No capture of ${ref.containerName} in session ${session.id}` };
+    return { ...source, interfaceId };
   }
-});
 
-app.get('/test', (req: Request, res: Response): void => {
-  res.send('Server is running and reachable.');
-});
+  app.get('/compare', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    const a = parseCaptureRef(req.query.a);
+    const b = parseCaptureRef(req.query.b);
+    const top = req.query.top === undefined ? undefined : Number(req.query.top);
+    const errors: string[] = [];
+    if (!a) errors.push('a must be <sessionId> or <sessionId>:<containerName>');
+    if (!b) errors.push('b must be <sessionId> or <sessionId>:<containerName>');
+    if (top !== undefined && (!Number.isInteger(top) || top < 1 || top > MAX_STATS_TOP)) {
+      errors.push(`top must be an integer between 1 and ${MAX_STATS_TOP}`);
+    }
+    if (errors.length > 0) {
+      res.status(400).json({ message: 'Invalid comparison', errors });
+      return;
+    }
+    const sourceA = captureSource(a!, req.query.view);
+    if ('status' in sourceA) {
+      res.status(sourceA.status).json({ message: sourceA.message });
+      return;
+    }
+    const sourceB = captureSource(b!, req.query.view);
+    if ('status' in sourceB) {
+      res.status(sourceB.status).json({ message: sourceB.message });
+      return;
+    }
+    try {
+      for (const { jsonFile, indexFile } of [sourceA, sourceB]) {
+        if (!fsSync.existsSync(indexFile)) await buildPacketIndex(jsonFile, indexFile);
+      }
+      const comparison = await compareCaptures(sourceA, sourceB, top);
+      res.json({
+        view: typeof req.query.view === 'string' ? req.query.view : 'merged',
+        a: { ...a, ...comparison.a },
+        b: { ...b, ...comparison.b },
+        ...comparison.diff,
+      });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to compare captures', error: err?.message || String(err) });
+    }
+  });
+
+  app.get('/events', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    const { from, to, type, success, session, container, source } = req.query;
+    const limit = req.query.limit === undefined ? DEFAULT_EVENT_LIMIT : Number(req.query.limit);
+    const errors: string[] = [];
+    for (const [name, value] of [['from', from], ['to', to]] as const) {
+      if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+        errors.push(`${name} must be an ISO-8601 date`);
+      }
+    }
+    if (success !== undefined && success !== 'true' && success !== 'false') errors.push('success must be "true" or "false"');
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENT_LIMIT) errors.push(`limit must be between 1 and ${MAX_EVENT_LIMIT}`);
+    if (errors.length > 0) {
+      res.status(400).json({ message: 'Invalid event query', errors });
+      return;
+    }
+    try {
+      const events = await queryEvents({
+        from: typeof from === 'string' ? new Date(from).toISOString() : undefined,
+        to: typeof to === 'string' ? new Date(to).toISOString() : undefined,
+        types: typeof type === 'string' ? type.split(',').map((t) => t.trim()).filter(Boolean) : undefined,
+        success: success === undefined ? undefined : success === 'true',
+        sessionId: typeof session === 'string' ? session : undefined,
+        containerName: typeof container === 'string' ? container : undefined,
+        source: typeof source === 'string' ? source : undefined,
+        limit,
+      });
+      res.json({ events });
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to read events', error: err?.message || String(err) });
+    }
+  });
+
+  app.get('/live', requireRole('viewer'), (req: Request, res: Response): void => {
+    addLiveClient(res);
+  });
 
-app.get('/status', (req: Request, res: Response): void => {
-  res.json({
-    isMonitoringActive,
-    registeredContainers: containerNames.length,
-    containerNames
+  app.get('/metrics', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.type(METRICS_CONTENT_TYPE).send(await renderMetrics());
+    } catch (err: any) {
+      res.status(500).json({ message: 'Failed to collect metrics', error: err?.message || String(err) });
+    }
   });
-});
 
-app.listen(port, () => {
-  console.log(`Server is running on http://localhost:${port}`);
-});
+  app.get('/test', (req: Request, res: Response): void => {
+    res.send('Server is running and reachable.');
+  });
 
+  app.get('/status', requireRole('viewer'), async (req: Request, res: Response): Promise<void> => {
+    pruneDeadAgents();
+    const agents = listAgents();
+    const volume = await dataVolumeUsage();
+    res.json({
+      isMonitoringActive: activeSession !== null,
+      activeSessionId: activeSession?.id ?? null,
+      registeredContainers: agents.length,
+      containerNames: agents.map((agent) => agent.name),
+      staleAgents: agents.filter((agent) => agent.health === 'stale').map((agent) => agent.name),
+      deadAgents: agents.filter((agent) => agent.health === 'dead').map((agent) => agent.name),
+      quarantinedAgents: agents.filter((agent) => agent.quarantined).map((agent) => agent.name),
+      agents,
+      // Control's data directory; each agent reports its own volume under `disk`
+      disk: { path: pcapDir, dataBytes: await dataDirectorySize(), ...volume },
+      retention,
+    });
+  });
 
-export default app;
\ No newline at end of file
+  return { app, startSession, pruneSessions, retention, reconcile };
+}
+
+if (require.main === module) {
+  const { app, startSession, pruneSessions, retention, reconcile } = createApp();
+  warnIfAuthDisabled();
+  loadAgents(DEFAULT_DATA_DIR);
+  loadFilterPresets(DEFAULT_DATA_DIR);
+  loadAlertRules(DEFAULT_DATA_DIR);
+  loadAlerts(DEFAULT_DATA_DIR);
+  // Schedules and retention wait for the session of a previous run to be picked up again
+  reconcile()
+    .then((result) => {
+      if (result.resumedSessionId) console.log(`Resumed capture session ${result.resumedSessionId}`);
+    })
+    .catch((err) => {
+      logEvent('Session resumed', `Error: ${err?.message || String(err)}`, false);
+    })
+    .finally(() => {
+      startScheduler(DEFAULT_DATA_DIR, async (schedule) => {
+        const outcome = await startSession(schedule.request, schedule.id);
+        if (outcome.statusCode !== 200) throw new Error(outcome.body.message);
+        return outcome.body.sessionId;
+      });
+      if (Object.keys(retention).length > 0) {
+        const prune = () => pruneSessions().catch((err) => {
+          logEvent('Retention', `Error: ${err?.message || String(err)}`, false);
+        });
+        prune();
+        setInterval(prune, Number(process.env.RETENTION_INTERVAL_MS) || 15 * 60 * 1000);
+      }
+      app.listen(port, () => {
+        console.log(`Server is running on http://localhost:${port}`);
+      });
+    });
+}
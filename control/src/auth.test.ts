@@ -0,0 +1,111 @@
+import express from 'express';
+import request from 'supertest';
+import { logEvent } from './logger';
+
+jest.mock('./logger', () => ({ logEvent: jest.fn() }));
+
+const SECRET = 'test-secret';
+
+// auth.ts reads its configuration when it is loaded
+function loadAuth(env: Record<string, string>): typeof import('./auth') {
+  let auth: typeof import('./auth') | undefined;
+  const previous = { ...process.env };
+  Object.assign(process.env, env);
+  jest.isolateModules(() => {
+    auth = require('./auth');
+  });
+  process.env = previous;
+  return auth as typeof import('./auth');
+}
+
+describe('auth', () => {
+  const auth = loadAuth({ CONTROL_API_TOKENS: 'view-token:viewer,op-token:operator', AGENT_SHARED_SECRET: SECRET });
+  const app = express();
+  app.use(express.json({ verify: (req: express.Request, res, buf) => { req.rawBody = buf; } }));
+  app.get('/read', auth.requireRole('viewer'), (req, res) => { res.json({ ok: true }); });
+  app.get('/write', auth.requireRole('operator'), (req, res) => { res.json({ ok: true }); });
+  app.post('/agent', auth.requireAgentSignature, (req, res) => { res.json({ ok: true }); });
+
+  beforeEach(() => {
+    (logEvent as jest.Mock).mockClear();
+  });
+
+  it('should parse tokens and reject unknown roles', () => {
+    expect([...auth.parseApiTokens('a:viewer, b:c:operator')]).toEqual([['a', 'viewer'], ['b:c', 'operator']]);
+    expect(() => auth.parseApiTokens('a:admin')).toThrow('Invalid CONTROL_API_TOKENS entry');
+    expect(auth.parseApiTokens(undefined).size).toBe(0);
+  });
+
+  it('should let viewers read and operators write', async () => {
+    expect((await request(app).get('/read').set('Authorization', 'Bearer view-token')).statusCode).toBe(200);
+    expect((await request(app).get('/write').set('Authorization', 'Bearer op-token')).statusCode).toBe(200);
+    expect((await request(app).get('/read').set('Authorization', 'Bearer op-token')).statusCode).toBe(200);
+  });
+
+  it('should deny and log missing, unknown and under-privileged tokens', async () => {
+    expect((await request(app).get('/read')).statusCode).toBe(401);
+    expect((await request(app).get('/read').set('Authorization', 'Bearer nope')).statusCode).toBe(401);
+    const res = await request(app).get('/write').set('Authorization', 'Bearer view-token');
+    expect(res.statusCode).toBe(403);
+    expect(res.body.message).toBe('The operator role is required');
+    expect(logEvent).toHaveBeenCalledTimes(3);
+    expect(logEvent).toHaveBeenLastCalledWith('Access denied', expect.stringContaining('GET /write'), false);
+  });
+
+  it('should accept correctly signed agent calls', async () => {
+    const body = JSON.stringify({ capturing: true });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const res = await request(app)
+      .post('/agent?x=1')
+      .set('Content-Type', 'application/json')
+      .set('X-Signature', auth.signatureHeader(SECRET, 'POST', '/agent?x=1', body))
+      .send(body);
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('should refuse a signature it already accepted', async () => {
+    const body = JSON.stringify({ capturing: true });
+    const signature = auth.signatureHeader(SECRET, 'POST', '/agent', body);
+    const send = () => request(app).post('/agent').set('Content-Type', 'application/json').set('X-Signature', signature).send(body);
+    expect((await send()).statusCode).toBe(200);
+    const replayed = await send();
+    expect(replayed.statusCode).toBe(401);
+    expect(replayed.body.message).toBe('Replayed signature');
+    // The same call signed again carries a new nonce
+    const again = auth.signatureHeader(SECRET, 'POST', '/agent', body);
+    expect((await request(app).post('/agent').set('Content-Type', 'application/json').set('X-Signature', again).send(body)).statusCode).toBe(200);
+  });
+
+  it('should refuse tampered, expired or unsigned agent calls', async () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const nonce = '0'.repeat(32);
+    const signature = auth.signatureFor(SECRET, timestamp, nonce, 'POST', '/agent', '{"capturing":true}');
+    const tampered = await request(app)
+      .post('/agent')
+      .set('Content-Type', 'application/json')
+      .set('X-Signature', `t=${timestamp},n=${nonce},v1=${signature}`)
+      .send('{"capturing":false}');
+    expect(tampered.statusCode).toBe(401);
+    expect(tampered.body.message).toBe('Invalid signature');
+    expect((await request(app).post('/agent')).body.message).toBe('Missing signature');
+    const old = timestamp - 600;
+    expect(auth.checkSignature(SECRET, `t=${old},n=${nonce},v1=${auth.signatureFor(SECRET, old, nonce, 'GET', '/')}`, 'GET', '/')).toBe('Signature expired');
+    expect(auth.checkSignature(SECRET, `t=${timestamp},v1=${signature}`, 'GET', '/')).toBe('Malformed signature');
+    expect(logEvent).toHaveBeenCalledWith('Access denied', expect.stringContaining('Invalid signature'), false);
+  });
+
+  it('should sign calls to agents over the path and query string', () => {
+    const headers = auth.agentRequestHeaders('GET', 'http://scan1:3000/stop?session=abc');
+    expect(auth.checkSignature(SECRET, headers['X-Signature'], 'GET', '/stop?session=abc')).toBeUndefined();
+  });
+
+  it('should let everything through when nothing is configured', async () => {
+    const open = loadAuth({ CONTROL_API_TOKENS: '', AGENT_SHARED_SECRET: '' });
+    const openApp = express();
+    openApp.get('/write', open.requireRole('operator'), (req, res) => { res.json({ ok: true }); });
+    openApp.get('/agent', open.requireAgentSignature, (req, res) => { res.json({ ok: true }); });
+    expect((await request(openApp).get('/write')).statusCode).toBe(200);
+    expect((await request(openApp).get('/agent')).statusCode).toBe(200);
+    expect(open.agentRequestHeaders('GET', 'http://scan1:3000/start')).toEqual({});
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @file auth.ts
+ * @description Access control for the control API.
+ *
+ * - Human callers send `Authorization: Bearer <token>`. Tokens and their roles come from
+ *   `CONTROL_API_TOKENS` (`token:role,token:role`); `viewer` may read, `operator` may also start/stop
+ *   captures and change configuration.
+ * - Control and the agents sign their calls to each other with HMAC-SHA256 over a shared secret
+ *   (`AGENT_SHARED_SECRET`), sent as `X-Signature: t=<unix seconds>,n=<nonce>,v1=<hex digest>`. The digest
+ *   covers the timestamp, a random nonce, method, path with query string and raw body. Signatures older than
+ *   five minutes are refused, and so is a nonce seen within that window, so a captured call cannot be replayed.
+ *
+ * Either mechanism is off while its variable is unset (a warning is logged at startup). Every denied
+ * call is logged with `logEvent`.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { logEvent } from './logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The JSON body as received, kept by `express.json` so agent signatures can be checked over it
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export type Role = 'viewer' | 'operator';
+
+export const SIGNATURE_HEADER = 'x-signature';
+const MAX_SIGNATURE_AGE_SECONDS = 300;
+const ROLE_RANK: Record<Role, number> = { viewer: 1, operator: 2 };
+// Nonces of the accepted signatures, with their timestamp, until they are too old to be accepted anyway
+const seenNonces = new Map<string, number>();
+
+/**
+ * Parses `token:role,token:role`. Throws on an unknown role so a typo cannot silently lock operators out.
+ */
+export function parseApiTokens(value: string | undefined): Map<string, Role> {
+  const tokens = new Map<string, Role>();
+  for (const entry of (value || '').split(',').map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf(':');
+    const token = entry.slice(0, separator);
+    const role = entry.slice(separator + 1);
+    if (separator <= 0 || (role !== 'viewer' && role !== 'operator')) {
+      throw new Error(`Invalid CONTROL_API_TOKENS entry (expected token:viewer or token:operator): ${entry.slice(0, 4)}…`);
+    }
+    tokens.set(token, role);
+  }
+  return tokens;
+}
+
+const apiTokens = parseApiTokens(process.env.CONTROL_API_TOKENS);
+const sharedSecret = process.env.AGENT_SHARED_SECRET || '';
+
+export function signatureFor(secret: string, timestamp: number, nonce: string, method: string, url: string, body: string = ''): string {
+  return createHmac('sha256', secret).update(`${timestamp}\n${nonce}\n${method.toUpperCase()}\n${url}\n${body}`).digest('hex');
+}
+
+/**
+ * Builds an `X-Signature` header value for a call made now, with a fresh nonce.
+ */
+export function signatureHeader(secret: string, method: string, url: string, body: string = ''): string {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const nonce = randomBytes(16).toString('hex');
+  return `t=${timestamp},n=${nonce},v1=${signatureFor(secret, timestamp, nonce, method, url, body)}`;
+}
+
+/**
+ * Checks an `X-Signature` header value against the request it came with.
+ * @returns Why the signature is refused, or undefined when it is valid.
+ */
+export function checkSignature(
+  secret: string,
+  header: string | undefined,
+  method: string,
+  url: string,
+  body: string = '',
+  now: number = Date.now()
+): string | undefined {
+  if (!header) return 'Missing signature';
+  const match = /^t=(\d+),n=([0-9a-f]{32}),v1=([0-9a-f]{64})$/.exec(header);
+  if (!match) return 'Malformed signature';
+  const timestamp = Number(match[1]);
+  const nonce = match[2];
+  if (Math.abs(now / 1000 - timestamp) > MAX_SIGNATURE_AGE_SECONDS) return 'Signature expired';
+  const expected = Buffer.from(signatureFor(secret, timestamp, nonce, method, url, body), 'hex');
+  if (!timingSafeEqual(expected, Buffer.from(match[3], 'hex'))) return 'Invalid signature';
+  for (const [seen, seenAt] of seenNonces) {
+    if (now / 1000 - seenAt > MAX_SIGNATURE_AGE_SECONDS) seenNonces.delete(seen);
+  }
+  if (seenNonces.has(nonce)) return 'Replayed signature';
+  seenNonces.set(nonce, timestamp);
+  return undefined;
+}
+
+/**
+ * Headers for a signed call to an agent. Empty when no shared secret is configured.
+ * @param url - Full URL of the call; only its path and query string are signed.
+ */
+export function agentRequestHeaders(method: string, url: string, body: string = ''): Record<string, string> {
+  if (!sharedSecret) return {};
+  const { pathname, search } = new URL(url);
+  return { 'X-Signature': signatureHeader(sharedSecret, method, pathname + search, body) };
+}
+
+function deny(req: Request, res: Response, statusCode: 401 | 403, reason: string) {
+  logEvent('Access denied', `${req.method} ${req.originalUrl} | ${reason} | From: ${req.ip}`, false);
+  res.status(statusCode).json({ message: reason });
+}
+
+/**
+ * Lets the call through when its bearer token has at least `role`.
+ */
+export function requireRole(role: Role): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (apiTokens.size === 0) return next();
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+    const granted = match ? apiTokens.get(match[1]) : undefined;
+    if (!granted) return deny(req, res, 401, match ? 'Unknown API token' : 'Missing API token');
+    if (ROLE_RANK[granted] < ROLE_RANK[role]) return deny(req, res, 403, `The ${role} role is required`);
+    next();
+  };
+}
+
+/**
+ * Lets the call through when it carries a valid agent signature.
+ */
+export function requireAgentSignature(req: Request, res: Response, next: NextFunction): void {
+  if (!sharedSecret) return next();
+  const reason = checkSignature(
+    sharedSecret,
+    req.header(SIGNATURE_HEADER),
+    req.method,
+    req.originalUrl,
+    req.rawBody ? req.rawBody.toString('utf-8') : ''
+  );
+  if (reason) return deny(req, res, 401, reason);
+  next();
+}
+
+/**
+ * Logs which protections are off. Called once when the server starts.
+ */
+export function warnIfAuthDisabled() {
+  if (apiTokens.size === 0) {
+    console.warn('CONTROL_API_TOKENS is not set: the control API accepts calls without a token.');
+    logEvent('Auth disabled', 'CONTROL_API_TOKENS is not set', false);
+  }
+  if (!sharedSecret) {
+    console.warn('AGENT_SHARED_SECRET is not set: calls between control and agents are not signed.');
+    logEvent('Auth disabled', 'AGENT_SHARED_SECRET is not set', false);
+  }
+}
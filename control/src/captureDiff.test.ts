@@ -0,0 +1,107 @@
+import fsSync from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildPacketIndex, indexPathFor } from './packetIndex';
+import { parseCaptureRef, compareCaptures } from './captureDiff';
+
+function httpPacket(interfaceId: number, len: number, server: string, layer: Record<string, any>) {
+  const request = 'http.request.method' in layer;
+  return {
+    _source: {
+      layers: {
+        frame: { 'frame.interface_id': String(interfaceId), 'frame.time_epoch': '1000', 'frame.len': String(len), 'frame.protocols': 'eth:ethertype:ip:tcp:http' },
+        ip: request ? { 'ip.src': '10.0.0.1', 'ip.dst': server } : { 'ip.src': server, 'ip.dst': '10.0.0.1' },
+        tcp: request ? { 'tcp.srcport': '40000', 'tcp.dstport': '80' } : { 'tcp.srcport': '80', 'tcp.dstport': '40000' },
+        http: { 'HTTP\\r\\n': layer },
+      },
+    },
+  };
+}
+
+describe('parseCaptureRef', () => {
+  it('should read a session or one of its containers', () => {
+    expect(parseCaptureRef('20250101-120000-abcd')).toEqual({ sessionId: '20250101-120000-abcd' });
+    expect(parseCaptureRef('20250101-120000-abcd:nginx-1')).toEqual({ sessionId: '20250101-120000-abcd', containerName: 'nginx-1' });
+  });
+
+  it('should reject invalid references', () => {
+    expect(parseCaptureRef(undefined)).toBeUndefined();
+    expect(parseCaptureRef(['a', 'b'])).toBeUndefined();
+    expect(parseCaptureRef('../etc')).toBeUndefined();
+    expect(parseCaptureRef('session:')).toBeUndefined();
+    expect(parseCaptureRef('session:evil.com:80')).toBeUndefined();
+  });
+});
+
+describe('compareCaptures', () => {
+  let dir: string;
+  let jsonFile: string;
+  // Two nginx replicas merged on interfaces 0 and 1; the second one fails its /api requests
+  const packets = [
+    httpPacket(0, 100, '10.0.0.10', { 'http.request.method': 'GET', 'http.request.uri': '/api?id=1' }),
+    httpPacket(0, 300, '10.0.0.10', { 'http.response.code': '200' }),
+    httpPacket(0, 100, '10.0.0.10', { 'http.request.method': 'GET', 'http.request.uri': '/' }),
+    httpPacket(0, 300, '10.0.0.10', { 'http.response.code': '200' }),
+    httpPacket(1, 100, '10.0.0.11', { 'http.request.method': 'GET', 'http.request.uri': '/api?id=2' }),
+    httpPacket(1, 120, '10.0.0.11', { 'http.response.code': '502' }),
+    httpPacket(1, 100, '10.0.0.11', { 'http.request.method': 'GET', 'http.request.uri': '/api?id=3' }),
+    httpPacket(1, 120, '10.0.0.11', { 'http.response.code': '502' }),
+    httpPacket(1, 100, '10.0.0.11', { 'http.request.method': 'GET', 'http.request.uri': '/' }),
+    httpPacket(1, 300, '10.0.0.11', { 'http.response.code': '200' }),
+  ];
+
+  beforeAll(async () => {
+    dir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'capture-diff-'));
+    jsonFile = path.join(dir, 'output.json');
+    fsSync.writeFileSync(jsonFile, JSON.stringify(packets, null, 2), 'utf-8');
+    await buildPacketIndex(jsonFile);
+  });
+
+  afterAll(() => {
+    fsSync.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const replica = (interfaceId: number) => ({ jsonFile, indexFile: indexPathFor(jsonFile), interfaceId });
+
+  it('should compare the totals of two containers of one capture', async () => {
+    const { a, b, diff } = await compareCaptures(replica(0), replica(1));
+    expect(a).toMatchObject({ packets: 4, bytes: 800 });
+    expect(b).toMatchObject({ packets: 6, bytes: 840 });
+    expect(diff.packets).toEqual({ a: 4, b: 6, delta: 2 });
+    expect(diff.bytes).toEqual({ a: 800, b: 840, delta: 40 });
+    expect(diff.http.requests).toEqual({ a: 2, b: 3, delta: 1 });
+  });
+
+  it('should report keys seen on one side only and changed counts', async () => {
+    const { diff } = await compareCaptures(replica(0), replica(1));
+    expect(diff.endpoints.onlyInA).toEqual([{ key: '10.0.0.10', packets: { a: 4, b: 0, delta: -4 }, bytes: { a: 800, b: 0, delta: -800 } }]);
+    expect(diff.endpoints.onlyInB.map((entry) => entry.key)).toEqual(['10.0.0.11']);
+    expect(diff.endpoints.changed).toEqual([{ key: '10.0.0.1', packets: { a: 4, b: 6, delta: 2 }, bytes: { a: 800, b: 840, delta: 40 } }]);
+    expect(diff.ports.changed.map((entry) => entry.key).sort()).toEqual(['tcp/40000', 'tcp/80']);
+    expect(diff.protocols.changed.map((entry) => entry.key)).toEqual(['eth', 'eth:ethertype', 'eth:ethertype:ip', 'eth:ethertype:ip:tcp', 'eth:ethertype:ip:tcp:http']);
+    expect(diff.http.statusCodes).toEqual({
+      onlyInA: [],
+      onlyInB: [{ key: '502', a: 0, b: 2, delta: 2 }],
+      changed: [{ key: '200', a: 2, b: 1, delta: -1 }],
+      counts: { onlyInA: 0, onlyInB: 1, changed: 1, unchanged: 0 },
+    });
+  });
+
+  it('should group request paths without their query string', async () => {
+    const { diff } = await compareCaptures(replica(0), replica(1));
+    expect(diff.http.paths.changed).toEqual([{ key: '/api', a: 1, b: 2, delta: 1 }]);
+    expect(diff.http.paths.counts.unchanged).toBe(1);
+  });
+
+  it('should find no differences between a capture and itself, and cut lists to top', async () => {
+    const { diff } = await compareCaptures(replica(1), replica(1));
+    expect(diff.packets.delta).toBe(0);
+    expect(diff.endpoints).toEqual({ onlyInA: [], onlyInB: [], changed: [], counts: { onlyInA: 0, onlyInB: 0, changed: 0, unchanged: 2 } });
+
+    const whole = { jsonFile, indexFile: indexPathFor(jsonFile) };
+    const cut = await compareCaptures(whole, replica(0), 1);
+    expect(cut.diff.ports.changed).toHaveLength(1);
+    expect(cut.diff.ports.counts.changed).toBe(2);
+    expect(cut.diff.endpoints.onlyInA).toEqual([expect.objectContaining({ key: '10.0.0.11' })]);
+  });
+});
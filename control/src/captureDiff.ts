@@ -0,0 +1,229 @@
+/**
+ * @file captureDiff.ts
+ * @description Compares two captures, e.g. the same nginx replica across two sessions or two replicas
+ * within one session. Both sides are summarized with the traffic statistics of trafficStats.ts, read
+ * from the tshark JSON of a merged (or filtered) capture; a container's side only counts the packets
+ * of its interface. The summaries are then diffed by protocol, endpoint, port, HTTP status code and
+ * request path, next to the packet and byte totals.
+ */
+
+import { isValidSessionId } from './sessions';
+import { isValidAgentName } from './agents';
+import { TrafficStats, ProtocolNode, computeTrafficStats } from './trafficStats';
+
+/**
+ * One side of a comparison as written in a query: `<sessionId>` for the whole session, or
+ * `<sessionId>:<containerName>` for the traffic a single agent captured in it.
+ */
+export interface CaptureRef {
+  sessionId: string;
+  containerName?: string;
+}
+
+/**
+ * Where a side's packets are read from.
+ */
+export interface CaptureSource {
+  jsonFile: string;
+  indexFile: string;
+  // Interface of the container within the merged capture; every packet counts when omitted
+  interfaceId?: number;
+}
+
+export interface TotalDelta {
+  a: number;
+  b: number;
+  delta: number;
+}
+
+// A protocol, endpoint or port on both sides, measured in packets and bytes
+export interface TrafficDelta {
+  key: string;
+  packets: TotalDelta;
+  bytes: TotalDelta;
+}
+
+// A status code (responses) or request path (requests) on both sides
+export interface CountDelta extends TotalDelta {
+  key: string;
+}
+
+export interface KeyedDiff<T> {
+  onlyInA: T[];
+  onlyInB: T[];
+  // Keys seen on both sides with different counts
+  changed: T[];
+  // Length of each list before it was cut to `top`, and the number of keys with equal counts
+  counts: { onlyInA: number; onlyInB: number; changed: number; unchanged: number };
+}
+
+export interface TrafficDiff {
+  packets: TotalDelta;
+  bytes: TotalDelta;
+  // Keyed by dissector chain, e.g. `eth:ethertype:ip:tcp:http`
+  protocols: KeyedDiff<TrafficDelta>;
+  // Keyed by IP address
+  endpoints: KeyedDiff<TrafficDelta>;
+  // Keyed by `tcp/80`, `udp/53`, ...
+  ports: KeyedDiff<TrafficDelta>;
+  http: {
+    requests: TotalDelta;
+    responses: TotalDelta;
+    statusCodes: KeyedDiff<CountDelta>;
+    // Request URIs without their query string
+    paths: KeyedDiff<CountDelta>;
+  };
+}
+
+export interface CaptureSummary {
+  packets: number;
+  bytes: number;
+  firstPacketTime?: string;
+  lastPacketTime?: string;
+}
+
+export interface CaptureComparison {
+  a: CaptureSummary;
+  b: CaptureSummary;
+  diff: TrafficDiff;
+}
+
+const DEFAULT_TOP = 10;
+// Keeps every entry of the statistics' ranked lists, so keys outside either side's top are compared too
+const ALL_ENTRIES = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Parses `<sessionId>` or `<sessionId>:<containerName>`; undefined when either part is invalid.
+ */
+export function parseCaptureRef(value: unknown): CaptureRef | undefined {
+  if (typeof value !== 'string') return undefined;
+  const separator = value.indexOf(':');
+  const sessionId = separator === -1 ? value : value.slice(0, separator);
+  if (!isValidSessionId(sessionId)) return undefined;
+  if (separator === -1) return { sessionId };
+  const containerName = value.slice(separator + 1);
+  return isValidAgentName(containerName) ? { sessionId, containerName } : undefined;
+}
+
+function totalDelta(a: number, b: number): TotalDelta {
+  return { a, b, delta: b - a };
+}
+
+interface Measure {
+  packets: number;
+  bytes: number;
+}
+
+function flattenProtocols(nodes: ProtocolNode[], prefix: string = '', into: Map<string, Measure> = new Map()): Map<string, Measure> {
+  for (const node of nodes) {
+    const key = prefix ? `${prefix}:${node.protocol}` : node.protocol;
+    into.set(key, { packets: node.packets, bytes: node.bytes });
+    flattenProtocols(node.children, key, into);
+  }
+  return into;
+}
+
+function requestPaths(stats: TrafficStats): Map<string, number> {
+  const paths = new Map<string, number>();
+  for (const { uri, requests } of stats.http.topUris) {
+    const requestPath = uri.split(/[?#]/)[0] || '/';
+    paths.set(requestPath, (paths.get(requestPath) || 0) + requests);
+  }
+  return paths;
+}
+
+/**
+ * Splits the keys of two sides into those only one side has and those whose counts differ. Each list
+ * is ranked by the size of the difference, measured by `size`, and cut to `top`.
+ */
+function diffKeyed<V, T>(
+  a: Map<string, V>,
+  b: Map<string, V>,
+  zero: V,
+  delta: (key: string, a: V, b: V) => T,
+  equal: (a: V, b: V) => boolean,
+  size: (entry: T) => number,
+  top: number
+): KeyedDiff<T> {
+  const onlyInA: T[] = [];
+  const onlyInB: T[] = [];
+  const changed: T[] = [];
+  let unchanged = 0;
+  for (const key of new Set([...a.keys(), ...b.keys()])) {
+    const valueA = a.get(key);
+    const valueB = b.get(key);
+    if (valueB === undefined) onlyInA.push(delta(key, valueA!, zero));
+    else if (valueA === undefined) onlyInB.push(delta(key, zero, valueB));
+    else if (equal(valueA, valueB)) unchanged++;
+    else changed.push(delta(key, valueA, valueB));
+  }
+  const ranked = (entries: T[]) => entries.sort((x, y) => Math.abs(size(y)) - Math.abs(size(x))).slice(0, top);
+  return {
+    onlyInA: ranked(onlyInA),
+    onlyInB: ranked(onlyInB),
+    changed: ranked(changed),
+    counts: { onlyInA: onlyInA.length, onlyInB: onlyInB.length, changed: changed.length, unchanged },
+  };
+}
+
+function diffTraffic(a: Map<string, Measure>, b: Map<string, Measure>, top: number): KeyedDiff<TrafficDelta> {
+  return diffKeyed<Measure, TrafficDelta>(
+    a,
+    b,
+    { packets: 0, bytes: 0 },
+    (key, x, y) => ({ key, packets: totalDelta(x.packets, y.packets), bytes: totalDelta(x.bytes, y.bytes) }),
+    (x, y) => x.packets === y.packets && x.bytes === y.bytes,
+    (entry) => entry.packets.delta,
+    top
+  );
+}
+
+function diffCounts(a: Map<string, number>, b: Map<string, number>, top: number): KeyedDiff<CountDelta> {
+  return diffKeyed<number, CountDelta>(
+    a,
+    b,
+    0,
+    (key, x, y) => ({ key, ...totalDelta(x, y) }),
+    (x, y) => x === y,
+    (entry) => entry.delta,
+    top
+  );
+}
+
+/**
+ * Diffs the statistics of two captures. The statistics should hold every entry of their ranked lists
+ * (a large `top`), otherwise keys that fell off one side's list show up as only on the other side.
+ */
+export function diffTrafficStats(a: TrafficStats, b: TrafficStats, top: number = DEFAULT_TOP): TrafficDiff {
+  const byAddress = (stats: TrafficStats) =>
+    new Map(stats.topAddresses.map((talker) => [talker.address, { packets: talker.packets, bytes: talker.bytes }]));
+  const byPort = (stats: TrafficStats) =>
+    new Map(stats.topPorts.map((talker) => [`${talker.transport}/${talker.port}`, { packets: talker.packets, bytes: talker.bytes }]));
+  return {
+    packets: totalDelta(a.packets, b.packets),
+    bytes: totalDelta(a.bytes, b.bytes),
+    protocols: diffTraffic(flattenProtocols(a.protocolHierarchy), flattenProtocols(b.protocolHierarchy), top),
+    endpoints: diffTraffic(byAddress(a), byAddress(b), top),
+    ports: diffTraffic(byPort(a), byPort(b), top),
+    http: {
+      requests: totalDelta(a.http.requests, b.http.requests),
+      responses: totalDelta(a.http.responses, b.http.responses),
+      statusCodes: diffCounts(new Map(Object.entries(a.http.statusCodes)), new Map(Object.entries(b.http.statusCodes)), top),
+      paths: diffCounts(requestPaths(a), requestPaths(b), top),
+    },
+  };
+}
+
+function summarize(stats: TrafficStats): CaptureSummary {
+  const { packets, bytes, firstPacketTime, lastPacketTime } = stats;
+  return { packets, bytes, firstPacketTime, lastPacketTime };
+}
+
+/**
+ * Reads both captures in paged passes and diffs their traffic; `top` bounds each list of the diff.
+ */
+export async function compareCaptures(a: CaptureSource, b: CaptureSource, top: number = DEFAULT_TOP): Promise<CaptureComparison> {
+  const statsA = await computeTrafficStats(a.jsonFile, a.indexFile, { top: ALL_ENTRIES, interfaceId: a.interfaceId });
+  const statsB = await computeTrafficStats(b.jsonFile, b.indexFile, { top: ALL_ENTRIES, interfaceId: b.interfaceId });
+  return { a: summarize(statsA), b: summarize(statsB), diff: diffTrafficStats(statsA, statsB, top) };
+}
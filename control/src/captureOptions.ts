@@ -0,0 +1,177 @@
+/**
+ * @file captureOptions.ts
+ * @description Capture options and limits forwarded to the scan agents on `/start`. Control only checks
+ * their shape; each agent compiles the BPF filter with tcpdump before it starts capturing. A start
+ * request may also select which agents capture (see agents.ts `AgentSelector`). `POST /ring/start` forwards
+ * the same capture options, bounded by a window and/or a size instead of limits.
+ */
+
+import { AgentSelector, validateSelector } from './agents';
+
+export interface CaptureOptions {
+  filter?: string;
+  snaplen?: number;
+  interface?: string;
+  promiscuous?: boolean;
+}
+
+/**
+ * Bounds on a capture. Control stops the session after `durationSeconds`; every bound is also
+ * forwarded to the agents, which enforce them locally.
+ */
+export interface CaptureLimits {
+  durationSeconds?: number;
+  maxPackets?: number;
+  maxBytes?: number;
+}
+
+export interface StartRequest extends AgentSelector {
+  capture?: CaptureOptions;
+  perContainer?: Record<string, CaptureOptions>;
+  limits?: CaptureLimits;
+}
+
+/**
+ * Starts the agents' ring buffers: each keeps the last `windowSeconds` and/or `maxBytes` of traffic.
+ * Agents fall back to their RING_WINDOW_SECONDS / RING_MAX_BYTES when the request sets neither.
+ */
+export interface RingRequest extends AgentSelector {
+  windowSeconds?: number;
+  maxBytes?: number;
+  capture?: CaptureOptions;
+}
+
+// Limit name in the request body and in the agent's `/start` query string
+const LIMIT_QUERY: Record<keyof CaptureLimits, string> = {
+  durationSeconds: 'duration',
+  maxPackets: 'maxPackets',
+  maxBytes: 'maxBytes',
+};
+
+const MAX_SNAPLEN = 262144;
+const INTERFACE_PATTERN = /^[A-Za-z0-9_.:-]{1,32}$/;
+
+/**
+ * Checks one set of capture options and returns the list of problems found.
+ */
+function validateCaptureOptions(options: any, prefix: string): string[] {
+  const errors: string[] = [];
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return [`${prefix} must be an object`];
+  }
+  if (options.filter !== undefined && typeof options.filter !== 'string') {
+    errors.push(`${prefix}.filter must be a string`);
+  } else if (typeof options.filter === 'string' && options.filter.trim().startsWith('-')) {
+    // The agent passes it to tcpdump, which would read it as an option
+    errors.push(`${prefix}.filter must not start with "-"`);
+  }
+  if (
+    options.snaplen !== undefined &&
+    (!Number.isInteger(options.snaplen) || options.snaplen < 0 || options.snaplen > MAX_SNAPLEN)
+  ) {
+    errors.push(`${prefix}.snaplen must be an integer between 0 and ${MAX_SNAPLEN}`);
+  }
+  if (options.interface !== undefined && (typeof options.interface !== 'string' || !INTERFACE_PATTERN.test(options.interface))) {
+    errors.push(`${prefix}.interface is not a valid interface name`);
+  }
+  if (options.promiscuous !== undefined && typeof options.promiscuous !== 'boolean') {
+    errors.push(`${prefix}.promiscuous must be a boolean`);
+  }
+  return errors;
+}
+
+function validateLimits(limits: any): string[] {
+  if (typeof limits !== 'object' || limits === null || Array.isArray(limits)) {
+    return ['limits must be an object'];
+  }
+  const errors: string[] = [];
+  for (const field of Object.keys(LIMIT_QUERY)) {
+    const value = limits[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      errors.push(`limits.${field} must be a positive integer`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Reads capture limits from a `GET /start` query string (`?duration=&maxPackets=&maxBytes=`).
+ * Values are converted to numbers and checked later by `validateStartRequest`.
+ */
+export function limitsFromQuery(query: Record<string, unknown>): CaptureLimits | undefined {
+  const limits: Record<string, number> = {};
+  for (const [field, name] of Object.entries(LIMIT_QUERY)) {
+    if (typeof query[name] === 'string') limits[field] = Number(query[name]);
+  }
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+/**
+ * Validates a `/start` request body. Returns the errors found, or an empty list.
+ */
+export function validateStartRequest(body: any): string[] {
+  if (body === undefined || body === null) return [];
+  const errors: string[] = [];
+  if (body.limits !== undefined) errors.push(...validateLimits(body.limits));
+  errors.push(...validateSelector(body));
+  if (body.capture !== undefined) errors.push(...validateCaptureOptions(body.capture, 'capture'));
+  if (body.perContainer !== undefined) {
+    if (typeof body.perContainer !== 'object' || body.perContainer === null || Array.isArray(body.perContainer)) {
+      errors.push('perContainer must be an object keyed by container name');
+    } else {
+      for (const [containerName, options] of Object.entries(body.perContainer)) {
+        errors.push(...validateCaptureOptions(options, `perContainer.${containerName}`));
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates a `/ring/start` request body. Returns the errors found, or an empty list.
+ */
+export function validateRingRequest(body: any): string[] {
+  if (body === undefined || body === null) return [];
+  const errors: string[] = [];
+  for (const field of ['windowSeconds', 'maxBytes']) {
+    if (body[field] !== undefined && (!Number.isInteger(body[field]) || body[field] < 1)) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+  errors.push(...validateSelector(body));
+  if (body.capture !== undefined) errors.push(...validateCaptureOptions(body.capture, 'capture'));
+  return errors;
+}
+
+/**
+ * Resolves the options for one container: per-container values win over the session-wide ones.
+ */
+export function captureOptionsFor(request: StartRequest, containerName: string): CaptureOptions {
+  return { ...request.capture, ...request.perContainer?.[containerName] };
+}
+
+/**
+ * Encodes capture options and limits as the query string understood by the agent's `/start`.
+ */
+export function toAgentQuery(options: CaptureOptions, limits: CaptureLimits = {}): URLSearchParams {
+  const query = new URLSearchParams();
+  for (const [field, name] of Object.entries(LIMIT_QUERY)) {
+    const value = limits[field as keyof CaptureLimits];
+    if (value !== undefined) query.set(name, String(value));
+  }
+  if (options.filter !== undefined) query.set('filter', options.filter);
+  if (options.snaplen !== undefined) query.set('snaplen', String(options.snaplen));
+  if (options.interface !== undefined) query.set('interface', options.interface);
+  if (options.promiscuous !== undefined) query.set('promiscuous', String(options.promiscuous));
+  return query;
+}
+
+/**
+ * Encodes a ring request as the query string understood by the agent's `/ring/start`.
+ */
+export function toRingQuery(request: RingRequest): URLSearchParams {
+  const query = toAgentQuery(request.capture || {});
+  if (request.windowSeconds !== undefined) query.set('window', String(request.windowSeconds));
+  if (request.maxBytes !== undefined) query.set('size', String(request.maxBytes));
+  return query;
+}
@@ -0,0 +1,106 @@
+import http from 'http';
+import express from 'express';
+import fsSync from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { collectCapture, sha256File } from './captureTransfer';
+
+describe('collectCapture', () => {
+  let dir: string;
+  let source: string;
+  let server: http.Server;
+  let url: string;
+  let content: Buffer;
+  let ranges: string[];
+  // Number of upcoming requests the agent drops halfway through
+  let failNext: number;
+
+  beforeAll((done) => {
+    dir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'transfer-'));
+    source = path.join(dir, 'agent.pcap');
+    content = randomBytes(10000);
+    fsSync.writeFileSync(source, content);
+    const agent = express();
+    agent.get('/captures/:sessionId', (req, res) => {
+      ranges.push(req.headers.range || '');
+      if (failNext > 0) {
+        failNext--;
+        const start = Number(/^bytes=(\d+)-/.exec(req.headers.range || '')?.[1] || 0);
+        res.writeHead(206, { 'Content-Length': '1000' });
+        res.write(content.subarray(start, start + 10));
+        res.destroy();
+        return;
+      }
+      res.sendFile(source);
+    });
+    server = agent.listen(0, () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/captures/s1`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    ranges = [];
+    failNext = 0;
+  });
+
+  afterAll((done) => {
+    fsSync.rmSync(dir, { recursive: true, force: true });
+    server.close(done);
+  });
+
+  it('should keep a file that is already on the shared volume', async () => {
+    const target = path.join(dir, 'shared.pcap');
+    fsSync.copyFileSync(source, target);
+    const mode = await collectCapture({ url, target, size: content.length, sha256: await sha256File(source) });
+    expect(mode).toBe('shared');
+    expect(ranges).toEqual([]);
+  });
+
+  it('should pull a missing file in chunks and verify it', async () => {
+    const target = path.join(dir, 'pulled.pcap');
+    const mode = await collectCapture(
+      { url, target, size: content.length, sha256: await sha256File(source) },
+      { chunkBytes: 4000 }
+    );
+    expect(mode).toBe('pulled');
+    expect(ranges).toEqual(['bytes=0-3999', 'bytes=4000-7999', 'bytes=8000-9999']);
+    expect(fsSync.readFileSync(target).equals(content)).toBe(true);
+    expect(fsSync.existsSync(`${target}.part`)).toBe(false);
+  });
+
+  it('should resume from the partial file after an interrupted chunk', async () => {
+    const target = path.join(dir, 'resumed.pcap');
+    fsSync.writeFileSync(`${target}.part`, content.subarray(0, 6000));
+    failNext = 1;
+    await collectCapture({ url, target, size: content.length }, { chunkBytes: 4000, retryDelayMs: 1 });
+    expect(ranges[0]).toBe('bytes=6000-9999');
+    expect(fsSync.readFileSync(target).equals(content)).toBe(true);
+  });
+
+  it('should replace a stale file of the wrong size', async () => {
+    const target = path.join(dir, 'stale.pcap');
+    fsSync.writeFileSync(target, 'old');
+    expect(await collectCapture({ url, target, size: content.length }, { chunkBytes: 20000 })).toBe('pulled');
+    expect(fsSync.readFileSync(target).equals(content)).toBe(true);
+  });
+
+  it('should discard the download when the checksum does not match', async () => {
+    const target = path.join(dir, 'corrupt.pcap');
+    await expect(
+      collectCapture({ url, target, size: content.length, sha256: '0'.repeat(64) }, { chunkBytes: 20000 })
+    ).rejects.toThrow('Checksum mismatch');
+    expect(fsSync.existsSync(target)).toBe(false);
+    expect(fsSync.existsSync(`${target}.part`)).toBe(false);
+  });
+
+  it('should give up after repeated failures', async () => {
+    const target = path.join(dir, 'failed.pcap');
+    failNext = 3;
+    await expect(
+      collectCapture({ url, target, size: content.length }, { chunkBytes: 20000, maxAttempts: 3, retryDelayMs: 1 })
+    ).rejects.toThrow('after 3 attempts');
+  });
+});
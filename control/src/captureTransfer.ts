@@ -0,0 +1,120 @@
+/**
+ * @file captureTransfer.ts
+ * @description Brings an agent's capture file into the session directory on control.
+ *
+ * When control and the agent share the `/data` volume, the file is already in place and only its size
+ * and checksum are checked. Otherwise control pulls it from the agent's `GET /captures/:sessionId` in
+ * `CAPTURE_CHUNK_BYTES` Range requests (8 MiB by default). Chunks are appended to `<file>.part`, so an
+ * interrupted transfer resumes where it stopped, and the file only replaces `<file>` once its SHA-256
+ * matches the one the agent reported with its stop acknowledgement.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import fsSync from 'fs';
+import { pipeline } from 'stream/promises';
+import axios from 'axios';
+import { agentRequestHeaders } from './auth';
+import { HttpClient } from './httpClient';
+
+export type TransferMode = 'shared' | 'pulled';
+
+export interface CaptureFile {
+  // Agent URL serving the file
+  url: string;
+  // Where the file belongs on control
+  target: string;
+  size: number;
+  sha256?: string;
+}
+
+export interface TransferOptions {
+  chunkBytes?: number;
+  // Consecutive failed chunk requests tolerated before giving up
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  http?: HttpClient;
+}
+
+const DEFAULT_CHUNK_BYTES = Number(process.env.CAPTURE_CHUNK_BYTES) || 8 * 1024 * 1024;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const CHUNK_TIMEOUT_MS = 60000;
+
+export async function sha256File(file: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(fsSync.createReadStream(file), hash);
+  return hash.digest('hex');
+}
+
+async function sizeOf(file: string): Promise<number | undefined> {
+  try {
+    return (await fs.stat(file)).size;
+  } catch {
+    return undefined;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function isInPlace(file: CaptureFile): Promise<boolean> {
+  if ((await sizeOf(file.target)) !== file.size) return false;
+  return !file.sha256 || (await sha256File(file.target)) === file.sha256;
+}
+
+async function fetchChunk(http: HttpClient, url: string, partFile: string, start: number, end: number) {
+  const response = await http.get(url, {
+    responseType: 'stream',
+    timeout: CHUNK_TIMEOUT_MS,
+    headers: { ...agentRequestHeaders('GET', url), Range: `bytes=${start}-${end}` },
+  });
+  // A server that ignores Range answers 200 with the whole file, which cannot be appended
+  if (response.status !== 206 && start > 0) {
+    response.data.destroy();
+    throw new Error(`Expected a partial response, got ${response.status}`);
+  }
+  await pipeline(response.data, fsSync.createWriteStream(partFile, { flags: 'a' }));
+}
+
+/**
+ * Makes sure `file.target` holds the agent's complete capture, pulling it when it is missing or differs.
+ * @returns `shared` when the file was already there, `pulled` when it was downloaded.
+ */
+export async function collectCapture(file: CaptureFile, options: TransferOptions = {}): Promise<TransferMode> {
+  if (await isInPlace(file)) return 'shared';
+  const chunkBytes = options.chunkBytes ?? DEFAULT_CHUNK_BYTES;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const http = options.http ?? axios;
+  const partFile = `${file.target}.part`;
+  if (((await sizeOf(partFile)) ?? 0) > file.size) await fs.rm(partFile, { force: true });
+
+  let failures = 0;
+  for (;;) {
+    const received = (await sizeOf(partFile)) ?? 0;
+    if (received >= file.size) break;
+    try {
+      await fetchChunk(http, file.url, partFile, received, Math.min(received + chunkBytes, file.size) - 1);
+      failures = 0;
+    } catch (err: any) {
+      if (++failures >= maxAttempts) {
+        throw new Error(`Transfer stopped at ${received} of ${file.size} bytes after ${failures} attempts: ${err?.message || String(err)}`);
+      }
+      await sleep(retryDelayMs * failures);
+    }
+  }
+  if (file.size === 0) await fs.writeFile(partFile, '');
+
+  if (file.sha256) {
+    const actual = await sha256File(partFile);
+    if (actual !== file.sha256) {
+      // A corrupt partial file would be resumed again, so the next attempt starts over
+      await fs.rm(partFile, { force: true });
+      throw new Error(`Checksum mismatch: expected ${file.sha256}, got ${actual}`);
+    }
+  }
+  await fs.rename(partFile, file.target);
+  return 'pulled';
+}
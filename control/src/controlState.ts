@@ -0,0 +1,58 @@
+/**
+ * @file controlState.ts
+ * @description Capture state of control that has to survive a restart: the running session and the
+ * acknowledgements of agents a partial `/stop` already stopped. It is written to
+ * `<dataDir>/control-state.json` on every change; the agent registry is kept by agents.ts.
+ */
+
+import path from 'path';
+import fsSync from 'fs';
+import { TransferMode } from './captureTransfer';
+
+/**
+ * An agent's answer to `/stop` (or `/ring/snapshot`), and how its capture reached control.
+ */
+export interface StopAck {
+  containerName: string;
+  status: 'success' | 'failed' | 'timeout';
+  exitCode?: number | null;
+  fileSize?: number;
+  packetCount?: number;
+  packetsDropped?: number;
+  endedBy?: 'stop' | 'limit' | 'disk' | 'snapshot';
+  sha256?: string;
+  // How the capture file reached control, or `failed` when it could not be collected
+  transfer?: TransferMode | 'failed';
+  error?: string;
+}
+
+export interface ControlState {
+  activeSessionId?: string;
+  // Acknowledgements of the agents a partial /stop already stopped, merged in when the session stops
+  earlyAcks: StopAck[];
+  updatedAt?: string;
+}
+
+const STATE_FILE = 'control-state.json';
+
+export function loadControlState(dataDir: string): ControlState {
+  const stateFile = path.join(dataDir, STATE_FILE);
+  if (!fsSync.existsSync(stateFile)) return { earlyAcks: [] };
+  try {
+    const state = JSON.parse(fsSync.readFileSync(stateFile, 'utf-8'));
+    return { activeSessionId: state.activeSessionId, earlyAcks: Array.isArray(state.earlyAcks) ? state.earlyAcks : [], updatedAt: state.updatedAt };
+  } catch {
+    return { earlyAcks: [] };
+  }
+}
+
+/**
+ * Writes the state through a temporary file, so a crash mid-write leaves the previous state in place.
+ */
+export function saveControlState(dataDir: string, state: ControlState): void {
+  fsSync.mkdirSync(dataDir, { recursive: true });
+  const stateFile = path.join(dataDir, STATE_FILE);
+  const tempFile = `${stateFile}.tmp`;
+  fsSync.writeFileSync(tempFile, JSON.stringify({ ...state, updatedAt: new Date().toISOString() }, null, 2), 'utf-8');
+  fsSync.renameSync(tempFile, stateFile);
+}
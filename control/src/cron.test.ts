@@ -0,0 +1,48 @@
+import { parseCron, nextCronRun } from './cron';
+
+const at = (iso: string) => new Date(iso);
+
+describe('parseCron', () => {
+  it('should expand lists, ranges and steps', () => {
+    const cron = parseCron('*/15 9-17 1,15 * 1-5');
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat day-of-week 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it.each(['* * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '5-1 * * * *', '*/0 * * * *', 'a * * * *'])(
+    'should reject "%s"',
+    (expression) => {
+      expect(() => parseCron(expression)).toThrow();
+    }
+  );
+});
+
+describe('nextCronRun', () => {
+  it('should find the next matching minute', () => {
+    expect(nextCronRun(parseCron('0 * * * *'), at('2025-01-01T10:15:30Z'))).toEqual(at('2025-01-01T11:00:00Z'));
+  });
+
+  it('should be strictly after the given time', () => {
+    expect(nextCronRun(parseCron('*/5 * * * *'), at('2025-01-01T10:05:00Z'))).toEqual(at('2025-01-01T10:10:00Z'));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2025-01-03 is a Friday; the 10th is the next day-of-month match
+    expect(nextCronRun(parseCron('0 12 10 * 5'), at('2025-01-01T00:00:00Z'))).toEqual(at('2025-01-03T12:00:00Z'));
+  });
+
+  it('should find leap days', () => {
+    expect(nextCronRun(parseCron('0 0 29 2 *'), at('2025-01-01T00:00:00Z'))).toEqual(at('2028-02-29T00:00:00Z'));
+  });
+
+  it('should reject expressions that never match', () => {
+    expect(() => nextCronRun(parseCron('0 0 31 2 *'), at('2025-01-01T00:00:00Z'))).toThrow();
+  });
+});
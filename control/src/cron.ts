@@ -0,0 +1,92 @@
+/**
+ * @file cron.ts
+ * @description Minimal five-field cron expressions (`minute hour day-of-month month day-of-week`),
+ * evaluated in UTC. Each field supports `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/10`, `0-30/5`). Day-of-week accepts 0-7, where both 0 and 7 are Sunday.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron semantics: when both day fields are restricted, either may match
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+const FIELD_NAMES = ['minute', 'hour', 'day-of-month', 'month', 'day-of-week'];
+// Upper bound on the search for the next run (a little over four years covers Feb 29)
+const MAX_SEARCH_MINUTES = 4 * 366 * 24 * 60;
+
+function parseField(text: string, index: number): Set<number> {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid ${FIELD_NAMES[index]} field: "${text}"`);
+    const start = match[1] === '*' ? min : Number(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : start;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${FIELD_NAMES[index]} field: "${text}" (allowed ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(source: string): CronExpression {
+  const fields = source.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Cron expression must have 5 fields: "${source}"`);
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(parseField);
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dom = cron.daysOfMonth.has(date.getUTCDate());
+  const dow = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.anyDayOfMonth) return dow;
+  if (cron.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/**
+ * Returns the first time strictly after `after` that matches the expression.
+ */
+export function nextCronRun(cron: CronExpression, after: Date): Date {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+    if (
+      cron.minutes.has(date.getUTCMinutes()) &&
+      cron.hours.has(date.getUTCHours()) &&
+      cron.months.has(date.getUTCMonth() + 1) &&
+      matchesDay(cron, date)
+    ) {
+      return date;
+    }
+  }
+  throw new Error(`Cron expression never matches: "${cron.source}"`);
+}
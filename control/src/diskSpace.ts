@@ -0,0 +1,42 @@
+/**
+ * @file diskSpace.ts
+ * @description Disk usage of the data directory: the size of the files under it and the free space of
+ * the volume holding it. Agents report the same figures for their own data volume with each heartbeat.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+
+export interface DiskUsage {
+  totalBytes: number;
+  // Space left for unprivileged writers
+  availableBytes: number;
+}
+
+export async function readDiskUsage(dir: string): Promise<DiskUsage> {
+  const stats = await fs.statfs(dir);
+  return { totalBytes: stats.blocks * stats.bsize, availableBytes: stats.bavail * stats.bsize };
+}
+
+/**
+ * Sums the size of the files under `dir`, recursively.
+ */
+export async function directorySize(dir: string): Promise<number> {
+  let total = 0;
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) total += await directorySize(entryPath);
+    else if (entry.isFile()) total += (await fs.stat(entryPath)).size;
+  }
+  return total;
+}
+
+/**
+ * Keeps the usage an agent reported when it holds two non-negative numbers, and drops it otherwise.
+ */
+export function parseDiskUsage(value: unknown): DiskUsage | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { totalBytes, availableBytes } = value as Record<string, unknown>;
+  const isSize = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n >= 0;
+  return isSize(totalBytes) && isSize(availableBytes) ? { totalBytes, availableBytes } : undefined;
+}
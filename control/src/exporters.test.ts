@@ -0,0 +1,125 @@
+import fsSync from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { buildPacketIndex, indexPathFor } from './packetIndex';
+import { writeNdjson, buildHar, isValidFieldName, isExportFormat } from './exporters';
+
+function packet(n: number, epoch: number, layers: Record<string, any>) {
+  return {
+    _source: {
+      layers: {
+        frame: { 'frame.number': String(n), 'frame.time_epoch': String(epoch) },
+        ip: { 'ip.src': '10.0.0.1', 'ip.dst': '10.0.0.2' },
+        tcp: { 'tcp.stream': '0' },
+        ...layers,
+      },
+    },
+  };
+}
+
+describe('exporters', () => {
+  let dir: string;
+  let jsonFile: string;
+  const packets = [
+    packet(1, 1000, {
+      http: {
+        'GET /search?q=a%20b&page=2 HTTP/1.1\\r\\n': {
+          'http.request.method': 'GET',
+          'http.request.uri': '/search?q=a%20b&page=2',
+          'http.request.version': 'HTTP/1.1',
+        },
+        'http.request.line': ['Host: nginx\r\n', 'User-Agent: curl/8.0\r\n'],
+        'http.request.full_uri': 'http://nginx/search?q=a%20b&page=2',
+      },
+    }),
+    packet(2, 1000.25, {
+      http: {
+        'HTTP/1.1 302 Found\\r\\n': {
+          'http.response.version': 'HTTP/1.1',
+          'http.response.code': '302',
+          'http.response.phrase': 'Found',
+        },
+        'http.response.line': ['Location: /next\r\n', 'Content-Length: 5\r\n'],
+        'http.content_type': 'text/plain',
+        'http.content_length': '5',
+        'http.request_in': '1',
+        'http.file_data': 'moved',
+      },
+    }),
+    packet(3, 1001, { http: { 'POST /x HTTP/1.1\\r\\n': { 'http.request.method': 'POST', 'http.request.uri': '/x' } } }),
+  ];
+
+  beforeAll(async () => {
+    dir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'exporters-'));
+    jsonFile = path.join(dir, 'output.json');
+    fsSync.writeFileSync(jsonFile, JSON.stringify(packets, null, 2), 'utf-8');
+    await buildPacketIndex(jsonFile);
+  });
+
+  afterAll(() => {
+    fsSync.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function ndjson(fields?: string[]): Promise<any[]> {
+    const output = new PassThrough();
+    let text = '';
+    output.on('data', (chunk) => {
+      text += chunk;
+    });
+    await writeNdjson(jsonFile, indexPathFor(jsonFile), output, fields);
+    return text.trim().split('\n').map((line) => JSON.parse(line));
+  }
+
+  it('should write one packet per line', async () => {
+    const lines = await ndjson();
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toEqual(packets[0]._source.layers);
+  });
+
+  it('should write only the requested fields', async () => {
+    expect((await ndjson(['frame.number', 'http.response.code']))[1]).toEqual({
+      'frame.number': '2',
+      'http.response.code': '302',
+    });
+  });
+
+  it('should pair HTTP requests with their responses in a HAR log', async () => {
+    const har = await buildHar(jsonFile, indexPathFor(jsonFile));
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries).toHaveLength(2);
+    const [get, post] = har.log.entries;
+    expect(get.request).toMatchObject({
+      method: 'GET',
+      url: 'http://nginx/search?q=a%20b&page=2',
+      headers: [
+        { name: 'Host', value: 'nginx' },
+        { name: 'User-Agent', value: 'curl/8.0' },
+      ],
+      queryString: [
+        { name: 'q', value: 'a b' },
+        { name: 'page', value: '2' },
+      ],
+    });
+    expect(get.response).toMatchObject({
+      status: 302,
+      statusText: 'Found',
+      redirectURL: '/next',
+      content: { size: 5, mimeType: 'text/plain', text: 'moved' },
+    });
+    expect(get.time).toBe(250);
+    expect(get.serverIPAddress).toBe('10.0.0.2');
+    // No response was captured for the POST
+    expect(post.request.method).toBe('POST');
+    expect(post.response.status).toBe(0);
+  });
+
+  it('should only accept plain field names and known formats', () => {
+    expect(isValidFieldName('http.request.uri')).toBe(true);
+    expect(isValidFieldName('_ws.col.Info')).toBe(true);
+    expect(isValidFieldName('-Y')).toBe(false);
+    expect(isValidFieldName('ip.src ip.dst')).toBe(false);
+    expect(isExportFormat('har')).toBe(true);
+    expect(isExportFormat('toString')).toBe(false);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * @file exporters.ts
+ * @description Session exports rendered from the indexed tshark JSON: NDJSON (one packet per line, for
+ * log pipelines) and HAR 1.2 for the captured HTTP traffic. The pcapng and CSV exports are produced by
+ * Wireshark tools in `pcapPipeline.ts`.
+ */
+
+import { Writable } from 'stream';
+import { packetCount, readPackets, projectPacket } from './packetIndex';
+
+export type ExportFormat = 'pcapng' | 'csv' | 'ndjson' | 'har';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  pcapng: { contentType: 'application/x-pcapng', extension: 'pcapng' },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  har: { contentType: 'application/json', extension: 'har' },
+};
+
+// Columns of the CSV export when no `fields` are requested
+export const DEFAULT_CSV_FIELDS = [
+  'frame.number',
+  'frame.time_epoch',
+  'ip.src',
+  'ip.dst',
+  'tcp.srcport',
+  'tcp.dstport',
+  'udp.srcport',
+  'udp.dstport',
+  '_ws.col.Protocol',
+  'frame.len',
+  '_ws.col.Info',
+];
+
+const FIELD_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+const PAGE_SIZE = 1000;
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return typeof format === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format);
+}
+
+/**
+ * Field names end up as tshark `-e` arguments, so only plain Wireshark field names are accepted.
+ */
+export function isValidFieldName(field: string): boolean {
+  return FIELD_NAME_PATTERN.test(field);
+}
+
+function write(output: Writable, chunk: string): Promise<void> {
+  if (output.write(chunk)) return Promise.resolve();
+  return new Promise<void>((resolve) => output.once('drain', () => resolve()));
+}
+
+/**
+ * Streams every packet of an indexed capture to `output`, one JSON object per line.
+ * With `fields`, each line holds only those Wireshark fields.
+ */
+export async function writeNdjson(jsonFile: string, indexFile: string, output: Writable, fields: string[] = []): Promise<number> {
+  const total = await packetCount(indexFile);
+  for (let offset = 0; offset < total; offset += PAGE_SIZE) {
+    const packets = await readPackets(jsonFile, indexFile, offset, PAGE_SIZE);
+    const lines = packets.map((packet) => JSON.stringify(fields.length > 0 ? projectPacket(packet, fields) : packet._source?.layers ?? packet));
+    await write(output, lines.join('\n') + '\n');
+  }
+  return total;
+}
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: [];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: [];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: {};
+  timings: { send: number; wait: number; receive: number };
+  serverIPAddress?: string;
+  connection?: string;
+}
+
+export interface Har {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+const HTTP_FIELDS = [
+  'frame.number',
+  'frame.time_epoch',
+  'ip.dst',
+  'ipv6.dst',
+  'tcp.stream',
+  'http.request.method',
+  'http.request.uri',
+  'http.request.full_uri',
+  'http.request.version',
+  'http.request.line',
+  'http.response.code',
+  'http.response.phrase',
+  'http.response.version',
+  'http.response.line',
+  'http.request_in',
+  'http.content_type',
+  'http.content_length',
+  'http.file_data',
+];
+
+function first(value: any): string | undefined {
+  if (Array.isArray(value)) return first(value[0]);
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+// tshark reports each header line as "Name: value\r\n"
+function parseHeaders(lines: any): HarHeader[] {
+  const list: any[] = lines === null || lines === undefined ? [] : Array.isArray(lines) ? lines : [lines];
+  return list.map((line) => {
+    const text = String(line).replace(/\r?\n$/, '');
+    const colon = text.indexOf(':');
+    return colon < 0 ? { name: text, value: '' } : { name: text.slice(0, colon).trim(), value: text.slice(colon + 1).trim() };
+  });
+}
+
+function parseQueryString(url: string): HarHeader[] {
+  const query = url.indexOf('?');
+  if (query < 0) return [];
+  return [...new URLSearchParams(url.slice(query + 1))].map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * Builds a HAR log from the HTTP requests in an indexed capture. Responses are matched to their request
+ * through `http.request_in`; requests that never got a response are kept with status 0.
+ */
+export async function buildHar(jsonFile: string, indexFile: string): Promise<Har> {
+  const entries: HarEntry[] = [];
+  const byFrame = new Map<string, { entry: HarEntry; epoch: number }>();
+  const total = await packetCount(indexFile);
+  for (let offset = 0; offset < total; offset += PAGE_SIZE) {
+    for (const packet of await readPackets(jsonFile, indexFile, offset, PAGE_SIZE)) {
+      const fields = projectPacket(packet, HTTP_FIELDS);
+      const epoch = Number(first(fields['frame.time_epoch'])) || 0;
+      const method = first(fields['http.request.method']);
+      if (method !== undefined) {
+        const url = first(fields['http.request.full_uri']) ?? first(fields['http.request.uri']) ?? '';
+        const entry: HarEntry = {
+          startedDateTime: new Date(epoch * 1000).toISOString(),
+          time: 0,
+          request: {
+            method,
+            url,
+            httpVersion: first(fields['http.request.version']) ?? 'HTTP/1.1',
+            headers: parseHeaders(fields['http.request.line']),
+            queryString: parseQueryString(url),
+            cookies: [],
+            headersSize: -1,
+            bodySize: -1,
+          },
+          response: {
+            status: 0,
+            statusText: '',
+            httpVersion: '',
+            headers: [],
+            cookies: [],
+            content: { size: 0, mimeType: '' },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: -1,
+          },
+          cache: {},
+          timings: { send: 0, wait: 0, receive: 0 },
+          serverIPAddress: first(fields['ip.dst']) ?? first(fields['ipv6.dst']),
+          connection: first(fields['tcp.stream']),
+        };
+        entries.push(entry);
+        byFrame.set(first(fields['frame.number']) as string, { entry, epoch });
+      }
+      const status = first(fields['http.response.code']);
+      const request = byFrame.get(first(fields['http.request_in']) as string);
+      if (status !== undefined && request) {
+        const contentLength = Number(first(fields['http.content_length']));
+        const headers = parseHeaders(fields['http.response.line']);
+        const location = headers.find((header) => header.name.toLowerCase() === 'location');
+        const body = first(fields['http.file_data']);
+        request.entry.response = {
+          status: Number(status),
+          statusText: first(fields['http.response.phrase']) ?? '',
+          httpVersion: first(fields['http.response.version']) ?? 'HTTP/1.1',
+          headers,
+          cookies: [],
+          content: {
+            size: Number.isFinite(contentLength) ? contentLength : 0,
+            mimeType: first(fields['http.content_type']) ?? '',
+            ...(body !== undefined ? { text: body } : {}),
+          },
+          redirectURL: location?.value ?? '',
+          headersSize: -1,
+          bodySize: Number.isFinite(contentLength) ? contentLength : -1,
+        };
+        const wait = Math.max(0, (epoch - request.epoch) * 1000);
+        request.entry.time = wait;
+        request.entry.timings.wait = wait;
+        byFrame.delete(first(fields['http.request_in']) as string);
+      }
+    }
+  }
+  return { log: { version: '1.2', creator: { name: 'control', version: '1.0' }, entries } };
+}
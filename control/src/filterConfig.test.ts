@@ -0,0 +1,187 @@
+import { validateFilterConfig, buildWiresharkFilterFromConfig } from './filterConfig';
+
+describe('validateFilterConfig', () => {
+  it('should accept and normalize a valid config', () => {
+    const result = validateFilterConfig({
+      ip: '10.0.0.1, 192.168.0.0/16',
+      port: '80,8000-8080',
+      protocol: 'TCP',
+      macAddress: 'AA-BB-CC-DD-EE-FF',
+      packetSizeMin: '64',
+      packetSizeMax: 1500,
+      timeRange: '2025-01-01T00:00:00Z/2025-01-02T00:00:00Z',
+      tcpFlags: 'syn,rst',
+      payloadContent: '',
+    });
+    expect(result).toEqual({
+      valid: true,
+      config: {
+        ip: '10.0.0.1,192.168.0.0/16',
+        port: '80,8000-8080',
+        protocol: 'TCP',
+        macAddress: 'AA-BB-CC-DD-EE-FF',
+        packetSizeMin: 64,
+        packetSizeMax: 1500,
+        timeRange: '2025-01-01T00:00:00Z/2025-01-02T00:00:00Z',
+        tcpFlags: 'syn,rst',
+      },
+    });
+  });
+
+  it('should report field-level errors', () => {
+    const result = validateFilterConfig({
+      ip: '10.0.0.300',
+      sourceIp: '10.0.0.0/33',
+      port: '70000',
+      destinationPort: '90-80',
+      protocol: 'carrier-pigeon',
+      tcpFlags: 'syn,bogus',
+      macAddress: 'aa:bb:cc',
+      packetSizeMin: 2000,
+      packetSizeMax: 100,
+      timeRange: 'yesterday/today',
+      payloadContent: 'a\nb',
+      extra: true,
+    });
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors.map((e) => e.field).sort()).toEqual([
+      'destinationPort',
+      'extra',
+      'ip',
+      'macAddress',
+      'packetSizeMin',
+      'payloadContent',
+      'port',
+      'protocol',
+      'sourceIp',
+      'tcpFlags',
+      'timeRange',
+    ]);
+  });
+
+  it('should reject a reversed time range', () => {
+    const result = validateFilterConfig({ timeRange: '2025-01-02/2025-01-01' });
+    expect(result.valid).toBe(false);
+  });
+
+  it('should reject non-object bodies', () => {
+    expect(validateFilterConfig('ip=1.2.3.4').valid).toBe(false);
+    expect(validateFilterConfig([]).valid).toBe(false);
+  });
+});
+
+describe('buildWiresharkFilterFromConfig', () => {
+  it('should return an empty filter for an empty config', () => {
+    expect(buildWiresharkFilterFromConfig({})).toBe('');
+  });
+
+  it('should combine fields with and, values with or', () => {
+    expect(buildWiresharkFilterFromConfig({ ip: '10.0.0.1,fe80::1', protocol: 'HTTP' })).toBe(
+      '(ip.addr == 10.0.0.1 or ipv6.addr == fe80::1) and (http)'
+    );
+  });
+
+  it('should match addresses in either direction or in the given one', () => {
+    expect(buildWiresharkFilterFromConfig({ ip: '10.0.0.0/24' })).toBe('(ip.addr == 10.0.0.0/24)');
+    expect(buildWiresharkFilterFromConfig({ sourceIp: '10.0.0.2' })).toBe('(ip.src == 10.0.0.2)');
+    expect(buildWiresharkFilterFromConfig({ destinationIp: '2001:db8::/32' })).toBe('(ipv6.dst == 2001:db8::/32)');
+  });
+
+  it('should match ports over TCP and UDP', () => {
+    expect(buildWiresharkFilterFromConfig({ port: '53' })).toBe('((tcp.port == 53 or udp.port == 53))');
+    expect(buildWiresharkFilterFromConfig({ sourcePort: '40000' })).toBe(
+      '((tcp.srcport == 40000 or udp.srcport == 40000))'
+    );
+    expect(buildWiresharkFilterFromConfig({ destinationPort: '80' })).toBe('((tcp.dstport == 80 or udp.dstport == 80))');
+  });
+
+  it('should lower-case protocol names', () => {
+    expect(buildWiresharkFilterFromConfig({ protocol: 'DNS,icmp' })).toBe('(dns or icmp)');
+  });
+
+  it('should bound the frame length', () => {
+    expect(buildWiresharkFilterFromConfig({ packetSizeMin: 60 })).toBe('frame.len >= 60');
+    expect(buildWiresharkFilterFromConfig({ packetSizeMax: 1500 })).toBe('frame.len <= 1500');
+    expect(buildWiresharkFilterFromConfig({ packetSizeMin: 0, packetSizeMax: 100 })).toBe('frame.len >= 0 and frame.len <= 100');
+  });
+
+  it('should expand port ranges', () => {
+    expect(buildWiresharkFilterFromConfig({ destinationPort: '8000-8080' })).toBe(
+      '((tcp.dstport in {8000..8080} or udp.dstport in {8000..8080}))'
+    );
+  });
+
+  it('should map TCP flag names to Wireshark fields', () => {
+    expect(buildWiresharkFilterFromConfig({ tcpFlags: 'RST,psh' })).toBe(
+      '(tcp.flags.reset == 1 or tcp.flags.push == 1)'
+    );
+  });
+
+  it('should convert time ranges to epoch seconds', () => {
+    expect(buildWiresharkFilterFromConfig({ timeRange: '2025-01-01T00:00:00Z/' })).toBe(
+      'frame.time_epoch >= 1735689600'
+    );
+    expect(buildWiresharkFilterFromConfig({ timeRange: '/2025-01-01T01:00:00+01:00' })).toBe(
+      'frame.time_epoch <= 1735689600'
+    );
+    expect(buildWiresharkFilterFromConfig({ timeRange: '2025-01-01T00:00:00Z/2025-01-01T00:00:01.5Z' })).toBe(
+      'frame.time_epoch >= 1735689600 and frame.time_epoch <= 1735689601.5'
+    );
+  });
+
+  it('should escape quotes and backslashes in payload content', () => {
+    expect(buildWiresharkFilterFromConfig({ payloadContent: 'say "hi" \\o/' })).toBe(
+      '(frame contains "say \\"hi\\" \\\\o/")'
+    );
+  });
+
+  it('should normalize MAC addresses', () => {
+    expect(buildWiresharkFilterFromConfig({ macAddress: 'AA-BB-CC-DD-EE-FF' })).toBe(
+      '(eth.addr == aa:bb:cc:dd:ee:ff)'
+    );
+  });
+
+  it('should select containers by their capture interface', () => {
+    expect(buildWiresharkFilterFromConfig({ container: 'scan3, scan1' }, ['scan1', 'scan2', 'scan3'])).toBe(
+      '(frame.interface_id == 2 or frame.interface_id == 0)'
+    );
+    expect(buildWiresharkFilterFromConfig({ container: 'scan9' }, ['scan1'])).toBe('(frame.number == 0)');
+  });
+});
+
+describe('hostile config values', () => {
+  const hostileValues = [
+    '"; rm -rf / #',
+    '$(reboot)',
+    '`id`',
+    '1.1.1.1 or 1 == 1',
+    '80) or (tcp',
+    '\\" or frame',
+  ];
+
+  it.each(['ip', 'sourceIp', 'destinationIp', 'port', 'sourcePort', 'destinationPort', 'protocol', 'tcpFlags', 'macAddress'])(
+    'should reject injection attempts in %s',
+    (field) => {
+      for (const value of hostileValues) {
+        expect(validateFilterConfig({ [field]: value }).valid).toBe(false);
+      }
+    }
+  );
+
+  it('should reject injection attempts in timeRange', () => {
+    expect(validateFilterConfig({ timeRange: '2025-01-01" or "1/2025-01-02' }).valid).toBe(false);
+  });
+
+  it('should keep hostile payload content inside a single quoted literal', () => {
+    for (const value of hostileValues) {
+      const result = validateFilterConfig({ payloadContent: value });
+      expect(result.valid).toBe(true);
+      if (!result.valid) continue;
+      const filter = buildWiresharkFilterFromConfig(result.config);
+      const literal = filter.slice('(frame contains '.length, -1);
+      // Unescaping the literal must give back the original value and nothing else
+      expect(JSON.parse(literal)).toBe(value);
+    }
+  });
+});
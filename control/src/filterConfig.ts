@@ -0,0 +1,308 @@
+/**
+ * @file filterConfig.ts
+ * @description Typed model of the filter configuration accepted by `POST /config`, its per-field
+ * validation, and its conversion to a Wireshark display filter.
+ *
+ * List fields keep the comma-separated string form used by `config.json` (e.g. `"80, 443"`).
+ */
+
+import net from 'net';
+import { isValidAgentName } from './agents';
+
+export interface CaptureFilterConfig {
+  ip?: string;
+  port?: string;
+  protocol?: string;
+  sourceIp?: string;
+  destinationIp?: string;
+  sourcePort?: string;
+  destinationPort?: string;
+  packetSizeMin?: number;
+  packetSizeMax?: number;
+  timeRange?: string;
+  tcpFlags?: string;
+  payloadContent?: string;
+  macAddress?: string;
+  // Agents the packets were captured by
+  container?: string;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type FilterConfigValidation =
+  | { valid: true; config: CaptureFilterConfig }
+  | { valid: false; errors: FieldError[] };
+
+type ListField = 'ip' | 'port' | 'protocol' | 'sourceIp' | 'destinationIp' | 'sourcePort' | 'destinationPort'
+  | 'tcpFlags' | 'payloadContent' | 'macAddress' | 'container';
+
+export const KNOWN_PROTOCOLS = [
+  'arp', 'dhcp', 'dns', 'eth', 'ftp', 'http', 'http2', 'icmp', 'icmpv6', 'igmp', 'ip', 'ipv6', 'ntp',
+  'quic', 'sip', 'smtp', 'snmp', 'ssh', 'tcp', 'telnet', 'tls', 'udp',
+];
+
+// Accepted flag names mapped to their Wireshark field (`tcp.flags.<name>`)
+export const TCP_FLAG_FIELDS: Record<string, string> = {
+  fin: 'fin',
+  syn: 'syn',
+  rst: 'reset',
+  reset: 'reset',
+  psh: 'push',
+  push: 'push',
+  ack: 'ack',
+  urg: 'urg',
+  ece: 'ece',
+  cwr: 'cwr',
+};
+
+const MAX_PACKET_SIZE = 65535;
+const MAX_PAYLOAD_LENGTH = 256;
+const MAC_PATTERN = /^[0-9a-f]{2}([:-])[0-9a-f]{2}(\1[0-9a-f]{2}){4}$/i;
+const PORT_PATTERN = /^(\d{1,5})(?:-(\d{1,5}))?$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function splitList(value: string): string[] {
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+function checkIp(value: string): string | undefined {
+  const [address, prefix, ...rest] = value.split('/');
+  const version = net.isIP(address);
+  if (version === 0 || rest.length > 0) return `"${value}" is not a valid IP address or CIDR block`;
+  if (prefix !== undefined) {
+    const maxPrefix = version === 4 ? 32 : 128;
+    if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maxPrefix) {
+      return `"${value}" has an invalid CIDR prefix (0-${maxPrefix})`;
+    }
+  }
+  return undefined;
+}
+
+function checkPort(value: string): string | undefined {
+  const match = PORT_PATTERN.exec(value);
+  if (!match) return `"${value}" is not a port or port range`;
+  const start = Number(match[1]);
+  const end = match[2] !== undefined ? Number(match[2]) : start;
+  if (start > 65535 || end > 65535) return `"${value}" is outside 0-65535`;
+  if (start > end) return `"${value}" has its range bounds reversed`;
+  return undefined;
+}
+
+function checkProtocol(value: string): string | undefined {
+  return KNOWN_PROTOCOLS.includes(value.toLowerCase()) ? undefined : `"${value}" is not a known protocol`;
+}
+
+function checkTcpFlag(value: string): string | undefined {
+  return TCP_FLAG_FIELDS[value.toLowerCase()] ? undefined : `"${value}" is not a TCP flag name`;
+}
+
+function checkMac(value: string): string | undefined {
+  return MAC_PATTERN.test(value) ? undefined : `"${value}" is not a MAC address`;
+}
+
+function checkContainer(value: string): string | undefined {
+  return isValidAgentName(value) ? undefined : `"${value}" is not an agent name`;
+}
+
+function checkPayload(value: string): string | undefined {
+  if (value.length > MAX_PAYLOAD_LENGTH) return `payload patterns must be at most ${MAX_PAYLOAD_LENGTH} characters`;
+  if (/[\x00-\x1f\x7f]/.test(value)) return 'payload patterns cannot contain control characters';
+  return undefined;
+}
+
+const LIST_FIELDS: Record<ListField, (value: string) => string | undefined> = {
+  ip: checkIp,
+  port: checkPort,
+  protocol: checkProtocol,
+  sourceIp: checkIp,
+  destinationIp: checkIp,
+  sourcePort: checkPort,
+  destinationPort: checkPort,
+  tcpFlags: checkTcpFlag,
+  payloadContent: checkPayload,
+  macAddress: checkMac,
+  container: checkContainer,
+};
+
+const NUMBER_FIELDS = ['packetSizeMin', 'packetSizeMax'] as const;
+const KNOWN_FIELDS = [...Object.keys(LIST_FIELDS), ...NUMBER_FIELDS, 'timeRange'];
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function parsePacketSize(value: unknown): number | undefined {
+  const size = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 0 || size > MAX_PACKET_SIZE) return undefined;
+  return size;
+}
+
+function checkTimeRange(value: string): string | undefined {
+  const [start, end, ...rest] = value.split('/').map((v) => v.trim());
+  if (rest.length > 0 || (!start && !end)) return 'timeRange must be "<start>/<end>" with ISO 8601 dates';
+  for (const bound of [start, end]) {
+    if (bound && (!ISO_DATE_PATTERN.test(bound) || Number.isNaN(Date.parse(bound)))) {
+      return `"${bound}" is not an ISO 8601 date`;
+    }
+  }
+  if (start && end && Date.parse(start) > Date.parse(end)) return 'timeRange start must not be after its end';
+  return undefined;
+}
+
+/**
+ * Validates a raw `POST /config` body. Blank fields are dropped; every other field is checked and
+ * all problems are reported together.
+ */
+export function validateFilterConfig(raw: unknown): FilterConfigValidation {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { valid: false, errors: [{ field: '', message: 'Configuration must be a JSON object' }] };
+  }
+  const input = raw as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const config: CaptureFilterConfig = {};
+
+  for (const field of Object.keys(input)) {
+    if (!KNOWN_FIELDS.includes(field)) errors.push({ field, message: 'Unknown field' });
+  }
+
+  for (const field of Object.keys(LIST_FIELDS) as ListField[]) {
+    const value = input[field];
+    if (isBlank(value)) continue;
+    const text = typeof value === 'number' ? String(value) : value;
+    if (typeof text !== 'string') {
+      errors.push({ field, message: 'Must be a string of comma-separated values' });
+      continue;
+    }
+    const values = splitList(text);
+    for (const v of values) {
+      const message = LIST_FIELDS[field](v);
+      if (message) errors.push({ field, message });
+    }
+    if (values.length > 0) config[field] = values.join(',');
+  }
+
+  for (const field of NUMBER_FIELDS) {
+    if (isBlank(input[field])) continue;
+    const size = parsePacketSize(input[field]);
+    if (size === undefined) {
+      errors.push({ field, message: `Must be an integer between 0 and ${MAX_PACKET_SIZE}` });
+    } else {
+      config[field] = size;
+    }
+  }
+  if (config.packetSizeMin !== undefined && config.packetSizeMax !== undefined && config.packetSizeMin > config.packetSizeMax) {
+    errors.push({ field: 'packetSizeMin', message: 'Must not be greater than packetSizeMax' });
+  }
+
+  if (!isBlank(input.timeRange)) {
+    const message = typeof input.timeRange === 'string' ? checkTimeRange(input.timeRange) : 'Must be a string';
+    if (message) errors.push({ field: 'timeRange', message });
+    else config.timeRange = (input.timeRange as string).trim();
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, config };
+}
+
+/**
+ * Escapes a value for use inside a double-quoted display filter string.
+ */
+function quoteFilterString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function ipField(ip: string, direction: 'addr' | 'src' | 'dst'): string {
+  return `${net.isIP(ip.split('/')[0]) === 6 ? 'ipv6' : 'ip'}.${direction} == ${ip}`;
+}
+
+function portMatch(field: string, port: string): string {
+  const [start, end] = port.split('-');
+  return end === undefined ? `${field} == ${start}` : `${field} in {${start}..${end}}`;
+}
+
+function epochSeconds(date: string): string {
+  return String(Date.parse(date) / 1000);
+}
+
+/**
+ * Converts a config object to a Wireshark display filter string.
+ * Supports multiple comma-separated values for each field.
+ * @param interfaces - The container behind each interface of the capture being filtered, in interface
+ * order (see `mergePcaps`). `container` values that are not in the list match no packet.
+ */
+export function buildWiresharkFilterFromConfig(config: CaptureFilterConfig, interfaces: string[] = []): string {
+  const filters: string[] = [];
+
+  // Helper to handle multiple values per field
+  function multiFilter(field: ListField, cb: (val: string) => string): string | undefined {
+    if (!config[field]) return undefined;
+    const values = splitList(config[field] as string);
+    if (values.length === 0) return undefined;
+    return values.map(cb).join(' or ');
+  }
+
+  // IP address (src or dst)
+  const ipFilter = multiFilter('ip', (ip) => ipField(ip, 'addr'));
+  if (ipFilter) filters.push(`(${ipFilter})`);
+
+  // Port (tcp or udp)
+  const portFilter = multiFilter('port', (port) => `(${portMatch('tcp.port', port)} or ${portMatch('udp.port', port)})`);
+  if (portFilter) filters.push(`(${portFilter})`);
+
+  // Protocol (tcp, udp, icmp, etc.)
+  const protocolFilter = multiFilter('protocol', (proto) => proto.toLowerCase());
+  if (protocolFilter) filters.push(`(${protocolFilter})`);
+
+  // Source IP
+  const srcIpFilter = multiFilter('sourceIp', (ip) => ipField(ip, 'src'));
+  if (srcIpFilter) filters.push(`(${srcIpFilter})`);
+
+  // Destination IP
+  const dstIpFilter = multiFilter('destinationIp', (ip) => ipField(ip, 'dst'));
+  if (dstIpFilter) filters.push(`(${dstIpFilter})`);
+
+  // Source Port
+  const srcPortFilter = multiFilter('sourcePort', (port) => `(${portMatch('tcp.srcport', port)} or ${portMatch('udp.srcport', port)})`);
+  if (srcPortFilter) filters.push(`(${srcPortFilter})`);
+
+  // Destination Port
+  const dstPortFilter = multiFilter('destinationPort', (port) => `(${portMatch('tcp.dstport', port)} or ${portMatch('udp.dstport', port)})`);
+  if (dstPortFilter) filters.push(`(${dstPortFilter})`);
+
+  // Packet size min/max
+  if (config.packetSizeMin !== undefined) {
+    filters.push(`frame.len >= ${config.packetSizeMin}`);
+  }
+  if (config.packetSizeMax !== undefined) {
+    filters.push(`frame.len <= ${config.packetSizeMax}`);
+  }
+
+  // Time range, compared as epoch seconds so time zones in the ISO dates are honored
+  if (config.timeRange) {
+    const [start, end] = config.timeRange.split('/').map((v) => v.trim());
+    if (start) filters.push(`frame.time_epoch >= ${epochSeconds(start)}`);
+    if (end) filters.push(`frame.time_epoch <= ${epochSeconds(end)}`);
+  }
+
+  // TCP Flags
+  const tcpFlagsFilter = multiFilter('tcpFlags', (flag) => `tcp.flags.${TCP_FLAG_FIELDS[flag.toLowerCase()]} == 1`);
+  if (tcpFlagsFilter) filters.push(`(${tcpFlagsFilter})`);
+
+  // Payload content
+  const payloadContentFilter = multiFilter('payloadContent', (content) => `frame contains ${quoteFilterString(content)}`);
+  if (payloadContentFilter) filters.push(`(${payloadContentFilter})`);
+
+  // MAC address
+  const macFilter = multiFilter('macAddress', (mac) => `eth.addr == ${mac.toLowerCase().replace(/-/g, ':')}`);
+  if (macFilter) filters.push(`(${macFilter})`);
+
+  // Container, by the capture interface its file was merged into; frame numbers start at 1
+  const containerFilter = multiFilter('container', (name) =>
+    interfaces.includes(name) ? `frame.interface_id == ${interfaces.indexOf(name)}` : 'frame.number == 0'
+  );
+  if (containerFilter) filters.push(`(${containerFilter})`);
+
+  return filters.join(' and ');
+}
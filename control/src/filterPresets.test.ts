@@ -0,0 +1,57 @@
+import {
+  isValidPresetName,
+  validateFilterPreset,
+  presetDisplayFilter,
+  listFilterPresets,
+  getFilterPreset,
+  saveFilterPreset,
+  removeFilterPreset,
+} from './filterPresets';
+
+describe('filter presets', () => {
+  it('should reject names that cannot be views', () => {
+    expect(isValidPresetName('web-traffic_2')).toBe(true);
+    expect(isValidPresetName('merged')).toBe(false);
+    expect(isValidPresetName('filtered')).toBe(false);
+    expect(isValidPresetName('../etc')).toBe(false);
+    expect(isValidPresetName('')).toBe(false);
+  });
+
+  it('should validate the config like POST /config', () => {
+    const result = validateFilterPreset({ name: 'web', config: { port: '80, 443', ip: 'nope' }, color: 'red' });
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        { field: 'color', message: 'Unknown field' },
+        { field: 'config.ip', message: '"nope" is not a valid IP address or CIDR block' },
+      ],
+    });
+  });
+
+  it('should require a config or a display filter', () => {
+    expect(validateFilterPreset({ name: 'empty', config: { port: '' }, displayFilter: '  ' })).toEqual({
+      valid: false,
+      errors: [{ field: '', message: 'A preset needs a non-empty config or displayFilter' }],
+    });
+    expect(validateFilterPreset({ displayFilter: 'dns\nor http' }).valid).toBe(false);
+  });
+
+  it('should AND the config with the raw display filter', () => {
+    const result = validateFilterPreset({ config: { port: '53' }, displayFilter: ' dns.flags.rcode != 0 ' });
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.input.displayFilter).toBe('dns.flags.rcode != 0');
+    expect(presetDisplayFilter(result.input)).toBe('((tcp.port == 53 or udp.port == 53)) and (dns.flags.rcode != 0)');
+    expect(presetDisplayFilter({ displayFilter: 'http.response.code >= 500' })).toBe('http.response.code >= 500');
+  });
+
+  it('should create, replace and remove presets', () => {
+    const created = saveFilterPreset('errors', { displayFilter: 'http.response.code >= 500' });
+    const replaced = saveFilterPreset('errors', { displayFilter: 'http.response.code >= 400', description: '4xx and 5xx' });
+    expect(replaced.createdAt).toBe(created.createdAt);
+    expect(getFilterPreset('errors')).toMatchObject({ displayFilter: 'http.response.code >= 400', description: '4xx and 5xx' });
+    expect(listFilterPresets().map((preset) => preset.name)).toEqual(['errors']);
+    expect(removeFilterPreset('errors')).toBe(true);
+    expect(removeFilterPreset('errors')).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @file filterPresets.ts
+ * @description Named filter presets. A preset combines the structured fields of `POST /config`
+ * (see filterConfig.ts) with an optional raw Wireshark display filter for what those fields cannot
+ * express; both parts must match. Presets are applied to sessions as named views and are persisted to
+ * `<dataDir>/filters.json`.
+ */
+
+import path from 'path';
+import fsSync from 'fs';
+import { CaptureFilterConfig, FieldError, validateFilterConfig, buildWiresharkFilterFromConfig } from './filterConfig';
+
+export interface FilterPreset {
+  name: string;
+  description?: string;
+  config?: CaptureFilterConfig;
+  displayFilter?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FilterPresetInput {
+  description?: string;
+  config?: CaptureFilterConfig;
+  displayFilter?: string;
+}
+
+export type FilterPresetValidation =
+  | { valid: true; input: FilterPresetInput }
+  | { valid: false; errors: FieldError[] };
+
+// Preset names double as view directory names and `view=` values, next to the two built-in views
+const NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+export const BUILT_IN_VIEWS = ['merged', 'filtered'];
+const MAX_DISPLAY_FILTER_LENGTH = 2048;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const presets = new Map<string, FilterPreset>();
+let presetsFile: string | undefined;
+
+export function isValidPresetName(name: string): boolean {
+  return NAME_PATTERN.test(name) && !BUILT_IN_VIEWS.includes(name);
+}
+
+/**
+ * Validates a preset body (`{ description, config, displayFilter }`). The config is checked like
+ * `POST /config`; the raw display filter is only checked for shape here, since tshark reports its
+ * syntax errors when the preset is applied.
+ */
+export function validateFilterPreset(raw: unknown): FilterPresetValidation {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { valid: false, errors: [{ field: '', message: 'Preset must be a JSON object' }] };
+  }
+  const body = raw as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const input: FilterPresetInput = {};
+
+  for (const field of Object.keys(body)) {
+    if (!['name', 'description', 'config', 'displayFilter'].includes(field)) errors.push({ field, message: 'Unknown field' });
+  }
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string' || body.description.length > MAX_DESCRIPTION_LENGTH) {
+      errors.push({ field: 'description', message: `Must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` });
+    } else {
+      input.description = body.description;
+    }
+  }
+  if (body.config !== undefined) {
+    const validation = validateFilterConfig(body.config);
+    if (validation.valid) {
+      if (buildWiresharkFilterFromConfig(validation.config)) input.config = validation.config;
+    } else {
+      errors.push(...validation.errors.map((error) => ({ field: `config.${error.field}`.replace(/\.$/, ''), message: error.message })));
+    }
+  }
+  if (body.displayFilter !== undefined) {
+    const filter = typeof body.displayFilter === 'string' ? body.displayFilter.trim() : undefined;
+    if (filter === undefined || filter.length > MAX_DISPLAY_FILTER_LENGTH || /[\x00-\x1f]/.test(filter)) {
+      errors.push({ field: 'displayFilter', message: `Must be a single-line string of at most ${MAX_DISPLAY_FILTER_LENGTH} characters` });
+    } else if (filter) {
+      input.displayFilter = filter;
+    }
+  }
+  if (errors.length === 0 && !input.config && !input.displayFilter) {
+    errors.push({ field: '', message: 'A preset needs a non-empty config or displayFilter' });
+  }
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, input };
+}
+
+/**
+ * The display filter a preset applies: its config and raw filter ANDed together.
+ * @param interfaces - Container behind each interface of the capture, for the config's `container` field.
+ */
+export function presetDisplayFilter(preset: FilterPresetInput, interfaces?: string[]): string {
+  const configFilter = preset.config ? buildWiresharkFilterFromConfig(preset.config, interfaces) : '';
+  if (!preset.displayFilter) return configFilter;
+  // The config filter is a conjunction of parenthesized terms; the raw filter may contain `or`
+  return configFilter ? `${configFilter} and (${preset.displayFilter})` : preset.displayFilter;
+}
+
+function persist() {
+  if (!presetsFile) return;
+  fsSync.writeFileSync(presetsFile, JSON.stringify([...presets.values()], null, 2), 'utf-8');
+}
+
+/**
+ * Loads the persisted presets. Call once when the server starts.
+ */
+export function loadFilterPresets(dataDir: string): void {
+  presetsFile = path.join(dataDir, 'filters.json');
+  if (!fsSync.existsSync(presetsFile)) return;
+  for (const preset of JSON.parse(fsSync.readFileSync(presetsFile, 'utf-8')) as FilterPreset[]) {
+    presets.set(preset.name, preset);
+  }
+}
+
+export function listFilterPresets(): FilterPreset[] {
+  return [...presets.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getFilterPreset(name: string): FilterPreset | undefined {
+  return presets.get(name);
+}
+
+/**
+ * Creates or replaces a preset. The input must already have passed `validateFilterPreset`.
+ */
+export function saveFilterPreset(name: string, input: FilterPresetInput): FilterPreset {
+  const now = new Date().toISOString();
+  const preset: FilterPreset = {
+    name,
+    description: input.description,
+    config: input.config,
+    displayFilter: input.displayFilter,
+    createdAt: presets.get(name)?.createdAt ?? now,
+    updatedAt: now,
+  };
+  presets.set(name, preset);
+  persist();
+  return preset;
+}
+
+export function removeFilterPreset(name: string): boolean {
+  if (!presets.delete(name)) return false;
+  persist();
+  return true;
+}
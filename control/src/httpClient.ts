@@ -0,0 +1,9 @@
+/**
+ * @file httpClient.ts
+ * @description The part of axios control uses to call the agents and the alert webhook. `createApp` takes
+ * one, so tests can stand in for the agents without a network.
+ */
+
+import { AxiosInstance } from 'axios';
+
+export type HttpClient = Pick<AxiosInstance, 'get' | 'post'>;
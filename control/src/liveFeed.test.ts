@@ -0,0 +1,160 @@
+import http from 'http';
+import express from 'express';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { compileLiveFilter, addLiveClient, startLiveFeed, stopLiveFeed, setLiveFilter, PacketSummary } from './liveFeed';
+import { HttpClient } from './httpClient';
+import { logEvent } from './logger';
+
+jest.mock('./logger', () => ({ logEvent: jest.fn() }));
+
+function summary(overrides: Partial<PacketSummary> = {}): PacketSummary {
+  return {
+    containerName: 'scan1',
+    time: Date.parse('2025-01-01T12:00:00Z') / 1000,
+    length: 74,
+    protocols: ['eth', 'ip', 'tcp'],
+    sourceMac: '02:42:ac:11:00:02',
+    destinationMac: '02:42:ac:11:00:03',
+    source: '10.0.0.1',
+    destination: '192.168.1.10',
+    sourcePort: 40000,
+    destinationPort: 80,
+    ...overrides,
+  };
+}
+
+describe('live filter', () => {
+  it('should match everything without a config', () => {
+    expect(compileLiveFilter(undefined).matches(summary())).toBe(true);
+  });
+
+  it('should AND fields and OR values within a field', () => {
+    const filter = compileLiveFilter({ ip: '192.168.1.0/24, 172.16.0.1', port: '443, 70-90', protocol: 'tcp' });
+    expect(filter.matches(summary())).toBe(true);
+    expect(filter.matches(summary({ destinationPort: 8080 }))).toBe(false);
+    expect(filter.matches(summary({ destination: '192.168.2.10' }))).toBe(false);
+    expect(filter.matches(summary({ protocols: ['eth', 'ip', 'udp'] }))).toBe(false);
+  });
+
+  it('should honor direction, size, time and MAC fields', () => {
+    expect(compileLiveFilter({ sourceIp: '192.168.1.10' }).matches(summary())).toBe(false);
+    expect(compileLiveFilter({ destinationPort: '80' }).matches(summary())).toBe(true);
+    expect(compileLiveFilter({ packetSizeMin: 100 }).matches(summary())).toBe(false);
+    expect(compileLiveFilter({ timeRange: '2025-01-01T11:00:00Z/2025-01-01T13:00:00Z' }).matches(summary())).toBe(true);
+    expect(compileLiveFilter({ timeRange: '2025-01-02/' }).matches(summary())).toBe(false);
+    expect(compileLiveFilter({ macAddress: '02-42-AC-11-00-03' }).matches(summary())).toBe(true);
+    expect(compileLiveFilter({ ip: 'fe80::/10' }).matches(summary({ source: 'fe80::1', destination: 'ff02::1' }))).toBe(true);
+    expect(compileLiveFilter({ container: 'scan2,scan1' }).matches(summary())).toBe(true);
+    expect(compileLiveFilter({ container: 'scan2' }).matches(summary())).toBe(false);
+  });
+
+  it('should report the fields it cannot evaluate', () => {
+    const filter = compileLiveFilter({ protocol: 'http', tcpFlags: 'syn', payloadContent: 'GET', port: '80' });
+    expect(filter.ignoredFields).toEqual(['protocol', 'tcpFlags', 'payloadContent']);
+    expect(filter.matches(summary())).toBe(true);
+  });
+});
+
+describe('live feed', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    const app = express();
+    app.get('/live', (req, res) => addLiveClient(res));
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    jest.restoreAllMocks();
+    server.close(done);
+  });
+
+  // Reads SSE events until `count` packet events have arrived
+  function readPackets(count: number): Promise<{ events: string[]; packets: any[] }> {
+    return new Promise((resolve, reject) => {
+      const request = http.get(`${baseUrl}/live`, (res) => {
+        const events: string[] = [];
+        const packets: any[] = [];
+        let buffer = '';
+        res.setEncoding('utf-8');
+        res.on('data', (chunk) => {
+          buffer += chunk;
+          const blocks = buffer.split('\n\n');
+          buffer = blocks.pop() || '';
+          for (const block of blocks) {
+            const event = /^event: (.*)$/m.exec(block)?.[1];
+            const data = /^data: (.*)$/m.exec(block)?.[1];
+            if (!event) continue;
+            events.push(event);
+            if (event === 'packet') packets.push(JSON.parse(data as string));
+            if (event === 'filter' && events.filter((e) => e === 'filter').length === 1) {
+              // Connected: start the feed once the client is registered
+              startLiveFeed('session-1', ['scan1', 'scan2']);
+            }
+            if (packets.length === count) {
+              request.destroy();
+              resolve({ events, packets });
+            }
+          }
+        });
+      });
+      request.on('error', (err: NodeJS.ErrnoException) => {
+        if (!err.code?.startsWith('ECONNRESET')) reject(err);
+      });
+    });
+  }
+
+  it('should forward matching agent summaries as SSE packet events', async () => {
+    setLiveFilter({ port: '80' });
+    const lines = () => [
+      JSON.stringify({ time: 1, length: 60, protocols: ['ip', 'tcp'], source: '10.0.0.1', sourcePort: 1234, destinationPort: 80 }) + '\n',
+      JSON.stringify({ time: 2, length: 60, protocols: ['ip', 'udp'], source: '10.0.0.2', sourcePort: 53, destinationPort: 5353 }) + '\n',
+      `{"time": 3, "trunc`,
+    ];
+    const get = jest.spyOn(axios, 'get').mockImplementation(async () => ({ data: Readable.from(lines()) }));
+    const { events, packets } = await readPackets(2);
+    stopLiveFeed();
+    expect(events.slice(0, 2)).toEqual(['session', 'filter']);
+    expect(packets.map((p) => p.containerName).sort()).toEqual(['scan1', 'scan2']);
+    expect(packets.every((p) => p.destinationPort === 80)).toBe(true);
+    expect(get).toHaveBeenCalledWith('http://scan1:3000/live?session=session-1', expect.objectContaining({ responseType: 'stream' }));
+  });
+
+  it('should pass every summary to the observer, whatever the live filter', async () => {
+    setLiveFilter({ port: '443' });
+    const line = JSON.stringify({ time: 1, length: 60, protocols: ['ip', 'tcp'], source: '10.0.0.1', sourcePort: 1234, destinationPort: 80 });
+    const get = jest.fn(async () => ({ data: Readable.from([line + '\n']) }));
+    const observed: PacketSummary[] = [];
+    await new Promise<void>((resolve) => {
+      startLiveFeed('session-2', ['scan1', 'scan2'], { get } as unknown as HttpClient, (packet) => {
+        observed.push(packet);
+        if (observed.length === 2) resolve();
+      });
+    });
+    stopLiveFeed();
+    setLiveFilter(undefined);
+    expect(observed.map((packet) => [packet.containerName, packet.destinationPort]).sort()).toEqual([['scan1', 80], ['scan2', 80]]);
+  });
+
+  it('should log observer errors and keep reading the stream', async () => {
+    const lines = [1, 2].map((time) => JSON.stringify({ time, length: 60, protocols: ['ip', 'tcp'], destinationPort: 80 }) + '\n');
+    const get = jest.fn(async () => ({ data: Readable.from(lines) }));
+    const observed: number[] = [];
+    await new Promise<void>((resolve) => {
+      startLiveFeed('session-3', ['scan1'], { get } as unknown as HttpClient, (packet) => {
+        observed.push(packet.time);
+        if (packet.time === 1) throw new Error('rule failed');
+        resolve();
+      });
+    });
+    stopLiveFeed();
+    expect(observed).toEqual([1, 2]);
+    expect(logEvent).toHaveBeenCalledWith('Live feed', 'Observer error: rule failed', false, { sessionId: 'session-3', containerName: 'scan1' });
+  });
+});
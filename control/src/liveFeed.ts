@@ -0,0 +1,324 @@
+/**
+ * @file liveFeed.ts
+ * @description Live view of a running capture. Control reads each agent's `/live` NDJSON stream of packet
+ * summaries and forwards them as Server-Sent Events to every `GET /live` client, keeping only the packets
+ * that match the saved filter config.
+ *
+ * Summaries carry addresses, ports, MACs, length, time and the link/network/transport protocols, so the
+ * filter is evaluated in JavaScript on those. Fields a summary cannot answer (TCP flags, payload content,
+ * application protocols such as `http`) are ignored by the live view and reported to clients.
+ *
+ * Control also follows the `/live?ring=true` stream of every agent whose ring buffer records, so the snapshot
+ * rules see that traffic; those packets are not forwarded to the clients.
+ */
+
+import net from 'net';
+import readline from 'readline';
+import axios from 'axios';
+import { Response } from 'express';
+import { CaptureFilterConfig } from './filterConfig';
+import { agentRequestHeaders } from './auth';
+import { HttpClient } from './httpClient';
+import { logEvent } from './logger';
+
+export interface PacketSummary {
+  containerName: string;
+  time: number;
+  length: number;
+  protocols: string[];
+  sourceMac?: string;
+  destinationMac?: string;
+  source?: string;
+  destination?: string;
+  sourcePort?: number;
+  destinationPort?: number;
+}
+
+export interface LiveFilter {
+  config?: CaptureFilterConfig;
+  // Config fields the live view cannot evaluate and therefore ignores
+  ignoredFields: string[];
+  matches: (summary: PacketSummary) => boolean;
+}
+
+// Protocols a packet summary can report
+const LIVE_PROTOCOLS = ['eth', 'arp', 'ip', 'ipv6', 'tcp', 'udp', 'icmp', 'icmpv6', 'igmp'];
+const KEEPALIVE_MS = 15000;
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
+interface LiveClient {
+  res: Response;
+  keepalive: NodeJS.Timeout;
+  dropped: number;
+}
+
+const clients = new Set<LiveClient>();
+let liveFilter: LiveFilter = compileLiveFilter(undefined);
+let feedSessionId: string | undefined;
+let feedAbort: AbortController | undefined;
+// Sees every summary of the feed, whatever the filter; used for the live alert rules
+let feedObserver: ((summary: PacketSummary) => void) | undefined;
+// Ring buffer streams followed, by agent
+const ringFeeds = new Map<string, AbortController>();
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+function addressMatcher(values: string[]): (address: string | undefined) => boolean {
+  const blockList = new net.BlockList();
+  for (const value of values) {
+    const [address, prefix] = value.split('/');
+    const type = net.isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) blockList.addAddress(address, type);
+    else blockList.addSubnet(address, Number(prefix), type);
+  }
+  return (address) => {
+    if (!address) return false;
+    const version = net.isIP(address);
+    return version !== 0 && blockList.check(address, version === 6 ? 'ipv6' : 'ipv4');
+  };
+}
+
+function portMatcher(values: string[]): (port: number | undefined) => boolean {
+  const ranges = values.map((value) => {
+    const [start, end] = value.split('-').map(Number);
+    return [start, end === undefined ? start : end];
+  });
+  return (port) => port !== undefined && ranges.some(([start, end]) => port >= start && port <= end);
+}
+
+/**
+ * Compiles a (validated) filter config into a predicate over packet summaries, with the same semantics
+ * as `buildWiresharkFilterFromConfig`: fields are ANDed, values within a field are ORed.
+ */
+export function compileLiveFilter(config: CaptureFilterConfig | undefined): LiveFilter {
+  if (!config) return { config, ignoredFields: [], matches: () => true };
+  const checks: ((summary: PacketSummary) => boolean)[] = [];
+  const ignoredFields: string[] = [];
+
+  if (config.ip) {
+    const match = addressMatcher(splitList(config.ip));
+    checks.push((s) => match(s.source) || match(s.destination));
+  }
+  if (config.sourceIp) {
+    const match = addressMatcher(splitList(config.sourceIp));
+    checks.push((s) => match(s.source));
+  }
+  if (config.destinationIp) {
+    const match = addressMatcher(splitList(config.destinationIp));
+    checks.push((s) => match(s.destination));
+  }
+  if (config.port) {
+    const match = portMatcher(splitList(config.port));
+    checks.push((s) => match(s.sourcePort) || match(s.destinationPort));
+  }
+  if (config.sourcePort) {
+    const match = portMatcher(splitList(config.sourcePort));
+    checks.push((s) => match(s.sourcePort));
+  }
+  if (config.destinationPort) {
+    const match = portMatcher(splitList(config.destinationPort));
+    checks.push((s) => match(s.destinationPort));
+  }
+  if (config.protocol) {
+    const protocols = splitList(config.protocol).map((p) => p.toLowerCase());
+    if (protocols.every((p) => LIVE_PROTOCOLS.includes(p))) {
+      checks.push((s) => protocols.some((p) => s.protocols.includes(p)));
+    } else {
+      ignoredFields.push('protocol');
+    }
+  }
+  if (config.packetSizeMin !== undefined) {
+    const min = config.packetSizeMin;
+    checks.push((s) => s.length >= min);
+  }
+  if (config.packetSizeMax !== undefined) {
+    const max = config.packetSizeMax;
+    checks.push((s) => s.length <= max);
+  }
+  if (config.timeRange) {
+    const [start, end] = config.timeRange.split('/').map((v) => v.trim());
+    const from = start ? Date.parse(start) / 1000 : -Infinity;
+    const to = end ? Date.parse(end) / 1000 : Infinity;
+    checks.push((s) => s.time >= from && s.time <= to);
+  }
+  if (config.macAddress) {
+    const macs = splitList(config.macAddress).map((mac) => mac.toLowerCase().replace(/-/g, ':'));
+    checks.push((s) => macs.includes(s.sourceMac || '') || macs.includes(s.destinationMac || ''));
+  }
+  if (config.container) {
+    const containers = splitList(config.container);
+    checks.push((s) => containers.includes(s.containerName));
+  }
+  if (config.tcpFlags) ignoredFields.push('tcpFlags');
+  if (config.payloadContent) ignoredFields.push('payloadContent');
+
+  return { config, ignoredFields, matches: (summary) => checks.every((check) => check(summary)) };
+}
+
+function send(client: LiveClient, event: string, data: unknown) {
+  client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function broadcast(event: string, data: unknown) {
+  for (const client of clients) send(client, event, data);
+}
+
+function filterEvent() {
+  return { filter: liveFilter.config ?? null, ignoredFields: liveFilter.ignoredFields };
+}
+
+/**
+ * Replaces the filter applied to the feed, e.g. after `POST /config`.
+ */
+export function setLiveFilter(config: CaptureFilterConfig | undefined) {
+  liveFilter = compileLiveFilter(config);
+  broadcast('filter', filterEvent());
+}
+
+/**
+ * Registers an SSE client. It first receives the current session and filter, then `packet` events.
+ */
+export function addLiveClient(res: Response) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+  const client: LiveClient = {
+    res,
+    dropped: 0,
+    keepalive: setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS),
+  };
+  client.keepalive.unref();
+  clients.add(client);
+  send(client, 'session', { sessionId: feedSessionId ?? null });
+  send(client, 'filter', filterEvent());
+  res.on('close', () => {
+    clearInterval(client.keepalive);
+    clients.delete(client);
+  });
+}
+
+function publish(summary: PacketSummary) {
+  feedObserver?.(summary);
+  if (!liveFilter.matches(summary)) return;
+  for (const client of clients) {
+    // A client that cannot keep up misses packets instead of buffering them in control
+    if (client.res.writableNeedDrain) {
+      client.dropped++;
+      continue;
+    }
+    send(client, 'packet', summary);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms).unref());
+}
+
+/**
+ * Follows one agent's `/live` stream (at `url`) until it ends. Connection errors are retried a few times;
+ * a 4xx answer means the agent is not capturing what was asked for and is not retried.
+ */
+async function followAgent(
+  http: HttpClient,
+  url: string,
+  containerName: string,
+  signal: AbortSignal,
+  onSummary: (summary: PacketSummary) => void,
+  sessionId?: string
+) {
+  for (let attempt = 1; attempt <= MAX_RECONNECTS && !signal.aborted; attempt++) {
+    try {
+      const response = await http.get(url, { responseType: 'stream', signal, headers: agentRequestHeaders('GET', url) });
+      const stream = response.data;
+      if (!stream || typeof stream.on !== 'function') return;
+      const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line) continue;
+        let summary: PacketSummary;
+        try {
+          summary = { ...JSON.parse(line), containerName };
+        } catch {
+          // A truncated line from an interrupted stream; skip it
+          continue;
+        }
+        try {
+          onSummary(summary);
+        } catch (err: any) {
+          // A failing observer (e.g. a live alert rule) must not end the stream
+          logEvent('Live feed', `Observer error: ${err?.message || String(err)}`, false, { sessionId, containerName });
+        }
+      }
+      return;
+    } catch (err: any) {
+      if (signal.aborted || (err?.response && err.response.status < 500)) return;
+      logEvent('Live feed', `Attempt ${attempt} | Error: ${err?.message || String(err)}`, false, { sessionId, containerName });
+      await sleep(RECONNECT_DELAY_MS * attempt);
+    }
+  }
+}
+
+/**
+ * Starts forwarding the summaries of `sessionId` from `containers` to the live clients, and to `observe`
+ * when given.
+ */
+export function startLiveFeed(
+  sessionId: string,
+  containers: string[],
+  http: HttpClient = axios,
+  observe?: (summary: PacketSummary) => void
+) {
+  stopLiveFeed();
+  feedSessionId = sessionId;
+  feedObserver = observe;
+  const abort = new AbortController();
+  feedAbort = abort;
+  broadcast('session', { sessionId });
+  for (const containerName of containers) {
+    followAgent(http, `http://${containerName}:3000/live?session=${sessionId}`, containerName, abort.signal, publish, sessionId);
+  }
+}
+
+export function stopLiveFeed() {
+  if (!feedAbort) return;
+  feedAbort.abort();
+  feedAbort = undefined;
+  for (const client of clients) {
+    if (client.dropped > 0) send(client, 'dropped', { packets: client.dropped });
+    client.dropped = 0;
+  }
+  broadcast('session', { sessionId: null, endedSessionId: feedSessionId });
+  feedSessionId = undefined;
+  feedObserver = undefined;
+}
+
+/**
+ * Follows the packets an agent's ring buffer records and passes them to `observe`, until the ring stops.
+ * Following an agent again replaces its earlier stream.
+ */
+export function followRing(containerName: string, http: HttpClient, observe: (summary: PacketSummary) => void) {
+  unfollowRing(containerName);
+  const abort = new AbortController();
+  ringFeeds.set(containerName, abort);
+  followAgent(http, `http://${containerName}:3000/live?ring=true`, containerName, abort.signal, observe).finally(() => {
+    if (ringFeeds.get(containerName) === abort) ringFeeds.delete(containerName);
+  });
+}
+
+export function isFollowingRing(containerName: string): boolean {
+  return ringFeeds.has(containerName);
+}
+
+/**
+ * Stops following the ring buffer of `containerName`, or of every agent.
+ */
+export function unfollowRing(containerName?: string) {
+  for (const [name, abort] of ringFeeds) {
+    if (containerName !== undefined && name !== containerName) continue;
+    abort.abort();
+    ringFeeds.delete(name);
+  }
+}
@@ -0,0 +1,94 @@
+import fsSync from 'fs';
+import os from 'os';
+import path from 'path';
+
+// logger.ts reads its configuration when it is loaded
+function loadLogger(env: Record<string, string>): typeof import('./logger') {
+  let logger: typeof import('./logger') | undefined;
+  const previous = { ...process.env };
+  Object.assign(process.env, env);
+  jest.isolateModules(() => {
+    logger = require('./logger');
+  });
+  process.env = previous;
+  return logger as typeof import('./logger');
+}
+
+function readLines(file: string): any[] {
+  return fsSync.readFileSync(file, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+}
+
+describe('event log', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'event-log-'));
+  });
+
+  afterEach(() => {
+    fsSync.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write one structured JSON event per line', () => {
+    const logger = loadLogger({ EVENT_LOG_DIR: dir });
+    logger.logEvent('Monitoring started', undefined, true, { sessionId: 's1', containerName: 'scan1', command: 'GET /start' });
+    const [entry] = readLines(path.join(dir, 'events.ndjson'));
+    expect(entry).toMatchObject({
+      source: 'control',
+      event: 'Monitoring started',
+      success: true,
+      sessionId: 's1',
+      containerName: 'scan1',
+      command: 'GET /start',
+    });
+    expect(Date.parse(entry.time)).not.toBeNaN();
+  });
+
+  it('should rotate the file and keep a bounded number of generations', () => {
+    const logger = loadLogger({ EVENT_LOG_DIR: dir, EVENT_LOG_MAX_BYTES: '300', EVENT_LOG_FILES: '2' });
+    for (let i = 0; i < 20; i++) logger.logEvent('Filtering', `Run ${i}`, true);
+    expect(fsSync.readdirSync(dir).sort()).toEqual(['events.1.ndjson', 'events.2.ndjson', 'events.ndjson']);
+    for (const file of fsSync.readdirSync(dir)) {
+      expect(fsSync.statSync(path.join(dir, file)).size).toBeLessThanOrEqual(300);
+    }
+    expect(readLines(path.join(dir, 'events.ndjson')).pop().details).toBe('Run 19');
+  });
+
+  it('should query across rotated files, newest first', async () => {
+    const logger = loadLogger({ EVENT_LOG_DIR: dir, EVENT_LOG_MAX_BYTES: '400' });
+    const event = (time: string, type: string, success: boolean, sessionId?: string) =>
+      logger.recordEvent({ time, source: 'control', event: type, success, sessionId });
+    event('2025-01-01T10:00:00.000Z', 'Monitoring started', true, 's1');
+    event('2025-01-01T10:05:00.000Z', 'Filtering', false, 's1');
+    event('2025-01-01T11:00:00.000Z', 'Monitoring started', true, 's2');
+    event('2025-01-01T11:05:00.000Z', 'Filtering', true, 's2');
+    event('2025-01-01T12:00:00.000Z', 'Access denied', false);
+    expect(fsSync.existsSync(path.join(dir, 'events.1.ndjson'))).toBe(true);
+
+    const all = await logger.queryEvents({ limit: 10 });
+    expect(all.map((e) => e.time)).toEqual([...all.map((e) => e.time)].sort().reverse());
+    expect(all).toHaveLength(5);
+    expect((await logger.queryEvents({ types: ['Filtering'], success: false, limit: 10 })).map((e) => e.sessionId)).toEqual(['s1']);
+    expect(
+      (await logger.queryEvents({ from: '2025-01-01T10:30:00.000Z', to: '2025-01-01T11:30:00.000Z', limit: 10 })).map((e) => e.event)
+    ).toEqual(['Filtering', 'Monitoring started']);
+    expect((await logger.queryEvents({ limit: 2 })).map((e) => e.event)).toEqual(['Access denied', 'Filtering']);
+  });
+
+  it('should keep only the known fields of agent events and attribute them to the agent', () => {
+    const logger = loadLogger({ EVENT_LOG_DIR: dir });
+    expect(logger.eventFromAgent('scan1', { event: 'Capture started', source: 'control', sessionId: 's1', durationMs: 'x', extra: 1 })).toEqual({
+      time: expect.any(String),
+      source: 'scan1',
+      event: 'Capture started',
+      success: undefined,
+      sessionId: 's1',
+      containerName: 'scan1',
+      command: undefined,
+      durationMs: undefined,
+      details: undefined,
+    });
+    expect(logger.eventFromAgent('scan1', { details: 'no type' })).toBeUndefined();
+    expect(logger.eventFromAgent('scan1', 'text')).toBeUndefined();
+  });
+});
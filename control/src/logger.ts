@@ -0,0 +1,159 @@
+/**
+ * @file logger.ts
+ * @description Structured event log for the whole capture fleet. Every event is one JSON line in
+ * `/data/events.ndjson` (`EVENT_LOG_DIR`); agents' events arrive with their heartbeats and are stored alongside control's.
+ *
+ * The file rotates once it exceeds `EVENT_LOG_MAX_BYTES` (10 MB by default): `events.ndjson` becomes
+ * `events.1.ndjson`, and so on up to `EVENT_LOG_FILES` (5) rotated files, the oldest being dropped.
+ */
+
+import path from 'path';
+import fsSync from 'fs';
+import readline from 'readline';
+
+export interface EventFields {
+  sessionId?: string;
+  containerName?: string;
+  command?: string;
+  durationMs?: number;
+}
+
+export interface LoggedEvent extends EventFields {
+  time: string;
+  // `control`, or the name of the agent that emitted the event
+  source: string;
+  event: string;
+  success?: boolean;
+  details?: string;
+}
+
+export interface EventQuery {
+  from?: string;
+  to?: string;
+  types?: string[];
+  success?: boolean;
+  sessionId?: string;
+  containerName?: string;
+  source?: string;
+  limit: number;
+}
+
+let logDir = process.env.EVENT_LOG_DIR || '/data';
+const logFileName = 'events';
+const maxBytes = Number(process.env.EVENT_LOG_MAX_BYTES) || 10 * 1024 * 1024;
+const maxFiles = Number(process.env.EVENT_LOG_FILES) || 5;
+
+// Size of the current file, read once and then tracked on every write
+let currentSize: number | undefined;
+
+/**
+ * Moves the log to another directory, e.g. the data directory `createApp` was given.
+ */
+export function setEventLogDir(dir: string) {
+  logDir = dir;
+  currentSize = undefined;
+}
+
+function logFile(generation: number = 0): string {
+  return path.join(logDir, generation === 0 ? `${logFileName}.ndjson` : `${logFileName}.${generation}.ndjson`);
+}
+
+function rotate() {
+  fsSync.rmSync(logFile(maxFiles), { force: true });
+  for (let generation = maxFiles - 1; generation >= 0; generation--) {
+    if (fsSync.existsSync(logFile(generation))) fsSync.renameSync(logFile(generation), logFile(generation + 1));
+  }
+  currentSize = 0;
+}
+
+/**
+ * Appends an event as received, e.g. one collected from an agent.
+ * The log must never break the request that is being logged, so write failures only reach the console.
+ */
+export function recordEvent(entry: LoggedEvent) {
+  const line = JSON.stringify(entry) + '\n';
+  const size = Buffer.byteLength(line);
+  try {
+    if (currentSize === undefined) currentSize = fsSync.existsSync(logFile()) ? fsSync.statSync(logFile()).size : 0;
+    if (currentSize > 0 && currentSize + size > maxBytes) rotate();
+    fsSync.appendFileSync(logFile(), line, 'utf-8');
+    currentSize += size;
+  } catch (err: any) {
+    console.error(`Failed to write event log: ${err?.message || String(err)} | ${line.trim()}`);
+  }
+}
+
+/**
+ * Logs a control event.
+ * @param event - The event type, e.g. `Monitoring started`.
+ * @param details - Free-text details about the event.
+ * @param success - Whether the event was successful.
+ * @param fields - Session, container, command and duration the event relates to.
+ */
+export function logEvent(event: string, details?: string, success?: boolean, fields: EventFields = {}) {
+  recordEvent({ time: new Date().toISOString(), source: 'control', event, success, ...fields, details });
+}
+
+function matches(entry: LoggedEvent, query: EventQuery): boolean {
+  if (query.from && entry.time < query.from) return false;
+  if (query.to && entry.time > query.to) return false;
+  if (query.types && !query.types.includes(entry.event)) return false;
+  if (query.success !== undefined && entry.success !== query.success) return false;
+  if (query.sessionId && entry.sessionId !== query.sessionId) return false;
+  if (query.containerName && entry.containerName !== query.containerName) return false;
+  if (query.source && entry.source !== query.source) return false;
+  return true;
+}
+
+/**
+ * Returns the newest `query.limit` events matching the query, newest first. `from` and `to` are
+ * ISO-8601 UTC timestamps and compare as strings.
+ */
+export async function queryEvents(query: EventQuery): Promise<LoggedEvent[]> {
+  // Only the last `limit` matches are kept while scanning from the oldest file to the newest
+  const newest: LoggedEvent[] = [];
+  for (let generation = maxFiles; generation >= 0; generation--) {
+    const file = logFile(generation);
+    if (!fsSync.existsSync(file)) continue;
+    const lines = readline.createInterface({ input: fsSync.createReadStream(file), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line) continue;
+      let entry: LoggedEvent;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (!matches(entry, query)) continue;
+      newest.push(entry);
+      if (newest.length > query.limit) newest.shift();
+    }
+  }
+  return newest.reverse();
+}
+
+const MAX_TEXT_LENGTH = 4096;
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.slice(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+/**
+ * Turns an event reported by an agent into a log entry. Only the known fields are kept, the source is
+ * always the reporting agent, and malformed events are dropped.
+ */
+export function eventFromAgent(containerName: string, raw: any): LoggedEvent | undefined {
+  if (typeof raw !== 'object' || raw === null || typeof raw.event !== 'string') return undefined;
+  const time = typeof raw.time === 'string' && !Number.isNaN(Date.parse(raw.time)) ? new Date(raw.time).toISOString() : new Date().toISOString();
+  return {
+    time,
+    source: containerName,
+    event: raw.event.slice(0, 200),
+    success: typeof raw.success === 'boolean' ? raw.success : undefined,
+    sessionId: text(raw.sessionId),
+    containerName,
+    command: text(raw.command),
+    durationMs: typeof raw.durationMs === 'number' && Number.isFinite(raw.durationMs) ? raw.durationMs : undefined,
+    details: text(raw.details),
+  };
+}
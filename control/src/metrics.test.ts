@@ -0,0 +1,65 @@
+describe('metrics', () => {
+  // The registry is module-level, so every test loads a fresh copy
+  let metrics: typeof import('./metrics');
+
+  beforeEach(() => {
+    jest.isolateModules(() => {
+      metrics = require('./metrics');
+    });
+  });
+
+  it('should render counters with sorted, escaped labels', async () => {
+    const requests = metrics.counter('test_requests_total', 'Requests handled.');
+    requests.inc();
+    requests.inc({ route: '/a"b', method: 'GET' }, 2);
+    requests.inc({ method: 'GET', route: '/a"b' });
+    const text = await metrics.renderMetrics();
+    expect(text).toBe(
+      '# HELP test_requests_total Requests handled.\n' +
+        '# TYPE test_requests_total counter\n' +
+        'test_requests_total 1\n' +
+        'test_requests_total{method="GET",route="/a\\"b"} 3\n'
+    );
+  });
+
+  it('should refresh gauges through collectors before rendering', async () => {
+    const agents = metrics.gauge('test_agents', 'Agents.');
+    agents.set(5, { health: 'dead' });
+    let healthy = 0;
+    metrics.setCollector('agents', () => {
+      agents.reset();
+      agents.set(++healthy, { health: 'healthy' });
+    });
+    expect(await metrics.renderMetrics()).toContain('test_agents{health="healthy"} 1\n');
+    const text = await metrics.renderMetrics();
+    expect(text).toContain('test_agents{health="healthy"} 2\n');
+    expect(text).not.toContain('dead');
+  });
+
+  it('should replace a collector registered again under the same name', async () => {
+    const agents = metrics.gauge('test_agents', 'Agents.');
+    const stale = jest.fn(() => agents.set(1));
+    metrics.setCollector('agents', stale);
+    metrics.setCollector('agents', () => agents.set(2));
+    expect(await metrics.renderMetrics()).toContain('test_agents 2\n');
+    expect(stale).not.toHaveBeenCalled();
+  });
+
+  it('should count histogram observations in cumulative buckets', async () => {
+    const duration = metrics.histogram('test_duration_seconds', 'Durations.', [0.5, 1]);
+    duration.observe(0.2, { tool: 'tshark' });
+    duration.observe(0.7, { tool: 'tshark' });
+    duration.observe(3, { tool: 'tshark' });
+    const text = await metrics.renderMetrics();
+    expect(text).toContain('test_duration_seconds_bucket{tool="tshark",le="0.5"} 1\n');
+    expect(text).toContain('test_duration_seconds_bucket{tool="tshark",le="1"} 2\n');
+    expect(text).toContain('test_duration_seconds_bucket{tool="tshark",le="+Inf"} 3\n');
+    expect(text).toContain('test_duration_seconds_sum{tool="tshark"} 3.9\n');
+    expect(text).toContain('test_duration_seconds_count{tool="tshark"} 3\n');
+  });
+
+  it('should refuse to register a name twice', () => {
+    metrics.counter('test_total', 'First.');
+    expect(() => metrics.gauge('test_total', 'Second.')).toThrow('Metric already registered');
+  });
+});
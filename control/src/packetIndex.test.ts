@@ -0,0 +1,69 @@
+import fsSync from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildPacketIndex, packetCount, readPackets, projectPacket, summarizeCapture, indexPathFor } from './packetIndex';
+
+function packet(n: number, extra: Record<string, any> = {}) {
+  return {
+    _index: 'packets',
+    _source: {
+      layers: {
+        frame: { 'frame.number': String(n), 'frame.time': `t${n}` },
+        ip: { 'ip.src': `10.0.0.${n}`, 'ip.dst': '10.0.0.254' },
+        ...extra,
+      },
+    },
+  };
+}
+
+describe('packet index', () => {
+  let dir: string;
+  let jsonFile: string;
+  const packets = [
+    packet(1),
+    packet(2, { http: { 'http.request.uri': '/a]b}c"d\\\\e', 'http.user_agent': 'café [x]' } }),
+    packet(3),
+  ];
+
+  beforeAll(async () => {
+    dir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'packet-index-'));
+    jsonFile = path.join(dir, 'output.json');
+    // Same layout tshark uses: pretty-printed top-level array
+    fsSync.writeFileSync(jsonFile, JSON.stringify(packets, null, 2), 'utf-8');
+    expect(await buildPacketIndex(jsonFile)).toBe(3);
+  });
+
+  afterAll(() => {
+    fsSync.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write the index next to the JSON file', async () => {
+    expect(indexPathFor(jsonFile)).toBe(path.join(dir, 'output.idx'));
+    expect(await packetCount(indexPathFor(jsonFile))).toBe(3);
+  });
+
+  it('should read pages of packets, including strings with brackets, quotes and UTF-8', async () => {
+    expect(await readPackets(jsonFile, indexPathFor(jsonFile), 0, 2)).toEqual(packets.slice(0, 2));
+    expect(await readPackets(jsonFile, indexPathFor(jsonFile), 2, 10)).toEqual(packets.slice(2));
+    expect(await readPackets(jsonFile, indexPathFor(jsonFile), 5, 10)).toEqual([]);
+  });
+
+  it('should project packets onto field names', () => {
+    expect(projectPacket(packets[1], ['ip.src', 'http.request.uri', 'tcp.port'])).toEqual({
+      'ip.src': '10.0.0.2',
+      'http.request.uri': '/a]b}c"d\\\\e',
+      'tcp.port': null,
+    });
+  });
+
+  it('should summarize a capture from its first and last packets', async () => {
+    expect(await summarizeCapture(jsonFile)).toEqual({ packetCount: 3, firstPacketTime: 't1', lastPacketTime: 't3' });
+  });
+
+  it('should index an empty capture', async () => {
+    const emptyFile = path.join(dir, 'empty.json');
+    fsSync.writeFileSync(emptyFile, '[\n]\n', 'utf-8');
+    expect(await buildPacketIndex(emptyFile)).toBe(0);
+    expect(await summarizeCapture(emptyFile)).toEqual({ packetCount: 0 });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @file packetIndex.ts
+ * @description Byte-offset index over the packet arrays written by `tshark -T json`, so packets can be
+ * paged out of `output.json` / `filtered.json` without loading the whole capture into memory.
+ *
+ * The index (`<name>.idx` next to the JSON file) holds one `[start, end)` pair of byte offsets per
+ * packet, stored as little-endian doubles (exact up to 2^53). It is built with a single streaming
+ * pass over the JSON file.
+ */
+
+import fs from 'fs/promises';
+import fsSync from 'fs';
+
+const ENTRY_SIZE = 16;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+
+export function indexPathFor(jsonFile: string): string {
+  return jsonFile.replace(/\.json$/, '') + '.idx';
+}
+
+/**
+ * Scans `jsonFile` (a top-level JSON array of objects) and writes the offsets of each element to `indexFile`.
+ * Structural characters are ASCII, so scanning raw bytes is safe for UTF-8 content.
+ * @returns The number of packets indexed.
+ */
+export async function buildPacketIndex(jsonFile: string, indexFile: string = indexPathFor(jsonFile)): Promise<number> {
+  const output = fsSync.createWriteStream(indexFile);
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  let position = 0;
+  let count = 0;
+  let pending: Buffer[] = [];
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const chunk = Buffer.concat(pending);
+    pending = [];
+    if (!output.write(chunk)) await new Promise<void>((resolve) => output.once('drain', () => resolve()));
+  };
+
+  const closed = new Promise<void>((resolve, reject) => {
+    output.on('finish', resolve);
+    output.on('error', reject);
+  });
+
+  try {
+    for await (const chunk of fsSync.createReadStream(jsonFile)) {
+      const bytes = chunk as Buffer;
+      for (let i = 0; i < bytes.length; i++, position++) {
+        const byte = bytes[i];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (byte === BACKSLASH) escaped = true;
+          else if (byte === QUOTE) inString = false;
+          continue;
+        }
+        if (byte === QUOTE) {
+          inString = true;
+          if (depth === 1 && elementStart < 0) elementStart = position;
+        } else if (byte === OPEN_BRACE || byte === OPEN_BRACKET) {
+          if (depth === 1 && elementStart < 0) elementStart = position;
+          depth++;
+        } else if (byte === CLOSE_BRACE || byte === CLOSE_BRACKET) {
+          depth--;
+          if (depth === 1 && elementStart >= 0) {
+            const entry = Buffer.alloc(ENTRY_SIZE);
+            entry.writeDoubleLE(elementStart, 0);
+            entry.writeDoubleLE(position + 1, 8);
+            pending.push(entry);
+            elementStart = -1;
+            count++;
+          }
+        }
+      }
+      await flush();
+    }
+  } finally {
+    output.end();
+  }
+  await closed;
+  return count;
+}
+
+export async function packetCount(indexFile: string): Promise<number> {
+  const stats = await fs.stat(indexFile);
+  return Math.floor(stats.size / ENTRY_SIZE);
+}
+
+/**
+ * Reads packets `[offset, offset + limit)` using the index.
+ */
+export async function readPackets(jsonFile: string, indexFile: string, offset: number, limit: number): Promise<any[]> {
+  const total = await packetCount(indexFile);
+  const end = Math.min(offset + limit, total);
+  if (offset >= end) return [];
+
+  const index = await fs.open(indexFile, 'r');
+  const entries = Buffer.alloc((end - offset) * ENTRY_SIZE);
+  try {
+    await index.read(entries, 0, entries.length, offset * ENTRY_SIZE);
+  } finally {
+    await index.close();
+  }
+
+  const rangeStart = entries.readDoubleLE(0);
+  const rangeEnd = entries.readDoubleLE(entries.length - 8);
+  const data = Buffer.alloc(rangeEnd - rangeStart);
+  const json = await fs.open(jsonFile, 'r');
+  try {
+    await json.read(data, 0, data.length, rangeStart);
+  } finally {
+    await json.close();
+  }
+
+  const packets: any[] = [];
+  for (let i = 0; i < end - offset; i++) {
+    const start = entries.readDoubleLE(i * ENTRY_SIZE) - rangeStart;
+    const stop = entries.readDoubleLE(i * ENTRY_SIZE + 8) - rangeStart;
+    packets.push(JSON.parse(data.subarray(start, stop).toString('utf-8')));
+  }
+  return packets;
+}
+
+function findField(node: any, field: string): any {
+  if (node === null || typeof node !== 'object') return undefined;
+  if (Object.prototype.hasOwnProperty.call(node, field)) return node[field];
+  for (const value of Object.values(node)) {
+    const found = findField(value, field);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Projects a tshark packet onto the requested Wireshark field names (e.g. `ip.src`, `frame.time`).
+ * Fields missing from the packet are returned as `null`.
+ */
+export function projectPacket(packet: any, fields: string[]): Record<string, any> {
+  const layers = packet?._source?.layers ?? {};
+  const projected: Record<string, any> = {};
+  for (const field of fields) {
+    const value = findField(layers, field);
+    projected[field] = value === undefined ? null : value;
+  }
+  return projected;
+}
+
+export interface CaptureSummary {
+  packetCount: number;
+  firstPacketTime?: string;
+  lastPacketTime?: string;
+}
+
+/**
+ * Summarizes an indexed capture by reading only its first and last packets.
+ */
+export async function summarizeCapture(jsonFile: string, indexFile: string = indexPathFor(jsonFile)): Promise<CaptureSummary> {
+  const count = await packetCount(indexFile);
+  if (count === 0) return { packetCount: 0 };
+  const [first] = await readPackets(jsonFile, indexFile, 0, 1);
+  const [last] = await readPackets(jsonFile, indexFile, count - 1, 1);
+  return {
+    packetCount: count,
+    firstPacketTime: projectPacket(first, ['frame.time'])['frame.time'] ?? undefined,
+    lastPacketTime: projectPacket(last, ['frame.time'])['frame.time'] ?? undefined,
+  };
+}
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { mergePcaps, pcapToJson, filterPcapAndJson } from './pcapPipeline';
+import { buildWiresharkFilterFromConfig } from './filterConfig';
+import { readPackets, projectPacket, indexPathFor } from './packetIndex';
+import { countPacketsPerContainer } from './trafficStats';
+import { evaluateRules } from './alertRules';
+
+// These run the real mergecap and tshark, so they only run where Wireshark is installed
+const toolsAvailable = ['mergecap', 'tshark'].every((tool) => spawnSync(tool, ['-v']).status === 0);
+
+(toolsAvailable ? describe : describe.skip)('capture pipeline on fixture captures', () => {
+  // scan1: an HTTP request on port 80 (SYN, SYN-ACK, request). scan2: a DNS query and response, then a SYN
+  // to port 80. Their packets are 1 ms apart and interleave in time.
+  const containers = ['scan1', 'scan2'];
+  let dir: string;
+  let mergedFile: string;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-'));
+    for (const name of containers) {
+      fs.copyFileSync(path.join(__dirname, 'fixtures', `${name}.pcap`), path.join(dir, `dumpfile_${name}.pcap`));
+    }
+    mergedFile = path.join(dir, 'merged.pcap');
+    expect(await mergePcaps(dir, mergedFile, containers)).toEqual(containers);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function filteredCount(filter: string): Promise<number | undefined> {
+    const outputDir = fs.mkdtempSync(path.join(dir, 'view-'));
+    const result = await filterPcapAndJson(mergedFile, filter, outputDir);
+    expect(result.status).toBe('ok');
+    return result.packetCount;
+  }
+
+  it('should merge the captures in time order with one interface per container', async () => {
+    const jsonFile = path.join(dir, 'output.json');
+    expect(await pcapToJson(mergedFile, jsonFile)).toBe(6);
+    const packets = await readPackets(jsonFile, indexPathFor(jsonFile), 0, 6);
+    expect(packets.map((packet) => projectPacket(packet, ['frame.interface_id'])['frame.interface_id'])).toEqual(['0', '1', '0', '1', '0', '1']);
+  });
+
+  it('should filter by port, protocol and payload', async () => {
+    expect(await filteredCount(buildWiresharkFilterFromConfig({ port: '80' }))).toBe(4);
+    expect(await filteredCount(buildWiresharkFilterFromConfig({ protocol: 'dns' }))).toBe(2);
+    expect(await filteredCount(buildWiresharkFilterFromConfig({ payloadContent: 'GET /index.html' }))).toBe(1);
+  });
+
+  it('should filter by address, TCP flags and frame length', async () => {
+    expect(await filteredCount(buildWiresharkFilterFromConfig({ sourceIp: '10.0.0.3', destinationPort: '53' }))).toBe(1);
+    expect(await filteredCount(buildWiresharkFilterFromConfig({ tcpFlags: 'SYN' }))).toBe(3);
+    expect(await filteredCount(buildWiresharkFilterFromConfig({ packetSizeMin: 80, packetSizeMax: 90 }))).toBe(1);
+  });
+
+  it('should filter by container through the capture interface', async () => {
+    expect(await filteredCount(buildWiresharkFilterFromConfig({ container: 'scan2' }, containers))).toBe(3);
+    expect(await filteredCount(buildWiresharkFilterFromConfig({ container: 'scan1', port: '80' }, containers))).toBe(3);
+  });
+
+  it('should report a filter tshark rejects', async () => {
+    const result = await filterPcapAndJson(mergedFile, 'no_such_field == 1', fs.mkdtempSync(path.join(dir, 'view-')));
+    expect(result.status).toBe('ko');
+    expect(result.stderr).toBeTruthy();
+  });
+
+  it('should count each container\'s packets', async () => {
+    const counts = await countPacketsPerContainer(dir, containers, buildWiresharkFilterFromConfig({ port: '80' }));
+    expect(counts.map((count) => [count.containerName, count.packets])).toEqual([['scan1', 3], ['scan2', 1]]);
+  });
+
+  it('should find the SYN scan2 left half-open and count matching packets', async () => {
+    const findings = await evaluateRules([
+      { name: 'syn', kind: 'synWithoutAck', severity: 'warning', enabled: true, threshold: 0, createdAt: '', updatedAt: '' },
+      { name: 'dns', kind: 'match', severity: 'info', enabled: true, threshold: 1, config: { protocol: 'dns' }, createdAt: '', updatedAt: '' },
+    ], { pcapFile: mergedFile, jsonFile: path.join(dir, 'output.json'), interfaces: containers });
+    expect(findings.map((finding) => [finding.rule, finding.subject, finding.value])).toEqual([['syn', '10.0.0.3', 1], ['dns', undefined, 2]]);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * @file pcapPipeline.ts
+ * @description Capture-processing pipeline: merges the agents' pcap files with mergecap, applies the
+ * display filter with tshark, converts captures to JSON and renders the pcapng/CSV exports. Every tool
+ * runs through `runCommand` with an argument array.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import fsSync from 'fs';
+import { runCommand, formatCommand, CommandError } from './processRunner';
+import { logEvent } from './logger';
+import { buildPacketIndex } from './packetIndex';
+import { counter, histogram } from './metrics';
+
+export interface FilterResult {
+  status: 'ok' | 'ko';
+  packetCount?: number;
+  errorMsg?: string;
+  stderr?: string;
+}
+
+const toolDuration = histogram('control_tool_duration_seconds', 'Duration of mergecap, tshark and editcap runs.');
+const toolFailures = counter('control_tool_failures_total', 'mergecap, tshark and editcap runs that failed.');
+
+async function run(event: string, command: string, args: string[], stdoutFile?: string): Promise<void> {
+  const commandLine = formatCommand(command, args) + (stdoutFile ? ` (stdout -> ${stdoutFile})` : '');
+  const startedAt = Date.now();
+  try {
+    await runCommand(command, args, { stdoutFile });
+    toolDuration.observe((Date.now() - startedAt) / 1000, { tool: command });
+    logEvent(event, undefined, true, { command: commandLine, durationMs: Date.now() - startedAt });
+  } catch (err: any) {
+    toolDuration.observe((Date.now() - startedAt) / 1000, { tool: command });
+    toolFailures.inc({ tool: command });
+    logEvent(event, `Error: ${err?.message || String(err)}`, false, { command: commandLine, durationMs: Date.now() - startedAt });
+    throw err;
+  }
+}
+
+/**
+ * Merges the agents' `dumpfile_<container>.pcap` files in `dir` into a pcapng with one interface per
+ * agent, so `frame.interface_id` tells which container captured each packet. When `containers` is
+ * given, only those agents' files are merged.
+ * @returns The container behind each interface, in interface order.
+ */
+export async function mergePcaps(dir: string, mergedPcapFile: string, containers?: string[]): Promise<string[]> {
+  await fs.rm(mergedPcapFile, { force: true });
+  const names = containers
+    ? containers.filter((name) => fsSync.existsSync(path.join(dir, `dumpfile_${name}.pcap`)))
+    : (await fs.readdir(dir))
+      .filter((file: string) => file.startsWith('dumpfile_') && file.endsWith('.pcap'))
+      .map((file: string) => file.slice('dumpfile_'.length, -'.pcap'.length));
+  if (names.length === 0) {
+    logEvent('Monitoring stopped', 'No .pcap files found to merge', false);
+    throw new Error('No .pcap files found to merge.');
+  }
+  const pcapFiles = names.map((name) => path.join(dir, `dumpfile_${name}.pcap`));
+  // -I none keeps every input's interface separate instead of folding identical ones together
+  await run('Monitoring stopped', 'mergecap', ['-F', 'pcapng', '-I', 'none', '-w', mergedPcapFile, ...pcapFiles]);
+  return names;
+}
+
+/**
+ * Converts a pcap to tshark JSON and indexes it for paged reads.
+ * @returns The number of packets written.
+ */
+export async function pcapToJson(pcapFile: string, jsonFile: string): Promise<number> {
+  await run('JSON conversion', 'tshark', ['-r', pcapFile, '-T', 'json'], jsonFile);
+  return buildPacketIndex(jsonFile);
+}
+
+/**
+ * Writes `filtered.pcap`, `filtered.json` and its index for `filterString` into `outputDir`.
+ * An empty filter copies the merged capture unchanged.
+ */
+export async function filterPcapAndJson(
+  mergedPcapFile: string,
+  filterString: string,
+  outputDir: string
+): Promise<FilterResult> {
+  const filteredPcapFile = path.join(outputDir, 'filtered.pcap');
+  const filteredJsonFile = path.join(outputDir, 'filtered.json');
+  try {
+    if (filterString) {
+      await run('Filtering', 'tshark', ['-r', mergedPcapFile, '-Y', filterString, '-w', filteredPcapFile]);
+    } else {
+      await fs.copyFile(mergedPcapFile, filteredPcapFile);
+      logEvent('Filtering', `Copied ${mergedPcapFile} to ${filteredPcapFile}`, true);
+    }
+    const packetCount = await pcapToJson(filteredPcapFile, filteredJsonFile);
+    if (fsSync.existsSync(filteredJsonFile)) {
+      logEvent('Filtering', `Output: ${filteredJsonFile}`, true);
+      return { status: 'ok', packetCount };
+    } else {
+      logEvent('Filtering', `Output: ${filteredJsonFile}`, false);
+      return { status: 'ko', errorMsg: 'Filtered JSON file not found after filtering.' };
+    }
+  } catch (err: any) {
+    logEvent('Filtering', `Error: ${err?.message || String(err)}`, false);
+    return {
+      status: 'ko',
+      errorMsg: 'Filtering failed: ' + (err?.message || String(err)),
+      stderr: err instanceof CommandError ? err.stderr : undefined,
+    };
+  }
+}
+
+/**
+ * Writes a pcapng of the agents' captures in `dir` with one interface per container, in `containers`
+ * order, and a section comment naming the container behind each interface. With `displayFilter`, only
+ * matching packets are kept; a function is given the containers actually exported, in interface order.
+ */
+export async function exportPcapng(
+  dir: string,
+  containers: string[],
+  outputFile: string,
+  displayFilter?: string | ((interfaces: string[]) => string)
+) {
+  const inputs = containers
+    .map((containerName) => ({ containerName, file: path.join(dir, `dumpfile_${containerName}.pcap`) }))
+    .filter((input) => fsSync.existsSync(input.file));
+  if (inputs.length === 0) throw new Error('No .pcap files found to export.');
+  const mergedFile = `${outputFile}.merged`;
+  const filteredFile = `${outputFile}.filtered`;
+  try {
+    // -I none keeps every input's interface separate, so interface N is the Nth container
+    await run('Export', 'mergecap', ['-F', 'pcapng', '-I', 'none', '-w', mergedFile, ...inputs.map((input) => input.file)]);
+    let source = mergedFile;
+    const filter = typeof displayFilter === 'function' ? displayFilter(inputs.map((input) => input.containerName)) : displayFilter;
+    if (filter) {
+      await run('Export', 'tshark', ['-r', mergedFile, '-Y', filter, '-F', 'pcapng', '-w', filteredFile]);
+      source = filteredFile;
+    }
+    const comments = inputs.flatMap((input, index) => ['--capture-comment', `Interface ${index}: container ${input.containerName}`]);
+    await run('Export', 'editcap', [...comments, source, outputFile]);
+  } finally {
+    await fs.rm(mergedFile, { force: true });
+    await fs.rm(filteredFile, { force: true });
+  }
+}
+
+/**
+ * Writes the chosen Wireshark fields of every packet in `pcapFile` as CSV with a header row.
+ */
+export async function exportCsv(pcapFile: string, fields: string[], outputFile: string) {
+  const args = ['-r', pcapFile, '-T', 'fields', '-E', 'header=y', '-E', 'separator=,', '-E', 'quote=d', '-E', 'occurrence=f'];
+  for (const field of fields) args.push('-e', field);
+  await run('Export', 'tshark', args, outputFile);
+}
@@ -0,0 +1,40 @@
+import fsSync from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCommand, formatCommand, CommandError } from './processRunner';
+
+describe('runCommand', () => {
+  it('should pass hostile arguments through verbatim, without a shell', async () => {
+    const hostile = '"; touch /tmp/pwned; echo "$(id)` `';
+    const result = await runCommand(process.execPath, ['-e', 'process.stdout.write(process.argv[1])', hostile]);
+    expect(result.stdout).toBe(hostile);
+  });
+
+  it('should stream stdout into a file', async () => {
+    const outputFile = path.join(fsSync.mkdtempSync(path.join(os.tmpdir(), 'runner-')), 'out.json');
+    await runCommand(process.execPath, ['-e', 'process.stdout.write(JSON.stringify([1, 2, 3]))'], { stdoutFile: outputFile });
+    expect(JSON.parse(fsSync.readFileSync(outputFile, 'utf-8'))).toEqual([1, 2, 3]);
+  });
+
+  it('should reject with the exit code and stderr on failure', async () => {
+    const error = await runCommand(process.execPath, ['-e', 'console.error("bad filter"); process.exit(2)']).catch((err) => err);
+    expect(error).toBeInstanceOf(CommandError);
+    expect(error.exitCode).toBe(2);
+    expect(error.stderr).toContain('bad filter');
+    expect(error.message).toContain('bad filter');
+  });
+
+  it('should reject when the command does not exist', async () => {
+    const error = await runCommand('definitely-not-a-command', []).catch((err) => err);
+    expect(error).toBeInstanceOf(CommandError);
+    expect(error.exitCode).toBeNull();
+  });
+});
+
+describe('formatCommand', () => {
+  it('should quote arguments that contain spaces or quotes', () => {
+    expect(formatCommand('tshark', ['-r', 'a.pcap', '-Y', 'frame contains "x"'])).toBe(
+      'tshark -r a.pcap -Y "frame contains \\"x\\""'
+    );
+  });
+});
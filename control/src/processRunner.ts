@@ -0,0 +1,112 @@
+/**
+ * @file processRunner.ts
+ * @description Runs external tools (mergecap, tshark) with argument arrays instead of shell strings,
+ * so no user-supplied value is ever interpreted by a shell. Tests can replace the runner with
+ * `setCommandRunner` (see `createApp`).
+ */
+
+import { spawn } from 'child_process';
+import fsSync from 'fs';
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+export interface RunOptions {
+  /** Streams stdout into this file instead of buffering it in memory. */
+  stdoutFile?: string;
+}
+
+/**
+ * Raised when a command cannot be started or exits with a non-zero code. Carries the
+ * captured stderr so callers can surface it in their error responses.
+ */
+export class CommandError extends Error {
+  constructor(
+    public readonly command: string,
+    public readonly exitCode: number | null,
+    public readonly stderr: string
+  ) {
+    super(`${command} failed${exitCode !== null ? ` with exit code ${exitCode}` : ''}${stderr ? `: ${stderr.trim()}` : ''}`);
+    this.name = 'CommandError';
+  }
+}
+
+/**
+ * Renders a command line for logs. Arguments are quoted for readability only; they are
+ * never passed through a shell.
+ */
+export function formatCommand(command: string, args: string[]): string {
+  return [command, ...args].map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : JSON.stringify(arg))).join(' ');
+}
+
+export type CommandRunner = (command: string, args: string[], options?: RunOptions) => Promise<CommandResult>;
+
+/**
+ * Runs a command as a child process, streaming stdout to `options.stdoutFile` when given.
+ */
+export function spawnCommand(command: string, args: string[], options: RunOptions = {}): Promise<CommandResult> {
+  const commandLine = formatCommand(command, args);
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    };
+
+    const child = spawn(command, args);
+    const output = options.stdoutFile ? fsSync.createWriteStream(options.stdoutFile) : undefined;
+    const outputDone = new Promise<void>((res, rej) => {
+      if (!output) return res();
+      output.on('finish', res);
+      output.on('error', rej);
+    });
+    // The file can fail to open before the child exits; the error is reported from the 'close' handler
+    outputDone.catch(() => undefined);
+    if (output) {
+      child.stdout?.pipe(output);
+    } else {
+      child.stdout?.on('data', (data) => {
+        stdout += data;
+      });
+    }
+    child.stderr?.on('data', (data) => {
+      stderr += data;
+    });
+    child.on('error', (err) => {
+      output?.destroy();
+      fail(new CommandError(commandLine, null, err.message));
+    });
+    child.on('close', (code) => {
+      outputDone.then(
+        () => {
+          if (code !== 0) return fail(new CommandError(commandLine, code, stderr));
+          if (settled) return;
+          settled = true;
+          resolve({ stdout, stderr });
+        },
+        (err) => fail(new CommandError(commandLine, code, `Failed to write ${options.stdoutFile}: ${err.message}`))
+      );
+    });
+  });
+}
+
+let activeRunner: CommandRunner = spawnCommand;
+
+/**
+ * Runs a command with the current runner, `spawnCommand` unless replaced.
+ */
+export function runCommand(command: string, args: string[], options: RunOptions = {}): Promise<CommandResult> {
+  return activeRunner(command, args, options);
+}
+
+/**
+ * Replaces the runner behind `runCommand` for the whole process; without an argument, restores `spawnCommand`.
+ */
+export function setCommandRunner(runner: CommandRunner = spawnCommand): void {
+  activeRunner = runner;
+}
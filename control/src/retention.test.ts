@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SessionUsage, retentionPolicyFromEnv, selectSessionsToPrune, applyRetention } from './retention';
+import { createSession, saveSession, listSessions } from './sessions';
+
+jest.mock('./logger', () => ({ logEvent: jest.fn() }));
+
+const now = new Date('2025-01-10T00:00:00Z');
+
+function usage(id: string, day: number, bytes: number = 100): SessionUsage {
+  const startedAt = `2025-01-${String(day).padStart(2, '0')}T00:00:00.000Z`;
+  return { id, startedAt, stoppedAt: startedAt.replace('T00', 'T01'), bytes };
+}
+
+describe('retentionPolicyFromEnv', () => {
+  it('should read the bounds that are set and ignore the others', () => {
+    expect(retentionPolicyFromEnv({})).toEqual({});
+    expect(retentionPolicyFromEnv({ RETENTION_MAX_SESSIONS: '10', RETENTION_MAX_AGE_HOURS: '1.5', RETENTION_MAX_BYTES: '5000' }))
+      .toEqual({ maxSessions: 10, maxAgeHours: 1.5, maxBytes: 5000 });
+    expect(retentionPolicyFromEnv({ RETENTION_MAX_SESSIONS: '2.5', RETENTION_MAX_AGE_HOURS: '-1', RETENTION_MAX_BYTES: 'lots' })).toEqual({});
+  });
+});
+
+describe('selectSessionsToPrune', () => {
+  const sessions = [usage('d5', 5), usage('d9', 9), usage('d1', 1), usage('d7', 7)];
+
+  it('should keep everything without bounds', () => {
+    expect(selectSessionsToPrune(sessions, {}, [], now)).toEqual([]);
+  });
+
+  it('should keep the newest sessions up to the count', () => {
+    expect(selectSessionsToPrune(sessions, { maxSessions: 2 }, [], now)).toEqual([
+      { id: 'd1', reason: 'count', bytes: 100 },
+      { id: 'd5', reason: 'count', bytes: 100 },
+    ]);
+  });
+
+  it('should delete sessions that stopped before the age limit', () => {
+    expect(selectSessionsToPrune(sessions, { maxAgeHours: 72 }, [], now).map((s) => [s.id, s.reason])).toEqual([['d1', 'age'], ['d5', 'age']]);
+  });
+
+  it('should delete the oldest sessions until the total size fits', () => {
+    const sized = [usage('d1', 1, 500), usage('d5', 5, 300), usage('d7', 7, 200), usage('d9', 9, 400)];
+    expect(selectSessionsToPrune(sized, { maxBytes: 700 }, [], now).map((s) => [s.id, s.reason])).toEqual([['d1', 'size'], ['d5', 'size']]);
+    expect(selectSessionsToPrune(sized, { maxBytes: 700, maxAgeHours: 200 }, [], now).map((s) => [s.id, s.reason])).toEqual([
+      ['d1', 'age'],
+      ['d5', 'size'],
+    ]);
+  });
+
+  it('should never pick protected sessions but count them', () => {
+    expect(selectSessionsToPrune(sessions, { maxSessions: 1 }, ['d9', 'd1'], now).map((s) => s.id)).toEqual(['d5', 'd7']);
+    expect(selectSessionsToPrune(sessions, { maxAgeHours: 1 }, ['d1'], now).map((s) => s.id)).toEqual(['d5', 'd7', 'd9']);
+  });
+});
+
+describe('applyRetention', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retention-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function storedSession(startedAt: string, bytes: number) {
+    const session = { ...createSession(dataDir, ['scan1']), startedAt, status: 'stopped' as const };
+    saveSession(session);
+    fs.writeFileSync(path.join(session.dir, 'merged.pcap'), Buffer.alloc(bytes));
+    return session;
+  }
+
+  it('should delete the sessions the policy no longer keeps and spare protected ones', async () => {
+    const oldest = storedSession('2025-01-01T00:00:00.000Z', 4000);
+    const middle = storedSession('2025-01-02T00:00:00.000Z', 4000);
+    const newest = storedSession('2025-01-03T00:00:00.000Z', 4000);
+    const result = await applyRetention(dataDir, { maxSessions: 1 }, [oldest.id]);
+    expect(result.pruned).toEqual([{ id: middle.id, reason: 'count', bytes: expect.any(Number) }]);
+    expect(result.keptSessions).toBe(2);
+    expect(result.keptBytes).toBeGreaterThan(8000);
+    expect(result.errors).toEqual([]);
+    expect(fs.existsSync(middle.dir)).toBe(false);
+    expect((await listSessions(dataDir)).map((session) => session.id)).toEqual([newest.id, oldest.id]);
+  });
+
+  it('should do nothing without sessions', async () => {
+    expect(await applyRetention(dataDir, { maxSessions: 1 })).toEqual({ pruned: [], keptSessions: 0, keptBytes: 0, errors: [] });
+  });
+});
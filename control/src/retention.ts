@@ -0,0 +1,151 @@
+/**
+ * @file retention.ts
+ * @description Retention of capture sessions. A policy bounds how many sessions are kept, how old they
+ * may get and how many bytes they may take together; the oldest sessions go first, and the sessions
+ * control is capturing into or merging are never deleted.
+ *
+ * The policy comes from `RETENTION_MAX_SESSIONS`, `RETENTION_MAX_AGE_HOURS` and `RETENTION_MAX_BYTES`.
+ * Bounds that are not set do not apply, so by default every session is kept.
+ */
+
+import { CaptureSession, listSessions, deleteSession } from './sessions';
+import { directorySize } from './diskSpace';
+import { logEvent } from './logger';
+import { counter } from './metrics';
+
+export interface RetentionPolicy {
+  maxSessions?: number;
+  maxAgeHours?: number;
+  maxBytes?: number;
+}
+
+// The bound a session was deleted for
+export type PruneReason = 'count' | 'age' | 'size';
+
+export interface SessionUsage {
+  id: string;
+  startedAt: string;
+  stoppedAt?: string;
+  bytes: number;
+}
+
+export interface PrunedSession {
+  id: string;
+  reason: PruneReason;
+  bytes: number;
+}
+
+export interface RetentionResult {
+  pruned: PrunedSession[];
+  keptSessions: number;
+  keptBytes: number;
+  // Sessions that matched the policy but could not be deleted
+  errors: string[];
+}
+
+const sessionsPruned = counter('control_sessions_pruned_total', 'Sessions deleted by the retention policy.');
+
+function positive(value: string | undefined, integer: boolean): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || (integer && !Number.isInteger(parsed))) return undefined;
+  return parsed;
+}
+
+/**
+ * Reads the retention policy from the environment. Values that are not positive numbers are ignored.
+ */
+export function retentionPolicyFromEnv(env: NodeJS.ProcessEnv): RetentionPolicy {
+  const policy: RetentionPolicy = {};
+  const maxSessions = positive(env.RETENTION_MAX_SESSIONS, true);
+  const maxAgeHours = positive(env.RETENTION_MAX_AGE_HOURS, false);
+  const maxBytes = positive(env.RETENTION_MAX_BYTES, true);
+  if (maxSessions !== undefined) policy.maxSessions = maxSessions;
+  if (maxAgeHours !== undefined) policy.maxAgeHours = maxAgeHours;
+  if (maxBytes !== undefined) policy.maxBytes = maxBytes;
+  return policy;
+}
+
+/**
+ * Picks the sessions `policy` deletes, oldest first. Protected sessions are never picked but still
+ * count towards the session and byte bounds. A session's age runs from when it stopped.
+ */
+export function selectSessionsToPrune(
+  sessions: SessionUsage[],
+  policy: RetentionPolicy,
+  protectedIds: string[] = [],
+  now: Date = new Date()
+): PrunedSession[] {
+  const newestFirst = [...sessions].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  const reasons = new Map<string, PruneReason>();
+  const prunable = (session: SessionUsage) => !protectedIds.includes(session.id) && !reasons.has(session.id);
+
+  if (policy.maxAgeHours !== undefined) {
+    const cutoff = now.getTime() - policy.maxAgeHours * 3600 * 1000;
+    for (const session of newestFirst) {
+      if (prunable(session) && Date.parse(session.stoppedAt ?? session.startedAt) < cutoff) reasons.set(session.id, 'age');
+    }
+  }
+  if (policy.maxSessions !== undefined) {
+    let kept = 0;
+    for (const session of newestFirst) {
+      if (reasons.has(session.id)) continue;
+      if (kept < policy.maxSessions || !prunable(session)) kept++;
+      else reasons.set(session.id, 'count');
+    }
+  }
+  if (policy.maxBytes !== undefined) {
+    let total = newestFirst.filter((session) => !reasons.has(session.id)).reduce((sum, session) => sum + session.bytes, 0);
+    for (const session of [...newestFirst].reverse()) {
+      if (total <= policy.maxBytes) break;
+      if (!prunable(session)) continue;
+      reasons.set(session.id, 'size');
+      total -= session.bytes;
+    }
+  }
+  return [...newestFirst]
+    .reverse()
+    .filter((session) => reasons.has(session.id))
+    .map((session) => ({ id: session.id, reason: reasons.get(session.id)!, bytes: session.bytes }));
+}
+
+async function usageOf(session: CaptureSession): Promise<SessionUsage> {
+  let bytes = 0;
+  try {
+    bytes = await directorySize(session.dir);
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err;
+  }
+  return { id: session.id, startedAt: session.startedAt, stoppedAt: session.stoppedAt, bytes };
+}
+
+/**
+ * Deletes the sessions under `dataDir` that `policy` no longer keeps, leaving `protectedIds` alone.
+ */
+export async function applyRetention(dataDir: string, policy: RetentionPolicy, protectedIds: string[] = []): Promise<RetentionResult> {
+  const sessions = await listSessions(dataDir);
+  const usages = await Promise.all(sessions.map(usageOf));
+  const selected = selectSessionsToPrune(usages, policy, protectedIds);
+  const pruned: PrunedSession[] = [];
+  const errors: string[] = [];
+  for (const candidate of selected) {
+    const session = sessions.find((s) => s.id === candidate.id)!;
+    try {
+      await deleteSession(session);
+      pruned.push(candidate);
+      sessionsPruned.inc({ reason: candidate.reason });
+      logEvent('Session pruned', `Reason: ${candidate.reason} | Bytes: ${candidate.bytes}`, true, { sessionId: session.id });
+    } catch (err: any) {
+      errors.push(`${session.id}: ${err?.message || String(err)}`);
+      logEvent('Session pruned', `Error: ${err?.message || String(err)}`, false, { sessionId: session.id });
+    }
+  }
+  const prunedIds = new Set(pruned.map((session) => session.id));
+  const kept = usages.filter((usage) => !prunedIds.has(usage.id));
+  return {
+    pruned,
+    keptSessions: kept.length,
+    keptBytes: kept.reduce((sum, usage) => sum + usage.bytes, 0),
+    errors,
+  };
+}
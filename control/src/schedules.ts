@@ -0,0 +1,178 @@
+/**
+ * @file schedules.ts
+ * @description Recurring captures. A schedule runs the normal start → stop → merge → filter flow
+ * either every `everySeconds` or on a cron expression, for `limits.durationSeconds` each time.
+ * Schedules are persisted to `<dataDir>/schedules.json` and re-armed when control starts.
+ */
+
+import path from 'path';
+import fsSync from 'fs';
+import { randomBytes } from 'crypto';
+import { StartRequest, validateStartRequest } from './captureOptions';
+import { parseCron, nextCronRun } from './cron';
+
+export interface CaptureSchedule {
+  id: string;
+  name?: string;
+  everySeconds?: number;
+  cron?: string;
+  request: StartRequest;
+  enabled: boolean;
+  createdAt: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastSessionId?: string;
+  lastError?: string;
+}
+
+export interface ScheduleInput {
+  name?: string;
+  everySeconds?: number;
+  cron?: string;
+  request?: StartRequest;
+  enabled?: boolean;
+}
+
+/**
+ * Starts one scheduled capture. Resolves with the session ID, or rejects with the reason it could not start.
+ */
+export type ScheduleRunner = (schedule: CaptureSchedule) => Promise<string>;
+
+// Node timers overflow past ~24.8 days; longer waits are re-armed in steps
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const schedules = new Map<string, CaptureSchedule>();
+const timers = new Map<string, NodeJS.Timeout>();
+let schedulesFile: string | undefined;
+let runner: ScheduleRunner | undefined;
+
+/**
+ * Checks a schedule definition and returns the list of problems found.
+ */
+export function validateSchedule(input: any): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return ['Schedule must be an object'];
+  const errors: string[] = [];
+  if (input.name !== undefined && typeof input.name !== 'string') errors.push('name must be a string');
+  if ((input.everySeconds === undefined) === (input.cron === undefined)) {
+    errors.push('Exactly one of everySeconds or cron is required');
+  }
+  if (input.everySeconds !== undefined && (!Number.isInteger(input.everySeconds) || input.everySeconds < 1)) {
+    errors.push('everySeconds must be a positive integer');
+  }
+  if (input.cron !== undefined) {
+    try {
+      nextCronRun(parseCron(String(input.cron)), new Date());
+    } catch (err: any) {
+      errors.push(err.message);
+    }
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') errors.push('enabled must be a boolean');
+  const duration = input.request?.limits?.durationSeconds;
+  if (duration === undefined) {
+    errors.push('request.limits.durationSeconds is required so scheduled captures stop on their own');
+  } else if (input.everySeconds !== undefined && Number.isInteger(input.everySeconds) && duration >= input.everySeconds) {
+    errors.push('request.limits.durationSeconds must be shorter than everySeconds');
+  }
+  errors.push(...validateStartRequest(input.request).map((error) => `request.${error}`));
+  return errors;
+}
+
+/**
+ * Computes when a schedule should run next, after `after`.
+ */
+export function nextRunTime(schedule: CaptureSchedule, after: Date): Date {
+  if (schedule.cron) return nextCronRun(parseCron(schedule.cron), after);
+  return new Date(after.getTime() + (schedule.everySeconds as number) * 1000);
+}
+
+function persist() {
+  if (!schedulesFile) return;
+  fsSync.writeFileSync(schedulesFile, JSON.stringify([...schedules.values()], null, 2), 'utf-8');
+}
+
+function disarm(id: string) {
+  const timer = timers.get(id);
+  if (timer) clearTimeout(timer);
+  timers.delete(id);
+}
+
+function arm(schedule: CaptureSchedule) {
+  disarm(schedule.id);
+  if (!schedule.enabled || !runner) return;
+  if (!schedule.nextRunAt) schedule.nextRunAt = nextRunTime(schedule, new Date()).toISOString();
+  const delay = Math.max(0, Date.parse(schedule.nextRunAt) - Date.now());
+  const timer = setTimeout(() => {
+    if (delay > MAX_TIMER_MS) return arm(schedule);
+    fire(schedule);
+  }, Math.min(delay, MAX_TIMER_MS));
+  // Pending schedules should never keep the process alive on their own
+  timer.unref();
+  timers.set(schedule.id, timer);
+}
+
+async function fire(schedule: CaptureSchedule) {
+  if (!runner || schedules.get(schedule.id) !== schedule) return;
+  const now = new Date();
+  schedule.lastRunAt = now.toISOString();
+  schedule.nextRunAt = nextRunTime(schedule, now).toISOString();
+  arm(schedule);
+  try {
+    schedule.lastSessionId = await runner(schedule);
+    schedule.lastError = undefined;
+  } catch (err: any) {
+    schedule.lastError = err?.message || String(err);
+  }
+  persist();
+}
+
+/**
+ * Loads persisted schedules and arms them with `run`. Call once when the server starts.
+ */
+export function startScheduler(dataDir: string, run: ScheduleRunner): void {
+  schedulesFile = path.join(dataDir, 'schedules.json');
+  runner = run;
+  if (fsSync.existsSync(schedulesFile)) {
+    for (const schedule of JSON.parse(fsSync.readFileSync(schedulesFile, 'utf-8')) as CaptureSchedule[]) {
+      // Runs missed while control was down are skipped rather than replayed
+      if (schedule.nextRunAt && Date.parse(schedule.nextRunAt) < Date.now()) schedule.nextRunAt = undefined;
+      schedules.set(schedule.id, schedule);
+    }
+  }
+  for (const schedule of schedules.values()) arm(schedule);
+  persist();
+}
+
+export function listSchedules(): CaptureSchedule[] {
+  return [...schedules.values()];
+}
+
+export function getSchedule(id: string): CaptureSchedule | undefined {
+  return schedules.get(id);
+}
+
+/**
+ * Adds a schedule. The input must already have passed `validateSchedule`.
+ */
+export function addSchedule(input: ScheduleInput): CaptureSchedule {
+  const schedule: CaptureSchedule = {
+    id: randomBytes(6).toString('hex'),
+    name: input.name,
+    everySeconds: input.everySeconds,
+    cron: input.cron,
+    request: input.request || {},
+    enabled: input.enabled !== false,
+    createdAt: new Date().toISOString(),
+  };
+  schedule.nextRunAt = schedule.enabled ? nextRunTime(schedule, new Date()).toISOString() : undefined;
+  schedules.set(schedule.id, schedule);
+  arm(schedule);
+  persist();
+  return schedule;
+}
+
+export function removeSchedule(id: string): boolean {
+  if (!schedules.delete(id)) return false;
+  disarm(id);
+  persist();
+  return true;
+}
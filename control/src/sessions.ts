@@ -0,0 +1,209 @@
+/**
+ * @file sessions.ts
+ * @description Persistent capture sessions. Every `/start` creates a session with its own ID and
+ * artifact directory under `<dataDir>/sessions/<id>`, so earlier captures are kept until they are
+ * deleted on purpose.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import fsSync from 'fs';
+import { randomBytes } from 'crypto';
+import { CaptureOptions, CaptureLimits } from './captureOptions';
+import { CaptureFilterConfig } from './filterConfig';
+
+export type SessionStatus = 'running' | 'stopped' | 'failed';
+
+// Why a session ended: an explicit /stop, its duration elapsing, every agent hitting a limit, or a ring snapshot
+export type StopReason = 'manual' | 'duration' | 'limits' | 'snapshot';
+
+// What froze the agents' ring buffers into a snapshot session: `POST /ring/snapshot`, or live findings of a rule
+export interface SessionTrigger {
+  source: 'manual' | 'rule';
+  rule?: string;
+  alertIds?: string[];
+}
+
+export interface CaptureSession {
+  id: string;
+  status: SessionStatus;
+  startedAt: string;
+  stoppedAt?: string;
+  containers: string[];
+  captureOptions?: Record<string, CaptureOptions>;
+  limits?: CaptureLimits;
+  scheduleId?: string;
+  // Snapshot sessions only
+  trigger?: SessionTrigger;
+  stopReason?: StopReason;
+  // Agents that did not acknowledge the stop; their files are left out of the merge
+  incompleteAgents?: string[];
+  // Agents stopped early by a partial /stop while the others kept capturing
+  stoppedAgents?: string[];
+  // Container behind each interface of merged.pcap: packets with `frame.interface_id == N` came from interfaces[N]
+  interfaces?: string[];
+  dir: string;
+  packetCount?: number;
+  filteredPacketCount?: number;
+  // config.json and its display filter as they were when filtered.pcap was written
+  filterConfig?: CaptureFilterConfig;
+  filteredDisplayFilter?: string;
+  error?: string;
+}
+
+// A filter preset applied to a session, kept as `views/<name>/` next to the merged capture
+export interface SessionView {
+  name: string;
+  // Snapshot of the preset when it was applied; later edits to the preset do not change the view
+  config?: CaptureFilterConfig;
+  displayFilter?: string;
+  // The display filter tshark applied
+  filter: string;
+  packetCount?: number;
+  createdAt: string;
+}
+
+export interface SessionArtifact {
+  name: string;
+  size: number;
+}
+
+const SESSION_FILE = 'session.json';
+const VIEWS_DIR = 'views';
+const VIEW_FILE = 'view.json';
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function sessionsRoot(dataDir: string): string {
+  return path.join(dataDir, 'sessions');
+}
+
+/**
+ * Session IDs end up in file paths on control and on every agent, so only
+ * plain `[A-Za-z0-9_-]` IDs are accepted.
+ */
+export function isValidSessionId(id: string): boolean {
+  return SESSION_ID_PATTERN.test(id);
+}
+
+/**
+ * Builds a sortable session ID, e.g. `20250101T120000Z-a1b2c3`.
+ */
+function newSessionId(date: Date): string {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+export function saveSession(session: CaptureSession): void {
+  fsSync.writeFileSync(path.join(session.dir, SESSION_FILE), JSON.stringify(session, null, 2), 'utf-8');
+}
+
+export function createSession(
+  dataDir: string,
+  containers: string[],
+  captureOptions?: Record<string, CaptureOptions>,
+  limits?: CaptureLimits,
+  scheduleId?: string
+): CaptureSession {
+  const startedAt = new Date();
+  const id = newSessionId(startedAt);
+  const dir = path.join(sessionsRoot(dataDir), id);
+  fsSync.mkdirSync(dir, { recursive: true });
+  const session: CaptureSession = {
+    id,
+    status: 'running',
+    startedAt: startedAt.toISOString(),
+    containers: [...containers],
+    captureOptions,
+    limits,
+    scheduleId,
+    dir,
+  };
+  saveSession(session);
+  return session;
+}
+
+export function loadSession(dataDir: string, id: string): CaptureSession | undefined {
+  if (!isValidSessionId(id)) return undefined;
+  const sessionFile = path.join(sessionsRoot(dataDir), id, SESSION_FILE);
+  if (!fsSync.existsSync(sessionFile)) return undefined;
+  try {
+    return JSON.parse(fsSync.readFileSync(sessionFile, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lists every stored session, newest first.
+ */
+export async function listSessions(dataDir: string): Promise<CaptureSession[]> {
+  const root = sessionsRoot(dataDir);
+  if (!fsSync.existsSync(root)) return [];
+  const ids = await fs.readdir(root);
+  const sessions: CaptureSession[] = [];
+  for (const id of ids) {
+    const session = loadSession(dataDir, id);
+    if (session) sessions.push(session);
+  }
+  return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Returns the most recent session that has finished capturing, if any.
+ */
+export async function latestStoppedSession(dataDir: string): Promise<CaptureSession | undefined> {
+  const sessions = await listSessions(dataDir);
+  return sessions.find((session) => session.status === 'stopped');
+}
+
+export async function listArtifacts(session: CaptureSession): Promise<SessionArtifact[]> {
+  if (!fsSync.existsSync(session.dir)) return [];
+  const files = await fs.readdir(session.dir);
+  const artifacts: SessionArtifact[] = [];
+  for (const name of files) {
+    if (name === SESSION_FILE) continue;
+    const stats = await fs.stat(path.join(session.dir, name));
+    if (stats.isFile()) artifacts.push({ name, size: stats.size });
+  }
+  return artifacts;
+}
+
+export async function deleteSession(session: CaptureSession): Promise<void> {
+  await fs.rm(session.dir, { recursive: true, force: true });
+}
+
+/**
+ * Directory holding a view's `filtered.pcap`, `filtered.json` and index. `name` must be a valid preset name.
+ */
+export function viewDir(session: CaptureSession, name: string): string {
+  return path.join(session.dir, VIEWS_DIR, name);
+}
+
+export function saveView(session: CaptureSession, view: SessionView): void {
+  fsSync.writeFileSync(path.join(viewDir(session, view.name), VIEW_FILE), JSON.stringify(view, null, 2), 'utf-8');
+}
+
+export function loadView(session: CaptureSession, name: string): SessionView | undefined {
+  const viewFile = path.join(viewDir(session, name), VIEW_FILE);
+  if (!fsSync.existsSync(viewFile)) return undefined;
+  try {
+    return JSON.parse(fsSync.readFileSync(viewFile, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+export async function listViews(session: CaptureSession): Promise<SessionView[]> {
+  const root = path.join(session.dir, VIEWS_DIR);
+  if (!fsSync.existsSync(root)) return [];
+  const views: SessionView[] = [];
+  for (const name of await fs.readdir(root)) {
+    const view = loadView(session, name);
+    if (view) views.push(view);
+  }
+  return views.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function deleteView(session: CaptureSession, name: string): Promise<void> {
+  await fs.rm(viewDir(session, name), { recursive: true, force: true });
+}
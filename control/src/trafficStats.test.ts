@@ -0,0 +1,162 @@
+import fsSync from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildPacketIndex, indexPathFor } from './packetIndex';
+import { computeTrafficStats, parseIoStatTotals, countPacketsPerContainer, countMatchingPackets } from './trafficStats';
+import { RunOptions, setCommandRunner } from './processRunner';
+
+function packet(epoch: number, len: number, layers: Record<string, any>, protocols: string) {
+  return {
+    _source: {
+      layers: {
+        frame: { 'frame.time_epoch': String(epoch), 'frame.len': String(len), 'frame.protocols': protocols },
+        ...layers,
+      },
+    },
+  };
+}
+
+function tcp(epoch: number, len: number, src: string, srcPort: number, dst: string, dstPort: number, extra: Record<string, any> = {}) {
+  return packet(
+    epoch,
+    len,
+    {
+      ip: { 'ip.src': src, 'ip.dst': dst },
+      tcp: { 'tcp.srcport': String(srcPort), 'tcp.dstport': String(dstPort), 'tcp.stream': '0' },
+      ...extra,
+    },
+    extra.http ? 'eth:ethertype:ip:tcp:http' : 'eth:ethertype:ip:tcp'
+  );
+}
+
+describe('traffic statistics', () => {
+  let dir: string;
+  let jsonFile: string;
+  const packets = [
+    tcp(1000, 100, '10.0.0.1', 40000, '10.0.0.2', 80, {
+      http: { 'GET / HTTP/1.1\\r\\n': { 'http.request.method': 'GET', 'http.request.uri': '/' }, 'http.host': 'example.test' },
+    }),
+    tcp(1000.5, 300, '10.0.0.2', 80, '10.0.0.1', 40000, {
+      http: { 'HTTP/1.1 200 OK\\r\\n': { 'http.response.code': '200' } },
+    }),
+    packet(1003, 60, { ip: { 'ip.src': '10.0.0.3', 'ip.dst': '10.0.0.2' }, udp: { 'udp.srcport': '5353', 'udp.dstport': '53', 'udp.stream': '0' } }, 'eth:ethertype:ip:udp:dns'),
+    packet(1004, 42, {}, 'eth:ethertype:arp'),
+  ];
+
+  beforeAll(async () => {
+    dir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'traffic-stats-'));
+    jsonFile = path.join(dir, 'output.json');
+    fsSync.writeFileSync(jsonFile, JSON.stringify(packets, null, 2), 'utf-8');
+    await buildPacketIndex(jsonFile);
+  });
+
+  afterAll(() => {
+    fsSync.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should total packets and bytes and build the protocol hierarchy', async () => {
+    const stats = await computeTrafficStats(jsonFile, indexPathFor(jsonFile));
+    expect(stats.packets).toBe(4);
+    expect(stats.bytes).toBe(502);
+    expect(stats.firstPacketTime).toBe(new Date(1000 * 1000).toISOString());
+    const eth = stats.protocolHierarchy[0];
+    expect(eth).toMatchObject({ protocol: 'eth', packets: 4, bytes: 502 });
+    const ip = eth.children[0].children.find((node) => node.protocol === 'ip');
+    expect(ip?.children.map((node) => [node.protocol, node.packets])).toEqual([['tcp', 2], ['udp', 1]]);
+  });
+
+  it('should rank talkers and merge both directions of a conversation', async () => {
+    const stats = await computeTrafficStats(jsonFile, indexPathFor(jsonFile), { top: 2 });
+    expect(stats.topAddresses.map((talker) => talker.address)).toEqual(['10.0.0.2', '10.0.0.1']);
+    expect(stats.topAddresses[0]).toMatchObject({ packets: 3, bytes: 460, txBytes: 300, rxBytes: 160 });
+    expect(stats.topPorts[0]).toMatchObject({ transport: 'tcp', port: 40000, packets: 2, bytes: 400 });
+    expect(stats.conversations.tcpTotal).toBe(1);
+    expect(stats.conversations.tcp[0]).toMatchObject({
+      addressA: '10.0.0.1',
+      portA: 40000,
+      addressB: '10.0.0.2',
+      portB: 80,
+      packetsAtoB: 1,
+      bytesAtoB: 100,
+      packetsBtoA: 1,
+      bytesBtoA: 300,
+    });
+    expect(stats.conversations.udp[0]).toMatchObject({ addressA: '10.0.0.3', portB: 53, packets: 1 });
+  });
+
+  it('should bucket throughput over time', async () => {
+    const stats = await computeTrafficStats(jsonFile, indexPathFor(jsonFile), { bucketSeconds: 2 });
+    expect(stats.throughput.bucketSeconds).toBe(2);
+    expect(stats.throughput.buckets.map((bucket) => bucket.packets)).toEqual([2, 1, 1]);
+    expect(stats.throughput.buckets[0].bitsPerSecond).toBe(1600);
+  });
+
+  it('should summarize HTTP requests and responses', async () => {
+    const stats = await computeTrafficStats(jsonFile, indexPathFor(jsonFile));
+    expect(stats.http).toEqual({
+      requests: 1,
+      responses: 1,
+      methods: { GET: 1 },
+      statusCodes: { '200': 1 },
+      topHosts: [{ host: 'example.test', requests: 1 }],
+      topUris: [{ uri: '/', requests: 1 }],
+    });
+  });
+
+  it('should only count the packets of the requested interface', async () => {
+    // Packets without frame.interface_id come from the first interface
+    expect((await computeTrafficStats(jsonFile, indexPathFor(jsonFile), { interfaceId: 0 })).packets).toBe(4);
+    const other = await computeTrafficStats(jsonFile, indexPathFor(jsonFile), { interfaceId: 1 });
+    expect(other).toMatchObject({ packets: 0, bytes: 0, protocolHierarchy: [], topAddresses: [] });
+  });
+
+  it('should parse the totals row of tshark io,stat output', () => {
+    const output = [
+      '===================================',
+      '| IO Statistics                   |',
+      '| Interval: 0.000 - 12.345 secs   |',
+      '|----------------------------------|',
+      '|                |1               |',
+      '| Interval       | Frames | Bytes |',
+      '|---------------------------------|',
+      '| 0.000 <> 12.345 |     34 |  5678 |',
+      '===================================',
+    ].join('\n');
+    expect(parseIoStatTotals(output)).toEqual({ packets: 34, bytes: 5678 });
+    expect(parseIoStatTotals('tshark: error')).toBeUndefined();
+  });
+});
+
+describe('packet counts', () => {
+  let dir: string;
+
+  // Stands in for tshark's io,stat: 4 packets per file, of which 1 passes a read filter; like the real
+  // tshark, a `-Y` display filter does not change what the stats count
+  const run = jest.fn(async (_command: string, args: string[], _options?: RunOptions) => {
+    const packets = args.includes('-2') && args.includes('-R') ? 1 : 4;
+    return { stdout: `| 0.000 <> 1.000 | ${packets} | ${packets * 60} |\n`, stderr: '' };
+  });
+
+  beforeAll(() => {
+    dir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'packet-counts-'));
+    fsSync.writeFileSync(path.join(dir, 'dumpfile_scan1.pcap'), '');
+    setCommandRunner(run);
+  });
+
+  afterAll(() => {
+    setCommandRunner();
+    fsSync.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply the filter before the stats count the packets', async () => {
+    const pcapFile = path.join(dir, 'dumpfile_scan1.pcap');
+    const counts = await countPacketsPerContainer(dir, ['scan1', 'scan2'], 'tcp.port == 80');
+    expect(run).toHaveBeenLastCalledWith('tshark', ['-r', pcapFile, '-q', '-z', 'io,stat,0', '-2', '-R', 'tcp.port == 80'], {});
+    expect(counts).toEqual([
+      { containerName: 'scan1', packets: 1, bytes: 60 },
+      { containerName: 'scan2', packets: 0, bytes: 0, error: 'No capture file' },
+    ]);
+    expect((await countPacketsPerContainer(dir, ['scan1']))[0].packets).toBe(4);
+    expect(await countMatchingPackets(pcapFile, 'dns')).toEqual({ packets: 1, bytes: 60 });
+  });
+});
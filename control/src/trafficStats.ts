@@ -0,0 +1,428 @@
+/**
+ * @file trafficStats.ts
+ * @description Traffic statistics for a session's merged or filtered capture: protocol hierarchy, top
+ * talkers by address and port, TCP/UDP conversations, throughput over time buckets and an HTTP summary.
+ * Packets are read in pages through the packet index, so a capture is never loaded into memory at once.
+ * Per-container packet counts come from each agent's own pcap via `tshark -z io,stat`.
+ */
+
+import path from 'path';
+import fsSync from 'fs';
+import { runCommand } from './processRunner';
+import { packetCount, readPackets, projectPacket } from './packetIndex';
+
+export interface ProtocolNode {
+  protocol: string;
+  packets: number;
+  bytes: number;
+  children: ProtocolNode[];
+}
+
+export interface AddressTalker {
+  address: string;
+  packets: number;
+  bytes: number;
+  txBytes: number;
+  rxBytes: number;
+}
+
+export interface PortTalker {
+  transport: 'tcp' | 'udp';
+  port: number;
+  packets: number;
+  bytes: number;
+}
+
+export interface Conversation {
+  transport: 'tcp' | 'udp';
+  addressA: string;
+  portA: number;
+  addressB: string;
+  portB: number;
+  packets: number;
+  bytes: number;
+  packetsAtoB: number;
+  bytesAtoB: number;
+  packetsBtoA: number;
+  bytesBtoA: number;
+  firstPacketTime?: string;
+  lastPacketTime?: string;
+}
+
+export interface ThroughputBucket {
+  start: string;
+  packets: number;
+  bytes: number;
+  bitsPerSecond: number;
+}
+
+export interface HttpSummary {
+  requests: number;
+  responses: number;
+  methods: Record<string, number>;
+  statusCodes: Record<string, number>;
+  topHosts: { host: string; requests: number }[];
+  topUris: { uri: string; requests: number }[];
+}
+
+export interface ContainerCount {
+  containerName: string;
+  packets: number;
+  bytes: number;
+  error?: string;
+}
+
+export interface TrafficStats {
+  packets: number;
+  bytes: number;
+  firstPacketTime?: string;
+  lastPacketTime?: string;
+  protocolHierarchy: ProtocolNode[];
+  topAddresses: AddressTalker[];
+  topPorts: PortTalker[];
+  conversations: { tcp: Conversation[]; udp: Conversation[]; tcpTotal: number; udpTotal: number };
+  throughput: { bucketSeconds: number; buckets: ThroughputBucket[] };
+  http: HttpSummary;
+}
+
+export interface StatsOptions {
+  // Number of entries kept in each "top" list and conversation list
+  top?: number;
+  // Width of the throughput buckets; derived from the capture length when omitted
+  bucketSeconds?: number;
+  // Only count the packets captured on this interface of a merged capture, i.e. one container's traffic
+  interfaceId?: number;
+}
+
+const DEFAULT_TOP = 10;
+const PAGE_SIZE = 1000;
+// Target number of throughput buckets when the bucket width is derived
+const TARGET_BUCKETS = 60;
+
+const STATS_FIELDS = [
+  'frame.interface_id',
+  'frame.len',
+  'frame.time_epoch',
+  'frame.protocols',
+  'ip.src',
+  'ip.dst',
+  'ipv6.src',
+  'ipv6.dst',
+  'tcp.srcport',
+  'tcp.dstport',
+  'tcp.stream',
+  'udp.srcport',
+  'udp.dstport',
+  'udp.stream',
+  'http.request.method',
+  'http.request.uri',
+  'http.host',
+  'http.response.code',
+];
+
+interface StatsState {
+  packets: number;
+  bytes: number;
+  firstEpoch?: number;
+  lastEpoch?: number;
+  protocols: ProtocolNode;
+  addresses: Map<string, AddressTalker>;
+  ports: Map<string, PortTalker>;
+  conversations: Map<string, Conversation & { firstEpoch: number; lastEpoch: number }>;
+  // Packets per whole second, folded into buckets once the capture length is known
+  perSecond: Map<number, { packets: number; bytes: number }>;
+  http: { requests: number; responses: number; methods: Map<string, number>; statusCodes: Map<string, number>; hosts: Map<string, number>; uris: Map<string, number> };
+}
+
+// tshark repeats a field when a packet carries a layer twice (e.g. tunnels); the outermost value wins
+function first(value: any): string | undefined {
+  if (Array.isArray(value)) return first(value[0]);
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+function increment(map: Map<string, number>, key: string | undefined) {
+  if (key === undefined) return;
+  map.set(key, (map.get(key) || 0) + 1);
+}
+
+function topEntries(map: Map<string, number>, top: number): [string, number][] {
+  return [...map.entries()].sort((a, b) => b[1] - a[1]).slice(0, top);
+}
+
+function newState(): StatsState {
+  return {
+    packets: 0,
+    bytes: 0,
+    protocols: { protocol: '', packets: 0, bytes: 0, children: [] },
+    addresses: new Map(),
+    ports: new Map(),
+    conversations: new Map(),
+    perSecond: new Map(),
+    http: { requests: 0, responses: 0, methods: new Map(), statusCodes: new Map(), hosts: new Map(), uris: new Map() },
+  };
+}
+
+function addAddress(state: StatsState, address: string, bytes: number, direction: 'tx' | 'rx') {
+  let talker = state.addresses.get(address);
+  if (!talker) {
+    talker = { address, packets: 0, bytes: 0, txBytes: 0, rxBytes: 0 };
+    state.addresses.set(address, talker);
+  }
+  talker.packets++;
+  talker.bytes += bytes;
+  if (direction === 'tx') talker.txBytes += bytes;
+  else talker.rxBytes += bytes;
+}
+
+function addPort(state: StatsState, transport: 'tcp' | 'udp', port: number, bytes: number) {
+  const key = `${transport}/${port}`;
+  let talker = state.ports.get(key);
+  if (!talker) {
+    talker = { transport, port, packets: 0, bytes: 0 };
+    state.ports.set(key, talker);
+  }
+  talker.packets++;
+  talker.bytes += bytes;
+}
+
+function addConversation(
+  state: StatsState,
+  transport: 'tcp' | 'udp',
+  fields: Record<string, any>,
+  src: string,
+  dst: string,
+  bytes: number,
+  epoch: number
+) {
+  const srcPort = Number(first(fields[`${transport}.srcport`]));
+  const dstPort = Number(first(fields[`${transport}.dstport`]));
+  // The first packet seen decides which endpoint is "A"
+  const stream = first(fields[`${transport}.stream`]);
+  const forwardKey = `${transport}|${stream ?? `${src}:${srcPort}|${dst}:${dstPort}`}`;
+  const reverseKey = `${transport}|${stream ?? `${dst}:${dstPort}|${src}:${srcPort}`}`;
+  let conversation = state.conversations.get(forwardKey) || state.conversations.get(reverseKey);
+  if (!conversation) {
+    conversation = {
+      transport,
+      addressA: src,
+      portA: srcPort,
+      addressB: dst,
+      portB: dstPort,
+      packets: 0,
+      bytes: 0,
+      packetsAtoB: 0,
+      bytesAtoB: 0,
+      packetsBtoA: 0,
+      bytesBtoA: 0,
+      firstEpoch: epoch,
+      lastEpoch: epoch,
+    };
+    state.conversations.set(forwardKey, conversation);
+  }
+  conversation.packets++;
+  conversation.bytes += bytes;
+  if (conversation.addressA === src && conversation.portA === srcPort) {
+    conversation.packetsAtoB++;
+    conversation.bytesAtoB += bytes;
+  } else {
+    conversation.packetsBtoA++;
+    conversation.bytesBtoA += bytes;
+  }
+  conversation.firstEpoch = Math.min(conversation.firstEpoch, epoch);
+  conversation.lastEpoch = Math.max(conversation.lastEpoch, epoch);
+}
+
+function addPacket(state: StatsState, packet: any, interfaceId?: number) {
+  const fields = projectPacket(packet, STATS_FIELDS);
+  if (interfaceId !== undefined && Number(first(fields['frame.interface_id']) ?? 0) !== interfaceId) return;
+  const bytes = Number(first(fields['frame.len'])) || 0;
+  const epoch = Number(first(fields['frame.time_epoch']));
+  state.packets++;
+  state.bytes += bytes;
+
+  if (Number.isFinite(epoch)) {
+    state.firstEpoch = state.firstEpoch === undefined ? epoch : Math.min(state.firstEpoch, epoch);
+    state.lastEpoch = state.lastEpoch === undefined ? epoch : Math.max(state.lastEpoch, epoch);
+    const second = Math.floor(epoch);
+    const slot = state.perSecond.get(second) || { packets: 0, bytes: 0 };
+    slot.packets++;
+    slot.bytes += bytes;
+    state.perSecond.set(second, slot);
+  }
+
+  // frame.protocols is the dissector chain, e.g. "eth:ethertype:ip:tcp:http"
+  let node = state.protocols;
+  for (const protocol of (first(fields['frame.protocols']) || '').split(':').filter(Boolean)) {
+    let child = node.children.find((candidate) => candidate.protocol === protocol);
+    if (!child) {
+      child = { protocol, packets: 0, bytes: 0, children: [] };
+      node.children.push(child);
+    }
+    child.packets++;
+    child.bytes += bytes;
+    node = child;
+  }
+
+  const src = first(fields['ip.src']) ?? first(fields['ipv6.src']);
+  const dst = first(fields['ip.dst']) ?? first(fields['ipv6.dst']);
+  if (src !== undefined && dst !== undefined) {
+    addAddress(state, src, bytes, 'tx');
+    addAddress(state, dst, bytes, 'rx');
+    for (const transport of ['tcp', 'udp'] as const) {
+      if (fields[`${transport}.srcport`] === null) continue;
+      const srcPort = Number(first(fields[`${transport}.srcport`]));
+      const dstPort = Number(first(fields[`${transport}.dstport`]));
+      addPort(state, transport, srcPort, bytes);
+      if (dstPort !== srcPort) addPort(state, transport, dstPort, bytes);
+      addConversation(state, transport, fields, src, dst, bytes, Number.isFinite(epoch) ? epoch : 0);
+      break;
+    }
+  }
+
+  const method = first(fields['http.request.method']);
+  if (method !== undefined) {
+    state.http.requests++;
+    increment(state.http.methods, method);
+    increment(state.http.hosts, first(fields['http.host']));
+    increment(state.http.uris, first(fields['http.request.uri']));
+  }
+  const statusCode = first(fields['http.response.code']);
+  if (statusCode !== undefined) {
+    state.http.responses++;
+    increment(state.http.statusCodes, statusCode);
+  }
+}
+
+function epochToIso(epoch: number | undefined): string | undefined {
+  return epoch === undefined ? undefined : new Date(epoch * 1000).toISOString();
+}
+
+function sortProtocols(nodes: ProtocolNode[]): ProtocolNode[] {
+  return nodes
+    .sort((a, b) => b.packets - a.packets)
+    .map((node) => ({ ...node, children: sortProtocols(node.children) }));
+}
+
+function throughput(state: StatsState, requestedBucketSeconds?: number): TrafficStats['throughput'] {
+  if (state.firstEpoch === undefined || state.lastEpoch === undefined) {
+    return { bucketSeconds: requestedBucketSeconds || 1, buckets: [] };
+  }
+  const start = Math.floor(state.firstEpoch);
+  const span = Math.floor(state.lastEpoch) - start + 1;
+  const bucketSeconds = requestedBucketSeconds || Math.max(1, Math.ceil(span / TARGET_BUCKETS));
+  const buckets: ThroughputBucket[] = [];
+  for (let i = 0; i < Math.ceil(span / bucketSeconds); i++) {
+    buckets.push({ start: epochToIso(start + i * bucketSeconds) as string, packets: 0, bytes: 0, bitsPerSecond: 0 });
+  }
+  for (const [second, slot] of state.perSecond) {
+    const bucket = buckets[Math.floor((second - start) / bucketSeconds)];
+    bucket.packets += slot.packets;
+    bucket.bytes += slot.bytes;
+  }
+  for (const bucket of buckets) bucket.bitsPerSecond = (bucket.bytes * 8) / bucketSeconds;
+  return { bucketSeconds, buckets };
+}
+
+function finish(state: StatsState, options: StatsOptions): TrafficStats {
+  const top = options.top || DEFAULT_TOP;
+  const conversations = [...state.conversations.values()]
+    .sort((a, b) => b.bytes - a.bytes)
+    .map(({ firstEpoch, lastEpoch, ...conversation }) => ({
+      ...conversation,
+      firstPacketTime: epochToIso(firstEpoch),
+      lastPacketTime: epochToIso(lastEpoch),
+    }));
+  const tcp = conversations.filter((conversation) => conversation.transport === 'tcp');
+  const udp = conversations.filter((conversation) => conversation.transport === 'udp');
+  return {
+    packets: state.packets,
+    bytes: state.bytes,
+    firstPacketTime: epochToIso(state.firstEpoch),
+    lastPacketTime: epochToIso(state.lastEpoch),
+    protocolHierarchy: sortProtocols(state.protocols.children),
+    topAddresses: [...state.addresses.values()].sort((a, b) => b.bytes - a.bytes).slice(0, top),
+    topPorts: [...state.ports.values()].sort((a, b) => b.bytes - a.bytes).slice(0, top),
+    conversations: { tcp: tcp.slice(0, top), udp: udp.slice(0, top), tcpTotal: tcp.length, udpTotal: udp.length },
+    throughput: throughput(state, options.bucketSeconds),
+    http: {
+      requests: state.http.requests,
+      responses: state.http.responses,
+      methods: Object.fromEntries(state.http.methods),
+      statusCodes: Object.fromEntries(state.http.statusCodes),
+      topHosts: topEntries(state.http.hosts, top).map(([host, requests]) => ({ host, requests })),
+      topUris: topEntries(state.http.uris, top).map(([uri, requests]) => ({ uri, requests })),
+    },
+  };
+}
+
+/**
+ * Computes traffic statistics over an indexed tshark JSON capture in a single paged pass.
+ */
+export async function computeTrafficStats(jsonFile: string, indexFile: string, options: StatsOptions = {}): Promise<TrafficStats> {
+  const state = newState();
+  const total = await packetCount(indexFile);
+  for (let offset = 0; offset < total; offset += PAGE_SIZE) {
+    for (const packet of await readPackets(jsonFile, indexFile, offset, PAGE_SIZE)) {
+      addPacket(state, packet, options.interfaceId);
+    }
+  }
+  return finish(state, options);
+}
+
+/**
+ * Parses the totals row of `tshark -q -z io,stat,0`, e.g. `|  0.0 <> 12.3 |  34 |  5678 |`.
+ */
+export function parseIoStatTotals(output: string): { packets: number; bytes: number } | undefined {
+  const match = /\|\s*[\d.]+\s*<>\s*(?:[\d.]+|Dur)\s*\|\s*(\d+)\s*\|\s*(\d+)\s*\|/.exec(output);
+  return match ? { packets: Number(match[1]), bytes: Number(match[2]) } : undefined;
+}
+
+/**
+ * Arguments of `tshark -q -z io,stat,0` over `pcapFile`. Stats taps see every dissected packet before
+ * `-Y` applies, so a display filter is applied as a two-pass read filter (`-2 -R`) instead, which drops
+ * the other packets before the second pass the stats are computed on.
+ */
+function ioStatArgs(pcapFile: string, displayFilter?: string): string[] {
+  const args = ['-r', pcapFile, '-q', '-z', 'io,stat,0'];
+  if (displayFilter) args.push('-2', '-R', displayFilter);
+  return args;
+}
+
+/**
+ * Counts the packets each agent captured in `dir`, optionally restricted to a display filter so the
+ * counts line up with the filtered view. A function gives each container's file its own filter, e.g.
+ * when the filter selects containers by interface.
+ */
+export async function countPacketsPerContainer(
+  dir: string,
+  containers: string[],
+  displayFilter?: string | ((containerName: string) => string)
+): Promise<ContainerCount[]> {
+  const counts: ContainerCount[] = [];
+  for (const containerName of containers) {
+    const pcapFile = path.join(dir, `dumpfile_${containerName}.pcap`);
+    if (!fsSync.existsSync(pcapFile)) {
+      counts.push({ containerName, packets: 0, bytes: 0, error: 'No capture file' });
+      continue;
+    }
+    const filter = typeof displayFilter === 'function' ? displayFilter(containerName) : displayFilter;
+    try {
+      const { stdout } = await runCommand('tshark', ioStatArgs(pcapFile, filter));
+      const totals = parseIoStatTotals(stdout);
+      counts.push(totals ? { containerName, ...totals } : { containerName, packets: 0, bytes: 0, error: 'Unexpected tshark output' });
+    } catch (err: any) {
+      counts.push({ containerName, packets: 0, bytes: 0, error: err?.message || String(err) });
+    }
+  }
+  return counts;
+}
+
+/**
+ * Counts the packets of `pcapFile` that match a display filter.
+ */
+export async function countMatchingPackets(pcapFile: string, displayFilter: string): Promise<{ packets: number; bytes: number }> {
+  const { stdout } = await runCommand('tshark', ioStatArgs(pcapFile, displayFilter));
+  const totals = parseIoStatTotals(stdout);
+  if (!totals) throw new Error('Unexpected tshark output');
+  return totals;
+}
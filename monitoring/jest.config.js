@@ -0,0 +1,12 @@
+module.exports = {
+  testEnvironment: 'node',
+  testMatch: ['**/src/**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': 'ts-jest',
+  },
+  globals: {
+    'ts-jest': {
+      tsconfig: 'tsconfig.json',
+    },
+  },
+};
\ No newline at end of file
@@ -0,0 +1,468 @@
+import request from 'supertest';
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { ChildProcess } from 'child_process';
+import { createAgentApp, AgentApp } from './app';
+import { DiskUsage } from './diskSpace';
+
+// Three packets of an HTTP request, as tcpdump -w would have written them
+const FIXTURE = path.join(__dirname, 'fixtures', 'capture.pcap');
+// What `tcpdump --print -tt -n -e -q` prints for the same packets
+const PACKET_LINES = [
+  '1735732800.000000 02:42:0a:00:00:02 > 02:42:0a:00:00:0a, IPv4, length 54: 10.0.0.2.40000 > 10.0.0.10.80: tcp 0',
+  '1735732800.001000 02:42:0a:00:00:0a > 02:42:0a:00:00:02, IPv4, length 54: 10.0.0.10.80 > 10.0.0.2.40000: tcp 0',
+  '1735732800.002000 02:42:0a:00:00:02 > 02:42:0a:00:00:0a, IPv4, length 94: 10.0.0.2.40000 > 10.0.0.10.80: tcp 40',
+];
+const COUNTERS = '3 packets captured\n3 packets received by filter\n0 packets dropped by kernel\n';
+
+interface FakeProcess extends EventEmitter {
+  stdout: PassThrough;
+  stderr: PassThrough;
+  pid: number;
+  args: string[];
+  kill(signal?: string): boolean;
+  printPackets(): void;
+}
+
+interface FakeTcpdumpOptions {
+  // Keep running after SIGINT, like a tcpdump stuck flushing its file
+  ignoreSigint?: boolean;
+  // Fail to spawn, like an agent without the permission to run tcpdump
+  spawnError?: string;
+}
+
+/**
+ * Stands in for tcpdump: `-d` accepts any filter but `bogus`, and a capture copies the fixture to
+ * its `-w` file (a ring segment named after the current epoch), prints the packets on demand and exits on SIGINT (or on its own with `-c`).
+ */
+function fakeTcpdump(options: FakeTcpdumpOptions = {}) {
+  const processes: FakeProcess[] = [];
+  const spawn = jest.fn((command: string, args: string[]) => {
+    if (options.spawnError) throw new Error(options.spawnError);
+    const child = new EventEmitter() as FakeProcess;
+    child.stdout = new PassThrough();
+    child.stderr = new PassThrough();
+    child.pid = 1000 + processes.length;
+    child.args = args;
+    let exited = false;
+    const exit = (code: number | null, signal: string | null) => {
+      if (exited) return;
+      exited = true;
+      setImmediate(() => {
+        child.stdout.end();
+        child.stderr.end();
+        child.emit('close', code, signal);
+      });
+    };
+    child.printPackets = () => {
+      child.stdout.write(PACKET_LINES.join('\n') + '\n');
+    };
+    child.kill = (signal = 'SIGTERM') => {
+      if (signal === 'SIGINT' && options.ignoreSigint) return true;
+      if (signal === 'SIGINT') child.stderr.write(COUNTERS);
+      exit(signal === 'SIGINT' ? 0 : null, signal === 'SIGINT' ? null : signal);
+      return true;
+    };
+    if (args[0] === '-d') {
+      if (args.includes('bogus')) child.stderr.write('tcpdump: syntax error in filter expression');
+      exit(args.includes('bogus') ? 1 : 0, null);
+      return child as unknown as ChildProcess;
+    }
+    fs.copyFileSync(FIXTURE, args[args.indexOf('-w') + 1].replace('%s', String(epoch())));
+    processes.push(child);
+    if (args.includes('-c')) {
+      // The packet limit is reached as soon as the packets arrive
+      setImmediate(() => {
+        child.printPackets();
+        child.stderr.write(COUNTERS);
+        exit(0, null);
+      });
+    }
+    return child as unknown as ChildProcess;
+  });
+  return { spawn, processes };
+}
+
+const epoch = () => Math.floor(Date.now() / 1000);
+
+const sha256 = (file: string) => createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+
+const GIB = 1024 * 1024 * 1024;
+
+let dataDir: string;
+// Usage the fake data volume reports; tests lower `availableBytes` to fill it up
+let disk: DiskUsage;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-'));
+  disk = { totalBytes: 100 * GIB, availableBytes: 50 * GIB };
+});
+
+afterEach(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+function agentWith(tcpdump: ReturnType<typeof fakeTcpdump>, stopTimeoutMs: number = 1000): AgentApp {
+  return createAgentApp({
+    containerName: 'scan1',
+    dataDir,
+    spawn: tcpdump.spawn,
+    defaultCaptureOptions: { filter: 'port 80', snaplen: 0, promiscuous: true },
+    stopTimeoutMs,
+    diskUsage: async () => disk,
+    minFreeBytes: GIB,
+    defaultRingOptions: {},
+  });
+}
+
+describe('GET /start', () => {
+  it('should start tcpdump into the session directory', async () => {
+    const tcpdump = fakeTcpdump();
+    const agent = agentWith(tcpdump);
+    const res = await request(agent.app).get('/start?session=s1&snaplen=128');
+    expect(res.statusCode).toBe(200);
+    expect(res.text).toBe('tcpdump started. With pid: 1000');
+    const args = tcpdump.processes[0].args;
+    expect(args[args.indexOf('-w') + 1]).toBe(path.join(dataDir, 'sessions', 's1', 'dumpfile_scan1.pcap'));
+    expect(args).toEqual(expect.arrayContaining(['-s', '128', 'port 80']));
+    expect(agent.heartbeatState()).toEqual({ capturing: true, sessionId: 's1', finishedSessionId: undefined });
+    await request(agent.app).get('/stop?session=s1');
+  });
+
+  it('should refuse a second capture while one is running', async () => {
+    const agent = agentWith(fakeTcpdump());
+    await request(agent.app).get('/start?session=s1');
+    const res = await request(agent.app).get('/start?session=s2');
+    expect(res.statusCode).toBe(400);
+    expect(res.text).toBe('tcpdump is already running.');
+    await request(agent.app).get('/stop?session=s1');
+  });
+
+  it('should reject filters tcpdump cannot compile and invalid session ids', async () => {
+    const tcpdump = fakeTcpdump();
+    const agent = agentWith(tcpdump);
+    const filter = await request(agent.app).get('/start?session=s1&filter=bogus');
+    expect(filter.statusCode).toBe(400);
+    expect(filter.text).toContain('syntax error');
+    const option = await request(agent.app).get('/start?session=s1&filter=-w%2Fetc%2Fx');
+    expect(option.statusCode).toBe(400);
+    expect(option.text).toBe('filter must not start with "-"');
+    const session = await request(agent.app).get('/start?session=..%2Fetc');
+    expect(session.statusCode).toBe(400);
+    expect(tcpdump.processes).toHaveLength(0);
+  });
+
+  it('should answer 500 when tcpdump cannot be run', async () => {
+    const agent = agentWith(fakeTcpdump({ spawnError: 'spawn tcpdump EACCES' }));
+    const start = await request(agent.app).get('/start?session=s1');
+    expect(start.statusCode).toBe(500);
+    expect(start.text).toBe('Failed to check the capture filter: spawn tcpdump EACCES');
+    const ring = await request(agent.app).get('/ring/start?window=60');
+    expect(ring.statusCode).toBe(500);
+    expect(ring.text).toBe('Failed to check the capture filter: spawn tcpdump EACCES');
+    expect((await request(agent.app).get('/status')).body.capturing).toBe(false);
+  });
+});
+
+describe('GET /stop', () => {
+  it('should answer once tcpdump has exited, with its counters and checksum', async () => {
+    const agent = agentWith(fakeTcpdump());
+    await request(agent.app).get('/start?session=s1');
+    const res = await request(agent.app).get('/stop?session=s1');
+    expect(res.statusCode).toBe(200);
+    const file = path.join(dataDir, 'sessions', 's1', 'dumpfile_scan1.pcap');
+    expect(res.body).toMatchObject({
+      sessionId: 's1',
+      file,
+      exitCode: 0,
+      fileSize: fs.statSync(FIXTURE).size,
+      packetCount: 3,
+      packetsDropped: 0,
+      sha256: sha256(FIXTURE),
+      endedBy: 'stop',
+    });
+    expect(agent.heartbeatState().capturing).toBe(false);
+  });
+
+  it('should refuse to stop another session and report a finished one again', async () => {
+    const agent = agentWith(fakeTcpdump());
+    expect((await request(agent.app).get('/stop')).statusCode).toBe(400);
+    await request(agent.app).get('/start?session=s1');
+    expect((await request(agent.app).get('/stop?session=s2')).statusCode).toBe(409);
+    await request(agent.app).get('/stop?session=s1');
+    const again = await request(agent.app).get('/stop?session=s1');
+    expect(again.statusCode).toBe(200);
+    expect(again.body.endedBy).toBe('stop');
+  });
+
+  it('should kill tcpdump when it does not exit after SIGINT', async () => {
+    const tcpdump = fakeTcpdump({ ignoreSigint: true });
+    const agent = agentWith(tcpdump, 50);
+    await request(agent.app).get('/start?session=s1');
+    const res = await request(agent.app).get('/stop?session=s1');
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ killed: true, signal: 'SIGKILL', exitCode: null });
+  });
+});
+
+describe('capture limits', () => {
+  it('should report a capture that reached its packet limit', async () => {
+    const agent = agentWith(fakeTcpdump());
+    await request(agent.app).get('/start?session=s1&maxPackets=3');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(agent.heartbeatState()).toEqual({ capturing: false, sessionId: undefined, finishedSessionId: 's1' });
+    const res = await request(agent.app).get('/stop?session=s1');
+    expect(res.body).toMatchObject({ endedBy: 'limit', packetCount: 3 });
+  });
+});
+
+describe('GET /status', () => {
+  it('should report the running capture, then the last one', async () => {
+    const agent = agentWith(fakeTcpdump());
+    const idle = await request(agent.app).get('/status');
+    expect(idle.statusCode).toBe(200);
+    expect(idle.body).toEqual({ containerName: 'scan1', labels: '', capturing: false, disk });
+
+    await request(agent.app).get('/start?session=s1');
+    const running = await request(agent.app).get('/status');
+    expect(running.body).toMatchObject({
+      capturing: true,
+      sessionId: 's1',
+      pid: 1000,
+      startedAt: expect.any(String),
+      fileSize: fs.statSync(FIXTURE).size,
+    });
+
+    await request(agent.app).get('/stop?session=s1');
+    const stopped = await request(agent.app).get('/status');
+    expect(stopped.body).toMatchObject({ capturing: false, lastCapture: { sessionId: 's1', endedBy: 'stop', packetCount: 3 } });
+    expect(stopped.body.sessionId).toBeUndefined();
+  });
+});
+
+describe('disk space', () => {
+  it('should refuse to capture when the data volume is nearly full', async () => {
+    const tcpdump = fakeTcpdump();
+    const agent = agentWith(tcpdump);
+    disk.availableBytes = GIB - 1;
+    const res = await request(agent.app).get('/start?session=s1');
+    expect(res.statusCode).toBe(507);
+    expect(res.text).toContain(`${GIB - 1} bytes free`);
+    expect(tcpdump.processes).toHaveLength(0);
+    expect(await agent.diskUsage()).toEqual(disk);
+  });
+
+  it('should stop a capture when free space drops below the minimum', async () => {
+    const agent = agentWith(fakeTcpdump());
+    await request(agent.app).get('/start?session=s1');
+    disk.availableBytes = GIB / 2;
+    // The watchdog checks the volume every second
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    expect(agent.heartbeatState()).toEqual({ capturing: false, sessionId: undefined, finishedSessionId: 's1' });
+    const res = await request(agent.app).get('/stop?session=s1');
+    expect(res.body).toMatchObject({ endedBy: 'disk', packetCount: 3 });
+    const metrics = await request(agent.app).get('/metrics');
+    expect(metrics.text).toContain(`agent_data_available_bytes ${GIB / 2}`);
+  });
+});
+
+describe('GET /captures/:sessionId', () => {
+  it('should serve a finished capture, in ranges when asked', async () => {
+    const agent = agentWith(fakeTcpdump());
+    await request(agent.app).get('/start?session=s1');
+    const busy = await request(agent.app).get('/captures/s1');
+    expect(busy.statusCode).toBe(409);
+    await request(agent.app).get('/stop?session=s1');
+
+    const full = await request(agent.app).get('/captures/s1').buffer(true).parse((res, done) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => done(null, Buffer.concat(chunks)));
+    });
+    expect(full.statusCode).toBe(200);
+    expect(full.headers['content-type']).toBe('application/vnd.tcpdump.pcap');
+    expect(Buffer.compare(full.body, fs.readFileSync(FIXTURE))).toBe(0);
+
+    const part = await request(agent.app).get('/captures/s1').set('Range', 'bytes=0-23');
+    expect(part.statusCode).toBe(206);
+    expect(part.headers['content-length']).toBe('24');
+  });
+
+  it('should return 404 for sessions without a capture', async () => {
+    const agent = agentWith(fakeTcpdump());
+    expect((await request(agent.app).get('/captures/s9')).statusCode).toBe(404);
+    expect((await request(agent.app).get('/captures/bad.id')).statusCode).toBe(400);
+  });
+});
+
+describe('GET /live', () => {
+  it('should stream a summary of each packet until the capture stops', async () => {
+    const tcpdump = fakeTcpdump();
+    const agent = agentWith(tcpdump);
+    expect((await request(agent.app).get('/live?session=s1')).statusCode).toBe(404);
+    await request(agent.app).get('/start?session=s1');
+
+    const server = agent.app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    const body = await new Promise<string>((resolve, reject) => {
+      http.get(`http://127.0.0.1:${port}/live?session=s1`, (res) => {
+        let text = '';
+        res.on('data', (chunk) => {
+          text += chunk;
+        });
+        res.on('end', () => resolve(text));
+        tcpdump.processes[0].printPackets();
+        setTimeout(() => request(agent.app).get('/stop?session=s1').catch(reject), 50);
+      }).on('error', reject);
+    });
+    server.close();
+
+    const summaries = body.trim().split('\n').map((line) => JSON.parse(line));
+    expect(summaries).toHaveLength(3);
+    expect(summaries[2]).toMatchObject({ length: 94, source: '10.0.0.2', sourcePort: 40000, destinationPort: 80, protocols: ['eth', 'ip', 'tcp'] });
+  });
+});
+
+describe('GET /metrics', () => {
+  it('should count tcpdump runs and captured packets', async () => {
+    const agent = agentWith(fakeTcpdump());
+    await request(agent.app).get('/start?session=s1&maxPackets=3');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const res = await request(agent.app).get('/metrics');
+    expect(res.statusCode).toBe(200);
+    expect(res.text).toContain('agent_capturing 0');
+    expect(res.text).toMatch(/^agent_tcpdump_exits_total\{ended_by="limit"\} \d+$/m);
+    expect(res.text).toMatch(/^agent_captured_packets_total [1-9]\d*$/m);
+  });
+});
+
+describe('ring buffer', () => {
+  const ringDir = () => path.join(dataDir, 'ring', 'scan1');
+  // An older segment of the ring, as tcpdump would have left it `secondsAgo` seconds back
+  const addSegment = (secondsAgo: number) => {
+    const name = `ring-${epoch() - secondsAgo}.pcap`;
+    fs.copyFileSync(FIXTURE, path.join(ringDir(), name));
+    return name;
+  };
+
+  it('should refuse a ring without bounds, and a second ring', async () => {
+    const agent = agentWith(fakeTcpdump());
+    const unbounded = await request(agent.app).get('/ring/start');
+    expect(unbounded.statusCode).toBe(400);
+    expect(unbounded.text).toContain('needs a window');
+    expect((await request(agent.app).get('/ring/start?window=60')).statusCode).toBe(200);
+    expect((await request(agent.app).get('/ring/start?window=60')).statusCode).toBe(409);
+    expect((await request(agent.app).get('/ring/stop')).statusCode).toBe(200);
+    expect((await request(agent.app).get('/ring/stop')).statusCode).toBe(409);
+    expect((await request(agent.app).get('/ring/snapshot?session=s1')).statusCode).toBe(409);
+  });
+
+  it('should freeze the ring into a session and keep recording', async () => {
+    const tcpdump = fakeTcpdump();
+    const agent = agentWith(tcpdump);
+    const started = await request(agent.app).get('/ring/start?window=60&filter=port%20443');
+    expect(started.statusCode).toBe(200);
+    expect(started.body).toMatchObject({ running: true, windowSeconds: 60, segmentSeconds: 6, filter: 'port 443', segments: 1 });
+    const args = tcpdump.processes[0].args;
+    expect(args).toEqual(expect.arrayContaining(['-w', path.join(ringDir(), 'ring-%s.pcap'), '-G', '6']));
+    expect(args.slice(-2)).toEqual(['--', 'port 443']);
+    expect(args).not.toContain('-W');
+    addSegment(30);
+
+    const res = await request(agent.app).get('/ring/snapshot?session=s1');
+    expect(res.statusCode).toBe(200);
+    const file = path.join(dataDir, 'sessions', 's1', 'dumpfile_scan1.pcap');
+    const size = fs.statSync(FIXTURE).size;
+    expect(res.body).toMatchObject({
+      sessionId: 's1',
+      file,
+      endedBy: 'snapshot',
+      segments: 2,
+      packetCount: 6,
+      packetsDropped: 0,
+      fileSize: 2 * size - 24,
+      sha256: sha256(file),
+      firstPacketTime: expect.any(String),
+    });
+    // Both segments hold the fixture's packets: the first header, then the records of each
+    expect(Buffer.compare(fs.readFileSync(file).subarray(size), fs.readFileSync(FIXTURE).subarray(24))).toBe(0);
+
+    expect(tcpdump.processes).toHaveLength(2);
+    expect(agent.heartbeatState().ring).toMatchObject({ running: true, segments: 1, bytes: size });
+    expect(agent.heartbeatState().capturing).toBe(false);
+
+    await request(agent.app).get('/ring/stop');
+    expect(agent.heartbeatState().ring).toBeUndefined();
+    expect(fs.existsSync(ringDir())).toBe(false);
+    expect(fs.existsSync(file)).toBe(true);
+  });
+
+  it('should delete segments that left the window or overflow the size', async () => {
+    const agent = agentWith(fakeTcpdump());
+    const size = fs.statSync(FIXTURE).size;
+    await request(agent.app).get(`/ring/start?window=60&size=${2 * size}`);
+    addSegment(300);
+    addSegment(200);
+    const recent = addSegment(30);
+    // The ring is pruned every second
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    // -300 ended before the window; -200 reaches into it, but pushes the ring over its size
+    const kept = fs.readdirSync(ringDir());
+    await request(agent.app).get('/ring/stop');
+    expect(kept).toHaveLength(2);
+    expect(kept).toContain(recent);
+  });
+
+  it('should stream the packets the ring records', async () => {
+    const tcpdump = fakeTcpdump();
+    const agent = agentWith(tcpdump);
+    expect((await request(agent.app).get('/live?ring=true')).statusCode).toBe(404);
+    await request(agent.app).get('/ring/start?size=1000000');
+
+    const server = agent.app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    const body = await new Promise<string>((resolve, reject) => {
+      http.get(`http://127.0.0.1:${port}/live?ring=true`, (res) => {
+        let text = '';
+        res.on('data', (chunk) => {
+          text += chunk;
+        });
+        res.on('end', () => resolve(text));
+        tcpdump.processes[0].printPackets();
+        setTimeout(() => request(agent.app).get('/ring/stop').catch(reject), 50);
+      }).on('error', reject);
+    });
+    server.close();
+    expect(body.trim().split('\n')).toHaveLength(3);
+  });
+
+  it('should keep the ring out of the feed of captures', async () => {
+    const tcpdump = fakeTcpdump();
+    const agent = agentWith(tcpdump);
+    await request(agent.app).get('/start');
+    await request(agent.app).get('/ring/start?size=1000000');
+
+    const server = agent.app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    const body = await new Promise<string>((resolve, reject) => {
+      http.get(`http://127.0.0.1:${port}/live`, (res) => {
+        let text = '';
+        res.on('data', (chunk) => {
+          text += chunk;
+        });
+        res.on('end', () => resolve(text));
+        tcpdump.processes[1].printPackets();
+        setTimeout(() => request(agent.app).get('/ring/stop').catch(reject), 50);
+        setTimeout(() => request(agent.app).get('/stop').catch(reject), 100);
+      }).on('error', reject);
+    });
+    server.close();
+    expect(body).toBe('');
+  });
+});
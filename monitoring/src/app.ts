@@ -10,106 +10,656 @@
  * 
  * @usage
  * - Start the server: `node app.js`
+ * - Tests build the app with `createAgentApp`, passing a fake tcpdump and a temporary data directory
  * - Endpoints:
- *   - GET /start: Starts the tcpdump process
- *   - GET /stop: Stops the tcpdump process
+ *   - GET /start?session=<id>&filter=&snaplen=&interface=&promiscuous=&duration=&maxPackets=&maxBytes=: Starts the
+ *     tcpdump process, writing into the session's directory. Query options override the TCPDUMP_* environment defaults.
+ *     Answers 507 when less than MIN_FREE_BYTES are free on the data volume; a running capture is stopped when
+ *     free space drops below it (see diskSpace.ts)
+ *   - GET /stop?session=<id>: Stops the tcpdump process and answers once it has exited, with its exit code,
+ *     file path, file size, SHA-256 and packet count
+ *   - GET /captures/:sessionId: Downloads the capture file of a finished session (Range requests supported),
+ *     for control when it does not share the /data volume
+ *   - GET /live?session=<id>: Streams a summary of each captured packet as NDJSON while the capture runs;
+ *     `?ring=true` streams the packets of the ring buffer instead
+ *   - GET /ring/start?window=&size=&filter=&snaplen=&interface=&promiscuous=: Starts the ring buffer (see ringBuffer.ts),
+ *     which keeps the last `window` seconds and/or `size` bytes of traffic (defaults: RING_WINDOW_SECONDS, RING_MAX_BYTES).
+ *     RING_AUTOSTART=true starts it with the defaults when the agent boots
+ *   - GET /ring/snapshot?session=<id>: Freezes the ring into the session's capture file, answering like /stop with
+ *     `endedBy: "snapshot"`, then starts a fresh ring
+ *   - GET /ring/stop: Stops the ring buffer and deletes its segments
+ *   - GET /status: The agent's capture state, last capture result, ring buffer, labels and free space; control
+ *     reads it on boot to pick up a capture that was running when it restarted
+ *   - GET /metrics: Prometheus metrics (capture state, packets and bytes captured, tcpdump starts, drops, free space)
  * 
+ * These endpoints only accept calls signed by control when AGENT_SHARED_SECRET is set (see auth.ts);
+ * /metrics instead requires `Authorization: Bearer $METRICS_TOKEN` when METRICS_TOKEN is set.
+ *
  * @note Ensure the required environment variables and permissions are set for tcpdump to work.
  */
 
 import express, { Request, Response } from 'express';
 import { exec, spawn, ChildProcess } from 'child_process';
-import axios from 'axios'; // Add axios for HTTP requests
-
-var containerName = '';
-// Log the current Docker container name and send it to the control server
-exec('cat /etc/hostname', (error, stdout, stderr) => {
-  if (error) {
-    console.error(`Error retrieving container name: ${error.message}`);
-    return;
-  }
-  if (stderr) {
-    console.error(`Error: ${stderr}`);
-    return;
-  }
-  containerName = stdout.trim();
-  console.log(`Current Docker container name: ${containerName}`);
-
-  // Wait 5 seconds before sending the container name to the control server
-  setTimeout(() => {
-    axios
-      .get(`http://control:3000/server-name/${containerName}`)
-      .then(() => {
-        console.log(`Successfully sent container name to control server.`);
-      })
-      .catch((err) => {
-        console.error(`Failed to send container name to control server: ${err.message}`);
-      });
-  }, 5000);
-});
-
-const app = express();
-app.use(express.json());
+import path from 'path';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import {
+    CaptureOptions,
+    CaptureOptionsError,
+    captureOptionsFromEnv,
+    applyOverrides,
+    compileFilter,
+    tcpdumpArgs,
+    RingOptions,
+    ringOptionsFromEnv,
+    applyRingOverrides,
+    SpawnProcess,
+} from './captureOptions';
+import { keepRegistered, agentLabels, HeartbeatState } from './controlClient';
+import { DiskUsage, DiskUsageReader, readDiskUsage, minFreeBytesFromEnv } from './diskSpace';
+import { requireControlSignature, requireMetricsToken, warnIfUnsigned } from './auth';
+import { readSummaries, addSubscriber, publish, endSubscribers, RING_FEED } from './liveFeed';
+import { createRingRecorder, RingBufferError } from './ringBuffer';
+import { logEvent } from './logger';
+import { counter, gauge, setCollector, renderMetrics, METRICS_CONTENT_TYPE } from './metrics';
+
 const port = 3000;
 
-const tcpdumpPort = process.env.TCPDUMP_PORT || '80'; // Get tcpdump port from environment variable or default to 80
-console.log(`tcpdump port: ${tcpdumpPort}`);
-let tcpdumpProcess: ChildProcess | null = null;
+const capturing = gauge('agent_capturing', '1 while tcpdump is running.');
+const captureFileBytes = gauge('agent_capture_file_bytes', 'Size of the pcap file being written.');
+const capturedPackets = counter('agent_captured_packets_total', 'Packets captured, as printed by tcpdump.');
+const capturedBytes = counter('agent_captured_bytes_total', 'Frame bytes of the packets captured.');
+const tcpdumpStarts = counter('agent_tcpdump_starts_total', 'tcpdump processes started.');
+const tcpdumpExits = counter('agent_tcpdump_exits_total', 'tcpdump processes that exited, by what ended them.');
+const packetsDropped = counter('agent_packets_dropped_total', 'Packets dropped by the kernel, as reported by tcpdump on exit.');
+const ringBufferBytes = gauge('agent_ring_buffer_bytes', 'Size of the ring buffer segments kept.');
+const dataAvailableBytes = gauge('agent_data_available_bytes', 'Free space on the volume captures are written to.');
 
-// Endpoint to start tcpdump
-app.get('/start', (req: Request, res: Response): void => {
-    if (tcpdumpProcess) {
-        res.status(400).send('tcpdump is already running.');
-        return;
-    }
+/**
+ * What /stop reports back to control once tcpdump has exited.
+ */
+interface CaptureResult {
+    sessionId?: string;
+    file: string;
+    pid?: number;
+    exitCode: number | null;
+    signal: string | null;
+    fileSize: number;
+    packetCount?: number;
+    packetsDropped?: number;
+    // Lets control verify the file it copies or pulls from /captures
+    sha256?: string;
+    // `limit` when a capture limit was reached, `disk` when free space ran low, `snapshot` for the ring buffer
+    endedBy: 'stop' | 'limit' | 'disk' | 'snapshot';
+    killed?: boolean;
+    // Snapshots only: ring segments joined and the time span of their packets
+    segments?: number;
+    firstPacketTime?: string;
+    lastPacketTime?: string;
+}
 
+export interface AgentDependencies {
+    // Name the agent registered under with control; it also names the capture files
+    containerName: string;
+    // Where captures are written, normally the /data volume shared with control
+    dataDir?: string;
+    // Starts tcpdump, for captures and for checking filters
+    spawn?: SpawnProcess;
+    // Defaults for the options of /start; read from the TCPDUMP_* environment when omitted
+    defaultCaptureOptions?: CaptureOptions;
+    // How long /stop waits for tcpdump to exit after SIGINT before killing it
+    stopTimeoutMs?: number;
+    // Reads the free space of the data volume
+    diskUsage?: DiskUsageReader;
+    // Free space below which captures are refused or stopped; read from MIN_FREE_BYTES when omitted
+    minFreeBytes?: number;
+    // Default window and size of the ring buffer; read from RING_WINDOW_SECONDS / RING_MAX_BYTES when omitted
+    defaultRingOptions?: RingOptions;
+    // Start the ring buffer with its defaults right away; read from RING_AUTOSTART when omitted
+    ringAutostart?: boolean;
+}
+
+export interface AgentApp {
+    app: express.Express;
+    // Capture state reported to control with each heartbeat
+    heartbeatState(): HeartbeatState;
+    // Usage of the data volume, also reported with the heartbeats; undefined when it cannot be read
+    diskUsage(): Promise<DiskUsage | undefined>;
+}
+
+/**
+ * Reads the counters tcpdump prints on exit ("N packets captured", "N packets dropped by kernel").
+ */
+function parseTcpdumpCounters(stderr: string): { packetCount?: number; packetsDropped?: number } {
+    const captured = /(\d+) packets? captured/.exec(stderr);
+    const dropped = /(\d+) packets? dropped by kernel/.exec(stderr);
+    return {
+        packetCount: captured ? Number(captured[1]) : undefined,
+        packetsDropped: dropped ? Number(dropped[1]) : undefined,
+    };
+}
+
+async function checksumOf(file: string): Promise<string | undefined> {
+    if (!fs.existsSync(file)) return undefined;
+    const hash = createHash('sha256');
     try {
-        tcpdumpProcess = spawn('tcpdump', ['-v', '-s', '0', '-w', `/data/dumpfile_${containerName}.pcap`]);
+        await pipeline(fs.createReadStream(file), hash);
+        return hash.digest('hex');
+    } catch (err) {
+        console.error(`Failed to checksum ${file}: ${err}`);
+        return undefined;
+    }
+}
+
+function waitForClose(closed: Promise<CaptureResult>, ms: number): Promise<CaptureResult | undefined> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(() => resolve(undefined), ms);
+        closed.then((result) => {
+            clearTimeout(timer);
+            resolve(result);
+        });
+    });
+}
+
+/**
+ * Builds the agent's Express app. Capture state lives in the app, so tests can run several agents.
+ */
+export function createAgentApp(deps: AgentDependencies): AgentApp {
+    const { containerName } = deps;
+    const dataDir = deps.dataDir ?? '/data';
+    const spawnProcess = deps.spawn ?? spawn;
+    // Default capture options from TCPDUMP_FILTER / TCPDUMP_PORT / TCPDUMP_SNAPLEN / TCPDUMP_INTERFACE / TCPDUMP_PROMISCUOUS
+    const defaultCaptureOptions = deps.defaultCaptureOptions ?? captureOptionsFromEnv(process.env);
+    console.log(`Default capture options: ${JSON.stringify(defaultCaptureOptions)}`);
+    const stopTimeoutMs = deps.stopTimeoutMs ?? (Number(process.env.STOP_TIMEOUT_MS) || 15000);
+    const diskUsage = deps.diskUsage ?? readDiskUsage;
+    const minFreeBytes = deps.minFreeBytes ?? minFreeBytesFromEnv(process.env);
+    const defaultRingOptions = deps.defaultRingOptions ?? ringOptionsFromEnv(process.env);
+
+    const app = express();
+    app.use(express.json());
+
+    let tcpdumpProcess: ChildProcess | null = null;
+    let currentSessionId: string | undefined;
+    // Session whose capture ended on its own (limit reached), reported to control with the heartbeats
+    let finishedSessionId: string | undefined;
+    let watchdog: NodeJS.Timeout | null = null;
+    // Resolves once the running tcpdump has exited and flushed its file
+    let captureClosed: Promise<CaptureResult> | null = null;
+    let stopRequested = false;
+    // What ended a capture that stopped without /stop
+    let autoStopCause: 'limit' | 'disk' = 'limit';
+    let lastCaptureResult: CaptureResult | undefined;
+
+    let currentOutputFile: string | undefined;
+    let currentStartedAt: string | undefined;
+    // Kept apart from lastCaptureResult, which /stop may still have to report to control
+    let lastSnapshot: CaptureResult | undefined;
+
+    setCollector('agent', async () => {
+        capturing.set(tcpdumpProcess ? 1 : 0);
+        captureFileBytes.set(currentOutputFile && fs.existsSync(currentOutputFile) ? fs.statSync(currentOutputFile).size : 0);
+        ringBufferBytes.set(ring.state()?.bytes ?? 0);
+        const usage = await readUsage();
+        if (usage) dataAvailableBytes.set(usage.availableBytes);
+    });
+
+    async function readUsage(): Promise<DiskUsage | undefined> {
+        try {
+            fs.mkdirSync(dataDir, { recursive: true });
+            return await diskUsage(dataDir);
+        } catch (err) {
+            console.error(`Failed to read the free space of ${dataDir}: ${err}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Describes why the data volume is too full to capture, or returns undefined when there is room.
+     * A volume whose usage cannot be read is not treated as full.
+     */
+    async function lowDiskSpace(): Promise<string | undefined> {
+        if (minFreeBytes <= 0) return undefined;
+        const usage = await readUsage();
+        if (!usage || usage.availableBytes >= minFreeBytes) return undefined;
+        return `${usage.availableBytes} bytes free on ${dataDir}, below the minimum of ${minFreeBytes}`;
+    }
+
+    function captureFile(sessionId: string | undefined): string {
+        const outputDir = sessionId ? path.join(dataDir, 'sessions', sessionId) : dataDir;
+        return path.join(outputDir, `dumpfile_${containerName}.pcap`);
+    }
+
+    const ring = createRingRecorder({
+        dir: path.join(dataDir, 'ring', containerName),
+        spawn: spawnProcess,
+        stopTimeoutMs,
+        lowDiskSpace,
+    });
+
+    /**
+     * Starts the ring buffer. The query may set its window and size, and the filter, snaplen, interface and
+     * promiscuous mode of its tcpdump; capture limits do not apply to it.
+     */
+    async function startRing(query: Record<string, unknown>): Promise<{ statusCode: number; message: string }> {
+        if (ring.state()) return { statusCode: 409, message: 'The ring buffer is already running.' };
+        let captureOptions: CaptureOptions;
+        let ringOptions: RingOptions;
+        try {
+            ringOptions = applyRingOverrides(defaultRingOptions, query);
+            const { filter, snaplen, interface: iface, promiscuous } = query;
+            captureOptions = applyOverrides(defaultCaptureOptions, { filter, snaplen, interface: iface, promiscuous });
+            await compileFilter(captureOptions, spawnProcess);
+        } catch (err: any) {
+            if (err instanceof CaptureOptionsError) {
+                logEvent('Ring buffer rejected', err.message, false);
+                return { statusCode: 400, message: err.message };
+            }
+            logEvent('Ring buffer rejected', `Error: ${err?.message || String(err)}`, false);
+            return { statusCode: 500, message: `Failed to check the capture filter: ${err?.message || String(err)}` };
+        }
+        const lowSpace = await lowDiskSpace();
+        if (lowSpace) {
+            logEvent('Ring buffer rejected', `Not enough disk space: ${lowSpace}`, false);
+            return { statusCode: 507, message: `Not enough disk space: ${lowSpace}.` };
+        }
+        try {
+            ring.start(captureOptions, ringOptions);
+        } catch (err: any) {
+            if (err instanceof RingBufferError) return { statusCode: 409, message: err.message };
+            logEvent('Ring buffer failed', `Error: ${err?.message || String(err)}`, false);
+            return { statusCode: 500, message: `Failed to start the ring buffer: ${err?.message || String(err)}` };
+        }
+        return { statusCode: 200, message: 'Ring buffer started.' };
+    }
+
+    /**
+     * Stops the capture once its duration or byte limit is reached, or when free space runs low. tcpdump
+     * only checks `-G` when a packet arrives, so the duration is also enforced here for quiet links.
+     */
+    function startWatchdog(child: ChildProcess, outputFile: string, options: CaptureOptions) {
+        const startedAt = Date.now();
+        let checkingDisk = false;
+        const autoStop = (cause: 'limit' | 'disk', reason: string) => {
+            if (tcpdumpProcess !== child || stopRequested) return;
+            autoStopCause = cause;
+            logEvent(
+                cause === 'disk' ? 'Disk space low' : 'Limit reached',
+                `Stopping tcpdump process ${child.pid}: ${reason}`,
+                cause !== 'disk',
+                { sessionId: currentSessionId }
+            );
+            child.kill('SIGINT');
+            stopWatchdog();
+        };
+        watchdog = setInterval(() => {
+            if (options.maxDurationSeconds !== undefined && Date.now() - startedAt >= options.maxDurationSeconds * 1000) {
+                autoStop('limit', `duration limit of ${options.maxDurationSeconds} s reached`);
+            } else if (options.maxBytes !== undefined && fs.existsSync(outputFile) && fs.statSync(outputFile).size >= options.maxBytes) {
+                autoStop('limit', `size limit of ${options.maxBytes} bytes reached`);
+            } else if (!checkingDisk) {
+                checkingDisk = true;
+                lowDiskSpace()
+                    .then((reason) => {
+                        if (reason) autoStop('disk', reason);
+                    })
+                    .finally(() => {
+                        checkingDisk = false;
+                    });
+            }
+        }, 1000);
+    }
 
+    function stopWatchdog() {
+        if (watchdog) clearInterval(watchdog);
+        watchdog = null;
+    }
+
+    // Endpoint to start tcpdump
+    app.get('/start', requireControlSignature, async (req: Request, res: Response): Promise<void> => {
+        if (tcpdumpProcess) {
+            res.status(400).send('tcpdump is already running.');
+            return;
+        }
+
+        // Control passes the capture session so each run lands in its own directory
+        const sessionId = typeof req.query.session === 'string' ? req.query.session : '';
+        if (sessionId && !/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+            res.status(400).send('Invalid session id.');
+            return;
+        }
+
+        let options: CaptureOptions;
+        try {
+            options = applyOverrides(defaultCaptureOptions, req.query);
+            await compileFilter(options, spawnProcess);
+        } catch (err: any) {
+            if (err instanceof CaptureOptionsError) {
+                logEvent('Capture rejected', err.message, false, { sessionId: sessionId || undefined });
+                res.status(400).send(err.message);
+                return;
+            }
+            // Not the request's fault (e.g. tcpdump cannot be run); still answer instead of leaving it hanging
+            logEvent('Capture rejected', `Error: ${err?.message || String(err)}`, false, { sessionId: sessionId || undefined });
+            res.status(500).send(`Failed to check the capture filter: ${err?.message || String(err)}`);
+            return;
+        }
+        const lowSpace = await lowDiskSpace();
+        if (lowSpace) {
+            logEvent('Capture rejected', `Not enough disk space: ${lowSpace}`, false, { sessionId: sessionId || undefined });
+            res.status(507).send(`Not enough disk space: ${lowSpace}.`);
+            return;
+        }
         if (tcpdumpProcess) {
-            tcpdumpProcess.stdout?.on('data', (data) => {
-                console.log(`tcpdump stdout: ${data}`);
+            res.status(400).send('tcpdump is already running.');
+            return;
+        }
+
+        try {
+            const outputFile = captureFile(sessionId);
+            fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+            const args = tcpdumpArgs(options, outputFile);
+            tcpdumpProcess = spawnProcess('tcpdump', args);
+            tcpdumpStarts.inc();
+            currentOutputFile = outputFile;
+            const startedAt = Date.now();
+            currentStartedAt = new Date(startedAt).toISOString();
+            currentSessionId = sessionId || undefined;
+            finishedSessionId = undefined;
+            stopRequested = false;
+            autoStopCause = 'limit';
+
+            const child = tcpdumpProcess;
+            const captureSessionId = currentSessionId;
+            // Keep the tail of stderr: tcpdump prints its packet counters there on exit
+            let stderrTail = '';
+            // stdout carries one summary line per packet for the live feed
+            readSummaries(child.stdout, (summary) => {
+                capturedPackets.inc();
+                capturedBytes.inc(undefined, summary.length);
+                publish(captureSessionId, summary);
             });
-        
-            tcpdumpProcess.stderr?.on('data', (data) => {
+
+            child.stderr?.on('data', (data) => {
                 console.error(`tcpdump stderr: ${data}`);
+                stderrTail = (stderrTail + data).slice(-4096);
             });
-        
-            tcpdumpProcess.on('close', (code) => {
-                console.log(`tcpdump process exited with code ${code}`);
-                tcpdumpProcess = null; // Reset the process reference
+
+            captureClosed = new Promise((resolve) => {
+                child.on('close', async (code, signal) => {
+                    console.log(`tcpdump process exited with code ${code}`);
+                    stopWatchdog();
+                    const result: CaptureResult = {
+                        sessionId: captureSessionId,
+                        file: outputFile,
+                        pid: child.pid,
+                        exitCode: code,
+                        signal,
+                        fileSize: fs.existsSync(outputFile) ? fs.statSync(outputFile).size : 0,
+                        sha256: await checksumOf(outputFile),
+                        ...parseTcpdumpCounters(stderrTail),
+                        endedBy: stopRequested ? 'stop' : autoStopCause,
+                    };
+                    lastCaptureResult = result;
+                    tcpdumpExits.inc({ ended_by: result.endedBy });
+                    if (result.packetsDropped) packetsDropped.inc(undefined, result.packetsDropped);
+                    logEvent(
+                        'Capture stopped',
+                        `Ended by: ${result.endedBy} | Exit code: ${code} | Packets: ${result.packetCount ?? 'unknown'} | Bytes: ${result.fileSize}`,
+                        code === 0 || stopRequested,
+                        { sessionId: captureSessionId, command: `tcpdump ${args.join(' ')}`, durationMs: Date.now() - startedAt }
+                    );
+                    // Exited without /stop: a limit was reached, the disk filled up (or tcpdump failed)
+                    finishedSessionId = stopRequested ? undefined : captureSessionId;
+                    tcpdumpProcess = null; // Reset the process reference
+                    currentOutputFile = undefined;
+                    currentStartedAt = undefined;
+                    currentSessionId = undefined;
+                    captureClosed = null;
+                    endSubscribers(captureSessionId);
+                    resolve(result);
+                });
             });
+            startWatchdog(child, outputFile, options);
+
+            logEvent('Capture started', `Pid: ${tcpdumpProcess.pid}`, true, { sessionId: captureSessionId, command: `tcpdump ${args.join(' ')}` });
+            res.send(`tcpdump started. With pid: ${tcpdumpProcess.pid}`);
+        } catch (err) {
+            console.error(err);
+            res.status(500).send('Failed to start tcpdump.');
         }
+    });
 
-        console.log(`tcpdump started on port ${tcpdumpPort} with full packet capture. Process id ${tcpdumpProcess.pid}`);
-        res.send(`tcpdump started. With pid: ${tcpdumpProcess.pid}`);
-    } catch (err) {
-        console.error(err);
-        res.status(500).send('Failed to start tcpdump.');
-    }
-});
+    // Endpoint to stop tcpdump. Answers only once tcpdump has exited and its file is complete.
+    app.get('/stop', requireControlSignature, async (req: Request, res: Response): Promise<void> => {
+        const sessionId = typeof req.query.session === 'string' ? req.query.session : undefined;
+        if (!tcpdumpProcess || !captureClosed) {
+            // The capture may already have ended on a limit; report that result again
+            if (sessionId && lastCaptureResult?.sessionId === sessionId) {
+                res.json(lastCaptureResult);
+                return;
+            }
+            res.status(400).send('tcpdump is not running.');
+            return;
+        }
+        if (sessionId && sessionId !== currentSessionId) {
+            res.status(409).send(`tcpdump is capturing session ${currentSessionId}, not ${sessionId}.`);
+            return;
+        }
 
-// Endpoint to stop tcpdump
-app.get('/stop', (req: Request, res: Response): void => {
-    if (!tcpdumpProcess) {
-        res.status(400).send('tcpdump is not running.');
-        return;
-    }
-    else {
+        const child = tcpdumpProcess;
+        const closed = captureClosed;
         try {
-            console.log(`Stopping tcpdump process. PID: ${tcpdumpProcess?.pid}`);
-            res.send(`Stopping process with PID: ${tcpdumpProcess?.pid}.`);
-            tcpdumpProcess.kill('SIGINT'); // Send SIGINT to the tcpdump process
-            tcpdumpProcess = null; // Reset the process reference
-
+            console.log(`Stopping tcpdump process. PID: ${child.pid}`);
+            stopRequested = true;
+            child.kill('SIGINT'); // Send SIGINT to the tcpdump process
+            let result = await waitForClose(closed, stopTimeoutMs);
+            if (!result) {
+                logEvent('Capture killed', `tcpdump ${child.pid} did not exit within ${stopTimeoutMs} ms`, false, { sessionId: currentSessionId });
+                child.kill('SIGKILL');
+                result = await waitForClose(closed, 2000);
+                if (result) result.killed = true;
+            }
+            if (!result) {
+                res.status(500).send('tcpdump did not exit.');
+                return;
+            }
+            res.json(result);
         } catch (err) {
             console.error(err);
             res.status(500).send('Failed to stop tcpdump.');
         }
+    });
+
+    // Streams packet summaries of the running capture as NDJSON until it ends
+    app.get('/live', requireControlSignature, (req: Request, res: Response): void => {
+        if (req.query.ring === 'true') {
+            if (!ring.state()) {
+                res.status(404).send('The ring buffer is not running.');
+                return;
+            }
+            addSubscriber(res, RING_FEED);
+            return;
+        }
+        const sessionId = typeof req.query.session === 'string' ? req.query.session : undefined;
+        if (!tcpdumpProcess || (sessionId && sessionId !== currentSessionId)) {
+            res.status(404).send(`No capture running${sessionId ? ` for session ${sessionId}` : ''}.`);
+            return;
+        }
+        addSubscriber(res, currentSessionId);
+    });
+
+    app.get('/ring/start', requireControlSignature, async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { statusCode, message } = await startRing(req.query);
+            if (statusCode !== 200) {
+                res.status(statusCode).send(message);
+                return;
+            }
+            res.json(ring.state());
+        } catch (err) {
+            console.error(err);
+            res.status(500).send('Failed to start the ring buffer.');
+        }
+    });
+
+    app.get('/ring/stop', requireControlSignature, async (req: Request, res: Response): Promise<void> => {
+        try {
+            await ring.stop();
+            res.send('Ring buffer stopped.');
+        } catch (err) {
+            if (err instanceof RingBufferError) {
+                res.status(409).send(err.message);
+                return;
+            }
+            console.error(err);
+            res.status(500).send('Failed to stop the ring buffer.');
+        }
+    });
+
+    // Freezes the ring into the session's capture file, which control then collects like a stopped capture
+    app.get('/ring/snapshot', requireControlSignature, async (req: Request, res: Response): Promise<void> => {
+        const sessionId = typeof req.query.session === 'string' ? req.query.session : '';
+        if (!/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+            res.status(400).send('Invalid session id.');
+            return;
+        }
+        if (tcpdumpProcess && currentSessionId === sessionId) {
+            res.status(409).send(`Session ${sessionId} is being captured.`);
+            return;
+        }
+        const startedAt = Date.now();
+        try {
+            const snapshot = await ring.snapshot(captureFile(sessionId));
+            const result: CaptureResult = {
+                sessionId,
+                file: snapshot.file,
+                pid: snapshot.pid,
+                exitCode: snapshot.exitCode,
+                signal: snapshot.signal,
+                fileSize: fs.statSync(snapshot.file).size,
+                packetCount: snapshot.packetCount,
+                packetsDropped: parseTcpdumpCounters(snapshot.stderr).packetsDropped,
+                sha256: await checksumOf(snapshot.file),
+                endedBy: 'snapshot',
+                killed: snapshot.killed,
+                segments: snapshot.segments,
+                firstPacketTime: snapshot.firstPacketTime,
+                lastPacketTime: snapshot.lastPacketTime,
+            };
+            lastSnapshot = result;
+            tcpdumpExits.inc({ ended_by: 'snapshot' });
+            if (result.packetsDropped) packetsDropped.inc(undefined, result.packetsDropped);
+            logEvent(
+                'Ring snapshot taken',
+                `Segments: ${result.segments} | Packets: ${result.packetCount} | Bytes: ${result.fileSize}`,
+                true,
+                { sessionId, durationMs: Date.now() - startedAt }
+            );
+            res.json(result);
+        } catch (err) {
+            if (err instanceof RingBufferError) {
+                res.status(409).send(err.message);
+                return;
+            }
+            console.error(err);
+            logEvent('Ring snapshot failed', String(err), false, { sessionId });
+            res.status(500).send('Failed to take a snapshot of the ring buffer.');
+        }
+    });
+
+    // Serves a finished capture file to control, with Range support so transfers can resume
+    app.get('/captures/:sessionId', requireControlSignature, (req: Request, res: Response): void => {
+        const { sessionId } = req.params;
+        if (!/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+            res.status(400).send('Invalid session id.');
+            return;
+        }
+        if (tcpdumpProcess && currentSessionId === sessionId) {
+            res.status(409).send(`Session ${sessionId} is still capturing.`);
+            return;
+        }
+        const file = captureFile(sessionId);
+        if (!fs.existsSync(file)) {
+            res.status(404).send(`No capture for session ${sessionId}.`);
+            return;
+        }
+        res.sendFile(path.resolve(file), { headers: { 'Content-Type': 'application/vnd.tcpdump.pcap' } }, (err) => {
+            if (err && !res.headersSent) res.status(500).send('Failed to send the capture.');
+        });
+    });
+
+    const heartbeatState = (): HeartbeatState => ({
+        capturing: tcpdumpProcess !== null,
+        sessionId: currentSessionId,
+        finishedSessionId,
+        ring: ring.state(),
+    });
+
+    // Capture state for control, which has no heartbeat to go by right after it restarts
+    app.get('/status', requireControlSignature, async (req: Request, res: Response): Promise<void> => {
+        res.json({
+            containerName,
+            labels: agentLabels,
+            ...heartbeatState(),
+            pid: tcpdumpProcess?.pid,
+            startedAt: currentStartedAt,
+            fileSize: currentOutputFile && fs.existsSync(currentOutputFile) ? fs.statSync(currentOutputFile).size : undefined,
+            lastCapture: lastCaptureResult,
+            lastSnapshot,
+            disk: await readUsage(),
+        });
+    });
+
+    // Prometheus scrape endpoint
+    app.get('/metrics', requireMetricsToken, async (req: Request, res: Response): Promise<void> => {
+        try {
+            res.type(METRICS_CONTENT_TYPE).send(await renderMetrics());
+        } catch (err) {
+            console.error(err);
+            res.status(500).send('Failed to collect metrics.');
+        }
+    });
+
+    if (deps.ringAutostart ?? process.env.RING_AUTOSTART === 'true') {
+        startRing({})
+            .then(({ statusCode, message }) => {
+                if (statusCode !== 200) console.error(`Failed to start the ring buffer: ${message}`);
+            })
+            .catch((err) => console.error(`Failed to start the ring buffer: ${err}`));
     }
-});
 
-// Start the server
-app.listen(port, () => {
-    console.log(`Server is running on http://localhost:${port}`);
-});
\ No newline at end of file
+    return {
+        app,
+        heartbeatState,
+        diskUsage: readUsage,
+    };
+}
+
+if (require.main === module) {
+    // The container name identifies this agent to control and names its capture files
+    exec('cat /etc/hostname', (error, stdout, stderr) => {
+        if (error) {
+            console.error(`Error retrieving container name: ${error.message}`);
+            process.exitCode = 1;
+            return;
+        }
+        if (stderr) {
+            console.error(`Error: ${stderr}`);
+            process.exitCode = 1;
+            return;
+        }
+        const containerName = stdout.trim();
+        console.log(`Current Docker container name: ${containerName}`);
+        const agent = createAgentApp({ containerName });
+
+        // Register with the control server (retrying until it is up) and keep sending heartbeats
+        keepRegistered(containerName, async () => ({ ...agent.heartbeatState(), disk: await agent.diskUsage() }));
+
+        warnIfUnsigned();
+        agent.app.listen(port, () => {
+            console.log(`Server is running on http://localhost:${port}`);
+        });
+    });
+}
@@ -0,0 +1,93 @@
+/**
+ * @file auth.ts
+ * @description HMAC signatures between the agent and control. Both sides share `AGENT_SHARED_SECRET`
+ * and send `X-Signature: t=<unix seconds>,n=<nonce>,v1=<hex digest>`, where the digest covers the timestamp,
+ * a random nonce, method, path with query string and raw body. Signatures older than five minutes are
+ * refused, and so is a nonce seen within that window, so a captured `/start` or `/stop` cannot be replayed.
+ * Without a secret, calls are neither signed nor checked.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logEvent } from './logger';
+
+const SIGNATURE_HEADER = 'x-signature';
+const MAX_SIGNATURE_AGE_SECONDS = 300;
+
+const sharedSecret = process.env.AGENT_SHARED_SECRET || '';
+// Nonces of the accepted signatures, with their timestamp, until they are too old to be accepted anyway
+const seenNonces = new Map<string, number>();
+
+function signatureFor(timestamp: number, nonce: string, method: string, url: string, body: string): string {
+  return createHmac('sha256', sharedSecret).update(`${timestamp}\n${nonce}\n${method.toUpperCase()}\n${url}\n${body}`).digest('hex');
+}
+
+/**
+ * Headers for a signed call to control. Empty when no shared secret is configured.
+ * @param url - Full URL of the call; only its path and query string are signed.
+ */
+export function controlRequestHeaders(method: string, url: string, body: string = ''): Record<string, string> {
+  if (!sharedSecret) return {};
+  const { pathname, search } = new URL(url);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const nonce = randomBytes(16).toString('hex');
+  return { 'X-Signature': `t=${timestamp},n=${nonce},v1=${signatureFor(timestamp, nonce, method, pathname + search, body)}` };
+}
+
+function checkSignature(header: string | undefined, method: string, url: string): string | undefined {
+  if (!header) return 'Missing signature';
+  const match = /^t=(\d+),n=([0-9a-f]{32}),v1=([0-9a-f]{64})$/.exec(header);
+  if (!match) return 'Malformed signature';
+  const timestamp = Number(match[1]);
+  const nonce = match[2];
+  const now = Date.now() / 1000;
+  if (Math.abs(now - timestamp) > MAX_SIGNATURE_AGE_SECONDS) return 'Signature expired';
+  const expected = Buffer.from(signatureFor(timestamp, nonce, method, url, ''), 'hex');
+  if (!timingSafeEqual(expected, Buffer.from(match[3], 'hex'))) return 'Invalid signature';
+  for (const [seen, seenAt] of seenNonces) {
+    if (now - seenAt > MAX_SIGNATURE_AGE_SECONDS) seenNonces.delete(seen);
+  }
+  if (seenNonces.has(nonce)) return 'Replayed signature';
+  seenNonces.set(nonce, timestamp);
+  return undefined;
+}
+
+/**
+ * Only lets through calls signed by control. The agent's routes are all bodiless GETs.
+ */
+export function requireControlSignature(req: Request, res: Response, next: NextFunction): void {
+  if (!sharedSecret) return next();
+  const reason = checkSignature(req.header(SIGNATURE_HEADER), req.method, req.originalUrl);
+  if (reason) {
+    logEvent('Access denied', `${req.method} ${req.originalUrl} | ${reason} | From: ${req.ip}`, false);
+    res.status(401).json({ message: reason });
+    return;
+  }
+  next();
+}
+
+const metricsToken = process.env.METRICS_TOKEN || '';
+
+/**
+ * Guards `/metrics` with `Authorization: Bearer $METRICS_TOKEN` when that variable is set. Prometheus
+ * cannot sign its scrapes, so the metrics route does not use the control signature.
+ */
+export function requireMetricsToken(req: Request, res: Response, next: NextFunction): void {
+  if (!metricsToken) return next();
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  const given = Buffer.from(match ? match[1] : '');
+  const expected = Buffer.from(metricsToken);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    const reason = match ? 'Invalid metrics token' : 'Missing metrics token';
+    logEvent('Access denied', `${req.method} ${req.originalUrl} | ${reason} | From: ${req.ip}`, false);
+    res.status(401).json({ message: reason });
+    return;
+  }
+  next();
+}
+
+export function warnIfUnsigned() {
+  if (!sharedSecret) {
+    console.warn('AGENT_SHARED_SECRET is not set: /start and /stop accept unsigned calls.');
+  }
+}
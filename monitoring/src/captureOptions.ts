@@ -0,0 +1,220 @@
+/**
+ * @file captureOptions.ts
+ * @description Parsing and validation of tcpdump capture options (BPF filter, snaplen, interface,
+ * promiscuous mode and capture limits). Defaults come from the environment and can be overridden per session by the
+ * query string control sends to `/start`. The ring buffer (see ringBuffer.ts) is bounded by a window and/or a size
+ * instead, from `RING_WINDOW_SECONDS` / `RING_MAX_BYTES` or the `/ring/start` query string.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+
+/**
+ * Starts a process; `child_process.spawn` outside of tests.
+ */
+export type SpawnProcess = (command: string, args: string[]) => ChildProcess;
+
+export interface CaptureOptions {
+  filter: string;
+  snaplen: number;
+  interface?: string;
+  promiscuous: boolean;
+  maxDurationSeconds?: number;
+  maxPackets?: number;
+  maxBytes?: number;
+}
+
+type LimitField = 'maxDurationSeconds' | 'maxPackets' | 'maxBytes';
+
+// Query parameter and environment variable for each capture limit
+const LIMITS: { field: LimitField; query: string; env: string }[] = [
+  { field: 'maxDurationSeconds', query: 'duration', env: 'TCPDUMP_MAX_DURATION' },
+  { field: 'maxPackets', query: 'maxPackets', env: 'TCPDUMP_MAX_PACKETS' },
+  { field: 'maxBytes', query: 'maxBytes', env: 'TCPDUMP_MAX_BYTES' },
+];
+
+const MAX_SNAPLEN = 262144;
+const MAX_FILTER_LENGTH = 1024;
+const INTERFACE_PATTERN = /^[A-Za-z0-9_.:-]{1,32}$/;
+// BPF primitives only need these characters; anything else is rejected before tcpdump sees it
+const FILTER_PATTERN = /^[A-Za-z0-9\s.:/\-\[\]()&|!=<>+*%^~]*$/;
+
+export class CaptureOptionsError extends Error {}
+
+/**
+ * Bounds of the ring buffer: the last `windowSeconds` of traffic and/or at most `maxBytes` of segments.
+ */
+export interface RingOptions {
+  windowSeconds?: number;
+  maxBytes?: number;
+}
+
+function parseSnaplen(value: string): number {
+  const snaplen = Number(value);
+  if (!Number.isInteger(snaplen) || snaplen < 0 || snaplen > MAX_SNAPLEN) {
+    throw new CaptureOptionsError(`snaplen must be an integer between 0 and ${MAX_SNAPLEN}`);
+  }
+  return snaplen;
+}
+
+function parseInterface(value: string): string {
+  if (!INTERFACE_PATTERN.test(value)) {
+    throw new CaptureOptionsError(`Invalid interface name: ${value}`);
+  }
+  return value;
+}
+
+function parsePromiscuous(value: string): boolean {
+  if (value !== 'true' && value !== 'false') {
+    throw new CaptureOptionsError('promiscuous must be "true" or "false"');
+  }
+  return value === 'true';
+}
+
+function parseLimit(name: string, value: string): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new CaptureOptionsError(`${name} must be a positive integer`);
+  }
+  return limit;
+}
+
+function parseFilter(value: string): string {
+  const filter = value.trim();
+  if (filter.length > MAX_FILTER_LENGTH) {
+    throw new CaptureOptionsError(`filter must be at most ${MAX_FILTER_LENGTH} characters`);
+  }
+  if (!FILTER_PATTERN.test(filter)) {
+    throw new CaptureOptionsError('filter contains characters that are not valid in a BPF expression');
+  }
+  // tcpdump would read it as an option; no BPF expression starts with a dash
+  if (filter.startsWith('-')) {
+    throw new CaptureOptionsError('filter must not start with "-"');
+  }
+  return filter;
+}
+
+/**
+ * Builds the agent's default capture options from the environment.
+ * `TCPDUMP_FILTER` wins over `TCPDUMP_PORT`, which becomes `port <n>` when no filter is set.
+ * `TCPDUMP_MAX_DURATION` (seconds), `TCPDUMP_MAX_PACKETS` and `TCPDUMP_MAX_BYTES` bound every capture.
+ */
+export function captureOptionsFromEnv(env: NodeJS.ProcessEnv): CaptureOptions {
+  const port = env.TCPDUMP_PORT || '80';
+  const filter = env.TCPDUMP_FILTER !== undefined ? env.TCPDUMP_FILTER : `port ${port}`;
+  const options: CaptureOptions = {
+    filter: parseFilter(filter),
+    snaplen: env.TCPDUMP_SNAPLEN ? parseSnaplen(env.TCPDUMP_SNAPLEN) : 0,
+    interface: env.TCPDUMP_INTERFACE ? parseInterface(env.TCPDUMP_INTERFACE) : undefined,
+    promiscuous: env.TCPDUMP_PROMISCUOUS ? parsePromiscuous(env.TCPDUMP_PROMISCUOUS) : true,
+  };
+  for (const limit of LIMITS) {
+    const value = env[limit.env];
+    if (value) options[limit.field] = parseLimit(limit.env, value);
+  }
+  return options;
+}
+
+/**
+ * Applies the per-session overrides from the `/start` query string on top of the defaults.
+ * Limits from the environment act as ceilings: a session may tighten them but not lift them.
+ */
+export function applyOverrides(defaults: CaptureOptions, query: Record<string, unknown>): CaptureOptions {
+  const options = { ...defaults };
+  if (typeof query.filter === 'string') options.filter = parseFilter(query.filter);
+  if (typeof query.snaplen === 'string') options.snaplen = parseSnaplen(query.snaplen);
+  if (typeof query.interface === 'string') options.interface = parseInterface(query.interface);
+  if (typeof query.promiscuous === 'string') options.promiscuous = parsePromiscuous(query.promiscuous);
+  for (const limit of LIMITS) {
+    const value = query[limit.query];
+    if (typeof value !== 'string') continue;
+    const requested = parseLimit(limit.query, value);
+    const ceiling = defaults[limit.field];
+    options[limit.field] = ceiling !== undefined ? Math.min(requested, ceiling) : requested;
+  }
+  return options;
+}
+
+/**
+ * Builds the tcpdump argument list for a capture written to `outputFile`.
+ * `--print -l -tt -n -e -q` also prints one line-buffered summary per packet on stdout for the live feed.
+ * `-c` stops after `maxPackets`; `-G <seconds> -W 1` makes tcpdump exit after one rotation period.
+ * tcpdump has no byte limit that stops the capture, so `maxBytes` is enforced by the agent's watchdog.
+ */
+export function tcpdumpArgs(options: CaptureOptions, outputFile: string): string[] {
+  const args = ['--print', '-l', '-tt', '-n', '-e', '-q', '-s', String(options.snaplen), '-w', outputFile];
+  if (options.interface) args.push('-i', options.interface);
+  if (!options.promiscuous) args.push('-p');
+  if (options.maxPackets !== undefined) args.push('-c', String(options.maxPackets));
+  if (options.maxDurationSeconds !== undefined) args.push('-G', String(options.maxDurationSeconds), '-W', '1');
+  // `--` ends the options, so the filter is always read as the expression
+  if (options.filter) args.push('--', options.filter);
+  return args;
+}
+
+/**
+ * Reads the default ring bounds from `RING_WINDOW_SECONDS` and `RING_MAX_BYTES`; both may be unset.
+ */
+export function ringOptionsFromEnv(env: NodeJS.ProcessEnv): RingOptions {
+  return {
+    windowSeconds: env.RING_WINDOW_SECONDS ? parseLimit('RING_WINDOW_SECONDS', env.RING_WINDOW_SECONDS) : undefined,
+    maxBytes: env.RING_MAX_BYTES ? parseLimit('RING_MAX_BYTES', env.RING_MAX_BYTES) : undefined,
+  };
+}
+
+/**
+ * Applies the `window` and `size` query parameters of `/ring/start` on top of the defaults.
+ * A ring needs at least one bound, or it would grow until the disk fills up.
+ */
+export function applyRingOverrides(defaults: RingOptions, query: Record<string, unknown>): RingOptions {
+  const options = { ...defaults };
+  if (typeof query.window === 'string') options.windowSeconds = parseLimit('window', query.window);
+  if (typeof query.size === 'string') options.maxBytes = parseLimit('size', query.size);
+  if (options.windowSeconds === undefined && options.maxBytes === undefined) {
+    throw new CaptureOptionsError('The ring buffer needs a window (seconds) or a size (bytes)');
+  }
+  return options;
+}
+
+/**
+ * How long tcpdump writes each ring segment: a tenth of the window (1 to 60 s), so at most a tenth of
+ * the window is kept beyond it; 10 s for a ring bounded by size only.
+ */
+export function ringSegmentSeconds(ring: RingOptions): number {
+  if (ring.windowSeconds === undefined) return 10;
+  return Math.min(60, Math.max(1, Math.ceil(ring.windowSeconds / 10)));
+}
+
+/**
+ * Builds the tcpdump argument list for the ring buffer. `-G <seconds>` without `-W` starts a new file
+ * every period; `filePattern` holds `%s`, which tcpdump replaces with the epoch the segment starts at.
+ * Capture limits do not apply: the agent deletes old segments instead.
+ */
+export function ringTcpdumpArgs(options: CaptureOptions, filePattern: string, segmentSeconds: number): string[] {
+  const args = ['--print', '-l', '-tt', '-n', '-e', '-q', '-s', String(options.snaplen), '-w', filePattern, '-G', String(segmentSeconds)];
+  if (options.interface) args.push('-i', options.interface);
+  if (!options.promiscuous) args.push('-p');
+  if (options.filter) args.push('--', options.filter);
+  return args;
+}
+
+/**
+ * Compiles the filter with `tcpdump -d` so syntax errors are reported before a capture starts.
+ */
+export function compileFilter(options: CaptureOptions, spawnProcess: SpawnProcess = spawn): Promise<void> {
+  if (!options.filter) return Promise.resolve();
+  const args = ['-d'];
+  if (options.interface) args.push('-i', options.interface);
+  args.push('--', options.filter);
+  return new Promise((resolve, reject) => {
+    const child = spawnProcess('tcpdump', args);
+    let stderr = '';
+    child.stderr?.on('data', (data) => {
+      stderr += data;
+    });
+    child.on('error', (err) => reject(new CaptureOptionsError(`Failed to run tcpdump: ${err.message}`)));
+    child.on('close', (code) => {
+      if (code === 0) return resolve();
+      reject(new CaptureOptionsError(`Invalid capture filter "${options.filter}": ${stderr.trim()}`));
+    });
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * @file controlClient.ts
+ * @description Keeps the agent registered with the control server: registration with exponential
+ * backoff, then periodic heartbeats. A heartbeat answered with 404 means control no longer knows this
+ * agent (e.g. it restarted), so the agent registers again. Both calls are signed (see auth.ts), and
+ * heartbeats carry the agent's queued events. Registration reports the labels in `AGENT_LABELS`
+ * (`key=value,...`), which control uses to select agents for a capture. Heartbeats also report the free
+ * space of the data volume and the state of the ring buffer, shown by control's `/status`.
+ */
+
+import axios from 'axios';
+import { controlRequestHeaders } from './auth';
+import { AgentEvent, logEvent, takeEvents, requeueEvents } from './logger';
+import { DiskUsage } from './diskSpace';
+import { RingState } from './ringBuffer';
+
+export interface HeartbeatState {
+  capturing: boolean;
+  sessionId?: string;
+  finishedSessionId?: string;
+  disk?: DiskUsage;
+  // Present while the ring buffer records
+  ring?: RingState;
+}
+
+const controlUrl = process.env.CONTROL_URL || 'http://control:3000';
+// Also reported by the agent's /status, so a restarted control can register it again with its labels
+export const agentLabels = (process.env.AGENT_LABELS || '').trim();
+const heartbeatIntervalMs = Number(process.env.HEARTBEAT_INTERVAL_MS) || 10000;
+const initialBackoffMs = 1000;
+const maxBackoffMs = 30000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Registers with control, retrying with exponential backoff until it succeeds.
+ */
+async function register(containerName: string): Promise<void> {
+  let backoffMs = initialBackoffMs;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const query = agentLabels ? `?labels=${encodeURIComponent(agentLabels)}` : '';
+      const url = `${controlUrl}/server-name/${encodeURIComponent(containerName)}${query}`;
+      await axios.get(url, { headers: controlRequestHeaders('GET', url) });
+      logEvent('Agent registered', `Control: ${controlUrl}${agentLabels ? ` | Labels: ${agentLabels}` : ''}`, true);
+      return;
+    } catch (err: any) {
+      console.error(`Failed to send container name to control server (attempt ${attempt}): ${err.message}. Retrying in ${backoffMs} ms`);
+      await sleep(backoffMs);
+      backoffMs = Math.min(backoffMs * 2, maxBackoffMs);
+    }
+  }
+}
+
+/**
+ * Registers the agent and starts the heartbeat loop. Never resolves; errors are logged and retried.
+ * @param containerName - Name the agent registers under.
+ * @param getState - Returns the capture state reported with each heartbeat.
+ */
+export async function keepRegistered(
+  containerName: string,
+  getState: () => HeartbeatState | Promise<HeartbeatState>
+): Promise<void> {
+  await register(containerName);
+  for (;;) {
+    await sleep(heartbeatIntervalMs);
+    let events: AgentEvent[] = [];
+    try {
+      const url = `${controlUrl}/heartbeat/${encodeURIComponent(containerName)}`;
+      events = takeEvents();
+      // Sent as a string so the signed bytes are exactly the bytes on the wire
+      const body = JSON.stringify({ ...(await getState()), events });
+      await axios.post(url, body, {
+        headers: { 'Content-Type': 'application/json', ...controlRequestHeaders('POST', url, body) },
+      });
+    } catch (err: any) {
+      // Not delivered: send the events again with the next heartbeat
+      requeueEvents(events);
+      if (err.response?.status === 404) {
+        console.log('Control server does not know this agent; registering again.');
+        await register(containerName);
+      } else {
+        console.error(`Heartbeat to control server failed: ${err.message}`);
+      }
+    }
+  }
+}
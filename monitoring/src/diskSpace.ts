@@ -0,0 +1,36 @@
+/**
+ * @file diskSpace.ts
+ * @description Free space on the volume captures are written to. The agent refuses to start a capture,
+ * and stops a running one, when the space left drops below `MIN_FREE_BYTES` (default 512 MiB), so one
+ * long capture cannot fill the disk it shares with control and the host.
+ */
+
+import fs from 'fs/promises';
+
+export interface DiskUsage {
+  totalBytes: number;
+  // Space left for unprivileged writers such as tcpdump after it drops privileges
+  availableBytes: number;
+}
+
+/**
+ * Reads the usage of the filesystem holding `dir`; `statfs` outside of tests.
+ */
+export type DiskUsageReader = (dir: string) => Promise<DiskUsage>;
+
+const DEFAULT_MIN_FREE_BYTES = 512 * 1024 * 1024;
+
+export const readDiskUsage: DiskUsageReader = async (dir) => {
+  const stats = await fs.statfs(dir);
+  return { totalBytes: stats.blocks * stats.bsize, availableBytes: stats.bavail * stats.bsize };
+};
+
+/**
+ * Reads `MIN_FREE_BYTES`; 0 turns the check off.
+ */
+export function minFreeBytesFromEnv(env: NodeJS.ProcessEnv): number {
+  const value = Number(env.MIN_FREE_BYTES);
+  return env.MIN_FREE_BYTES !== undefined && env.MIN_FREE_BYTES !== '' && Number.isInteger(value) && value >= 0
+    ? value
+    : DEFAULT_MIN_FREE_BYTES;
+}
@@ -0,0 +1,154 @@
+/**
+ * @file liveFeed.ts
+ * @description Live packet summaries while a capture runs. tcpdump prints one line per packet next to
+ * the file it writes (`--print -tt -n -e -q`); each line becomes a summary that is streamed as NDJSON
+ * to every `/live` subscriber (normally control). A subscriber that cannot keep up misses packets
+ * rather than slowing the capture down. The ring buffer publishes its packets under `RING_FEED`, which
+ * no session id can take.
+ */
+
+import net from 'net';
+import { Readable } from 'stream';
+import { Response } from 'express';
+
+export interface PacketSummary {
+  time: number;
+  length: number;
+  protocols: string[];
+  sourceMac?: string;
+  destinationMac?: string;
+  source?: string;
+  destination?: string;
+  sourcePort?: number;
+  destinationPort?: number;
+}
+
+interface Subscriber {
+  res: Response;
+  sessionId?: string;
+  dropped: number;
+}
+
+const subscribers = new Set<Subscriber>();
+
+// Feed of the ring buffer's packets; session ids only contain [A-Za-z0-9_-]
+export const RING_FEED = '@ring';
+
+// "<epoch> <link header>length <n>: <rest>"; the first "length <n>:" is the frame length
+const LINE_PATTERN = /^(\d+\.\d+) (.*?)length (\d+): (.*)$/;
+const MAC_PATTERN = /^([0-9a-f]{2}(?::[0-9a-f]{2}){5}) > ([0-9a-f]{2}(?::[0-9a-f]{2}){5})/;
+// IPv6 addresses contain colons, so the destination runs up to the last colon before a space
+const ENDPOINTS_PATTERN = /^(\S+) > (\S+):(?: (.*)|$)/;
+
+// tcpdump writes "address.port"; IPv4 addresses are also dotted, so the split is checked with isIP
+function splitEndpoint(endpoint: string): { address: string; port?: number } {
+  if (net.isIP(endpoint)) return { address: endpoint };
+  const dot = endpoint.lastIndexOf('.');
+  const port = Number(endpoint.slice(dot + 1));
+  if (dot > 0 && net.isIP(endpoint.slice(0, dot)) && Number.isInteger(port)) {
+    return { address: endpoint.slice(0, dot), port };
+  }
+  return { address: endpoint };
+}
+
+function transportOf(detail: string): string | undefined {
+  if (/^tcp\b/.test(detail)) return 'tcp';
+  if (/^UDP\b/.test(detail)) return 'udp';
+  if (/^ICMP6\b/.test(detail)) return 'icmpv6';
+  if (/^ICMP\b/.test(detail)) return 'icmp';
+  if (/^IGMP\b/i.test(detail)) return 'igmp';
+  return undefined;
+}
+
+/**
+ * Parses one line of `tcpdump -tt -n -e -q` output. Returns undefined for lines that are not packets.
+ */
+export function parseTcpdumpLine(line: string): PacketSummary | undefined {
+  const match = LINE_PATTERN.exec(line.trim());
+  if (!match) return undefined;
+  const [, time, linkHeader, length, rest] = match;
+  const summary: PacketSummary = { time: Number(time), length: Number(length), protocols: [] };
+  const macs = MAC_PATTERN.exec(linkHeader);
+  if (macs) {
+    summary.sourceMac = macs[1];
+    summary.destinationMac = macs[2];
+    summary.protocols.push('eth');
+  }
+  if (/\bARP\b/.test(linkHeader)) {
+    summary.protocols.push('arp');
+    return summary;
+  }
+  const network = /\bIPv6\b/.test(linkHeader) ? 'ipv6' : /\bIPv4\b/.test(linkHeader) ? 'ip' : undefined;
+  if (!network) return summary;
+  summary.protocols.push(network);
+  const endpoints = ENDPOINTS_PATTERN.exec(rest);
+  if (!endpoints) return summary;
+  const source = splitEndpoint(endpoints[1]);
+  const destination = splitEndpoint(endpoints[2]);
+  summary.source = source.address;
+  summary.destination = destination.address;
+  summary.sourcePort = source.port;
+  summary.destinationPort = destination.port;
+  const transport = transportOf(endpoints[3] || '');
+  if (transport) summary.protocols.push(transport);
+  return summary;
+}
+
+/**
+ * Calls `onSummary` for each packet line tcpdump prints on `stdout`.
+ */
+export function readSummaries(stdout: Readable | null | undefined, onSummary: (summary: PacketSummary) => void) {
+  let partialLine = '';
+  stdout?.on('data', (data) => {
+    const lines = (partialLine + data).split('\n');
+    partialLine = lines.pop() || '';
+    for (const line of lines) {
+      const summary = parseTcpdumpLine(line);
+      if (summary) onSummary(summary);
+    }
+  });
+}
+
+/**
+ * Streams the summaries of `sessionId` (or of any capture) to `res` as NDJSON until the capture ends.
+ */
+export function addSubscriber(res: Response, sessionId?: string) {
+  const subscriber: Subscriber = { res, sessionId, dropped: 0 };
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.flushHeaders();
+  subscribers.add(subscriber);
+  res.on('close', () => subscribers.delete(subscriber));
+}
+
+/**
+ * Whether `subscriber` follows the feed of `sessionId`: a subscriber without a session follows every
+ * capture, but only ring subscribers follow the ring.
+ */
+function follows(subscriber: Subscriber, sessionId: string | undefined): boolean {
+  if (subscriber.sessionId === RING_FEED || sessionId === RING_FEED) return subscriber.sessionId === sessionId;
+  return !subscriber.sessionId || subscriber.sessionId === sessionId;
+}
+
+export function publish(sessionId: string | undefined, summary: PacketSummary) {
+  for (const subscriber of subscribers) {
+    if (!follows(subscriber, sessionId)) continue;
+    if (subscriber.res.writableNeedDrain) {
+      subscriber.dropped++;
+      continue;
+    }
+    subscriber.res.write(JSON.stringify(summary) + '\n');
+  }
+}
+
+/**
+ * Ends the streams of a capture that has finished.
+ */
+export function endSubscribers(sessionId: string | undefined) {
+  for (const subscriber of subscribers) {
+    if (!follows(subscriber, sessionId)) continue;
+    if (subscriber.dropped > 0) console.log(`Live subscriber missed ${subscriber.dropped} packets`);
+    subscriber.res.end();
+    subscribers.delete(subscriber);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * @file logger.ts
+ * @description Structured agent events. Each event is printed to the console and queued until a
+ * heartbeat delivers it to control, which stores it in the fleet's event log. When control is
+ * unreachable for long, the oldest queued events are dropped.
+ */
+
+export interface AgentEvent {
+  time: string;
+  event: string;
+  success?: boolean;
+  sessionId?: string;
+  command?: string;
+  durationMs?: number;
+  details?: string;
+}
+
+const MAX_QUEUED_EVENTS = 500;
+
+let queue: AgentEvent[] = [];
+let droppedEvents = 0;
+
+/**
+ * Logs an agent event.
+ * @param event - The event type, e.g. `Capture started`.
+ * @param details - Free-text details about the event.
+ * @param success - Whether the event was successful.
+ * @param fields - Session, command and duration the event relates to.
+ */
+export function logEvent(
+  event: string,
+  details?: string,
+  success?: boolean,
+  fields: { sessionId?: string; command?: string; durationMs?: number } = {}
+) {
+  const entry: AgentEvent = { time: new Date().toISOString(), event, success, ...fields, details };
+  console.log(JSON.stringify(entry));
+  queue.push(entry);
+  if (queue.length > MAX_QUEUED_EVENTS) {
+    queue.shift();
+    droppedEvents++;
+  }
+}
+
+/**
+ * Hands the queued events to the caller. Pass them back to `requeueEvents` if delivery fails.
+ */
+export function takeEvents(): AgentEvent[] {
+  const events = queue;
+  queue = [];
+  if (droppedEvents > 0) {
+    events.unshift({
+      time: new Date().toISOString(),
+      event: 'Events dropped',
+      success: false,
+      details: `${droppedEvents} events were dropped while control was unreachable`,
+    });
+    droppedEvents = 0;
+  }
+  return events;
+}
+
+export function requeueEvents(events: AgentEvent[]) {
+  queue = [...events, ...queue];
+  while (queue.length > MAX_QUEUED_EVENTS) {
+    queue.shift();
+    droppedEvents++;
+  }
+}
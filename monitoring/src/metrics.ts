@@ -0,0 +1,132 @@
+/**
+ * @file metrics.ts
+ * @description Minimal Prometheus registry rendered in the text exposition format (version 0.0.4):
+ * counters, gauges and histograms with labels, plus collectors that refresh gauges at scrape time.
+ * control/src/metrics.ts and monitoring/src/metrics.ts are identical copies (the two services share no
+ * package); change both together.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(value: number, labels?: Labels): void;
+  // Drops every series, e.g. before a collector re-reads the current state
+  reset(): void;
+}
+
+export interface Histogram {
+  observe(value: number, labels?: Labels): void;
+}
+
+export const DEFAULT_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+const metrics: Metric[] = [];
+const collectors = new Map<string, () => void | Promise<void>>();
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function labelKey(labels: Labels = {}): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  return entries.length === 0 ? '' : `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+function withLabel(key: string, name: string, value: string): string {
+  const label = `${name}="${value}"`;
+  return key === '' ? `{${label}}` : `${key.slice(0, -1)},${label}}`;
+}
+
+function register(metric: Metric) {
+  if (metrics.some((existing) => existing.name === metric.name)) throw new Error(`Metric already registered: ${metric.name}`);
+  metrics.push(metric);
+}
+
+export function counter(name: string, help: string): Counter {
+  const series = new Map<string, number>();
+  register({ name, help, type: 'counter', render: () => [...series].map(([key, value]) => `${name}${key} ${value}`) });
+  return {
+    inc(labels, value = 1) {
+      const key = labelKey(labels);
+      series.set(key, (series.get(key) || 0) + value);
+    },
+  };
+}
+
+export function gauge(name: string, help: string): Gauge {
+  const series = new Map<string, number>();
+  register({ name, help, type: 'gauge', render: () => [...series].map(([key, value]) => `${name}${key} ${value}`) });
+  return {
+    set(value, labels) {
+      series.set(labelKey(labels), value);
+    },
+    reset() {
+      series.clear();
+    },
+  };
+}
+
+export function histogram(name: string, help: string, buckets: number[] = DEFAULT_DURATION_BUCKETS): Histogram {
+  const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+  register({
+    name,
+    help,
+    type: 'histogram',
+    render: () => {
+      const lines: string[] = [];
+      for (const [key, { counts, sum, count }] of series) {
+        buckets.forEach((bound, i) => lines.push(`${name}_bucket${withLabel(key, 'le', String(bound))} ${counts[i]}`));
+        lines.push(`${name}_bucket${withLabel(key, 'le', '+Inf')} ${count}`);
+        lines.push(`${name}_sum${key} ${sum}`);
+        lines.push(`${name}_count${key} ${count}`);
+      }
+      return lines;
+    },
+  });
+  return {
+    observe(value, labels) {
+      const key = labelKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry!.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+}
+
+/**
+ * Registers a function run before every scrape, typically to set gauges from the current state.
+ * It replaces the collector registered before under `name`, so an app created again (as in tests)
+ * takes over its gauges instead of running next to the previous instance.
+ */
+export function setCollector(name: string, collect: () => void | Promise<void>) {
+  collectors.set(name, collect);
+}
+
+export async function renderMetrics(): Promise<string> {
+  for (const collect of collectors.values()) await collect();
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render());
+  }
+  return lines.join('\n') + '\n';
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mergeSegments, expiredSegments, Segment } from './ringBuffer';
+
+interface PcapRecord {
+  seconds: number;
+  // Microseconds, or nanoseconds in a nanosecond pcap
+  fraction: number;
+  length: number;
+}
+
+/**
+ * Builds a pcap file (Ethernet link type) whose records hold `length` bytes each.
+ */
+function pcap(records: PcapRecord[], { bigEndian = false, nanoseconds = false } = {}): Buffer {
+  const writeUInt32 = (buffer: Buffer, value: number, offset: number) =>
+    bigEndian ? buffer.writeUInt32BE(value, offset) : buffer.writeUInt32LE(value, offset);
+  const writeUInt16 = (buffer: Buffer, value: number, offset: number) =>
+    bigEndian ? buffer.writeUInt16BE(value, offset) : buffer.writeUInt16LE(value, offset);
+  const header = Buffer.alloc(24);
+  writeUInt32(header, nanoseconds ? 0xa1b23c4d : 0xa1b2c3d4, 0);
+  writeUInt16(header, 2, 4);
+  writeUInt16(header, 4, 6);
+  writeUInt32(header, 262144, 16);
+  writeUInt32(header, 1, 20);
+  const parts = [header];
+  for (const { seconds, fraction, length } of records) {
+    const record = Buffer.alloc(16 + length, 0xab);
+    writeUInt32(record, seconds, 0);
+    writeUInt32(record, fraction, 4);
+    writeUInt32(record, length, 8);
+    writeUInt32(record, length, 12);
+    parts.push(record);
+  }
+  return Buffer.concat(parts);
+}
+
+describe('mergeSegments', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ring-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const segment = (name: string, data: Buffer) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, data);
+    return file;
+  };
+
+  it('should write the header once, then the complete records of every segment', async () => {
+    const older = pcap([{ seconds: 1735732800, fraction: 500000, length: 60 }, { seconds: 1735732801, fraction: 0, length: 74 }]);
+    // The newest segment ends with a record cut short by tcpdump exiting
+    const newer = pcap([{ seconds: 1735732810, fraction: 250000, length: 60 }, { seconds: 1735732811, fraction: 0, length: 100 }]);
+    const files = [segment('ring-1.pcap', older), segment('ring-2.pcap', Buffer.alloc(10)), segment('ring-3.pcap', newer.subarray(0, newer.length - 40))];
+    const output = path.join(dir, 'merged.pcap');
+
+    expect(await mergeSegments(files, output)).toEqual({
+      packetCount: 3,
+      firstPacketTime: '2025-01-01T12:00:00.500Z',
+      lastPacketTime: '2025-01-01T12:00:10.250Z',
+    });
+    expect(fs.readFileSync(output).equals(Buffer.concat([older, newer.subarray(24, 24 + 16 + 60)]))).toBe(true);
+  });
+
+  it('should read big-endian and nanosecond captures', async () => {
+    const data = pcap([{ seconds: 1735732800, fraction: 5e8, length: 42 }], { bigEndian: true, nanoseconds: true });
+    const output = path.join(dir, 'merged.pcap');
+    expect(await mergeSegments([segment('ring-1.pcap', data)], output)).toMatchObject({ packetCount: 1, firstPacketTime: '2025-01-01T12:00:00.500Z' });
+    expect(fs.readFileSync(output).equals(data)).toBe(true);
+  });
+
+  it('should keep records split across reads whole', async () => {
+    // Larger records than the chunks segments are read in
+    const data = pcap([0, 1, 2].map((index) => ({ seconds: 1735732800 + index, fraction: 0, length: 700000 })));
+    const output = path.join(dir, 'merged.pcap');
+    expect((await mergeSegments([segment('ring-1.pcap', data)], output)).packetCount).toBe(3);
+    expect(fs.readFileSync(output).equals(data)).toBe(true);
+  });
+
+  it('should write an empty file when no segment holds a header', async () => {
+    const output = path.join(dir, 'merged.pcap');
+    expect(await mergeSegments([segment('ring-1.pcap', Buffer.alloc(0))], output)).toEqual({ packetCount: 0 });
+    expect(fs.statSync(output).size).toBe(0);
+  });
+});
+
+describe('expiredSegments', () => {
+  const NOW = Date.parse('2025-01-01T12:10:00Z');
+  // Segments started `secondsAgo` before NOW, oldest first
+  const segments = (...entries: [secondsAgo: number, size: number][]): Segment[] =>
+    entries.map(([secondsAgo, size]) => ({ file: `ring-${secondsAgo}.pcap`, startedAt: NOW - secondsAgo * 1000, size }));
+  const names = (expired: Segment[]) => expired.map((segment) => segment.file);
+
+  it('should drop the segments that ended before the window', () => {
+    const ring = segments([300, 10], [200, 10], [100, 10], [5, 10]);
+    // ring-200 ended 100 s ago, when ring-100 started: inside a 150 s window
+    expect(names(expiredSegments(ring, { windowSeconds: 150 }, NOW))).toEqual(['ring-300.pcap']);
+    expect(names(expiredSegments(ring, { windowSeconds: 100 }, NOW))).toEqual(['ring-300.pcap', 'ring-200.pcap']);
+  });
+
+  it('should drop the oldest segments while the ring is over its size', () => {
+    const ring = segments([30, 400], [20, 300], [10, 200]);
+    expect(names(expiredSegments(ring, { maxBytes: 600 }, NOW))).toEqual(['ring-30.pcap']);
+    expect(names(expiredSegments(ring, { maxBytes: 900 }, NOW))).toEqual([]);
+    // After the window, the size still applies to what is left
+    expect(names(expiredSegments(ring, { windowSeconds: 3600, maxBytes: 250 }, NOW))).toEqual(['ring-30.pcap', 'ring-20.pcap']);
+  });
+
+  it('should always keep the segment still being written', () => {
+    const ring = segments([600, 10], [500, 5000]);
+    expect(names(expiredSegments(ring, { windowSeconds: 60, maxBytes: 100 }, NOW))).toEqual(['ring-600.pcap']);
+    expect(expiredSegments(segments([600, 5000]), { windowSeconds: 60, maxBytes: 100 }, NOW)).toEqual([]);
+    expect(expiredSegments([], { windowSeconds: 60 }, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * @file ringBuffer.ts
+ * @description The agent's flight recorder: a tcpdump that runs continuously and starts a new segment file
+ * every few seconds (`-G`), while the agent deletes the segments that fall out of the ring's window or push
+ * it over its size. A snapshot stops tcpdump, joins the segments left into one capture file for a session
+ * and starts a fresh ring, so control can collect what happened just before an incident without anyone
+ * recording all day.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ChildProcess } from 'child_process';
+import { CaptureOptions, RingOptions, SpawnProcess, ringSegmentSeconds, ringTcpdumpArgs } from './captureOptions';
+import { readSummaries, publish, endSubscribers, RING_FEED } from './liveFeed';
+import { logEvent } from './logger';
+
+export interface RingRecorderDependencies {
+  // Directory the segments are written to; nothing else should live there
+  dir: string;
+  spawn: SpawnProcess;
+  // How long a snapshot waits for tcpdump to exit after SIGINT before killing it
+  stopTimeoutMs: number;
+  // Describes why the data volume is too full to record, or returns undefined when there is room
+  lowDiskSpace: () => Promise<string | undefined>;
+}
+
+/**
+ * What the agent reports about a running ring with its heartbeats and `/status`.
+ */
+export interface RingState {
+  running: true;
+  windowSeconds?: number;
+  maxBytes?: number;
+  segmentSeconds: number;
+  filter: string;
+  startedAt: string;
+  segments: number;
+  bytes: number;
+  // Start of the oldest segment kept, i.e. how far back a snapshot would reach
+  oldestSegmentAt?: string;
+}
+
+/**
+ * The capture file a snapshot wrote, with how the ring's tcpdump exited.
+ */
+export interface RingSnapshot {
+  file: string;
+  pid?: number;
+  exitCode: number | null;
+  signal: string | null;
+  killed?: boolean;
+  // Tail of tcpdump's stderr, which holds its counters
+  stderr: string;
+  segments: number;
+  packetCount: number;
+  firstPacketTime?: string;
+  lastPacketTime?: string;
+}
+
+export interface RingRecorder {
+  start(capture: CaptureOptions, ring: RingOptions): void;
+  stop(): Promise<void>;
+  snapshot(outputFile: string): Promise<RingSnapshot>;
+  // Undefined while the ring is not running
+  state(): RingState | undefined;
+}
+
+/**
+ * Refused ring operations: starting a ring twice, stopping or snapshotting one that is not running, or
+ * one that is busy with another snapshot.
+ */
+export class RingBufferError extends Error {}
+
+export interface Segment {
+  file: string;
+  // Epoch milliseconds tcpdump started writing it, from its name
+  startedAt: number;
+  size: number;
+}
+
+interface RingExit {
+  pid?: number;
+  code: number | null;
+  signal: string | null;
+  killed?: boolean;
+  stderr: string;
+}
+
+const SEGMENT_PATTERN = /^ring-(\d+)\.pcap$/;
+const PRUNE_INTERVAL_MS = 1000;
+
+const PCAP_HEADER_BYTES = 24;
+const RECORD_HEADER_BYTES = 16;
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * Reads the byte order and timestamp resolution of a pcap file from its magic number.
+ */
+function pcapFormat(header: Buffer): { littleEndian: boolean; ticksPerSecond: number } | undefined {
+  switch (header.readUInt32LE(0)) {
+    case 0xa1b2c3d4:
+      return { littleEndian: true, ticksPerSecond: 1e6 };
+    case 0xd4c3b2a1:
+      return { littleEndian: false, ticksPerSecond: 1e6 };
+    case 0xa1b23c4d:
+      return { littleEndian: true, ticksPerSecond: 1e9 };
+    case 0x4d3cb2a1:
+      return { littleEndian: false, ticksPerSecond: 1e9 };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Joins pcap segments written by the same tcpdump into `outputFile`: the first file header, then the
+ * packet records of every segment. A record cut short by tcpdump exiting is left out, as are segments
+ * too short to hold a header. Segments are streamed in chunks, so a ring bounded only by its window
+ * does not have to fit in memory.
+ */
+export async function mergeSegments(
+  files: string[],
+  outputFile: string
+): Promise<{ packetCount: number; firstPacketTime?: string; lastPacketTime?: string }> {
+  const output = await fs.promises.open(outputFile, 'w');
+  const chunk = Buffer.alloc(READ_CHUNK_BYTES);
+  let packetCount = 0;
+  let first: number | undefined;
+  let last: number | undefined;
+  let headerWritten = false;
+  try {
+    for (const file of files) {
+      const input = await fs.promises.open(file, 'r');
+      try {
+        let format: { littleEndian: boolean; ticksPerSecond: number } | undefined;
+        // Bytes read but not written yet: the file header, or the start of a record split across reads
+        let pending = Buffer.alloc(0);
+        for (;;) {
+          const { bytesRead } = await input.read(chunk, 0, READ_CHUNK_BYTES, null);
+          if (bytesRead === 0) break;
+          pending = Buffer.concat([pending, chunk.subarray(0, bytesRead)]);
+          if (!format) {
+            if (pending.length < PCAP_HEADER_BYTES) continue;
+            format = pcapFormat(pending);
+            if (!format) break;
+            if (!headerWritten) await output.write(pending, 0, PCAP_HEADER_BYTES);
+            headerWritten = true;
+            pending = pending.subarray(PCAP_HEADER_BYTES);
+          }
+          const { littleEndian, ticksPerSecond } = format;
+          const readUInt32 = (offset: number) => (littleEndian ? pending.readUInt32LE(offset) : pending.readUInt32BE(offset));
+          let offset = 0;
+          while (offset + RECORD_HEADER_BYTES <= pending.length) {
+            const end = offset + RECORD_HEADER_BYTES + readUInt32(offset + 8);
+            if (end > pending.length) break;
+            const time = readUInt32(offset) + readUInt32(offset + 4) / ticksPerSecond;
+            first = first ?? time;
+            last = time;
+            packetCount++;
+            offset = end;
+          }
+          if (offset > 0) await output.write(pending, 0, offset);
+          pending = pending.subarray(offset);
+        }
+      } finally {
+        await input.close();
+      }
+    }
+  } finally {
+    await output.close();
+  }
+  const iso = (time: number | undefined) => (time === undefined ? undefined : new Date(time * 1000).toISOString());
+  return { packetCount, firstPacketTime: iso(first), lastPacketTime: iso(last) };
+}
+
+/**
+ * Picks the segments (sorted oldest first) to delete at `now`: those that ended before the window, then
+ * the oldest ones while the ring is over its size. A segment ends where the next one starts; the newest
+ * one, still being written, is always kept.
+ */
+export function expiredSegments(segments: Segment[], ring: RingOptions, now: number): Segment[] {
+  const { windowSeconds, maxBytes } = ring;
+  let kept = 0;
+  while (kept < segments.length - 1 && windowSeconds !== undefined && segments[kept + 1].startedAt <= now - windowSeconds * 1000) {
+    kept++;
+  }
+  let bytes = segments.slice(kept).reduce((sum, segment) => sum + segment.size, 0);
+  while (kept < segments.length - 1 && maxBytes !== undefined && bytes > maxBytes) {
+    bytes -= segments[kept].size;
+    kept++;
+  }
+  return segments.slice(0, kept);
+}
+
+function waitFor<T>(promise: Promise<T>, ms: number): Promise<T | undefined> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(undefined), ms);
+    promise.then((value) => {
+      clearTimeout(timer);
+      resolve(value);
+    });
+  });
+}
+
+/**
+ * Creates the agent's ring recorder. It runs at most one ring, next to (and independent of) a session capture.
+ */
+export function createRingRecorder(deps: RingRecorderDependencies): RingRecorder {
+  let tcpdump: ChildProcess | null = null;
+  let closed: Promise<RingExit> | null = null;
+  let capture: CaptureOptions | undefined;
+  let ring: RingOptions | undefined;
+  let segmentSeconds = 10;
+  let startedAt: string | undefined;
+  let pruneTimer: NodeJS.Timeout | null = null;
+  // Set while a snapshot or a stop has tcpdump exit on purpose
+  let busy = false;
+  let checkingDisk = false;
+
+  function listSegments(): Segment[] {
+    if (!fs.existsSync(deps.dir)) return [];
+    const segments: Segment[] = [];
+    for (const name of fs.readdirSync(deps.dir)) {
+      const match = SEGMENT_PATTERN.exec(name);
+      if (!match) continue;
+      const file = path.join(deps.dir, name);
+      segments.push({ file, startedAt: Number(match[1]) * 1000, size: fs.statSync(file).size });
+    }
+    return segments.sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  // Deletes the segments out of the ring's window or size (see expiredSegments)
+  function prune(now: number = Date.now()) {
+    if (!ring) return;
+    for (const segment of expiredSegments(listSegments(), ring, now)) fs.rmSync(segment.file, { force: true });
+  }
+
+  function tick() {
+    if (busy || !tcpdump) return;
+    try {
+      prune();
+    } catch (err) {
+      console.error(`Failed to prune the ring buffer: ${err}`);
+    }
+    if (checkingDisk) return;
+    checkingDisk = true;
+    deps
+      .lowDiskSpace()
+      .then(async (reason) => {
+        if (!reason || busy || !tcpdump) return;
+        logEvent('Disk space low', `Stopping the ring buffer: ${reason}`, false);
+        await stop();
+      })
+      .catch((err) => console.error(`Failed to stop the ring buffer: ${err}`))
+      .finally(() => {
+        checkingDisk = false;
+      });
+  }
+
+  function stopPruning() {
+    if (pruneTimer) clearInterval(pruneTimer);
+    pruneTimer = null;
+  }
+
+  function reset(removeSegments: boolean) {
+    stopPruning();
+    capture = undefined;
+    ring = undefined;
+    startedAt = undefined;
+    if (removeSegments) fs.rmSync(deps.dir, { recursive: true, force: true });
+    endSubscribers(RING_FEED);
+  }
+
+  function launch() {
+    fs.mkdirSync(deps.dir, { recursive: true });
+    const args = ringTcpdumpArgs(capture!, path.join(deps.dir, 'ring-%s.pcap'), segmentSeconds);
+    const child = deps.spawn('tcpdump', args);
+    tcpdump = child;
+    startedAt = new Date().toISOString();
+    let stderrTail = '';
+    readSummaries(child.stdout, (summary) => publish(RING_FEED, summary));
+    child.stderr?.on('data', (data) => {
+      console.error(`tcpdump stderr: ${data}`);
+      stderrTail = (stderrTail + data).slice(-4096);
+    });
+    closed = new Promise((resolve) => {
+      child.on('close', (code, signal) => {
+        if (tcpdump === child) {
+          tcpdump = null;
+          closed = null;
+        }
+        resolve({ pid: child.pid, code, signal, stderr: stderrTail });
+        if (busy) return;
+        // Exited on its own: keep the segments until the next start or stop
+        logEvent('Ring buffer failed', `tcpdump ${child.pid} exited with code ${code}: ${stderrTail.trim()}`, false, {
+          command: `tcpdump ${args.join(' ')}`,
+        });
+        reset(false);
+      });
+    });
+    pruneTimer = setInterval(tick, PRUNE_INTERVAL_MS);
+    logEvent('Ring buffer started', `Pid: ${child.pid}`, true, { command: `tcpdump ${args.join(' ')}` });
+  }
+
+  // Stops tcpdump with SIGINT so it flushes its last segment, or kills it when it does not exit in time
+  async function halt(): Promise<RingExit> {
+    const child = tcpdump!;
+    const exited = closed!;
+    stopPruning();
+    child.kill('SIGINT');
+    let exit = await waitFor(exited, deps.stopTimeoutMs);
+    if (!exit) {
+      logEvent('Ring buffer killed', `tcpdump ${child.pid} did not exit within ${deps.stopTimeoutMs} ms`, false);
+      child.kill('SIGKILL');
+      exit = await waitFor(exited, 2000);
+      if (exit) exit.killed = true;
+    }
+    if (!exit) throw new Error('tcpdump did not exit.');
+    return exit;
+  }
+
+  function ensureIdle() {
+    if (!tcpdump) throw new RingBufferError('The ring buffer is not running.');
+    if (busy) throw new RingBufferError('The ring buffer is busy with a snapshot.');
+  }
+
+  function start(captureOptions: CaptureOptions, ringOptions: RingOptions) {
+    if (tcpdump) throw new RingBufferError('The ring buffer is already running.');
+    // Segments left by a ring that failed
+    fs.rmSync(deps.dir, { recursive: true, force: true });
+    capture = captureOptions;
+    ring = ringOptions;
+    segmentSeconds = ringSegmentSeconds(ringOptions);
+    launch();
+  }
+
+  async function stop(): Promise<void> {
+    ensureIdle();
+    busy = true;
+    try {
+      await halt();
+      logEvent('Ring buffer stopped', undefined, true);
+    } finally {
+      busy = false;
+      reset(true);
+    }
+  }
+
+  async function snapshot(outputFile: string): Promise<RingSnapshot> {
+    ensureIdle();
+    busy = true;
+    try {
+      const exit = await halt();
+      prune();
+      const segments = listSegments();
+      fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+      const merged = await mergeSegments(segments.map((segment) => segment.file), outputFile);
+      for (const segment of segments) fs.rmSync(segment.file, { force: true });
+      return {
+        file: outputFile,
+        pid: exit.pid,
+        exitCode: exit.code,
+        signal: exit.signal,
+        killed: exit.killed,
+        stderr: exit.stderr,
+        segments: segments.length,
+        ...merged,
+      };
+    } finally {
+      busy = false;
+      // Record on into a fresh ring, unless tcpdump could not be stopped or the disk is full
+      if (capture && !tcpdump) {
+        const lowSpace = await deps.lowDiskSpace();
+        if (lowSpace) {
+          logEvent('Disk space low', `Not restarting the ring buffer: ${lowSpace}`, false);
+          reset(true);
+        } else {
+          launch();
+        }
+      }
+    }
+  }
+
+  function state(): RingState | undefined {
+    // Still running while a snapshot restarts tcpdump
+    if (!ring || !capture || !startedAt) return undefined;
+    const segments = listSegments();
+    return {
+      running: true,
+      windowSeconds: ring.windowSeconds,
+      maxBytes: ring.maxBytes,
+      segmentSeconds,
+      filter: capture.filter,
+      startedAt,
+      segments: segments.length,
+      bytes: segments.reduce((sum, segment) => sum + segment.size, 0),
+      oldestSegmentAt: segments.length > 0 ? new Date(segments[0].startedAt).toISOString() : undefined,
+    };
+  }
+
+  return { start, stop, snapshot, state };
+}